@@ -0,0 +1,15 @@
+-- OpenClaw D1 Schema Migration: Agent run progress events
+-- Backs GET /agents/runs/:id/events; seq doubles as the SSE event id for Last-Event-ID replay
+
+-- 10. AGENT_RUN_EVENT
+CREATE TABLE IF NOT EXISTS agent_run_event (
+  agent_run_id TEXT NOT NULL REFERENCES agent_run(id) ON DELETE CASCADE,
+  seq INTEGER NOT NULL,                          -- 1-based, increasing per run
+  event_type TEXT NOT NULL CHECK (event_type IN ('progress', 'complete', 'error')),
+  stage TEXT NOT NULL DEFAULT '',                -- e.g. 'hooks', 'youtube-search'
+  message TEXT NOT NULL DEFAULT '',
+  progress INTEGER NOT NULL DEFAULT 0,           -- 0-100
+  detail_json TEXT,
+  created_at TEXT NOT NULL DEFAULT (datetime('now')),
+  PRIMARY KEY (agent_run_id, seq)
+);
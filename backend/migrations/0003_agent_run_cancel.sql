@@ -0,0 +1,4 @@
+-- OpenClaw D1 Schema Migration: Cross-isolate run cancellation
+-- The cancel route sets the flag; the isolate executing the run polls it between agent steps
+
+ALTER TABLE agent_run ADD COLUMN cancel_requested_at TEXT;
@@ -0,0 +1,9 @@
+-- OpenClaw D1 Schema Migration: Queued agent execution
+-- Runs are executed by the openclaw-agent-runs queue consumer. attempts counts
+-- deliveries that claimed the run; dead_lettered_at marks a failed run whose
+-- retries were exhausted. It is a flag on status='failed' rather than a new
+-- status because changing the status CHECK would mean rebuilding agent_run,
+-- and dropping the old table cascades to its usage logs and events.
+
+ALTER TABLE agent_run ADD COLUMN attempts INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE agent_run ADD COLUMN dead_lettered_at TEXT;
@@ -0,0 +1,4 @@
+-- OpenClaw D1 Schema Migration: Look up credit transactions by run
+-- The stale-run reaper matches reservations to settlements per agent run
+
+CREATE INDEX IF NOT EXISTS idx_credit_transaction_agent_run_id ON credit_transaction(agent_run_id);
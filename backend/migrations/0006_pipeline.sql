@@ -0,0 +1,61 @@
+-- OpenClaw D1 Schema Migration: Multi-step agent pipelines
+-- A pipeline chains the user's agent configs; each step executes as an ordinary
+-- agent_run (tagged with pipeline_run_id) while the pipeline run holds a single
+-- credit reservation covering all of its steps.
+
+-- 11. PIPELINE
+CREATE TABLE IF NOT EXISTS pipeline (
+  id TEXT PRIMARY KEY,                           -- ULID
+  user_id TEXT NOT NULL REFERENCES user(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  description TEXT NOT NULL DEFAULT '',
+  steps_json TEXT NOT NULL DEFAULT '[]',         -- PipelineStep[]
+  status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'archived')),
+  created_at TEXT NOT NULL DEFAULT (datetime('now')),
+  updated_at TEXT NOT NULL DEFAULT (datetime('now'))
+);
+
+CREATE INDEX idx_pipeline_user_id ON pipeline(user_id);
+
+-- 12. PIPELINE_RUN
+CREATE TABLE IF NOT EXISTS pipeline_run (
+  id TEXT PRIMARY KEY,                           -- ULID
+  pipeline_id TEXT NOT NULL REFERENCES pipeline(id) ON DELETE CASCADE,
+  user_id TEXT NOT NULL REFERENCES user(id) ON DELETE CASCADE,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'running', 'completed', 'failed', 'cancelled')),
+  steps_json TEXT NOT NULL,                      -- definition snapshot, so edits don't affect resumes
+  params_json TEXT NOT NULL DEFAULT '{}',        -- per-step param overrides keyed by step id
+  current_step INTEGER NOT NULL DEFAULT 0,
+  credits_reserved INTEGER NOT NULL DEFAULT 0,   -- reservation currently held (0 once settled)
+  reservation_start_step INTEGER NOT NULL DEFAULT 0, -- first step the held reservation covers
+  credits_actual INTEGER NOT NULL DEFAULT 0,     -- charged across all settlements
+  error_message TEXT,
+  started_at TEXT,
+  completed_at TEXT,
+  created_at TEXT NOT NULL DEFAULT (datetime('now'))
+);
+
+CREATE INDEX idx_pipeline_run_pipeline_id ON pipeline_run(pipeline_id);
+CREATE INDEX idx_pipeline_run_user_id ON pipeline_run(user_id);
+CREATE INDEX idx_pipeline_run_status ON pipeline_run(status);
+
+-- 13. PIPELINE_RUN_STEP
+CREATE TABLE IF NOT EXISTS pipeline_run_step (
+  pipeline_run_id TEXT NOT NULL REFERENCES pipeline_run(id) ON DELETE CASCADE,
+  step_index INTEGER NOT NULL,
+  step_id TEXT NOT NULL,
+  agent_config_id TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'running', 'completed', 'failed', 'cancelled')),
+  agent_run_id TEXT REFERENCES agent_run(id) ON DELETE SET NULL, -- latest execution of the step
+  credits_actual INTEGER,
+  error_message TEXT,
+  started_at TEXT,
+  completed_at TEXT,
+  PRIMARY KEY (pipeline_run_id, step_index)
+);
+
+ALTER TABLE agent_run ADD COLUMN pipeline_run_id TEXT REFERENCES pipeline_run(id) ON DELETE SET NULL;
+CREATE INDEX idx_agent_run_pipeline_run_id ON agent_run(pipeline_run_id);
+
+-- Pipeline reservations and settlements are recorded against the pipeline run
+ALTER TABLE credit_transaction ADD COLUMN pipeline_run_id TEXT;
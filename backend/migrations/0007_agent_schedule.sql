@@ -0,0 +1,28 @@
+-- OpenClaw D1 Schema Migration: Scheduled agent runs
+-- A schedule runs an agent config on a cron expression evaluated in the
+-- schedule's timezone. The scheduled handler starts due runs through the
+-- normal run path (credit pre-check, queue, reservation) and pauses the
+-- schedule after repeated failures or when the user runs out of credits.
+
+-- 14. AGENT_SCHEDULE
+CREATE TABLE IF NOT EXISTS agent_schedule (
+  id TEXT PRIMARY KEY,                           -- ULID
+  agent_config_id TEXT NOT NULL REFERENCES agent_config(id) ON DELETE CASCADE,
+  user_id TEXT NOT NULL REFERENCES user(id) ON DELETE CASCADE,
+  cron_expression TEXT NOT NULL,                 -- 5-field cron: minute hour day-of-month month day-of-week
+  timezone TEXT NOT NULL DEFAULT 'Asia/Seoul',   -- IANA zone the expression is evaluated in
+  params_json TEXT NOT NULL DEFAULT '{}',        -- params passed to every run
+  enabled INTEGER NOT NULL DEFAULT 1,
+  next_run_at TEXT,                              -- ISO 8601 UTC; NULL when disabled or no future occurrence
+  last_run_at TEXT,
+  last_run_id TEXT REFERENCES agent_run(id) ON DELETE SET NULL,
+  consecutive_failures INTEGER NOT NULL DEFAULT 0,
+  paused_reason TEXT CHECK (paused_reason IN ('failures', 'insufficient_credits', 'config_inactive')),
+  created_at TEXT NOT NULL DEFAULT (datetime('now')),
+  updated_at TEXT NOT NULL DEFAULT (datetime('now'))
+);
+
+CREATE INDEX idx_agent_schedule_config_id ON agent_schedule(agent_config_id);
+CREATE INDEX idx_agent_schedule_due ON agent_schedule(enabled, next_run_at);
+
+ALTER TABLE agent_run ADD COLUMN schedule_id TEXT REFERENCES agent_schedule(id) ON DELETE SET NULL;
@@ -0,0 +1,22 @@
+-- OpenClaw D1 Schema Migration: Idempotency keys
+-- Mutating routes that take an Idempotency-Key header record the key per user
+-- with a hash of the request and, once it succeeds, its response. A retry with
+-- the same key replays that response instead of repeating the side effects
+-- (a second agent run and reservation, a second payment order).
+
+-- 15. IDEMPOTENCY_KEY
+CREATE TABLE IF NOT EXISTS idempotency_key (
+  user_id TEXT NOT NULL REFERENCES user(id) ON DELETE CASCADE,
+  idempotency_key TEXT NOT NULL,
+  request_method TEXT NOT NULL,
+  request_path TEXT NOT NULL,
+  request_hash TEXT NOT NULL,                    -- SHA-256 hex of method, path and body
+  status TEXT NOT NULL DEFAULT 'in_progress' CHECK (status IN ('in_progress', 'completed')),
+  response_status INTEGER,
+  response_body TEXT,
+  created_at TEXT NOT NULL DEFAULT (datetime('now')),
+  completed_at TEXT,
+  PRIMARY KEY (user_id, idempotency_key)
+);
+
+CREATE INDEX idx_idempotency_key_created_at ON idempotency_key(created_at);
@@ -0,0 +1,7 @@
+-- OpenClaw D1 Schema Migration: Re-runs and forks
+-- A run started from an earlier run (re-run with the same input, or fork with
+-- edited params) records that run as its parent, so versions of an output can
+-- be traced and compared.
+
+ALTER TABLE agent_run ADD COLUMN parent_run_id TEXT REFERENCES agent_run(id) ON DELETE SET NULL;
+CREATE INDEX idx_agent_run_parent_run_id ON agent_run(parent_run_id);
@@ -0,0 +1,17 @@
+-- OpenClaw D1 Schema Migration: Approval before publishing
+-- Agents that publish externally (cross-platform-poster) stop after building
+-- what they will post and wait for the user to approve or reject it. Credits
+-- are only reserved once the run resumes after approval.
+--
+-- A run awaiting approval keeps status='pending' with approval_status='pending'
+-- and is shown to clients as awaiting_approval; as with dead_lettered_at, this
+-- avoids rebuilding agent_run to change its status CHECK. Approval re-queues
+-- the run; rejection cancels it, and the cron trigger expires approvals left
+-- pending past approval_expires_at.
+
+ALTER TABLE agent_run ADD COLUMN approval_status TEXT CHECK (approval_status IN ('pending', 'approved', 'rejected', 'expired'));
+ALTER TABLE agent_run ADD COLUMN approval_preview_json TEXT;   -- what the run will publish once approved
+ALTER TABLE agent_run ADD COLUMN approval_expires_at TEXT;
+ALTER TABLE agent_run ADD COLUMN approval_decided_at TEXT;
+
+CREATE INDEX idx_agent_run_approval_expires_at ON agent_run(approval_expires_at) WHERE approval_status = 'pending';
@@ -0,0 +1,19 @@
+-- OpenClaw D1 Schema Migration: Artifacts
+-- Objects agents store in R2 (thumbnails and the like) are recorded per user,
+-- so they can be listed, downloaded, deleted and counted toward the user's
+-- storage quota. Keys live under the user's sandbox prefix (users/{userId}/);
+-- runs that stored an artifact keep it when the run row goes away.
+
+-- 16. ARTIFACT
+CREATE TABLE IF NOT EXISTS artifact (
+  id TEXT PRIMARY KEY,                           -- ULID
+  user_id TEXT NOT NULL REFERENCES user(id) ON DELETE CASCADE,
+  agent_run_id TEXT REFERENCES agent_run(id) ON DELETE SET NULL,
+  r2_key TEXT NOT NULL UNIQUE,
+  content_type TEXT NOT NULL,
+  size_bytes INTEGER NOT NULL CHECK (size_bytes >= 0),
+  created_at TEXT NOT NULL DEFAULT (datetime('now'))
+);
+
+CREATE INDEX idx_artifact_user_id_created_at ON artifact(user_id, created_at);
+CREATE INDEX idx_artifact_agent_run_id ON artifact(agent_run_id);
@@ -0,0 +1,25 @@
+-- OpenClaw D1 Schema Migration: Media uploads
+-- Users upload videos (and images) for agents such as cross-platform-poster
+-- with an R2 multipart upload under their sandbox prefix. Each upload is
+-- recorded here with the metadata the client read from the file; once
+-- completed the object is also recorded as an artifact, so it counts toward
+-- the storage quota. R2 discards multipart uploads that are never completed.
+
+-- 17. MEDIA
+CREATE TABLE IF NOT EXISTS media (
+  id TEXT PRIMARY KEY,                           -- ULID
+  user_id TEXT NOT NULL REFERENCES user(id) ON DELETE CASCADE,
+  r2_key TEXT NOT NULL UNIQUE,
+  upload_id TEXT NOT NULL,                       -- R2 multipart upload id
+  filename TEXT NOT NULL,
+  content_type TEXT NOT NULL,
+  size_bytes INTEGER NOT NULL CHECK (size_bytes >= 0),  -- declared at creation, actual once completed
+  duration_seconds REAL,
+  width INTEGER,
+  height INTEGER,
+  status TEXT NOT NULL DEFAULT 'uploading' CHECK (status IN ('uploading', 'ready', 'aborted')),
+  created_at TEXT NOT NULL DEFAULT (datetime('now')),
+  completed_at TEXT
+);
+
+CREATE INDEX idx_media_user_id_status ON media(user_id, status, created_at);
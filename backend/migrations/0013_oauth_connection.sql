@@ -0,0 +1,28 @@
+-- OpenClaw D1 Schema Migration: Connected accounts
+-- Users connect a Google account (YouTube upload and analytics) and a Meta
+-- account (Instagram Graph) once, and agents publish and read insights with
+-- those credentials instead of tokens passed in run params. Tokens are
+-- encrypted with AES-GCM before they are stored (utils/crypto.ts) and are
+-- refreshed when a run needs them or, for Meta, by the cron trigger before
+-- they lapse. A connection whose refresh fails is marked expired until the
+-- user reconnects.
+
+-- 18. OAUTH_CONNECTION
+CREATE TABLE IF NOT EXISTS oauth_connection (
+  id TEXT PRIMARY KEY,                           -- ULID
+  user_id TEXT NOT NULL REFERENCES user(id) ON DELETE CASCADE,
+  provider TEXT NOT NULL CHECK (provider IN ('google', 'meta')),
+  external_account_id TEXT NOT NULL,             -- YouTube channel id or Instagram business account id
+  account_name TEXT,
+  scopes TEXT NOT NULL,                          -- space-separated, as granted
+  access_token_encrypted TEXT NOT NULL,
+  refresh_token_encrypted TEXT,                  -- Google only; Meta re-exchanges its long-lived token
+  token_expires_at TEXT,
+  status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'expired')),
+  last_error TEXT,
+  created_at TEXT NOT NULL DEFAULT (datetime('now')),
+  updated_at TEXT NOT NULL DEFAULT (datetime('now')),
+  UNIQUE (user_id, provider)
+);
+
+CREATE INDEX idx_oauth_connection_expiry ON oauth_connection(provider, token_expires_at) WHERE status = 'active';
@@ -0,0 +1,16 @@
+-- OpenClaw D1 Schema Migration: LLM cache statistics
+-- Agent LLM calls go through Cloudflare AI Gateway, which caches identical
+-- cacheable prompts. Each run adds its call counts here, per agent and UTC
+-- day, so the cache hit rate can be measured against the 30% target.
+
+-- 19. LLM_CACHE_STAT
+CREATE TABLE IF NOT EXISTS llm_cache_stat (
+  agent_id TEXT NOT NULL,
+  day TEXT NOT NULL,                             -- YYYY-MM-DD (UTC)
+  requests INTEGER NOT NULL DEFAULT 0,           -- all LLM calls
+  cacheable_requests INTEGER NOT NULL DEFAULT 0, -- calls sent with a cache TTL
+  cache_hits INTEGER NOT NULL DEFAULT 0,
+  PRIMARY KEY (agent_id, day)
+);
+
+CREATE INDEX idx_llm_cache_stat_day ON llm_cache_stat(day);
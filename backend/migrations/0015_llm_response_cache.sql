@@ -0,0 +1,23 @@
+-- OpenClaw D1 Schema Migration: LLM response cache
+-- Cacheable agent LLM calls (same provider, model, messages and temperature)
+-- are answered from here until the entry expires, without calling the
+-- provider. Usage logs flag those calls as cached and charge no credits for
+-- them, so users can see what the cache saved.
+
+-- 20. LLM_RESPONSE_CACHE
+CREATE TABLE IF NOT EXISTS llm_response_cache (
+  cache_key TEXT PRIMARY KEY,                    -- SHA-256 of the request (gateway/prompt-cache.ts)
+  provider TEXT NOT NULL,
+  model TEXT NOT NULL,                           -- model that produced the response
+  content TEXT NOT NULL,
+  input_tokens INTEGER NOT NULL DEFAULT 0,
+  output_tokens INTEGER NOT NULL DEFAULT 0,
+  hits INTEGER NOT NULL DEFAULT 0,
+  created_at TEXT NOT NULL DEFAULT (datetime('now')),
+  expires_at TEXT NOT NULL
+);
+
+CREATE INDEX idx_llm_response_cache_expires_at ON llm_response_cache(expires_at);
+
+-- Usage entries answered from the cache
+ALTER TABLE usage_log ADD COLUMN cached INTEGER NOT NULL DEFAULT 0;
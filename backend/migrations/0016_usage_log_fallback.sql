@@ -0,0 +1,8 @@
+-- OpenClaw D1 Schema Migration: LLM fallback in usage logs
+-- Agent LLM calls follow a routing policy (agents/gateway/routing.ts): when
+-- the requested model can't serve a call, an equivalent model on another
+-- provider may. Usage logs record the model the call was routed to first
+-- and why it fell back, next to the model that served it (resource_detail).
+
+ALTER TABLE usage_log ADD COLUMN fallback_from TEXT;
+ALTER TABLE usage_log ADD COLUMN fallback_reason TEXT;   -- 'rate_limited' | 'server_error' | 'provider_error' | 'network_error' | 'no_api_key'
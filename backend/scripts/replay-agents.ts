@@ -0,0 +1,97 @@
+/**
+ * Replays the recorded agent runs in fixtures/agents and checks each run's
+ * output and usage against what was recorded (src/agents/framework/replay.ts).
+ *
+ *   npm run agents:replay                      every case
+ *   npm run agents:replay -- seo-optimizer     cases whose file name starts with this
+ *   npm run agents:replay -- --update          after an intended change: store the new results
+ *   npm run agents:replay -- --record          re-record against the live APIs, with the
+ *                                              API keys in the environment (posts for real)
+ *
+ * Exits non-zero if any case differs or fails.
+ */
+
+import { readdirSync, readFileSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { registerAllAgents } from '../src/agents/agents';
+import { agentRegistry } from '../src/agents/framework/registry';
+import {
+  recordAgentCase,
+  replayAgentCase,
+  withExpectation,
+  type AgentReplayCase,
+} from '../src/agents/framework/replay';
+
+const FIXTURES_DIR = join(__dirname, '..', 'fixtures', 'agents');
+const LIVE_KEYS = [
+  'YOUTUBE_API_KEY',
+  'OPENAI_API_KEY',
+  'ANTHROPIC_API_KEY',
+  'GOOGLE_AI_API_KEY',
+  'INSTAGRAM_ACCESS_TOKEN',
+] as const;
+
+async function main(): Promise<number> {
+  const args = process.argv.slice(2);
+  const update = args.includes('--update');
+  const record = args.includes('--record');
+  const filters = args.filter((arg) => !arg.startsWith('--'));
+
+  registerAllAgents();
+
+  const files = readdirSync(FIXTURES_DIR)
+    .filter((file) => file.endsWith('.json'))
+    .filter((file) => filters.length === 0 || filters.some((filter) => file.startsWith(filter)))
+    .sort();
+  if (files.length === 0) {
+    console.error('No replay cases matched');
+    return 1;
+  }
+
+  let failed = 0;
+  for (const file of files) {
+    const path = join(FIXTURES_DIR, file);
+    const replayCase = JSON.parse(readFileSync(path, 'utf8')) as AgentReplayCase;
+    const agent = agentRegistry.get(replayCase.agentId);
+
+    try {
+      if (record) {
+        const env = Object.fromEntries(LIVE_KEYS.map((key) => [key, process.env[key] ?? '']));
+        writeCase(path, await recordAgentCase(agent, replayCase, env));
+        console.log(`recorded  ${file}`);
+        continue;
+      }
+
+      const { result, mismatches } = await replayAgentCase(agent, replayCase);
+      if (mismatches.length === 0) {
+        console.log(`ok        ${file}`);
+      } else if (update) {
+        writeCase(path, withExpectation(replayCase, result));
+        console.log(`updated   ${file}`);
+      } else {
+        failed++;
+        console.log(`MISMATCH  ${file}`);
+        for (const mismatch of mismatches) console.log(`  ${mismatch}`);
+      }
+    } catch (error) {
+      failed++;
+      console.log(`FAILED    ${file}`);
+      console.log(`  ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  console.log(`\n${files.length - failed}/${files.length} replay cases passed`);
+  return failed > 0 ? 1 : 0;
+}
+
+function writeCase(path: string, replayCase: AgentReplayCase): void {
+  writeFileSync(path, `${JSON.stringify(replayCase, null, 2)}\n`);
+}
+
+main().then(
+  (code) => process.exit(code),
+  (error) => {
+    console.error(error);
+    process.exit(1);
+  },
+);
@@ -12,11 +12,12 @@ import type {
   AgentMeta,
   AgentInput,
   AgentOutput,
-  ValidationResult,
+  ValidationError,
   ExecutionContext,
+  JsonSchema,
   ProgressEvent,
 } from '../../framework/types';
-import { ok, fail, requireStrings, requireOneOf, fieldError } from '../../utils/validation';
+import { fieldError } from '../../utils/validation';
 
 type AnalysisType = 'performance' | 'ab-test' | 'audience' | 'comparison';
 
@@ -80,45 +81,70 @@ interface AudienceBreakdown {
   peakHours: { hour: number; viewPercentage: number }[];
 }
 
+const INSIGHTS_SCHEMA: JsonSchema = {
+  type: 'object',
+  required: ['insights', 'recommendations'],
+  properties: {
+    insights: { type: 'array', minItems: 1, items: { type: 'string', minLength: 1 } },
+    recommendations: { type: 'array', minItems: 1, items: { type: 'string', minLength: 1 } },
+  },
+};
+
 export class AnalyticsAgent extends BaseAgent {
   readonly meta: AgentMeta = {
     id: 'analytics',
     name: 'Analytics Agent',
+    nameKo: '성과 분석',
     description: 'Analyzes content performance and provides data-driven recommendations',
+    descriptionKo: '콘텐츠 성과를 분석하고 데이터 기반 개선안을 제시하는 에이전트',
     category: 'analytics',
     version: '1.0.0',
     estimatedCredits: { min: 5, max: 10 },
+    paramsSchema: {
+      type: 'object',
+      required: ['analysisType', 'contentIds', 'platform', 'dateRange'],
+      properties: {
+        analysisType: {
+          type: 'string',
+          title: '분석 유형',
+          enum: ['performance', 'ab-test', 'audience', 'comparison'],
+        },
+        contentIds: { type: 'array', title: '콘텐츠 ID', items: { type: 'string' }, minItems: 1 },
+        platform: { type: 'string', title: '플랫폼', enum: ['youtube', 'instagram', 'both'] },
+        dateRange: {
+          type: 'object',
+          title: '분석 기간',
+          required: ['start', 'end'],
+          properties: {
+            start: { type: 'string', title: '시작일', format: 'date' },
+            end: { type: 'string', title: '종료일', format: 'date' },
+          },
+        },
+        abTestConfig: {
+          type: 'object',
+          title: 'A/B 테스트 설정',
+          required: ['variantA', 'variantB', 'metric'],
+          properties: {
+            variantA: { type: 'array', title: 'A안 콘텐츠 ID', items: { type: 'string' } },
+            variantB: { type: 'array', title: 'B안 콘텐츠 ID', items: { type: 'string' } },
+            metric: {
+              type: 'string',
+              title: '비교 지표',
+              enum: ['views', 'engagement', 'retention', 'ctr'],
+            },
+          },
+        },
+      },
+    },
+    configSchema: { type: 'object', properties: {} },
   };
 
-  validate(input: AgentInput): ValidationResult {
-    const params = input.params as Partial<AnalyticsParams>;
-    const errors: { field: string; message: string; code: string }[] = [];
-
-    const typeErr = requireOneOf(
-      input.params as Record<string, unknown>,
-      'analysisType',
-      ['performance', 'ab-test', 'audience', 'comparison'],
-    );
-    if (typeErr) errors.push(typeErr);
-
-    if (!params.contentIds || !Array.isArray(params.contentIds) || params.contentIds.length === 0) {
-      errors.push(fieldError('contentIds', 'At least one content ID is required', 'REQUIRED'));
-    }
-
-    if (params.analysisType === 'ab-test') {
-      if (!params.abTestConfig) {
-        errors.push(fieldError('abTestConfig', 'A/B test configuration is required for ab-test analysis', 'REQUIRED'));
-      }
+  protected validateRules(input: AgentInput): ValidationError[] {
+    const params = input.params as unknown as AnalyticsParams;
+    if (params.analysisType === 'ab-test' && !params.abTestConfig) {
+      return [fieldError('abTestConfig', 'A/B test configuration is required for ab-test analysis', 'REQUIRED')];
     }
-
-    const platErr = requireOneOf(
-      input.params as Record<string, unknown>,
-      'platform',
-      ['youtube', 'instagram', 'both'],
-    );
-    if (platErr) errors.push(platErr);
-
-    return errors.length > 0 ? fail(errors) : ok();
+    return [];
   }
 
   async *execute(
@@ -175,34 +201,34 @@ export class AnalyticsAgent extends BaseAgent {
       'Output as JSON: {"insights": [...], "recommendations": [...]}',
     ].join('\n');
 
-    const insightResponse = await ctx.aiGateway.chat({
-      model: 'gpt-4o-mini',
-      messages: [
-        {
-          role: 'system',
-          content: 'You are a social media analytics expert specializing in Korean Shorts and Reels content performance.',
+    const { insights, recommendations } = await this.chatJSON<{ insights: string[]; recommendations: string[] }>(
+      ctx,
+      {
+        model: 'gpt-4o-mini',
+        messages: [
+          {
+            role: 'system',
+            content: 'You are a social media analytics expert specializing in Korean Shorts and Reels content performance.',
+          },
+          { role: 'user', content: insightPrompt },
+        ],
+        temperature: 0.5,
+        maxTokens: 1536,
+        cacheable: false,
+        responseSchema: INSIGHTS_SCHEMA,
+      },
+      // The metrics are still worth keeping
+      {
+        data: {
+          analysisType: params.analysisType,
+          period: params.dateRange,
+          metrics,
+          abTestResult,
+          audienceBreakdown,
         },
-        { role: 'user', content: insightPrompt },
-      ],
-      temperature: 0.5,
-      maxTokens: 1536,
-      cacheable: false,
-    });
-
-    ctx.trackUsage(this.llmUsage(insightResponse.model, insightResponse.inputTokens, insightResponse.outputTokens));
-
-    let insights: string[] = [];
-    let recommendations: string[] = [];
-    try {
-      const jsonMatch = insightResponse.content.match(/\{[\s\S]*\}/);
-      if (jsonMatch) {
-        const parsed = JSON.parse(jsonMatch[0]) as { insights: string[]; recommendations: string[] };
-        insights = parsed.insights ?? [];
-        recommendations = parsed.recommendations ?? [];
-      }
-    } catch {
-      insights = [insightResponse.content];
-    }
+        summary: `Fetched metrics for ${metrics.length} items, but insights could not be generated.`,
+      },
+    );
 
     yield this.progress(input.runId, 'complete', 'Analytics report ready', 100);
 
@@ -232,54 +258,36 @@ export class AnalyticsAgent extends BaseAgent {
     // In production, this fetches real data from YouTube Analytics API / Instagram Insights.
     // For now, we query our internal USAGE_LOG and AGENT_RUN tables via D1.
     const metrics: ContentMetrics[] = [];
+    // With a connected YouTube account, requests are made as the channel owner
+    const youtubeAccount =
+      params.platform === 'youtube' || params.platform === 'both' ? await ctx.credentials?.get('google') : null;
+    const youtube = ctx.tools.youtube(ctx.env.YOUTUBE_API_KEY);
 
     for (const contentId of params.contentIds) {
       // Attempt to fetch from YouTube Analytics
       if (params.platform === 'youtube' || params.platform === 'both') {
         try {
-          const ytParams = new URLSearchParams({
-            part: 'statistics',
-            id: contentId,
-            key: ctx.env.YOUTUBE_API_KEY,
-          });
-
-          const res = await fetch(
-            `https://www.googleapis.com/youtube/v3/videos?${ytParams.toString()}`,
-          );
-
-          if (res.ok) {
-            const data = (await res.json()) as {
-              items: {
-                id: string;
-                statistics: {
-                  viewCount: string;
-                  likeCount: string;
-                  commentCount: string;
-                };
-              }[];
-            };
-
-            ctx.trackUsage(this.apiCallUsage('youtube-data-api'));
-
-            for (const item of data.items) {
-              const views = parseInt(item.statistics.viewCount ?? '0', 10);
-              const likes = parseInt(item.statistics.likeCount ?? '0', 10);
-              const comments = parseInt(item.statistics.commentCount ?? '0', 10);
-
-              metrics.push({
-                contentId: item.id,
-                platform: 'youtube',
-                views,
-                likes,
-                comments,
-                shares: 0, // Not available via basic API
-                engagementRate: views > 0 ? ((likes + comments) / views) * 100 : 0,
-                avgWatchTime: 0, // Requires YouTube Analytics API
-                retentionRate: 0,
-                ctr: 0,
-                impressions: 0,
-              });
-            }
+          const stats = await youtube.getVideoStatistics([contentId], youtubeAccount?.accessToken);
+          ctx.trackUsage(this.apiCallUsage('youtube-data-api'));
+
+          for (const item of stats) {
+            const views = item.viewCount;
+            const likes = item.likeCount;
+            const comments = item.commentCount;
+
+            metrics.push({
+              contentId: item.videoId,
+              platform: 'youtube',
+              views,
+              likes,
+              comments,
+              shares: 0, // Not available via basic API
+              engagementRate: views > 0 ? ((likes + comments) / views) * 100 : 0,
+              avgWatchTime: 0, // Requires YouTube Analytics API
+              retentionRate: 0,
+              ctr: 0,
+              impressions: 0,
+            });
           }
         } catch {
           // Skip failed fetches
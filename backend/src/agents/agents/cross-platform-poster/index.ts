@@ -4,6 +4,13 @@
  * Uploads content to YouTube Shorts and Instagram Reels.
  * Handles metadata, scheduling, and cross-platform formatting.
  *
+ * By default a run first builds the final title, caption and tags per
+ * platform and waits for the user to approve them; the uploads (and their
+ * credits) only happen after approval, with exactly what was approved.
+ *
+ * Uploads use the YouTube and Instagram accounts the user connected in
+ * settings (ctx.credentials); a platform without one fails on its own.
+ *
  * Credit cost: 10-20 credits/run
  */
 
@@ -12,13 +19,18 @@ import type {
   AgentMeta,
   AgentInput,
   AgentOutput,
-  ValidationResult,
+  ApprovalPreview,
+  ConnectedAccount,
+  ConnectedProvider,
+  ValidationError,
   ExecutionContext,
   ProgressEvent,
 } from '../../framework/types';
-import { YouTubeTool } from '../../tools/youtube';
-import { InstagramTool } from '../../tools/instagram';
-import { ok, fail, requireStrings, fieldError } from '../../utils/validation';
+import { fieldError } from '../../utils/validation';
+import { userR2Prefix } from '../../sandbox/config';
+
+/** How long Instagram has to fetch the video through its signed URL */
+const VIDEO_URL_TTL_SECONDS = 60 * 60;
 
 interface PostParams {
   platforms: ('youtube' | 'instagram')[];
@@ -28,13 +40,26 @@ interface PostParams {
   tags: string[];
   hashtags: string[];
   youtube?: {
+    categoryId?: string;
+    privacyStatus?: 'private' | 'unlisted' | 'public';
+  };
+  instagram?: {
+    shareToFeed?: boolean;
+  };
+}
+
+/** What gets posted to each platform; previewed for approval, then posted as approved */
+interface Publication {
+  videoR2Key: string;
+  youtube?: {
+    title: string;
+    description: string;
+    tags: string[];
     categoryId: string;
     privacyStatus: 'private' | 'unlisted' | 'public';
-    accessToken: string;
   };
   instagram?: {
-    igUserId: string;
-    accessToken: string;
+    caption: string;
     shareToFeed: boolean;
   };
 }
@@ -56,33 +81,84 @@ export class CrossPlatformPosterAgent extends BaseAgent {
   readonly meta: AgentMeta = {
     id: 'cross-platform-poster',
     name: 'Cross-Platform Post Agent',
+    nameKo: '크로스 플랫폼 게시',
     description: 'Uploads Shorts/Reels to YouTube and Instagram with optimized metadata',
+    descriptionKo: '최적화된 메타데이터로 유튜브와 인스타그램에 숏츠/릴스를 업로드하는 에이전트',
     category: 'cross-platform-poster',
     version: '1.0.0',
     estimatedCredits: { min: 10, max: 20 },
+    paramsSchema: {
+      type: 'object',
+      required: ['platforms', 'videoR2Key', 'title', 'description'],
+      properties: {
+        platforms: {
+          type: 'array',
+          title: '플랫폼',
+          items: { type: 'string', enum: ['youtube', 'instagram'] },
+          minItems: 1,
+        },
+        videoR2Key: { type: 'string', title: '영상 파일', format: 'r2-key', minLength: 1 },
+        title: { type: 'string', title: '제목', minLength: 1, maxLength: 100 },
+        description: { type: 'string', title: '설명', minLength: 1 },
+        tags: { type: 'array', title: '태그', items: { type: 'string' }, default: [] },
+        hashtags: { type: 'array', title: '해시태그', items: { type: 'string' }, default: [] },
+        youtube: {
+          type: 'object',
+          title: '유튜브 설정',
+          properties: {
+            categoryId: { type: 'string', title: '카테고리 ID', default: '22' }, // People & Blogs
+            privacyStatus: {
+              type: 'string',
+              title: '공개 범위',
+              enum: ['private', 'unlisted', 'public'],
+              default: 'private',
+            },
+          },
+        },
+        instagram: {
+          type: 'object',
+          title: '인스타그램 설정',
+          properties: {
+            shareToFeed: { type: 'boolean', title: '피드에 공유', default: true },
+          },
+        },
+      },
+    },
+    configSchema: {
+      type: 'object',
+      properties: {
+        requireApproval: { type: 'boolean', title: '게시 전 승인', default: true },
+      },
+    },
   };
 
-  validate(input: AgentInput): ValidationResult {
-    const params = input.params as Partial<PostParams>;
-    const errors = requireStrings(input.params as Record<string, unknown>, [
-      'videoR2Key',
-      'title',
-      'description',
-    ]);
+  protected validateRules(input: AgentInput): ValidationError[] {
+    const params = input.params as unknown as PostParams;
+    const errors: ValidationError[] = [];
 
-    if (!params.platforms || !Array.isArray(params.platforms) || params.platforms.length === 0) {
-      errors.push(fieldError('platforms', 'At least one platform is required', 'REQUIRED'));
+    // Signed URLs and uploads only reach the user's own storage
+    if (input.userId && !params.videoR2Key.startsWith(userR2Prefix(input.userId))) {
+      errors.push(fieldError('videoR2Key', 'Video must be one of your uploaded files'));
     }
 
-    if (params.platforms?.includes('youtube') && !params.youtube?.accessToken) {
-      errors.push(fieldError('youtube.accessToken', 'YouTube access token is required for YouTube posting', 'REQUIRED'));
-    }
+    return errors;
+  }
+
+  async preparePreview(input: AgentInput, storage: R2Bucket): Promise<ApprovalPreview | null> {
+    if (input.config.requireApproval === false) return null;
+    const params = input.params as unknown as PostParams;
 
-    if (params.platforms?.includes('instagram') && !params.instagram?.accessToken) {
-      errors.push(fieldError('instagram.accessToken', 'Instagram access token is required for Instagram posting', 'REQUIRED'));
+    // Fail now rather than after the user has approved
+    if (!(await storage.head(params.videoR2Key))) {
+      throw new Error(`Video not found in storage: ${params.videoR2Key}`);
     }
 
-    return errors.length > 0 ? fail(errors) : ok();
+    const publication = this.buildPublication(params);
+    const platforms = [publication.youtube && 'YouTube', publication.instagram && 'Instagram'].filter(Boolean);
+    return {
+      data: publication as unknown as Record<string, unknown>,
+      summary: `Ready to post to ${platforms.join(' and ')}. Approve to upload.`,
+    };
   }
 
   async *execute(
@@ -90,25 +166,28 @@ export class CrossPlatformPosterAgent extends BaseAgent {
     ctx: ExecutionContext,
   ): AsyncGenerator<ProgressEvent, AgentOutput, undefined> {
     const params = input.params as unknown as PostParams;
+    const publication = input.approvedPreview
+      ? (input.approvedPreview.data as unknown as Publication)
+      : this.buildPublication(params);
     const results: PlatformPostResult[] = [];
 
     // ---- Step 1: Fetch video from R2 ----
     yield this.progress(input.runId, 'fetch-video', 'Retrieving video from storage...', 5);
     this.checkAborted(ctx.signal);
 
-    const videoObject = await ctx.storage.get(params.videoR2Key);
+    const videoObject = await ctx.storage.get(publication.videoR2Key);
     if (!videoObject) {
-      throw new Error(`Video not found in storage: ${params.videoR2Key}`);
+      throw new Error(`Video not found in storage: ${publication.videoR2Key}`);
     }
     const videoData = await videoObject.arrayBuffer();
 
     yield this.progress(input.runId, 'video-ready', 'Video retrieved', 15);
 
-    const totalPlatforms = params.platforms.length;
+    const totalPlatforms = [publication.youtube, publication.instagram].filter(Boolean).length;
     let platformIdx = 0;
 
     // ---- Step 2: Upload to YouTube ----
-    if (params.platforms.includes('youtube') && params.youtube) {
+    if (publication.youtube) {
       yield this.progress(
         input.runId,
         'youtube-upload',
@@ -118,22 +197,13 @@ export class CrossPlatformPosterAgent extends BaseAgent {
       this.checkAborted(ctx.signal);
 
       try {
-        const youtube = new YouTubeTool(ctx.env.YOUTUBE_API_KEY);
-
-        // Build YouTube-specific description with tags
-        const ytDescription = this.buildYouTubeDescription(
-          params.description,
-          params.hashtags,
-        );
+        const account = await this.connectedAccount(ctx, 'google', 'YouTube');
+        const youtube = ctx.tools.youtube(ctx.env.YOUTUBE_API_KEY);
 
         const uploadResult = await youtube.upload({
-          title: params.title,
-          description: ytDescription,
-          tags: params.tags.slice(0, 500), // YouTube max 500 tags
-          categoryId: params.youtube.categoryId ?? '22', // Default: People & Blogs
-          privacyStatus: params.youtube.privacyStatus ?? 'private',
+          ...publication.youtube,
           videoData,
-          accessToken: params.youtube.accessToken,
+          accessToken: account.accessToken,
         });
 
         ctx.trackUsage(this.apiCallUsage('youtube-upload'));
@@ -158,7 +228,7 @@ export class CrossPlatformPosterAgent extends BaseAgent {
     }
 
     // ---- Step 3: Upload to Instagram ----
-    if (params.platforms.includes('instagram') && params.instagram) {
+    if (publication.instagram) {
       yield this.progress(
         input.runId,
         'instagram-upload',
@@ -168,23 +238,21 @@ export class CrossPlatformPosterAgent extends BaseAgent {
       this.checkAborted(ctx.signal);
 
       try {
-        const instagram = new InstagramTool(params.instagram.accessToken);
-
-        // Instagram needs a public URL; store temporarily in R2 with a signed URL
-        // In practice, the backend generates a presigned URL for the video
-        const publicVideoUrl = `https://pub-openclaw.r2.dev/${params.videoR2Key}`;
+        const account = await this.connectedAccount(ctx, 'meta', 'Instagram');
+        const instagram = ctx.tools.instagram(account.accessToken);
 
-        const igCaption = this.buildInstagramCaption(
-          params.description,
-          params.hashtags,
-        );
+        // Instagram fetches the video itself, so it gets a time-limited signed URL
+        if (!ctx.artifacts) {
+          throw new Error('Signed storage URLs are unavailable in this runtime');
+        }
+        const publicVideoUrl = await ctx.artifacts.signedUrl(publication.videoR2Key, VIDEO_URL_TTL_SECONDS);
 
         const uploadResult = await instagram.uploadReel({
           videoUrl: publicVideoUrl,
-          caption: igCaption,
-          accessToken: params.instagram.accessToken,
-          igUserId: params.instagram.igUserId,
-          shareToFeed: params.instagram.shareToFeed ?? true,
+          caption: publication.instagram.caption,
+          accessToken: account.accessToken,
+          igUserId: account.accountId,
+          shareToFeed: publication.instagram.shareToFeed,
         });
 
         ctx.trackUsage(this.apiCallUsage('instagram-upload'));
@@ -226,6 +294,41 @@ export class CrossPlatformPosterAgent extends BaseAgent {
     };
   }
 
+  /** The connected account to post with; throws so only this platform fails */
+  private async connectedAccount(
+    ctx: ExecutionContext,
+    provider: ConnectedProvider,
+    label: string,
+  ): Promise<ConnectedAccount> {
+    const account = await ctx.credentials?.get(provider);
+    if (!account) {
+      throw new Error(`No ${label} account is connected; connect one in Settings`);
+    }
+    return account;
+  }
+
+  /** Final per-platform metadata; credentials are resolved when posting */
+  private buildPublication(params: PostParams): Publication {
+    const publication: Publication = { videoR2Key: params.videoR2Key };
+    if (params.platforms.includes('youtube')) {
+      publication.youtube = {
+        title: params.title,
+        // YouTube-specific description with hashtags
+        description: this.buildYouTubeDescription(params.description, params.hashtags),
+        tags: params.tags.slice(0, 500), // YouTube max 500 tags
+        categoryId: params.youtube?.categoryId ?? '22', // People & Blogs
+        privacyStatus: params.youtube?.privacyStatus ?? 'private',
+      };
+    }
+    if (params.platforms.includes('instagram')) {
+      publication.instagram = {
+        caption: this.buildInstagramCaption(params.description, params.hashtags),
+        shareToFeed: params.instagram?.shareToFeed ?? true,
+      };
+    }
+    return publication;
+  }
+
   private buildYouTubeDescription(description: string, hashtags: string[]): string {
     const parts = [description];
     if (hashtags.length > 0) {
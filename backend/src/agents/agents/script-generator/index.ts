@@ -2,7 +2,10 @@
  * Script Generation Agent.
  *
  * Generates Shorts/Reels scripts with timestamps for 15s/30s/60s durations.
- * Includes hook generation for attention-grabbing openings.
+ * Includes hook generation for attention-grabbing openings. The script is
+ * streamed, so the run page shows it as it is written. Hooks, script and
+ * visual directions come back as schema-validated JSON; if one can't be
+ * parsed the run fails with what it had so far.
  *
  * Credit cost: 15-25 credits/run
  */
@@ -12,11 +15,10 @@ import type {
   AgentMeta,
   AgentInput,
   AgentOutput,
-  ValidationResult,
   ExecutionContext,
+  JsonSchema,
   ProgressEvent,
 } from '../../framework/types';
-import { ok, fail, requireStrings, requireOneOf, fieldError } from '../../utils/validation';
 
 type Duration = '15s' | '30s' | '60s';
 type Tone = 'casual' | 'professional' | 'humorous' | 'dramatic' | 'educational';
@@ -29,8 +31,9 @@ interface ScriptParams {
   language: Language;
   targetAudience?: string;
   keyPoints?: string[];
-  includeHooks?: boolean;
-  hookCount?: number;
+  /** Filled from the params schema default when omitted */
+  includeHooks: boolean;
+  hookCount: number;
   callToAction?: string;
 }
 
@@ -65,6 +68,46 @@ interface HookOption {
   explanation: string;
 }
 
+const HOOKS_SCHEMA: JsonSchema = {
+  type: 'array',
+  minItems: 1,
+  items: {
+    type: 'object',
+    required: ['type', 'text', 'explanation'],
+    properties: {
+      type: { type: 'string', enum: ['question', 'statistic', 'controversy', 'story', 'challenge'] },
+      text: { type: 'string', minLength: 1 },
+      explanation: { type: 'string' },
+    },
+  },
+};
+
+const SCRIPT_SCHEMA: JsonSchema = {
+  type: 'array',
+  minItems: 1,
+  items: {
+    type: 'object',
+    required: ['startTime', 'endTime', 'durationSeconds', 'label', 'content'],
+    properties: {
+      startTime: { type: 'string', description: 'm:ss' },
+      endTime: { type: 'string', description: 'm:ss' },
+      durationSeconds: { type: 'number', minimum: 0 },
+      label: { type: 'string', minLength: 1 },
+      content: { type: 'string', minLength: 1 },
+    },
+  },
+};
+
+/** One visual direction per script section */
+function visualsSchema(sectionCount: number): JsonSchema {
+  return {
+    type: 'array',
+    minItems: sectionCount,
+    maxItems: sectionCount,
+    items: { type: 'string', minLength: 1 },
+  };
+}
+
 const DURATION_SECONDS: Record<Duration, number> = {
   '15s': 15,
   '30s': 30,
@@ -89,39 +132,34 @@ export class ScriptGeneratorAgent extends BaseAgent {
   readonly meta: AgentMeta = {
     id: 'script-generator',
     name: 'Script Generator Agent',
+    nameKo: '숏폼 스크립트 작성기',
     description: 'Creates Shorts/Reels scripts with timestamps, hooks, and visual directions',
+    descriptionKo: '타임스탬프, 훅, 연출 지시가 포함된 숏츠/릴스 스크립트를 작성하는 에이전트',
     category: 'script-generator',
     version: '1.0.0',
     estimatedCredits: { min: 15, max: 25 },
+    paramsSchema: {
+      type: 'object',
+      required: ['topic', 'duration', 'tone', 'language'],
+      properties: {
+        topic: { type: 'string', title: '주제', minLength: 1 },
+        duration: { type: 'string', title: '영상 길이', enum: ['15s', '30s', '60s'] },
+        tone: {
+          type: 'string',
+          title: '톤',
+          enum: ['casual', 'professional', 'humorous', 'dramatic', 'educational'],
+        },
+        language: { type: 'string', title: '언어', enum: ['ko', 'en', 'ja'] },
+        targetAudience: { type: 'string', title: '타깃 시청자' },
+        keyPoints: { type: 'array', title: '핵심 포인트', items: { type: 'string' } },
+        includeHooks: { type: 'boolean', title: '훅 생성', default: true },
+        hookCount: { type: 'integer', title: '훅 개수', minimum: 1, maximum: 5, default: 3 },
+        callToAction: { type: 'string', title: '행동 유도 문구' },
+      },
+    },
+    configSchema: { type: 'object', properties: {} },
   };
 
-  validate(input: AgentInput): ValidationResult {
-    const errors = requireStrings(input.params as Record<string, unknown>, ['topic']);
-
-    const durationErr = requireOneOf(
-      input.params as Record<string, unknown>,
-      'duration',
-      ['15s', '30s', '60s'],
-    );
-    if (durationErr) errors.push(durationErr);
-
-    const toneErr = requireOneOf(
-      input.params as Record<string, unknown>,
-      'tone',
-      ['casual', 'professional', 'humorous', 'dramatic', 'educational'],
-    );
-    if (toneErr) errors.push(toneErr);
-
-    const langErr = requireOneOf(
-      input.params as Record<string, unknown>,
-      'language',
-      ['ko', 'en', 'ja'],
-    );
-    if (langErr) errors.push(langErr);
-
-    return errors.length > 0 ? fail(errors) : ok();
-  }
-
   async *execute(
     input: AgentInput,
     ctx: ExecutionContext,
@@ -129,18 +167,16 @@ export class ScriptGeneratorAgent extends BaseAgent {
     const params = input.params as unknown as ScriptParams;
     const totalSeconds = DURATION_SECONDS[params.duration];
     const langConfig = LANGUAGE_CONFIG[params.language];
-    const includeHooks = params.includeHooks ?? true;
-    const hookCount = params.hookCount ?? 3;
 
     // ---- Step 1: Generate hooks ----
     let hooks: HookOption[] = [];
 
-    if (includeHooks) {
+    if (params.includeHooks) {
       yield this.progress(input.runId, 'hooks', 'Generating attention hooks...', 10);
       this.checkAborted(ctx.signal);
 
       const hookPrompt = this.buildHookPrompt(params);
-      const hookResponse = await ctx.aiGateway.chat({
+      const hookOptions = await this.chatJSON<HookOption[]>(ctx, {
         model: 'gpt-4o',
         messages: [
           {
@@ -152,44 +188,46 @@ export class ScriptGeneratorAgent extends BaseAgent {
         temperature: 0.9,
         maxTokens: 1024,
         cacheable: false,
+        responseSchema: HOOKS_SCHEMA,
       });
-
-      ctx.trackUsage(this.llmUsage(hookResponse.model, hookResponse.inputTokens, hookResponse.outputTokens));
-      hooks = this.parseHooks(hookResponse.content, hookCount);
+      hooks = hookOptions.slice(0, params.hookCount);
     }
 
     yield this.progress(input.runId, 'hooks-done', `Generated ${hooks.length} hooks`, 25);
 
     // ---- Step 2: Generate main script ----
-    yield this.progress(input.runId, 'script', 'Writing script with timestamps...', 30);
+    const scriptStage = this.progress(input.runId, 'script', 'Writing script with timestamps...', 30);
+    yield scriptStage;
     this.checkAborted(ctx.signal);
 
     const scriptPrompt = this.buildScriptPrompt(params, hooks[0]?.text);
-    const scriptResponse = await ctx.aiGateway.chat({
-      model: 'gpt-4o',
-      messages: [
-        {
-          role: 'system',
-          content: [
-            `You are an expert Shorts/Reels script writer for ${langConfig.name} content.`,
-            TONE_INSTRUCTIONS[params.tone],
-            `The script MUST fit within exactly ${totalSeconds} seconds.`,
-            `Average ${langConfig.name} reading speed: ${langConfig.readingSpeed}.`,
-            'Output the script in a structured JSON format.',
-          ].join(' '),
-        },
-        { role: 'user', content: scriptPrompt },
-      ],
-      temperature: 0.8,
-      maxTokens: 2048,
-    });
-
-    ctx.trackUsage(this.llmUsage(scriptResponse.model, scriptResponse.inputTokens, scriptResponse.outputTokens));
+    const sections = yield* this.streamJSON<ScriptSection[]>(
+      ctx,
+      scriptStage,
+      {
+        model: 'gpt-4o',
+        messages: [
+          {
+            role: 'system',
+            content: [
+              `You are an expert Shorts/Reels script writer for ${langConfig.name} content.`,
+              TONE_INSTRUCTIONS[params.tone],
+              `The script MUST fit within exactly ${totalSeconds} seconds.`,
+              `Average ${langConfig.name} reading speed: ${langConfig.readingSpeed}.`,
+              'Output the script in a structured JSON format.',
+            ].join(' '),
+          },
+          { role: 'user', content: scriptPrompt },
+        ],
+        temperature: 0.8,
+        maxTokens: 2048,
+        responseSchema: SCRIPT_SCHEMA,
+      },
+      this.partialOutput(hooks, []),
+    );
 
     yield this.progress(input.runId, 'script-parse', 'Parsing script structure...', 60);
 
-    const sections = this.parseScript(scriptResponse.content, totalSeconds);
-
     // ---- Step 3: Add visual directions ----
     yield this.progress(input.runId, 'visuals', 'Adding visual directions...', 70);
     this.checkAborted(ctx.signal);
@@ -205,28 +243,26 @@ export class ScriptGeneratorAgent extends BaseAgent {
       `Respond in ${langConfig.name}. Output as JSON array of strings, one per section.`,
     ].join('\n');
 
-    const visualResponse = await ctx.aiGateway.chat({
-      model: 'gpt-4o-mini',
-      messages: [
-        { role: 'system', content: 'You are a video production director for social media Shorts.' },
-        { role: 'user', content: visualPrompt },
-      ],
-      temperature: 0.7,
-      maxTokens: 1024,
-      cacheable: true,
-    });
-
-    ctx.trackUsage(this.llmUsage(visualResponse.model, visualResponse.inputTokens, visualResponse.outputTokens));
+    const visuals = await this.chatJSON<string[]>(
+      ctx,
+      {
+        model: 'gpt-4o-mini',
+        messages: [
+          { role: 'system', content: 'You are a video production director for social media Shorts.' },
+          { role: 'user', content: visualPrompt },
+        ],
+        temperature: 0.7,
+        maxTokens: 1024,
+        cacheable: true,
+        responseSchema: visualsSchema(sections.length),
+      },
+      this.partialOutput(hooks, sections),
+    );
 
     // Apply visual directions to sections
-    try {
-      const visuals = JSON.parse(visualResponse.content) as string[];
-      for (let i = 0; i < Math.min(sections.length, visuals.length); i++) {
-        sections[i].visualDirection = visuals[i];
-      }
-    } catch {
-      // If parsing fails, leave visual directions empty
-    }
+    sections.forEach((section, i) => {
+      section.visualDirection = visuals[i];
+    });
 
     yield this.progress(input.runId, 'finalize', 'Finalizing script...', 90);
 
@@ -257,9 +293,8 @@ export class ScriptGeneratorAgent extends BaseAgent {
   }
 
   private buildHookPrompt(params: ScriptParams): string {
-    const hookCount = params.hookCount ?? 3;
     return [
-      `Generate ${hookCount} attention-grabbing hooks for a ${params.duration} Shorts/Reels video.`,
+      `Generate ${params.hookCount} attention-grabbing hooks for a ${params.duration} Shorts/Reels video.`,
       `Topic: ${params.topic}`,
       `Tone: ${params.tone}`,
       `Target audience: ${params.targetAudience ?? 'general Korean social media users'}`,
@@ -302,54 +337,13 @@ export class ScriptGeneratorAgent extends BaseAgent {
     ].join('\n');
   }
 
-  private parseHooks(content: string, maxCount: number): HookOption[] {
-    try {
-      // Try to extract JSON from the response
-      const jsonMatch = content.match(/\[[\s\S]*\]/);
-      if (jsonMatch) {
-        const parsed = JSON.parse(jsonMatch[0]) as HookOption[];
-        return parsed.slice(0, maxCount);
-      }
-    } catch {
-      // Fallback: return empty
-    }
-    return [];
-  }
-
-  private parseScript(content: string, totalSeconds: number): ScriptSection[] {
-    try {
-      const jsonMatch = content.match(/\[[\s\S]*\]/);
-      if (jsonMatch) {
-        const parsed = JSON.parse(jsonMatch[0]) as ScriptSection[];
-        return parsed;
-      }
-    } catch {
-      // Fallback: create a simple structure
-    }
-
-    // Fallback structure
-    return [
-      {
-        startTime: '0:00',
-        endTime: '0:03',
-        durationSeconds: 3,
-        label: 'Hook',
-        content: content.slice(0, 100),
-      },
-      {
-        startTime: '0:03',
-        endTime: `0:${String(totalSeconds - 3).padStart(2, '0')}`,
-        durationSeconds: totalSeconds - 6,
-        label: 'Main',
-        content: content.slice(100, 500),
-      },
-      {
-        startTime: `0:${String(totalSeconds - 3).padStart(2, '0')}`,
-        endTime: `0:${String(totalSeconds).padStart(2, '0')}`,
-        durationSeconds: 3,
-        label: 'CTA',
-        content: content.slice(500, 600) || 'Follow for more!',
-      },
-    ];
+  /** What a run that fails at a later step still returns */
+  private partialOutput(hooks: HookOption[], sections: ScriptSection[]): Partial<AgentOutput> {
+    return {
+      data: { hooks, script: sections },
+      summary: sections.length
+        ? `Script with ${sections.length} sections written, but visual directions could not be added.`
+        : `Generated ${hooks.length} hooks, but the script could not be written.`,
+    };
   }
 }
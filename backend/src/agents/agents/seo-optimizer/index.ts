@@ -2,7 +2,9 @@
  * SEO Optimization Agent.
  *
  * Optimizes titles, descriptions, and tags for YouTube Shorts and Instagram Reels.
- * Analyzes competitor metadata and generates optimized alternatives.
+ * Analyzes competitor metadata and generates optimized alternatives. Each
+ * step's LLM output is schema-validated JSON; if one can't be parsed the run
+ * fails with the steps done so far.
  *
  * Credit cost: 5-15 credits/run
  */
@@ -12,11 +14,10 @@ import type {
   AgentMeta,
   AgentInput,
   AgentOutput,
-  ValidationResult,
   ExecutionContext,
+  JsonSchema,
   ProgressEvent,
 } from '../../framework/types';
-import { ok, fail, requireStrings, requireOneOf } from '../../utils/validation';
 
 type Platform = 'youtube' | 'instagram' | 'both';
 type Language = 'ko' | 'en' | 'ja';
@@ -70,41 +71,81 @@ interface SEOScore {
   improvements: string[];
 }
 
+const STRING_LIST: JsonSchema = { type: 'array', items: { type: 'string', minLength: 1 } };
+
+const KEYWORDS_SCHEMA: JsonSchema = {
+  type: 'object',
+  required: ['primary', 'secondary', 'longTail'],
+  properties: {
+    primary: { ...STRING_LIST, minItems: 1 },
+    secondary: STRING_LIST,
+    longTail: STRING_LIST,
+  },
+};
+
+const TITLES_SCHEMA: JsonSchema = {
+  type: 'array',
+  minItems: 1,
+  items: {
+    type: 'object',
+    required: ['title', 'characterCount', 'score', 'reasoning'],
+    properties: {
+      title: { type: 'string', minLength: 1 },
+      characterCount: { type: 'integer', minimum: 0 },
+      score: { type: 'number', minimum: 0, maximum: 100 },
+      reasoning: { type: 'string' },
+    },
+  },
+};
+
+const DESCRIPTION_SCHEMA: JsonSchema = {
+  type: 'object',
+  required: ['description', 'characterCount', 'keywordsUsed', 'ctaIncluded'],
+  properties: {
+    description: { type: 'string', minLength: 1 },
+    characterCount: { type: 'integer', minimum: 0 },
+    keywordsUsed: STRING_LIST,
+    ctaIncluded: { type: 'boolean' },
+  },
+};
+
+const HASHTAGS_SCHEMA: JsonSchema = { ...STRING_LIST, minItems: 1 };
+
 export class SEOOptimizerAgent extends BaseAgent {
   readonly meta: AgentMeta = {
     id: 'seo-optimizer',
     name: 'SEO Optimization Agent',
+    nameKo: 'SEO 최적화기',
     description: 'Optimizes titles, descriptions, tags, and hashtags for maximum discoverability',
+    descriptionKo: '제목, 설명, 태그, 해시태그를 검색 노출에 맞게 최적화하는 에이전트',
     category: 'seo-optimizer',
     version: '1.0.0',
     estimatedCredits: { min: 5, max: 15 },
+    paramsSchema: {
+      type: 'object',
+      required: ['topic', 'platform', 'language'],
+      properties: {
+        topic: { type: 'string', title: '주제', minLength: 1 },
+        platform: { type: 'string', title: '플랫폼', enum: ['youtube', 'instagram', 'both'] },
+        language: { type: 'string', title: '언어', enum: ['ko', 'en', 'ja'] },
+        currentTitle: { type: 'string', title: '현재 제목' },
+        currentDescription: { type: 'string', title: '현재 설명' },
+        currentTags: { type: 'array', title: '현재 태그', items: { type: 'string' } },
+        niche: { type: 'string', title: '분야' },
+        targetKeywords: { type: 'array', title: '타깃 키워드', items: { type: 'string' } },
+      },
+    },
+    configSchema: { type: 'object', properties: {} },
   };
 
-  validate(input: AgentInput): ValidationResult {
-    const errors = requireStrings(input.params as Record<string, unknown>, ['topic']);
-
-    const platErr = requireOneOf(
-      input.params as Record<string, unknown>,
-      'platform',
-      ['youtube', 'instagram', 'both'],
-    );
-    if (platErr) errors.push(platErr);
-
-    const langErr = requireOneOf(
-      input.params as Record<string, unknown>,
-      'language',
-      ['ko', 'en', 'ja'],
-    );
-    if (langErr) errors.push(langErr);
-
-    return errors.length > 0 ? fail(errors) : ok();
-  }
-
   async *execute(
     input: AgentInput,
     ctx: ExecutionContext,
   ): AsyncGenerator<ProgressEvent, AgentOutput, undefined> {
     const params = input.params as unknown as SEOParams;
+    // Steps done so far, returned if a later one fails
+    const partial: Partial<SEOOutput> = { platform: params.platform };
+    const partialOutput = (): Partial<AgentOutput> => ({ data: { ...partial } });
 
     // ---- Step 1: Keyword research ----
     yield this.progress(input.runId, 'keywords', 'Researching keywords...', 10);
@@ -125,7 +166,7 @@ export class SEOOptimizerAgent extends BaseAgent {
       'Output as JSON: {"primary": [...], "secondary": [...], "longTail": [...]}',
     ].join('\n');
 
-    const keywordResponse = await ctx.aiGateway.chat({
+    const keywords = await this.chatJSON<Omit<TagResult, 'total'>>(ctx, {
       model: 'gpt-4o-mini',
       messages: [
         { role: 'system', content: 'You are an SEO keyword research specialist.' },
@@ -134,25 +175,14 @@ export class SEOOptimizerAgent extends BaseAgent {
       temperature: 0.5,
       maxTokens: 1024,
       cacheable: true,
+      responseSchema: KEYWORDS_SCHEMA,
     });
 
-    ctx.trackUsage(this.llmUsage(keywordResponse.model, keywordResponse.inputTokens, keywordResponse.outputTokens));
-
-    let tags: TagResult = { primary: [], secondary: [], longTail: [], total: 0 };
-    try {
-      const jsonMatch = keywordResponse.content.match(/\{[\s\S]*\}/);
-      if (jsonMatch) {
-        const parsed = JSON.parse(jsonMatch[0]) as { primary: string[]; secondary: string[]; longTail: string[] };
-        tags = {
-          primary: parsed.primary ?? [],
-          secondary: parsed.secondary ?? [],
-          longTail: parsed.longTail ?? [],
-          total: (parsed.primary?.length ?? 0) + (parsed.secondary?.length ?? 0) + (parsed.longTail?.length ?? 0),
-        };
-      }
-    } catch {
-      // Continue with empty tags
-    }
+    const tags: TagResult = {
+      ...keywords,
+      total: keywords.primary.length + keywords.secondary.length + keywords.longTail.length,
+    };
+    partial.tags = tags;
 
     // ---- Step 2: Generate optimized titles ----
     yield this.progress(input.runId, 'titles', 'Generating optimized titles...', 30);
@@ -176,27 +206,21 @@ export class SEOOptimizerAgent extends BaseAgent {
       'Score based on: keyword placement, emotional appeal, clarity, length optimization.',
     ].join('\n');
 
-    const titleResponse = await ctx.aiGateway.chat({
-      model: 'gpt-4o',
-      messages: [
-        { role: 'system', content: 'You are a viral content title optimizer.' },
-        { role: 'user', content: titlePrompt },
-      ],
-      temperature: 0.8,
-      maxTokens: 1024,
-    });
-
-    ctx.trackUsage(this.llmUsage(titleResponse.model, titleResponse.inputTokens, titleResponse.outputTokens));
-
-    let titles: TitleSuggestion[] = [];
-    try {
-      const jsonMatch = titleResponse.content.match(/\[[\s\S]*\]/);
-      if (jsonMatch) {
-        titles = JSON.parse(jsonMatch[0]) as TitleSuggestion[];
-      }
-    } catch {
-      // Continue with empty titles
-    }
+    const titles = await this.chatJSON<TitleSuggestion[]>(
+      ctx,
+      {
+        model: 'gpt-4o',
+        messages: [
+          { role: 'system', content: 'You are a viral content title optimizer.' },
+          { role: 'user', content: titlePrompt },
+        ],
+        temperature: 0.8,
+        maxTokens: 1024,
+        responseSchema: TITLES_SCHEMA,
+      },
+      partialOutput(),
+    );
+    partial.titles = titles;
 
     // ---- Step 3: Generate optimized description ----
     yield this.progress(input.runId, 'description', 'Writing optimized description...', 55);
@@ -223,32 +247,21 @@ export class SEOOptimizerAgent extends BaseAgent {
       'Output as JSON: {"description": "...", "characterCount": N, "keywordsUsed": [...], "ctaIncluded": true}',
     ].join('\n');
 
-    const descResponse = await ctx.aiGateway.chat({
-      model: 'gpt-4o',
-      messages: [
-        { role: 'system', content: 'You are a social media SEO copywriter.' },
-        { role: 'user', content: descPrompt },
-      ],
-      temperature: 0.7,
-      maxTokens: 1024,
-    });
-
-    ctx.trackUsage(this.llmUsage(descResponse.model, descResponse.inputTokens, descResponse.outputTokens));
-
-    let description: DescriptionResult = {
-      description: '',
-      characterCount: 0,
-      keywordsUsed: [],
-      ctaIncluded: false,
-    };
-    try {
-      const jsonMatch = descResponse.content.match(/\{[\s\S]*\}/);
-      if (jsonMatch) {
-        description = JSON.parse(jsonMatch[0]) as DescriptionResult;
-      }
-    } catch {
-      // Continue with empty description
-    }
+    const description = await this.chatJSON<DescriptionResult>(
+      ctx,
+      {
+        model: 'gpt-4o',
+        messages: [
+          { role: 'system', content: 'You are a social media SEO copywriter.' },
+          { role: 'user', content: descPrompt },
+        ],
+        temperature: 0.7,
+        maxTokens: 1024,
+        responseSchema: DESCRIPTION_SCHEMA,
+      },
+      partialOutput(),
+    );
+    partial.description = description;
 
     // ---- Step 4: Generate hashtags ----
     yield this.progress(input.runId, 'hashtags', 'Generating hashtags...', 75);
@@ -267,28 +280,21 @@ export class SEOOptimizerAgent extends BaseAgent {
       'Output as JSON string array: ["#hashtag1", "#hashtag2", ...]',
     ].join('\n');
 
-    const hashtagResponse = await ctx.aiGateway.chat({
-      model: 'gpt-4o-mini',
-      messages: [
-        { role: 'system', content: 'You are a social media hashtag strategist.' },
-        { role: 'user', content: hashtagPrompt },
-      ],
-      temperature: 0.7,
-      maxTokens: 512,
-      cacheable: true,
-    });
-
-    ctx.trackUsage(this.llmUsage(hashtagResponse.model, hashtagResponse.inputTokens, hashtagResponse.outputTokens));
-
-    let hashtags: string[] = [];
-    try {
-      const jsonMatch = hashtagResponse.content.match(/\[[\s\S]*\]/);
-      if (jsonMatch) {
-        hashtags = JSON.parse(jsonMatch[0]) as string[];
-      }
-    } catch {
-      // Continue with empty hashtags
-    }
+    const hashtags = await this.chatJSON<string[]>(
+      ctx,
+      {
+        model: 'gpt-4o-mini',
+        messages: [
+          { role: 'system', content: 'You are a social media hashtag strategist.' },
+          { role: 'user', content: hashtagPrompt },
+        ],
+        temperature: 0.7,
+        maxTokens: 512,
+        cacheable: true,
+        responseSchema: HASHTAGS_SCHEMA,
+      },
+      partialOutput(),
+    );
 
     // ---- Step 5: Calculate SEO score ----
     yield this.progress(input.runId, 'score', 'Calculating SEO score...', 90);
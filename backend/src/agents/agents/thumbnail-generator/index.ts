@@ -12,13 +12,11 @@ import type {
   AgentMeta,
   AgentInput,
   AgentOutput,
-  ValidationResult,
   ExecutionContext,
   ProgressEvent,
   ArtifactRef,
+  JsonSchema,
 } from '../../framework/types';
-import { ImageGenTool } from '../../tools/image-gen';
-import { ok, fail, requireStrings, requireOneOf, fieldError } from '../../utils/validation';
 
 interface ThumbnailParams {
   topic: string;
@@ -27,7 +25,7 @@ interface ThumbnailParams {
   colorScheme?: string;
   mood?: string;
   orientation: 'portrait' | 'landscape' | 'square';
-  variations?: number;
+  variations: number;
 }
 
 interface ThumbnailOutput {
@@ -55,6 +53,26 @@ interface TextOverlayPlan {
   backgroundColor?: string;
 }
 
+const TEXT_OVERLAY_SCHEMA: JsonSchema = {
+  type: 'object',
+  required: ['text', 'position', 'suggestedFont', 'suggestedSize', 'suggestedColor'],
+  properties: {
+    text: { type: 'string', minLength: 1 },
+    position: { type: 'string', enum: ['top', 'center', 'bottom'] },
+    suggestedFont: { type: 'string' },
+    suggestedSize: { type: 'string' },
+    suggestedColor: { type: 'string', description: 'hex color' },
+    backgroundColor: { type: 'string', description: 'hex color' },
+  },
+};
+
+const DESIGN_TIPS_SCHEMA: JsonSchema = {
+  type: 'array',
+  minItems: 1,
+  maxItems: 5,
+  items: { type: 'string', minLength: 1 },
+};
+
 const STYLE_PROMPTS: Record<string, string> = {
   minimalist: 'Clean, minimal design with lots of white space, simple shapes, modern typography area',
   bold: 'Bold, vibrant colors, high contrast, energetic composition, strong visual impact',
@@ -67,44 +85,39 @@ export class ThumbnailGeneratorAgent extends BaseAgent {
   readonly meta: AgentMeta = {
     id: 'thumbnail-generator',
     name: 'Thumbnail Generator Agent',
+    nameKo: '썸네일 생성기',
     description: 'Creates AI-generated thumbnails optimized for Shorts and Reels',
+    descriptionKo: '숏츠·릴스에 최적화된 AI 썸네일을 생성하는 에이전트',
     category: 'thumbnail-generator',
     version: '1.0.0',
     estimatedCredits: { min: 20, max: 40 },
+    paramsSchema: {
+      type: 'object',
+      required: ['topic', 'style', 'orientation'],
+      properties: {
+        topic: { type: 'string', title: '주제', minLength: 1 },
+        style: {
+          type: 'string',
+          title: '스타일',
+          enum: ['minimalist', 'bold', 'aesthetic', 'meme', 'professional'],
+        },
+        textOverlay: { type: 'string', title: '텍스트 오버레이' },
+        colorScheme: { type: 'string', title: '색상 구성' },
+        mood: { type: 'string', title: '분위기' },
+        orientation: { type: 'string', title: '방향', enum: ['portrait', 'landscape', 'square'] },
+        variations: { type: 'integer', title: '생성 개수', minimum: 1, maximum: 4, default: 1 },
+      },
+    },
+    configSchema: { type: 'object', properties: {} },
   };
 
-  validate(input: AgentInput): ValidationResult {
-    const errors = requireStrings(input.params as Record<string, unknown>, ['topic']);
-
-    const styleErr = requireOneOf(
-      input.params as Record<string, unknown>,
-      'style',
-      ['minimalist', 'bold', 'aesthetic', 'meme', 'professional'],
-    );
-    if (styleErr) errors.push(styleErr);
-
-    const orientErr = requireOneOf(
-      input.params as Record<string, unknown>,
-      'orientation',
-      ['portrait', 'landscape', 'square'],
-    );
-    if (orientErr) errors.push(orientErr);
-
-    const params = input.params as Partial<ThumbnailParams>;
-    if (params.variations !== undefined && (params.variations < 1 || params.variations > 4)) {
-      errors.push(fieldError('variations', 'variations must be between 1 and 4', 'OUT_OF_RANGE'));
-    }
-
-    return errors.length > 0 ? fail(errors) : ok();
-  }
-
   async *execute(
     input: AgentInput,
     ctx: ExecutionContext,
   ): AsyncGenerator<ProgressEvent, AgentOutput, undefined> {
     const params = input.params as unknown as ThumbnailParams;
-    const variations = params.variations ?? 1;
-    const imageGen = new ImageGenTool(ctx.env.OPENAI_API_KEY);
+    const { variations } = params;
+    const imageGen = ctx.tools.imageGen(ctx.env.OPENAI_API_KEY);
 
     const thumbnails: ThumbnailResult[] = [];
     const artifacts: ArtifactRef[] = [];
@@ -115,7 +128,7 @@ export class ThumbnailGeneratorAgent extends BaseAgent {
     if (params.textOverlay) {
       yield this.progress(input.runId, 'text-plan', 'Planning text overlay...', 5);
 
-      const overlayResponse = await ctx.aiGateway.chat({
+      textOverlayPlan = await this.chatJSON<TextOverlayPlan>(ctx, {
         model: 'gpt-4o-mini',
         messages: [
           {
@@ -138,27 +151,8 @@ export class ThumbnailGeneratorAgent extends BaseAgent {
         temperature: 0.7,
         maxTokens: 256,
         cacheable: true,
+        responseSchema: TEXT_OVERLAY_SCHEMA,
       });
-
-      ctx.trackUsage(
-        this.llmUsage(overlayResponse.model, overlayResponse.inputTokens, overlayResponse.outputTokens),
-      );
-
-      try {
-        const jsonMatch = overlayResponse.content.match(/\{[\s\S]*\}/);
-        if (jsonMatch) {
-          textOverlayPlan = JSON.parse(jsonMatch[0]) as TextOverlayPlan;
-        }
-      } catch {
-        textOverlayPlan = {
-          text: params.textOverlay,
-          position: 'bottom',
-          suggestedFont: 'Noto Sans KR Bold',
-          suggestedSize: '48px',
-          suggestedColor: '#FFFFFF',
-          backgroundColor: '#000000CC',
-        };
-      }
     }
 
     // ---- Step 2: Generate image(s) ----
@@ -199,29 +193,25 @@ export class ThumbnailGeneratorAgent extends BaseAgent {
         80 + (i / variations) * 15,
       );
 
-      const r2Key = `thumbnails/${input.userId}/${input.runId}/${i}.png`;
-      await ctx.storage.put(r2Key, result.imageData, {
-        httpMetadata: { contentType: result.contentType },
-        customMetadata: {
-          topic: params.topic,
-          style: params.style,
-          runId: input.runId,
+      const artifact = await this.storeArtifact(
+        input,
+        ctx,
+        `thumbnails/${input.runId}/${i}.png`,
+        result.imageData,
+        {
+          contentType: result.contentType,
+          customMetadata: {
+            topic: params.topic,
+            style: params.style,
+            runId: input.runId,
+          },
         },
-      });
-
-      ctx.trackUsage(this.storageUsage(result.imageData.byteLength));
-
-      const artifact: ArtifactRef = {
-        key: r2Key,
-        bucket: 'AGENT_STORAGE',
-        contentType: result.contentType,
-        sizeBytes: result.imageData.byteLength,
-      };
+      );
       artifacts.push(artifact);
 
       thumbnails.push({
         url: '', // Will be resolved by the API layer with a signed URL
-        r2Key,
+        r2Key: artifact.key,
         style: params.style,
         prompt,
         revisedPrompt: result.revisedPrompt,
@@ -233,37 +223,33 @@ export class ThumbnailGeneratorAgent extends BaseAgent {
     // ---- Step 4: Design suggestions ----
     yield this.progress(input.runId, 'suggestions', 'Generating design tips...', 95);
 
-    const suggestResponse = await ctx.aiGateway.chat({
-      model: 'gpt-4o-mini',
-      messages: [
-        {
-          role: 'system',
-          content: 'You are a YouTube Shorts thumbnail expert.',
-        },
-        {
-          role: 'user',
-          content: `Give 3-5 brief tips for improving a ${params.style} thumbnail about "${params.topic}" for ${params.orientation} format. Keep each tip to one sentence. Output as JSON string array.`,
-        },
-      ],
-      temperature: 0.7,
-      maxTokens: 512,
-      cacheable: true,
-    });
-
-    ctx.trackUsage(
-      this.llmUsage(suggestResponse.model, suggestResponse.inputTokens, suggestResponse.outputTokens),
+    const designSuggestions = await this.chatJSON<string[]>(
+      ctx,
+      {
+        model: 'gpt-4o-mini',
+        messages: [
+          {
+            role: 'system',
+            content: 'You are a YouTube Shorts thumbnail expert.',
+          },
+          {
+            role: 'user',
+            content: `Give 3-5 brief tips for improving a ${params.style} thumbnail about "${params.topic}" for ${params.orientation} format. Keep each tip to one sentence. Output as JSON string array.`,
+          },
+        ],
+        temperature: 0.7,
+        maxTokens: 512,
+        cacheable: true,
+        responseSchema: DESIGN_TIPS_SCHEMA,
+      },
+      // The thumbnails are already stored
+      {
+        data: { topic: params.topic, thumbnails, designSuggestions: [] },
+        summary: `Generated ${thumbnails.length} thumbnail(s), but design tips could not be generated.`,
+        artifacts,
+      },
     );
 
-    let designSuggestions: string[] = [];
-    try {
-      const jsonMatch = suggestResponse.content.match(/\[[\s\S]*\]/);
-      if (jsonMatch) {
-        designSuggestions = JSON.parse(jsonMatch[0]) as string[];
-      }
-    } catch {
-      designSuggestions = ['Use high contrast text for readability on mobile devices.'];
-    }
-
     yield this.progress(input.runId, 'complete', 'Thumbnails ready', 100);
 
     const output: ThumbnailOutput = {
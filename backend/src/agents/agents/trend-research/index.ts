@@ -12,13 +12,9 @@ import type {
   AgentMeta,
   AgentInput,
   AgentOutput,
-  ValidationResult,
   ExecutionContext,
   ProgressEvent,
 } from '../../framework/types';
-import { YouTubeTool } from '../../tools/youtube';
-import { InstagramTool } from '../../tools/instagram';
-import { ok, fail, requireStrings, fieldError } from '../../utils/validation';
 
 interface TrendParams {
   niche: string;
@@ -70,23 +66,42 @@ export class TrendResearchAgent extends BaseAgent {
   readonly meta: AgentMeta = {
     id: 'trend-research',
     name: 'Trend Research Agent',
+    nameKo: '트렌드 리서치',
     description: 'Analyzes trending topics on YouTube Shorts and Instagram Reels for your niche',
+    descriptionKo: '내 분야의 유튜브 숏츠·인스타그램 릴스 트렌드 주제를 분석하는 에이전트',
     category: 'trend-research',
     version: '1.0.0',
     estimatedCredits: { min: 5, max: 10 },
+    paramsSchema: {
+      type: 'object',
+      required: ['niche', 'platforms'],
+      properties: {
+        niche: { type: 'string', title: '분야', minLength: 1 },
+        keywords: {
+          type: 'array',
+          title: '키워드',
+          description: 'Up to 5 keywords are searched; defaults to the niche',
+          items: { type: 'string' },
+        },
+        regionCode: { type: 'string', title: '지역 코드', default: 'KR' },
+        platforms: {
+          type: 'array',
+          title: '플랫폼',
+          items: { type: 'string', enum: ['youtube', 'instagram'] },
+          minItems: 1,
+        },
+        language: { type: 'string', title: '언어' },
+      },
+    },
+    configSchema: {
+      type: 'object',
+      properties: {
+        // Only used when no Instagram account is connected
+        instagramUserId: { type: 'string', title: '인스타그램 비즈니스 계정 ID' },
+      },
+    },
   };
 
-  validate(input: AgentInput): ValidationResult {
-    const params = input.params as Partial<TrendParams>;
-    const errors = requireStrings(input.params as Record<string, unknown>, ['niche']);
-
-    if (!params.platforms || !Array.isArray(params.platforms) || params.platforms.length === 0) {
-      errors.push(fieldError('platforms', 'At least one platform (youtube, instagram) is required', 'REQUIRED'));
-    }
-
-    return errors.length > 0 ? fail(errors) : ok();
-  }
-
   async *execute(
     input: AgentInput,
     ctx: ExecutionContext,
@@ -94,12 +109,11 @@ export class TrendResearchAgent extends BaseAgent {
     const params = input.params as unknown as TrendParams;
     const niche = params.niche;
     const keywords = params.keywords ?? [niche];
-    const region = params.regionCode ?? 'KR';
-    const platforms = params.platforms ?? ['youtube'];
+    const { regionCode: region, platforms } = params;
 
     const report: TrendReport = {
       niche,
-      generatedAt: new Date().toISOString(),
+      generatedAt: ctx.now().toISOString(),
       aiInsights: '',
       recommendations: [],
     };
@@ -111,7 +125,7 @@ export class TrendResearchAgent extends BaseAgent {
       yield this.progress(input.runId, 'youtube-search', 'Searching YouTube trending videos...', progressPct = 10);
       this.checkAborted(ctx.signal);
 
-      const youtube = new YouTubeTool(ctx.env.YOUTUBE_API_KEY);
+      const youtube = ctx.tools.youtube(ctx.env.YOUTUBE_API_KEY);
       const allResults: import('../../tools/youtube').YouTubeTrendResult[] = [];
 
       for (const keyword of keywords.slice(0, 5)) {
@@ -121,7 +135,7 @@ export class TrendResearchAgent extends BaseAgent {
           regionCode: region,
           videoDuration: 'short',
           order: 'viewCount',
-          publishedAfter: new Date(Date.now() - 7 * 24 * 60 * 60 * 1000).toISOString(),
+          publishedAfter: new Date(ctx.now().getTime() - 7 * 24 * 60 * 60 * 1000).toISOString(),
         });
         allResults.push(...results);
         ctx.trackUsage(this.apiCallUsage('youtube-data-api'));
@@ -196,8 +210,10 @@ export class TrendResearchAgent extends BaseAgent {
       yield this.progress(input.runId, 'instagram-search', 'Analyzing Instagram hashtags...', progressPct = 50);
       this.checkAborted(ctx.signal);
 
-      const instagram = new InstagramTool(ctx.env.INSTAGRAM_ACCESS_TOKEN);
-      const igUserId = (input.config['instagramUserId'] as string) ?? '';
+      // Prefer the Instagram account the user connected in settings
+      const account = await ctx.credentials?.get('meta');
+      const instagram = ctx.tools.instagram(account?.accessToken ?? ctx.env.INSTAGRAM_ACCESS_TOKEN);
+      const igUserId = account?.accountId ?? (input.config['instagramUserId'] as string) ?? '';
 
       if (igUserId) {
         const hashtagResults: HashtagAnalysis[] = [];
@@ -264,7 +280,7 @@ export class TrendResearchAgent extends BaseAgent {
       cacheable: true,
     });
 
-    ctx.trackUsage(this.llmUsage(llmResponse.model, llmResponse.inputTokens, llmResponse.outputTokens));
+    ctx.trackUsage(this.llmResponseUsage(llmResponse));
 
     report.aiInsights = llmResponse.content;
 
@@ -3,8 +3,9 @@
  *
  * All OpenClaw agents extend BaseAgent which provides:
  * - Standard lifecycle hooks
- * - Input validation scaffolding
+ * - Schema-driven input validation and defaults
  * - Usage tracking helpers
+ * - Schema-validated (JSON) LLM output helpers
  * - Credit cost calculation
  */
 
@@ -12,13 +13,26 @@ import type {
   AgentMeta,
   AgentInput,
   AgentOutput,
+  ApprovalPreview,
+  ArtifactRef,
   ValidationResult,
+  ValidationError,
   ExecutionContext,
   ProgressEvent,
   UsageLog,
   UsageEntry,
   CreditPricing,
+  JsonSchema,
+  LLMRequest,
+  LLMResponse,
 } from './types';
+import type { RoutingPolicy } from '../gateway/routing';
+import { StructuredOutputError, parseStructuredOutput } from '../gateway/structured-output';
+import { applySchemaDefaults, validateSchema } from './schema';
+import { userR2Prefix } from '../sandbox/config';
+
+/** Least time between progress events carrying streamed LLM text */
+const STREAM_PROGRESS_INTERVAL_MS = 1000;
 
 // ---------------------------------------------------------------------------
 // Agent interface
@@ -27,9 +41,23 @@ import type {
 export interface Agent {
   readonly meta: AgentMeta;
 
+  /** Adjustments to the user tier's model routing policy for this agent's LLM calls */
+  readonly routingPolicy?: Partial<RoutingPolicy>;
+
+  /** Fill in schema defaults for params and config */
+  applyDefaults(input: AgentInput): AgentInput;
+
   /** Validate inputs before execution */
   validate(input: AgentInput): ValidationResult;
 
+  /**
+   * Agents that publish externally build what they will publish here. A
+   * preview holds the run for the user's approval before any credits are
+   * reserved; null runs it straight away (e.g. approval is turned off).
+   * Not called again once approved: execute() gets `input.approvedPreview`.
+   */
+  preparePreview?(input: AgentInput, storage: R2Bucket): Promise<ApprovalPreview | null>;
+
   /** Execute the agent. Yields progress events; returns final output. */
   execute(
     input: AgentInput,
@@ -47,8 +75,33 @@ export interface Agent {
 export abstract class BaseAgent implements Agent {
   abstract readonly meta: AgentMeta;
 
-  /** Override in subclass with Zod schema or manual checks */
-  abstract validate(input: AgentInput): ValidationResult;
+  applyDefaults(input: AgentInput): AgentInput {
+    return {
+      ...input,
+      params: applySchemaDefaults(this.meta.paramsSchema, input.params),
+      config: applySchemaDefaults(this.meta.configSchema, input.config),
+    };
+  }
+
+  /** Check params and config against the schemas declared in `meta` */
+  validate(input: AgentInput): ValidationResult {
+    const errors = [
+      ...validateSchema(this.meta.paramsSchema, input.params).errors,
+      ...validateSchema(this.meta.configSchema, input.config, 'config').errors,
+    ];
+    if (errors.length === 0) {
+      errors.push(...this.validateRules(input));
+    }
+    return { valid: errors.length === 0, errors };
+  }
+
+  /**
+   * Override for rules a schema can't express (e.g. a field required only
+   * for some enum values). Only called once the input matches the schemas.
+   */
+  protected validateRules(_input: AgentInput): ValidationError[] {
+    return [];
+  }
 
   /** Override in subclass with agent-specific logic */
   abstract execute(
@@ -105,6 +158,107 @@ export abstract class BaseAgent implements Agent {
     };
   }
 
+  /**
+   * Send an LLM request with streaming, re-yielding the stage's progress
+   * event about once a second with the text written since the last one in
+   * `detail.partialTextDelta` and where it starts in `detail.partialTextOffset`,
+   * so the run page can show it being written without every stored event
+   * repeating the text so far. Whatever arrived after the last of these is
+   * sent once the reply is done, so the deltas add up to the full reply.
+   * Returns the full response.
+   */
+  protected async *streamLLM(
+    ctx: ExecutionContext,
+    stage: ProgressEvent,
+    request: LLMRequest,
+  ): AsyncGenerator<ProgressEvent, LLMResponse, undefined> {
+    let text = '';
+    let emittedLength = 0;
+    let lastEmitted = 0;
+    const textProgress = () => {
+      const event = this.progress(stage.runId, stage.stage, stage.message, stage.progress, {
+        ...stage.detail,
+        partialTextOffset: emittedLength,
+        partialTextDelta: text.slice(emittedLength),
+      });
+      emittedLength = text.length;
+      return event;
+    };
+
+    for await (const chunk of ctx.aiGateway.chatStream(request)) {
+      if (chunk.type === 'done') {
+        if (text.length > emittedLength) yield textProgress();
+        return chunk.response;
+      }
+
+      text += chunk.text;
+      const now = ctx.now().getTime();
+      if (text.length > emittedLength && now - lastEmitted >= STREAM_PROGRESS_INTERVAL_MS) {
+        lastEmitted = now;
+        this.checkAborted(ctx.signal);
+        yield textProgress();
+      }
+    }
+    throw new Error('LLM stream ended without a response');
+  }
+
+  /**
+   * Send a request with a responseSchema and return its validated JSON,
+   * tracking usage. A reply that still doesn't match after the gateway's
+   * repair attempt fails the run with an AgentExecutionError carrying
+   * `partial`, what the run has produced so far.
+   */
+  protected async chatJSON<T>(
+    ctx: ExecutionContext,
+    request: LLMRequest & { responseSchema: JsonSchema },
+    partial?: Partial<AgentOutput>,
+  ): Promise<T> {
+    try {
+      const response = await ctx.aiGateway.chat(request);
+      const data = this.responseData<T>(request, response);
+      ctx.trackUsage(this.llmResponseUsage(response));
+      return data;
+    } catch (error) {
+      throw this.structuredOutputFailure(ctx, error, partial);
+    }
+  }
+
+  /** chatJSON() with the reply streamed into the stage's progress, like streamLLM() */
+  protected async *streamJSON<T>(
+    ctx: ExecutionContext,
+    stage: ProgressEvent,
+    request: LLMRequest & { responseSchema: JsonSchema },
+    partial?: Partial<AgentOutput>,
+  ): AsyncGenerator<ProgressEvent, T, undefined> {
+    try {
+      const response = yield* this.streamLLM(ctx, stage, request);
+      const data = this.responseData<T>(request, response);
+      ctx.trackUsage(this.llmResponseUsage(response));
+      return data;
+    } catch (error) {
+      throw this.structuredOutputFailure(ctx, error, partial);
+    }
+  }
+
+  /** The validated JSON of a response; clients that only return text (e.g. a harness stub) get it parsed here */
+  private responseData<T>(request: LLMRequest & { responseSchema: JsonSchema }, response: LLMResponse): T {
+    if (response.data !== undefined) return response.data as T;
+    const output = parseStructuredOutput(response.content, request.responseSchema);
+    if (!output.valid) throw new StructuredOutputError(output.errors, response);
+    return output.value as T;
+  }
+
+  /** An invalid reply as an AgentExecutionError, once its calls are tracked; other errors unchanged */
+  private structuredOutputFailure(
+    ctx: ExecutionContext,
+    error: unknown,
+    partial: Partial<AgentOutput> | undefined,
+  ): unknown {
+    if (!(error instanceof StructuredOutputError)) return error;
+    ctx.trackUsage(this.llmResponseUsage(error.response));
+    return new AgentExecutionError(error.message, partial);
+  }
+
   /** Compute credit cost for an LLM call */
   protected llmCreditCost(
     model: string,
@@ -122,17 +276,33 @@ export abstract class BaseAgent implements Agent {
     );
   }
 
-  /** Build a UsageEntry for an LLM call */
+  /**
+   * Build a UsageEntry for an LLM call. A cached response is logged with its
+   * tokens but costs nothing, so the saving shows in the usage log.
+   */
   protected llmUsage(
     model: string,
     inputTokens: number,
     outputTokens: number,
+    cached = false,
   ): UsageEntry {
     return {
       resourceType: 'llm_tokens',
       resourceDetail: model,
       quantity: inputTokens + outputTokens,
-      creditCost: this.llmCreditCost(model, inputTokens, outputTokens),
+      creditCost: cached ? 0 : this.llmCreditCost(model, inputTokens, outputTokens),
+      ...(cached && { cached: true }),
+    };
+  }
+
+  /** Build a UsageEntry for an LLM response, noting a cache hit or fallback model */
+  protected llmResponseUsage(response: LLMResponse): UsageEntry {
+    return {
+      ...this.llmUsage(response.model, response.inputTokens, response.outputTokens, response.cached),
+      ...(response.fallback && {
+        fallbackFrom: response.fallback.fromModel,
+        fallbackReason: response.fallback.reason,
+      }),
     };
   }
 
@@ -166,6 +336,38 @@ export abstract class BaseAgent implements Agent {
     };
   }
 
+  /**
+   * Store an object under the user's R2 prefix (path is relative to it),
+   * checking their storage quota first, and record it as a run artifact.
+   */
+  protected async storeArtifact(
+    input: AgentInput,
+    ctx: ExecutionContext,
+    path: string,
+    body: ArrayBuffer,
+    options: { contentType: string; customMetadata?: Record<string, string> },
+  ): Promise<ArtifactRef> {
+    if (ctx.artifacts && !(await ctx.artifacts.hasQuota(body.byteLength))) {
+      throw new AgentExecutionError('Storage quota exceeded; delete artifacts to free up space');
+    }
+
+    const key = `${userR2Prefix(input.userId)}${path}`;
+    await ctx.storage.put(key, body, {
+      httpMetadata: { contentType: options.contentType },
+      customMetadata: options.customMetadata,
+    });
+    ctx.trackUsage(this.storageUsage(body.byteLength));
+
+    const artifact: ArtifactRef = {
+      key,
+      bucket: 'AGENT_STORAGE',
+      contentType: options.contentType,
+      sizeBytes: body.byteLength,
+    };
+    await ctx.artifacts?.record(artifact);
+    return artifact;
+  }
+
   /** Check if the run has been cancelled or timed out */
   protected checkAborted(signal: AbortSignal): void {
     if (signal.aborted) {
@@ -207,3 +409,14 @@ export class AgentExecutionError extends Error {
     this.name = 'AgentExecutionError';
   }
 }
+
+/**
+ * Whether a failure is worth retrying: network errors (fetch rejects with a
+ * TypeError) and upstream API errors with a 408, 429 or 5xx status. Gateway and
+ * tool errors carry the status in their message, e.g. "OpenAI API error 503: ...".
+ */
+export function isTransientError(error: unknown): boolean {
+  if (error instanceof TypeError) return true;
+  if (!(error instanceof Error)) return false;
+  return /\berror:? (408|429|5\d\d)\b/i.test(error.message);
+}
@@ -0,0 +1,31 @@
+/**
+ * Cancellation Registry.
+ *
+ * Maps runId -> AbortController for runs executing in this isolate, so a
+ * cancel request served by the same isolate aborts immediately. Requests
+ * served elsewhere reach the run through the lifecycle's cancel-flag poll.
+ */
+
+class CancellationRegistry {
+  private controllers = new Map<string, AbortController>();
+
+  /** Track a run's controller while it executes */
+  register(runId: string, controller: AbortController): void {
+    this.controllers.set(runId, controller);
+  }
+
+  unregister(runId: string): void {
+    this.controllers.delete(runId);
+  }
+
+  /** Abort a run executing in this isolate. Returns false if it isn't here. */
+  cancel(runId: string, reason = 'Agent run was cancelled'): boolean {
+    const controller = this.controllers.get(runId);
+    if (!controller) return false;
+    controller.abort(reason);
+    return true;
+  }
+}
+
+/** Singleton registry instance */
+export const cancellationRegistry = new CancellationRegistry();
@@ -0,0 +1,215 @@
+/**
+ * Offline agent harness.
+ *
+ * Runs an agent's execute() outside the Workers runtime, with its external
+ * API calls served from a recorded fixture (tools/fixtures.ts), an in-memory
+ * bucket and a fixed clock, so the same input gives the same output and
+ * usage every time. Record a fixture once against the live APIs, commit it,
+ * then replay it (framework/replay.ts).
+ *
+ * Unlike AgentLifecycleManager there are no credits, approval hold, timeout
+ * or persistence: validation, then execute() straight through.
+ */
+
+import type {
+  AgentEnv,
+  AgentInput,
+  AgentOutput,
+  AIGatewayClient,
+  ArtifactStore,
+  CredentialProvider,
+  ExecutionContext,
+  ProgressEvent,
+  ToolId,
+  UsageEntry,
+  UsageLog,
+} from './types';
+import type { Agent } from './agent';
+import { AgentValidationError } from './agent';
+import { Toolkit } from '../tools/toolkit';
+import { createRecordingClient, createReplayClient, type ToolFixture } from '../tools/fixtures';
+
+/** Default fixed clock, so outputs that embed the time are stable */
+const DEFAULT_NOW = '2025-01-01T00:00:00.000Z';
+
+export interface OfflineRunOptions {
+  /** Recorded responses to serve; required unless recording */
+  fixture?: ToolFixture;
+  /** Call the live APIs and return the exchanges as a new fixture */
+  record?: boolean;
+  /** LLM client for the run, e.g. a stub returning canned completions */
+  aiGateway: AIGatewayClient;
+  /** API keys etc.; only needed when recording */
+  env?: Partial<AgentEnv>;
+  /** Defaults to an empty in-memory bucket */
+  storage?: R2Bucket;
+  credentials?: CredentialProvider;
+  artifacts?: ArtifactStore;
+  baseUrls?: Partial<Record<ToolId, string>>;
+  /** Defaults to 2025-01-01T00:00:00Z */
+  now?: Date;
+}
+
+export interface OfflineRunResult {
+  output: AgentOutput;
+  progress: ProgressEvent[];
+  usage: UsageEntry[];
+  /** What calculateCost() makes of the usage */
+  creditCost: number;
+  /** Set when recording */
+  fixture?: ToolFixture;
+}
+
+/** Run an agent against recorded (or, when recording, live) external APIs */
+export async function runAgentOffline(
+  agent: Agent,
+  rawInput: AgentInput,
+  options: OfflineRunOptions,
+): Promise<OfflineRunResult> {
+  if (!options.fixture && !options.record) {
+    throw new Error('runAgentOffline needs a fixture to replay, or record: true');
+  }
+
+  const input = agent.applyDefaults(rawInput);
+  const validation = agent.validate(input);
+  if (!validation.valid) {
+    throw new AgentValidationError(
+      `Validation failed: ${validation.errors.map((e) => e.message).join(', ')}`,
+      validation.errors,
+    );
+  }
+
+  const now = options.now ?? new Date(DEFAULT_NOW);
+  const recorder = options.record ? createRecordingClient() : null;
+  const tools = new Toolkit({
+    http: recorder ? recorder.http : createReplayClient(options.fixture!),
+    baseUrls: options.baseUrls,
+    // Replayed status polls come back immediately
+    sleep: recorder ? undefined : async () => {},
+  });
+
+  const progress: ProgressEvent[] = [];
+  const usage: UsageEntry[] = [];
+  const context: ExecutionContext = {
+    env: offlineEnv(options.env),
+    emitProgress: (event) => progress.push(event),
+    signal: new AbortController().signal,
+    aiGateway: options.aiGateway,
+    storage: options.storage ?? createMemoryBucket(),
+    artifacts: options.artifacts,
+    credentials: options.credentials,
+    tools,
+    now: () => new Date(now),
+    trackUsage: (entry) => usage.push(entry),
+  };
+
+  const generator = agent.execute(input, context);
+  let result = await generator.next();
+  while (!result.done) {
+    // Progress timestamps come from Date.now(); pin them to the fixed clock
+    progress.push({ ...result.value, timestamp: now.getTime() });
+    result = await generator.next();
+  }
+
+  const logs: UsageLog[] = usage.map((entry, i) => ({
+    ...entry,
+    id: `usage-${i + 1}`,
+    agentRunId: input.runId,
+    userId: input.userId,
+    createdAt: now.toISOString(),
+  }));
+
+  return {
+    output: result.value,
+    progress,
+    usage,
+    creditCost: agent.calculateCost(logs),
+    fixture: recorder?.fixture(),
+  };
+}
+
+/** An AgentEnv with only the given keys set; bindings aren't available offline */
+export function offlineEnv(env: Partial<AgentEnv> = {}): AgentEnv {
+  return {
+    AGENT_STORAGE: null as unknown as R2Bucket,
+    DB: null as unknown as D1Database,
+    YOUTUBE_API_KEY: '',
+    OPENAI_API_KEY: '',
+    ANTHROPIC_API_KEY: '',
+    GOOGLE_AI_API_KEY: '',
+    INSTAGRAM_ACCESS_TOKEN: '',
+    ...env,
+  };
+}
+
+/**
+ * The parts of R2Bucket agents use (put, get, head, delete), kept in memory.
+ * Seed it with put() before the run, e.g. with a video to post.
+ */
+export function createMemoryBucket(): R2Bucket {
+  const objects = new Map<
+    string,
+    { data: ArrayBuffer; httpMetadata?: R2HTTPMetadata; customMetadata?: Record<string, string> }
+  >();
+
+  const toObject = (key: string) => {
+    const stored = objects.get(key);
+    if (!stored) return null;
+    return {
+      key,
+      size: stored.data.byteLength,
+      etag: key,
+      httpEtag: `"${key}"`,
+      uploaded: new Date(0),
+      httpMetadata: stored.httpMetadata ?? {},
+      customMetadata: stored.customMetadata ?? {},
+      writeHttpMetadata: (headers: Headers) => {
+        if (stored.httpMetadata?.contentType) headers.set('Content-Type', stored.httpMetadata.contentType);
+      },
+      stored,
+    };
+  };
+
+  const bucket = {
+    async put(
+      key: string,
+      value: ArrayBuffer | ArrayBufferView | string,
+      options?: { httpMetadata?: R2HTTPMetadata; customMetadata?: Record<string, string> },
+    ) {
+      const data = await new Response(value).arrayBuffer();
+      objects.set(key, { data, httpMetadata: options?.httpMetadata, customMetadata: options?.customMetadata });
+      const { stored: _stored, ...object } = toObject(key)!;
+      return object;
+    },
+
+    async get(key: string) {
+      const object = toObject(key);
+      if (!object) return null;
+      const { stored, ...meta } = object;
+      return {
+        ...meta,
+        get body() {
+          return new Response(stored.data.slice(0)).body;
+        },
+        bodyUsed: false,
+        arrayBuffer: async () => stored.data.slice(0),
+        text: async () => new TextDecoder().decode(stored.data),
+        json: async () => JSON.parse(new TextDecoder().decode(stored.data)),
+        blob: async () => new Blob([stored.data]),
+      };
+    },
+
+    async head(key: string) {
+      const object = toObject(key);
+      if (!object) return null;
+      const { stored: _stored, ...meta } = object;
+      return meta;
+    },
+
+    async delete(keys: string | string[]) {
+      for (const key of Array.isArray(keys) ? keys : [keys]) objects.delete(key);
+    },
+  };
+
+  return bucket as unknown as R2Bucket;
+}
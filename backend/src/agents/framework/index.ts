@@ -2,9 +2,21 @@ export type {
   AgentMeta,
   AgentCategory,
   CreditRange,
+  JsonSchema,
+  JsonSchemaType,
   AgentInput,
   AgentOutput,
+  ApprovalPreview,
   ArtifactRef,
+  ArtifactStore,
+  ConnectedProvider,
+  ConnectedAccount,
+  CredentialProvider,
+  HttpClient,
+  ToolId,
+  ToolOptions,
+  Tool,
+  ToolFactory,
   ValidationResult,
   ValidationError,
   ExecutionContext,
@@ -19,7 +31,12 @@ export type {
   LLMRequest,
   LLMMessage,
   LLMResponse,
+  LLMStreamChunk,
+  LLMFallback,
+  FallbackReason,
   AIGatewayClient,
+  CachedLLMResponse,
+  PromptCache,
   CreditPricing,
 } from './types';
 
@@ -29,7 +46,25 @@ export {
   AgentAbortedError,
   AgentValidationError,
   AgentExecutionError,
+  isTransientError,
 } from './agent';
 
+export { validateSchema, applySchemaDefaults } from './schema';
 export { AgentLifecycleManager, type LifecycleCallbacks } from './lifecycle';
 export { agentRegistry } from './registry';
+export { cancellationRegistry } from './cancellation';
+export {
+  runAgentOffline,
+  createMemoryBucket,
+  type OfflineRunOptions,
+  type OfflineRunResult,
+} from './harness';
+export {
+  replayAgentCase,
+  recordAgentCase,
+  withExpectation,
+  type AgentReplayCase,
+  type ReplayExpectation,
+  type ReplayResult,
+  type SeededObject,
+} from './replay';
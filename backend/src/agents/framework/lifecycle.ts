@@ -2,32 +2,44 @@
  * Agent Lifecycle Manager.
  *
  * Orchestrates the full lifecycle of an agent run:
- * 1. Validate input
- * 2. Reserve credits
- * 3. Execute with timeout + progress streaming
- * 4. Settle credits (actual vs reserved)
- * 5. Persist results
+ * 1. Apply schema defaults and validate input
+ * 2. Hold for approval, for agents that publish externally
+ * 3. Reserve credits
+ * 4. Execute with timeout + progress streaming
+ * 5. Settle credits (actual vs reserved)
+ * 6. Persist results
  *
  * Handles: cancellation, timeouts, partial results on failure, usage logging.
+ * Cancellation reaches a run either directly through the cancellation
+ * registry (same isolate) or via the isCancelRequested poll between steps.
+ *
+ * Usage is persisted as each call is tracked, so a run whose isolate dies
+ * has it logged for the stale-run reaper to charge. An agent that ignores
+ * its aborted signal can outlive the reaper's deadline; once the reaper has
+ * failed and settled the run (isRunActive), the lifecycle leaves it be.
  */
 
 import type {
   AgentInput,
   AgentOutput,
   AgentRun,
+  ArtifactStore,
+  CredentialProvider,
   ExecutionContext,
   ProgressEvent,
+  ToolFactory,
   UsageEntry,
   UsageLog,
   AgentEnv,
-  RunStatus,
 } from './types';
 import type { Agent } from './agent';
-import { AgentAbortedError, AgentExecutionError, AgentValidationError } from './agent';
+import { AgentAbortedError, AgentExecutionError, AgentValidationError, isTransientError } from './agent';
+import { cancellationRegistry } from './cancellation';
+import { Toolkit } from '../tools/toolkit';
 import { ulid } from 'ulid';
 
 /** Max execution time per agent run (5 minutes) */
-const MAX_EXECUTION_MS = 5 * 60 * 1000;
+export const MAX_EXECUTION_MS = 5 * 60 * 1000;
 
 export interface LifecycleCallbacks {
   /** Called when a progress event is emitted (forward to SSE) */
@@ -38,8 +50,18 @@ export interface LifecycleCallbacks {
   settleCredits: (userId: string, reserved: number, actual: number) => Promise<void>;
   /** Persist the run record to D1 */
   persistRun: (run: AgentRun) => Promise<void>;
-  /** Persist usage logs to D1 */
+  /** Persist usage logs to D1; called with each entry as it is tracked */
   persistUsage: (logs: UsageLog[]) => Promise<void>;
+  /** False once the run was finished elsewhere (e.g. failed by the stale-run reaper) */
+  isRunActive?: () => Promise<boolean>;
+  /** Check for a cancel requested from another isolate; polled between generator steps */
+  isCancelRequested?: () => Promise<boolean>;
+  /** Storage quota and artifact records for the run's user, handed to the agent */
+  artifacts?: ArtifactStore;
+  /** The run's user's connected accounts, handed to the agent */
+  credentials?: CredentialProvider;
+  /** External API tools; defaults to live APIs over the global fetch */
+  tools?: ToolFactory;
 }
 
 export class AgentLifecycleManager {
@@ -53,8 +75,9 @@ export class AgentLifecycleManager {
    * Execute a full agent run lifecycle.
    * Returns the completed AgentRun record.
    */
-  async run(input: AgentInput, aiGateway: import('./types').AIGatewayClient, storage: R2Bucket): Promise<AgentRun> {
+  async run(rawInput: AgentInput, aiGateway: import('./types').AIGatewayClient, storage: R2Bucket): Promise<AgentRun> {
     const startTime = Date.now();
+    const input = this.agent.applyDefaults(rawInput);
     const usageLogs: UsageLog[] = [];
     const creditsToReserve = this.agent.meta.estimatedCredits.max;
 
@@ -86,7 +109,39 @@ export class AgentLifecycleManager {
       throw new AgentValidationError(run.errorMessage, validation.errors);
     }
 
-    // Step 2: Reserve credits
+    // Cancelled while still queued: nothing reserved, nothing to settle
+    if (await this.callbacks.isCancelRequested?.()) {
+      run.status = 'cancelled';
+      run.errorMessage = 'Agent run was cancelled before it started';
+      run.durationMs = Date.now() - startTime;
+      run.completedAt = new Date().toISOString();
+      await this.callbacks.persistRun(run);
+      return run;
+    }
+
+    // Step 2: Hold for approval. Nothing is reserved until the user approves
+    // the preview and the run is started again with input.approvedPreview.
+    if (this.agent.preparePreview && !input.approvedPreview) {
+      try {
+        const preview = await this.agent.preparePreview(input, storage);
+        if (preview) {
+          run.status = 'awaiting_approval';
+          run.approvalPreview = preview;
+          await this.callbacks.persistRun(run);
+          return run;
+        }
+      } catch (error) {
+        run.status = 'failed';
+        run.errorMessage = error instanceof Error ? error.message : 'Failed to prepare approval preview';
+        run.retryable = isTransientError(error);
+        run.durationMs = Date.now() - startTime;
+        run.completedAt = new Date().toISOString();
+        await this.callbacks.persistRun(run);
+        return run;
+      }
+    }
+
+    // Step 3: Reserve credits
     const reserved = await this.callbacks.reserveCredits(input.userId, creditsToReserve);
     if (!reserved) {
       run.status = 'failed';
@@ -97,7 +152,7 @@ export class AgentLifecycleManager {
       throw new AgentExecutionError('Insufficient credits to run this agent');
     }
 
-    // Step 3: Execute with timeout
+    // Step 4: Execute with timeout
     run.status = 'running';
     run.startedAt = new Date().toISOString();
     await this.callbacks.persistRun(run);
@@ -106,8 +161,11 @@ export class AgentLifecycleManager {
     const timeout = setTimeout(() => {
       abortController.abort(new Error('Agent execution timed out'));
     }, MAX_EXECUTION_MS);
+    cancellationRegistry.register(input.runId, abortController);
 
-    // Build execution context
+    // Build execution context. Usage is persisted as it is tracked, and
+    // awaited before the run is settled
+    const pendingUsage: Promise<void>[] = [];
     const trackUsage = (entry: UsageEntry) => {
       const log: UsageLog = {
         ...entry,
@@ -117,6 +175,7 @@ export class AgentLifecycleManager {
         createdAt: new Date().toISOString(),
       };
       usageLogs.push(log);
+      pendingUsage.push(this.callbacks.persistUsage([log]));
     };
 
     const context: ExecutionContext = {
@@ -125,6 +184,10 @@ export class AgentLifecycleManager {
       signal: abortController.signal,
       aiGateway,
       storage,
+      artifacts: this.callbacks.artifacts,
+      credentials: this.callbacks.credentials,
+      tools: this.callbacks.tools ?? new Toolkit(),
+      now: () => new Date(),
       trackUsage,
     };
 
@@ -138,13 +201,14 @@ export class AgentLifecycleManager {
       while (!result.done) {
         // Each yielded value is a ProgressEvent
         this.callbacks.onProgress(result.value as ProgressEvent);
+        await this.stopIfCancelled(abortController);
         result = await generator.next();
       }
 
       // The return value is the final AgentOutput
       output = result.value;
 
-      // Step 4: Calculate actual cost
+      // Step 5: Calculate actual cost
       const actualCost = this.agent.calculateCost(usageLogs);
 
       run.status = 'completed';
@@ -152,9 +216,6 @@ export class AgentLifecycleManager {
       run.creditsActual = actualCost;
       run.durationMs = Date.now() - startTime;
       run.completedAt = new Date().toISOString();
-
-      // Step 5: Settle credits
-      await this.callbacks.settleCredits(input.userId, creditsToReserve, actualCost);
     } catch (error) {
       run.durationMs = Date.now() - startTime;
       run.completedAt = new Date().toISOString();
@@ -166,6 +227,7 @@ export class AgentLifecycleManager {
         run.status = 'failed';
         run.errorMessage =
           error instanceof Error ? error.message : 'Unknown execution error';
+        run.retryable = isTransientError(error);
 
         // Save partial output if available
         if (error instanceof AgentExecutionError && error.partialOutput) {
@@ -179,31 +241,55 @@ export class AgentLifecycleManager {
         }
       }
 
-      // Settle credits (charge for work done even on failure)
-      const actualCost = this.agent.calculateCost(usageLogs);
-      run.creditsActual = actualCost;
-      await this.callbacks.settleCredits(input.userId, creditsToReserve, actualCost);
+      // Charge for work done even on failure
+      run.creditsActual = this.agent.calculateCost(usageLogs);
     } finally {
       clearTimeout(timeout);
+      cancellationRegistry.unregister(input.runId);
+      await Promise.allSettled(pendingUsage);
 
-      // Persist final run state and usage logs
-      await this.callbacks.persistRun(run);
-      if (usageLogs.length > 0) {
-        await this.callbacks.persistUsage(usageLogs);
+      if (await this.isRunActive()) {
+        // Step 6: Settle credits, then persist the final run state
+        try {
+          await this.callbacks.settleCredits(input.userId, creditsToReserve, run.creditsActual ?? 0);
+        } finally {
+          await this.callbacks.persistRun(run);
+        }
+      } else {
+        // The reaper failed the run and settled its reservation already
+        run.status = 'failed';
+        run.errorMessage = 'Agent run was stopped after exceeding its wall-time limit';
+        run.retryable = false;
       }
     }
 
     return run;
   }
 
+  private async isRunActive(): Promise<boolean> {
+    return (await this.callbacks.isRunActive?.()) ?? true;
+  }
+
+  /**
+   * Abort on a cross-isolate cancel request, then stop between steps if the
+   * signal has fired (cancel or timeout) even when the agent doesn't check it.
+   */
+  private async stopIfCancelled(abortController: AbortController): Promise<void> {
+    if (!abortController.signal.aborted && (await this.callbacks.isCancelRequested?.())) {
+      abortController.abort('Agent run was cancelled');
+    }
+    if (abortController.signal.aborted) {
+      const reason: unknown = abortController.signal.reason;
+      throw new AgentAbortedError(reason instanceof Error ? reason.message : String(reason));
+    }
+  }
+
   /**
-   * Cancel a running agent by aborting its signal.
-   * Actual cancellation is handled in the run() method above.
+   * Cancel a run executing in this isolate by aborting its signal.
+   * Returns false when the run isn't here; it then stops at its next
+   * isCancelRequested poll.
    */
-  static cancel(run: AgentRun): RunStatus {
-    // In practice, the AbortController is held per-run in a Map.
-    // This is a placeholder; the real cancellation mechanism uses
-    // Durable Objects or a shared Map keyed by runId.
-    return 'cancelled';
+  static cancel(runId: string): boolean {
+    return cancellationRegistry.cancel(runId);
   }
 }
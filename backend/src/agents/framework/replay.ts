@@ -0,0 +1,231 @@
+/**
+ * Recorded agent runs.
+ *
+ * A replay case is one agent run kept as data: its input, the external API
+ * and LLM provider exchanges it made, and what it produced. replayAgentCase()
+ * runs the agent against those exchanges with runAgentOffline() and lists
+ * where the output or usage now differs, or where the text streamed into its
+ * progress events doesn't add up to the streamed replies. recordAgentCase()
+ * makes the same run against the live APIs and captures a new case. The
+ * cases are committed in fixtures/agents and replayed by
+ * `npm run agents:replay`.
+ *
+ * LLM calls go through CloudflareAIGateway with the recorded provider
+ * exchanges as its HTTP client, so routing, structured output parsing and
+ * streaming run as they do in production.
+ */
+
+import type {
+  AIGatewayClient,
+  AgentEnv,
+  AgentInput,
+  ArtifactRef,
+  ArtifactStore,
+  ConnectedAccount,
+  ConnectedProvider,
+  CredentialProvider,
+  UsageEntry,
+} from './types';
+import type { Agent } from './agent';
+import { createMemoryBucket, offlineEnv, runAgentOffline, type OfflineRunResult } from './harness';
+import { CloudflareAIGateway } from '../gateway/ai-gateway';
+import { createRecordingClient, createReplayClient, type ToolFixture } from '../tools/fixtures';
+
+/** Credentials sent while replaying; recorded URLs have them redacted, so any value matches */
+const REPLAY_KEYS: Partial<AgentEnv> = {
+  YOUTUBE_API_KEY: 'replay',
+  OPENAI_API_KEY: 'replay',
+  ANTHROPIC_API_KEY: 'replay',
+  GOOGLE_AI_API_KEY: 'replay',
+  INSTAGRAM_ACCESS_TOKEN: 'replay',
+};
+
+/** Most differences reported per case */
+const MAX_MISMATCHES = 20;
+
+/** An object in the run's bucket before it starts, e.g. the video to post */
+export interface SeededObject {
+  contentType: string;
+  /** Object body, base64 */
+  body: string;
+  /** Public URL handed out as its signed URL, for tools that fetch it themselves (Instagram) */
+  url?: string;
+}
+
+/** What a recorded run produced */
+export interface ReplayExpectation {
+  success: boolean;
+  summary: string;
+  data: Record<string, unknown>;
+  artifacts: ArtifactRef[];
+  usage: UsageEntry[];
+  creditCost: number;
+}
+
+export interface AgentReplayCase {
+  version: 1;
+  agentId: string;
+  description: string;
+  input: AgentInput;
+  storage?: Record<string, SeededObject>;
+  /** Accounts the user has connected in settings */
+  accounts?: Partial<Record<ConnectedProvider, ConnectedAccount>>;
+  /** YouTube, Instagram and image generation exchanges */
+  tools: ToolFixture;
+  /** LLM provider exchanges */
+  llm: ToolFixture;
+  expected: ReplayExpectation;
+}
+
+export interface ReplayResult {
+  result: OfflineRunResult;
+  /** One line per difference from the recorded expectation; empty if none */
+  mismatches: string[];
+}
+
+/** Run a case against its recorded exchanges and compare the result with its expectation */
+export async function replayAgentCase(agent: Agent, replayCase: AgentReplayCase): Promise<ReplayResult> {
+  checkAgent(agent, replayCase);
+
+  const gateway = new CloudflareAIGateway(offlineEnv(REPLAY_KEYS), undefined, {
+    http: createReplayClient(replayCase.llm),
+    sleep: async () => {},
+  });
+  // The full text of each streamed reply, to check the progress deltas against
+  const streamedReplies: string[] = [];
+  const aiGateway: AIGatewayClient = {
+    chat: (request) => gateway.chat(request),
+    async *chatStream(request) {
+      for await (const chunk of gateway.chatStream(request)) {
+        if (chunk.type === 'done') streamedReplies.push(chunk.response.content);
+        yield chunk;
+      }
+    },
+  };
+  const result = await runAgentOffline(agent, replayCase.input, {
+    ...(await runOptions(replayCase)),
+    fixture: replayCase.tools,
+    aiGateway,
+    env: REPLAY_KEYS,
+  });
+
+  const mismatches: string[] = [];
+  diff('', replayCase.expected, expectationOf(result), mismatches);
+  diff('streamedText', streamedReplies, streamedText(result), mismatches);
+  return { result, mismatches };
+}
+
+/**
+ * Make a case's run against the live APIs with the given keys and return
+ * the case with its exchanges and expectation replaced by what happened.
+ */
+export async function recordAgentCase(
+  agent: Agent,
+  replayCase: AgentReplayCase,
+  env: Partial<AgentEnv>,
+): Promise<AgentReplayCase> {
+  checkAgent(agent, replayCase);
+
+  const llm = createRecordingClient();
+  const aiGateway = new CloudflareAIGateway(offlineEnv(env), undefined, { http: llm.http });
+  const result = await runAgentOffline(agent, replayCase.input, {
+    ...(await runOptions(replayCase)),
+    record: true,
+    aiGateway,
+    env,
+  });
+
+  return { ...replayCase, tools: result.fixture!, llm: llm.fixture(), expected: expectationOf(result) };
+}
+
+/** The case with its expectation replaced by a replayed result, after an intended change */
+export function withExpectation(replayCase: AgentReplayCase, result: OfflineRunResult): AgentReplayCase {
+  return { ...replayCase, expected: expectationOf(result) };
+}
+
+function checkAgent(agent: Agent, replayCase: AgentReplayCase): void {
+  if (replayCase.version !== 1) {
+    throw new Error(`Unsupported replay case version: ${String(replayCase.version)}`);
+  }
+  if (agent.meta.id !== replayCase.agentId) {
+    throw new Error(`Replay case is for agent "${replayCase.agentId}", not "${agent.meta.id}"`);
+  }
+}
+
+/** Bucket (seeded), connected accounts and artifact store the case's run sees */
+async function runOptions(replayCase: AgentReplayCase) {
+  const seeded = replayCase.storage ?? {};
+  const storage = createMemoryBucket();
+  for (const [key, object] of Object.entries(seeded)) {
+    await storage.put(key, Uint8Array.from(atob(object.body), (c) => c.charCodeAt(0)), {
+      httpMetadata: { contentType: object.contentType },
+    });
+  }
+
+  const credentials: CredentialProvider = {
+    get: async (provider) => replayCase.accounts?.[provider] ?? null,
+  };
+
+  const artifacts: ArtifactStore = {
+    hasQuota: async () => true,
+    record: async () => {},
+    signedUrl: async (key) => {
+      const url = seeded[key]?.url;
+      if (!url) throw new Error(`Replay case has no URL for ${key}`);
+      return url;
+    },
+  };
+
+  return { storage, credentials, artifacts };
+}
+
+function expectationOf(result: OfflineRunResult): ReplayExpectation {
+  // Through JSON, as the expectation is stored: undefined fields drop out
+  return JSON.parse(
+    JSON.stringify({
+      success: result.output.success,
+      summary: result.output.summary,
+      data: result.output.data,
+      artifacts: result.output.artifacts,
+      usage: result.usage,
+      creditCost: result.creditCost,
+    }),
+  ) as ReplayExpectation;
+}
+
+/** Each streamed reply as the run page rebuilds it from the progress events' deltas */
+function streamedText(result: OfflineRunResult): string[] {
+  const texts: string[] = [];
+  for (const event of result.progress) {
+    const delta = event.detail?.partialTextDelta;
+    const offset = event.detail?.partialTextOffset;
+    if (typeof delta !== 'string' || typeof offset !== 'number') continue;
+    // Offset 0 starts the next reply
+    if (offset === 0) texts.push(delta);
+    else texts[texts.length - 1] = texts[texts.length - 1].slice(0, offset) + delta;
+  }
+  return texts;
+}
+
+/** Append a line per path where `actual` differs from `expected` */
+function diff(path: string, expected: unknown, actual: unknown, out: string[]): void {
+  if (out.length >= MAX_MISMATCHES) return;
+
+  const bothObjects =
+    typeof expected === 'object' && expected !== null && typeof actual === 'object' && actual !== null;
+  if (bothObjects && Array.isArray(expected) === Array.isArray(actual)) {
+    if (Array.isArray(expected) && expected.length !== (actual as unknown[]).length) {
+      out.push(`${path || '(root)'}: expected ${expected.length} items, got ${(actual as unknown[]).length}`);
+      return;
+    }
+    const keys = new Set([...Object.keys(expected), ...Object.keys(actual)]);
+    for (const key of keys) {
+      diff(path ? `${path}.${key}` : key, (expected as Record<string, unknown>)[key], (actual as Record<string, unknown>)[key], out);
+    }
+    return;
+  }
+
+  if (expected !== actual) {
+    out.push(`${path || '(root)'}: expected ${JSON.stringify(expected)}, got ${JSON.stringify(actual)}`);
+  }
+}
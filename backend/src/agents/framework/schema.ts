@@ -0,0 +1,150 @@
+/**
+ * Declarative params/config schemas.
+ *
+ * Agents describe their input with the JSON Schema subset in `JsonSchema`.
+ * The same schema is published to the dashboard, checked here before a run,
+ * and used to fill in defaults so execute() always sees a complete input.
+ */
+
+import type { JsonSchema, ValidationError, ValidationResult } from './types';
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isMissing(value: unknown): boolean {
+  return value === undefined || value === null || (typeof value === 'string' && value.trim().length === 0);
+}
+
+function joinPath(path: string, key: string): string {
+  return path ? `${path}.${key}` : key;
+}
+
+function matchesType(schema: JsonSchema, value: unknown): boolean {
+  switch (schema.type) {
+    case 'object':
+      return isPlainObject(value);
+    case 'array':
+      return Array.isArray(value);
+    case 'string':
+      return typeof value === 'string';
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value);
+    case 'integer':
+      return typeof value === 'number' && Number.isInteger(value);
+    case 'boolean':
+      return typeof value === 'boolean';
+  }
+}
+
+function collectErrors(
+  schema: JsonSchema,
+  value: unknown,
+  path: string,
+  errors: ValidationError[],
+): void {
+  const field = path || 'params';
+
+  if (!matchesType(schema, value)) {
+    errors.push({ field, message: `${field} must be of type ${schema.type}`, code: 'INVALID_TYPE' });
+    return;
+  }
+
+  if (schema.enum && !schema.enum.includes(value as string | number)) {
+    errors.push({
+      field,
+      message: `${field} must be one of: ${schema.enum.join(', ')}`,
+      code: 'INVALID_ENUM',
+    });
+  }
+
+  if (typeof value === 'number') {
+    if (
+      (schema.minimum !== undefined && value < schema.minimum) ||
+      (schema.maximum !== undefined && value > schema.maximum)
+    ) {
+      errors.push({
+        field,
+        message: `${field} must be a number between ${schema.minimum ?? '-∞'} and ${schema.maximum ?? '∞'}`,
+        code: 'OUT_OF_RANGE',
+      });
+    }
+  }
+
+  if (typeof value === 'string') {
+    if (schema.minLength !== undefined && value.trim().length < schema.minLength) {
+      errors.push({ field, message: `${field} must be at least ${schema.minLength} characters`, code: 'OUT_OF_RANGE' });
+    }
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      errors.push({ field, message: `${field} must be at most ${schema.maxLength} characters`, code: 'OUT_OF_RANGE' });
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      errors.push({
+        field,
+        message: `${field} must contain at least ${schema.minItems} item(s)`,
+        code: schema.minItems === 1 ? 'REQUIRED' : 'OUT_OF_RANGE',
+      });
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      errors.push({ field, message: `${field} must contain at most ${schema.maxItems} item(s)`, code: 'OUT_OF_RANGE' });
+    }
+    if (schema.items) {
+      value.forEach((item, i) => collectErrors(schema.items!, item, `${field}[${i}]`, errors));
+    }
+  }
+
+  if (isPlainObject(value)) {
+    for (const key of schema.required ?? []) {
+      if (isMissing(value[key])) {
+        const childPath = joinPath(path, key);
+        errors.push({ field: childPath, message: `${childPath} is required`, code: 'REQUIRED' });
+      }
+    }
+    for (const [key, childSchema] of Object.entries(schema.properties ?? {})) {
+      const child = value[key];
+      if (child === undefined || child === null) continue;
+      if (schema.required?.includes(key) && isMissing(child)) continue;
+      collectErrors(childSchema, child, joinPath(path, key), errors);
+    }
+  }
+}
+
+/**
+ * Check a value against a schema. Error fields are dotted paths relative to
+ * the root (e.g. `youtube.privacyStatus`, `platforms[0]`), prefixed with
+ * `rootPath` when given.
+ */
+export function validateSchema(schema: JsonSchema, value: unknown, rootPath = ''): ValidationResult {
+  const errors: ValidationError[] = [];
+  collectErrors(schema, value, rootPath, errors);
+  return { valid: errors.length === 0, errors };
+}
+
+/**
+ * Return a copy of `value` with schema defaults filled in for absent
+ * properties. Nested objects are only descended into when present, so an
+ * omitted optional section (e.g. `youtube`) stays omitted.
+ */
+export function applySchemaDefaults<T>(schema: JsonSchema, value: T): T {
+  if (value === undefined && schema.default !== undefined) {
+    return JSON.parse(JSON.stringify(schema.default)) as T;
+  }
+
+  if (schema.type === 'object' && isPlainObject(value) && schema.properties) {
+    const result: Record<string, unknown> = { ...value };
+    for (const [key, childSchema] of Object.entries(schema.properties)) {
+      const child = applySchemaDefaults(childSchema, result[key]);
+      if (child !== undefined) result[key] = child;
+    }
+    return result as T;
+  }
+
+  if (schema.type === 'array' && Array.isArray(value) && schema.items) {
+    return value.map((item) => applySchemaDefaults(schema.items!, item)) as T;
+  }
+
+  return value;
+}
@@ -3,8 +3,13 @@
  *
  * Every agent in the system implements the Agent interface and follows
  * a standardized lifecycle: queued -> running -> completed | failed | cancelled.
+ * Agents that publish externally may stop at awaiting_approval before running.
  */
 
+import type { YouTubeTool } from '../tools/youtube';
+import type { InstagramTool } from '../tools/instagram';
+import type { ImageGenTool } from '../tools/image-gen';
+
 // ---------------------------------------------------------------------------
 // Agent identity & metadata
 // ---------------------------------------------------------------------------
@@ -12,10 +17,16 @@
 export interface AgentMeta {
   id: string;
   name: string;
+  nameKo: string;
   description: string;
+  descriptionKo: string;
   category: AgentCategory;
   version: string;
   estimatedCredits: CreditRange;
+  /** Schema for AgentInput.params (published to the frontend as-is) */
+  paramsSchema: JsonSchema;
+  /** Schema for AgentInput.config, i.e. AGENT_CONFIG.config_json */
+  configSchema: JsonSchema;
 }
 
 export type AgentCategory =
@@ -31,6 +42,32 @@ export interface CreditRange {
   max: number;
 }
 
+// ---------------------------------------------------------------------------
+// Params / config schema (JSON Schema subset)
+// ---------------------------------------------------------------------------
+
+export type JsonSchemaType = 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean';
+
+export interface JsonSchema {
+  type: JsonSchemaType;
+  /** Korean label shown in the dashboard */
+  title?: string;
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  items?: JsonSchema;
+  enum?: (string | number)[];
+  default?: unknown;
+  minimum?: number;
+  maximum?: number;
+  minLength?: number;
+  maxLength?: number;
+  minItems?: number;
+  maxItems?: number;
+  /** e.g. 'date' or 'r2-key' (an object key under the user's R2 prefix) */
+  format?: string;
+}
+
 // ---------------------------------------------------------------------------
 // Agent input / output
 // ---------------------------------------------------------------------------
@@ -44,6 +81,15 @@ export interface AgentInput {
   config: Record<string, unknown>;
   /** Agent-specific parameters for this particular run */
   params: Record<string, unknown>;
+  /** Set when the run resumes after approval: the preview the user approved */
+  approvedPreview?: ApprovalPreview;
+}
+
+/** What a run will publish, shown to the user for approval before it executes */
+export interface ApprovalPreview {
+  /** Agent-specific, e.g. the final title, caption and tags per platform */
+  data: Record<string, unknown>;
+  summary: string;
 }
 
 export interface AgentOutput {
@@ -67,6 +113,67 @@ export interface ArtifactRef {
   url?: string;
 }
 
+/** Per-user artifact bookkeeping, provided by the runtime that executes the run */
+export interface ArtifactStore {
+  /** Whether sizeBytes more fits in the user's storage quota */
+  hasQuota(sizeBytes: number): Promise<boolean>;
+  /** Record an object the run stored, so it is listed and counts toward the quota */
+  record(artifact: ArtifactRef): Promise<void>;
+  /** Time-limited URL an external service can fetch one of the user's objects from */
+  signedUrl(key: string, expiresInSeconds: number): Promise<string>;
+}
+
+/** OAuth providers a user can connect in settings: Google (YouTube) and Meta (Instagram) */
+export type ConnectedProvider = 'google' | 'meta';
+
+export interface ConnectedAccount {
+  accessToken: string;
+  /** YouTube channel id or Instagram business account id */
+  accountId: string;
+  accountName: string | null;
+}
+
+/** The run's user's connected accounts, provided by the runtime that executes the run */
+export interface CredentialProvider {
+  /**
+   * The connected account with a current access token (refreshed if needed),
+   * or null if the user hasn't connected one. Throws if the connection has
+   * expired and needs the user to reconnect.
+   */
+  get(provider: ConnectedProvider): Promise<ConnectedAccount | null>;
+}
+
+// ---------------------------------------------------------------------------
+// Tools (external APIs)
+// ---------------------------------------------------------------------------
+
+/** fetch-compatible client the tools make their HTTP calls through */
+export type HttpClient = (url: string, init?: RequestInit) => Promise<Response>;
+
+export type ToolId = 'youtube' | 'instagram' | 'image-gen';
+
+/** Overrides for a tool's transport, e.g. a stub server or recorded fixtures */
+export interface ToolOptions {
+  /** Defaults to the global fetch */
+  http?: HttpClient;
+  /** Replaces the tool's API origin */
+  baseUrl?: string;
+  /** Waits between status polls; replaced with a no-op when replaying fixtures */
+  sleep?: (ms: number) => Promise<void>;
+}
+
+/** Common shape of the tools in tools/ */
+export interface Tool {
+  readonly id: ToolId;
+}
+
+/** Creates the run's tools with the runtime's HTTP client and base URLs */
+export interface ToolFactory {
+  youtube(apiKey: string): YouTubeTool;
+  instagram(accessToken: string): InstagramTool;
+  imageGen(apiKey: string): ImageGenTool;
+}
+
 // ---------------------------------------------------------------------------
 // Validation
 // ---------------------------------------------------------------------------
@@ -97,12 +204,21 @@ export interface ExecutionContext {
   aiGateway: AIGatewayClient;
   /** R2 bucket for storing outputs */
   storage: R2Bucket;
+  /** Quota, listing and signed URLs for stored objects; absent outside the backend */
+  artifacts?: ArtifactStore;
+  /** OAuth credentials from the user's connected accounts; absent outside the backend */
+  credentials?: CredentialProvider;
+  /** External API tools; agents create tools through this, never with `new` */
+  tools: ToolFactory;
+  /** Current time, fixed by the offline harness so outputs are deterministic */
+  now: () => Date;
   /** Usage tracker – call after each billable operation */
   trackUsage: (entry: UsageEntry) => void;
 }
 
 export interface AgentEnv {
-  AI_GATEWAY: Fetcher;
+  /** Cloudflare AI Gateway binding, if bound; needs AI_GATEWAY_ACCOUNT_ID or AI_GATEWAY_BASE_URL */
+  AI_GATEWAY?: Fetcher;
   AGENT_STORAGE: R2Bucket;
   DB: D1Database;
   YOUTUBE_API_KEY: string;
@@ -110,6 +226,16 @@ export interface AgentEnv {
   ANTHROPIC_API_KEY: string;
   GOOGLE_AI_API_KEY: string;
   INSTAGRAM_ACCESS_TOKEN: string;
+  ENVIRONMENT?: string;
+  /** AI Gateway routing and caching (gateway/ai-gateway.ts) */
+  AI_GATEWAY_ACCOUNT_ID?: string;
+  AI_GATEWAY_ID?: string;
+  AI_GATEWAY_BASE_URL?: string;
+  AI_GATEWAY_TOKEN?: string;
+  AI_GATEWAY_CACHE_TTL_SECONDS?: string;
+  /** 'mock' routes LLM calls to the mock provider (gateway/mock-provider.ts) */
+  LLM_PROVIDER?: string;
+  LLM_MOCK_LATENCY_MS?: string;
   [key: string]: unknown;
 }
 
@@ -138,6 +264,11 @@ export interface UsageEntry {
   resourceDetail: string;
   quantity: number;
   creditCost: number;
+  /** LLM call answered from a cache rather than by the provider */
+  cached?: boolean;
+  /** LLM call served by a fallback model: the model it was routed to first */
+  fallbackFrom?: string;
+  fallbackReason?: FallbackReason;
 }
 
 export interface UsageLog extends UsageEntry {
@@ -151,7 +282,7 @@ export interface UsageLog extends UsageEntry {
 // Agent run status
 // ---------------------------------------------------------------------------
 
-export type RunStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+export type RunStatus = 'queued' | 'awaiting_approval' | 'running' | 'completed' | 'failed' | 'cancelled';
 
 export interface AgentRun {
   id: string;
@@ -163,6 +294,10 @@ export interface AgentRun {
   input: AgentInput;
   output: AgentOutput | null;
   errorMessage: string | null;
+  /** Set on failure: the error looks transient and the run may be retried */
+  retryable?: boolean;
+  /** Set while awaiting approval */
+  approvalPreview?: ApprovalPreview;
   durationMs: number | null;
   startedAt: string | null;
   completedAt: string | null;
@@ -183,6 +318,11 @@ export interface LLMRequest {
   maxTokens?: number;
   /** If true, use cache (AI Gateway feature) */
   cacheable?: boolean;
+  /**
+   * Ask for a JSON value matching this schema: the response carries it,
+   * validated, in `data` (gateway/structured-output.ts)
+   */
+  responseSchema?: JsonSchema;
 }
 
 export interface LLMMessage {
@@ -192,16 +332,53 @@ export interface LLMMessage {
 
 export interface LLMResponse {
   content: string;
+  /** Model that served the request, as reported by the provider */
   model: string;
   provider: LLMProvider;
   inputTokens: number;
   outputTokens: number;
   cached: boolean;
   latencyMs: number;
+  /** Set when a fallback model served the request (gateway/routing.ts) */
+  fallback?: LLMFallback;
+  /** The parsed JSON, for a request with a responseSchema */
+  data?: unknown;
 }
 
+/** Why the requested model didn't serve a request */
+export type FallbackReason = 'rate_limited' | 'server_error' | 'provider_error' | 'network_error' | 'no_api_key';
+
+export interface LLMFallback {
+  /** Model the request was routed to first */
+  fromModel: string;
+  reason: FallbackReason;
+}
+
+/** Streamed text as it is generated, then the full response with usage */
+export type LLMStreamChunk = { type: 'delta'; text: string } | { type: 'done'; response: LLMResponse };
+
 export interface AIGatewayClient {
   chat(request: LLMRequest): Promise<LLMResponse>;
+  /** Like chat(), but yields the text as it is generated before the full response */
+  chatStream(request: LLMRequest): AsyncGenerator<LLMStreamChunk, void, undefined>;
+}
+
+/** A stored response to a cacheable LLM request */
+export interface CachedLLMResponse {
+  content: string;
+  model: string;
+  provider: LLMProvider;
+  inputTokens: number;
+  outputTokens: number;
+}
+
+/**
+ * Exact-match response cache for cacheable LLM requests, keyed by
+ * promptCacheKey() (gateway/prompt-cache.ts), provided by the runtime
+ */
+export interface PromptCache {
+  get(key: string): Promise<CachedLLMResponse | null>;
+  put(key: string, response: CachedLLMResponse): Promise<void>;
 }
 
 // ---------------------------------------------------------------------------
@@ -4,8 +4,21 @@
  * Routes LLM requests through Cloudflare AI Gateway for:
  * - Caching identical prompts (target 30%+ cache hit rate)
  * - Rate limiting per user
- * - Model fallback: OpenAI -> Claude -> Gemini
+ * - Model routing: retries on 429/5xx, then equivalent models on other
+ *   providers, per the run's RoutingPolicy (routing.ts)
  * - Unified response format across providers
+ * - JSON output validated against the request's responseSchema, with one
+ *   repair round-trip (structured-output.ts)
+ *
+ * Requests use the gateway's {account}/{gateway}/{provider} URL layout when
+ * AI_GATEWAY_BASE_URL or AI_GATEWAY_ACCOUNT_ID is set, sent through the
+ * AI_GATEWAY binding if there is one (a binding without either is a
+ * configuration error); otherwise they go straight to the provider.
+ * Cacheable requests get a cache TTL, all others skip the cache, and every
+ * request is tagged with the run's metadata (user, run, agent).
+ *
+ * With LLM_PROVIDER=mock, requests are answered by the mock provider
+ * (mock-provider.ts) and no API keys are needed.
  */
 
 import type {
@@ -13,278 +26,596 @@ import type {
   LLMRequest,
   LLMResponse,
   LLMProvider,
-  LLMMessage,
+  LLMFallback,
+  LLMStreamChunk,
   AgentEnv,
+  FallbackReason,
+  HttpClient,
 } from '../framework/types';
+import { estimateTokens } from '../../services/billing';
+import { createMockLLMClient, isMockLLMEnabled, mockLLMOptionsFromEnv } from './mock-provider';
+import { DEFAULT_ROUTING_POLICY, retryDelayMs, routeCandidates, type RouteCandidate, type RoutingPolicy } from './routing';
+import {
+  StructuredOutputError,
+  nativeResponseSchema,
+  parseStructuredOutput,
+  repairRequest,
+  withRepairUsage,
+  withSchemaInstruction,
+} from './structured-output';
 
 /** Provider endpoint config */
 interface ProviderConfig {
   provider: LLMProvider;
   baseUrl: string;
+  /** Provider segment and API version prefix in AI Gateway URLs */
+  gatewayPath: string;
   apiKeyEnvVar: keyof AgentEnv;
-  defaultModel: string;
+  /** Name used in error messages */
+  label: string;
 }
 
+const CLOUDFLARE_GATEWAY_URL = 'https://gateway.ai.cloudflare.com/v1';
+const DEFAULT_GATEWAY_ID = 'openclaw-gateway';
+const DEFAULT_CACHE_TTL_SECONDS = 60 * 60;
+// AI Gateway accepts up to 5 metadata entries per request
+const MAX_METADATA_ENTRIES = 5;
+
 const PROVIDERS: ProviderConfig[] = [
   {
     provider: 'openai',
     baseUrl: 'https://api.openai.com/v1',
+    gatewayPath: '/openai',
     apiKeyEnvVar: 'OPENAI_API_KEY',
-    defaultModel: 'gpt-4o-mini',
+    label: 'OpenAI',
   },
   {
     provider: 'anthropic',
     baseUrl: 'https://api.anthropic.com/v1',
+    gatewayPath: '/anthropic/v1',
     apiKeyEnvVar: 'ANTHROPIC_API_KEY',
-    defaultModel: 'claude-haiku-3-5',
+    label: 'Anthropic',
   },
   {
     provider: 'google',
     baseUrl: 'https://generativelanguage.googleapis.com/v1beta',
+    gatewayPath: '/google-ai-studio/v1beta',
     apiKeyEnvVar: 'GOOGLE_AI_API_KEY',
-    defaultModel: 'gemini-2.0-flash',
+    label: 'Google AI',
   },
 ];
 
-/** Detect provider from model name */
-function detectProvider(model: string): LLMProvider {
-  if (model.startsWith('gpt-') || model.startsWith('o1') || model.startsWith('o3')) return 'openai';
-  if (model.startsWith('claude-')) return 'anthropic';
-  if (model.startsWith('gemini-')) return 'google';
-  return 'openai'; // default
+/**
+ * A provider answered with an error status. The message keeps the
+ * "<Provider> API error <status>: <body>" form isTransientError() matches.
+ */
+export class LLMProviderError extends Error {
+  constructor(
+    public readonly provider: LLMProvider,
+    public readonly status: number,
+    body: string,
+    /** From the Retry-After header, if any */
+    public readonly retryAfterMs: number | null = null,
+  ) {
+    super(`${providerConfig(provider).label} API error ${status}: ${body}`);
+    this.name = 'LLMProviderError';
+  }
+
+  /** Rate limits and server errors are worth retrying on the same model */
+  get retryable(): boolean {
+    return this.status === 429 || this.status >= 500;
+  }
+}
+
+function providerConfig(provider: LLMProvider): ProviderConfig {
+  const config = PROVIDERS.find((p) => p.provider === provider);
+  if (!config) throw new Error(`Unknown provider: ${provider}`);
+  return config;
 }
 
-/** Get fallback order starting from the preferred provider */
-function getFallbackOrder(preferred: LLMProvider): ProviderConfig[] {
-  const idx = PROVIDERS.findIndex((p) => p.provider === preferred);
-  const ordered = [...PROVIDERS.slice(idx), ...PROVIDERS.slice(0, idx)];
-  return ordered;
+async function providerError(provider: LLMProvider, res: Response): Promise<LLMProviderError> {
+  const retryAfter = parseFloat(res.headers.get('Retry-After') ?? '');
+  return new LLMProviderError(
+    provider,
+    res.status,
+    await res.text(),
+    Number.isFinite(retryAfter) ? retryAfter * 1000 : null,
+  );
+}
+
+function fallbackReason(error: unknown): FallbackReason {
+  if (error instanceof LLMProviderError) {
+    if (error.status === 429) return 'rate_limited';
+    return error.status >= 500 ? 'server_error' : 'provider_error';
+  }
+  // fetch rejects with a TypeError when the request never got a response
+  return error instanceof TypeError ? 'network_error' : 'provider_error';
+}
+
+export interface AIGatewayOptions {
+  /** Replaces fetch for provider calls, e.g. createMockLLMClient() with a script */
+  http?: HttpClient;
+  /** Tags every request for AI Gateway analytics, e.g. user, run and agent ids */
+  metadata?: Record<string, string | number | boolean>;
+  /** Models, fallbacks and retries; defaults to DEFAULT_ROUTING_POLICY */
+  routing?: RoutingPolicy;
+  /** Waits between retries; replaced to skip the backoff */
+  sleep?: (ms: number) => Promise<void>;
+}
+
+/** LLM calls made through one gateway instance and how many were served from cache */
+export interface CacheStats {
+  requests: number;
+  cacheableRequests: number;
+  cacheHits: number;
 }
 
 export class CloudflareAIGateway implements AIGatewayClient {
+  private readonly http: HttpClient;
+  private readonly mock: boolean;
+  /** Gateway URL up to the provider segment; null sends requests to providers directly */
+  private readonly gatewayBaseUrl: string | null;
+  private readonly metadata: Record<string, string | number | boolean>;
+  private readonly cacheStats: CacheStats = { requests: 0, cacheableRequests: 0, cacheHits: 0 };
+  private readonly routing: RoutingPolicy;
+  private readonly sleep: (ms: number) => Promise<void>;
+
   constructor(
     private readonly env: AgentEnv,
-    private readonly gatewayId: string = 'openclaw-gateway',
-  ) {}
+    gatewayId?: string,
+    options: AIGatewayOptions = {},
+  ) {
+    this.mock = !options.http && isMockLLMEnabled(env);
+    const binding = this.mock ? null : env.AI_GATEWAY;
+
+    this.http =
+      options.http ??
+      (this.mock
+        ? createMockLLMClient(mockLLMOptionsFromEnv(env))
+        : binding
+          ? (url, init) => binding.fetch(url, init)
+          : (url, init) => fetch(url, init));
+
+    const id = gatewayId ?? env.AI_GATEWAY_ID ?? DEFAULT_GATEWAY_ID;
+    if (this.mock) {
+      this.gatewayBaseUrl = null;
+    } else if (env.AI_GATEWAY_BASE_URL) {
+      this.gatewayBaseUrl = env.AI_GATEWAY_BASE_URL.replace(/\/+$/, '');
+    } else if (env.AI_GATEWAY_ACCOUNT_ID) {
+      // The binding, if any, routes on the same path layout
+      this.gatewayBaseUrl = `${CLOUDFLARE_GATEWAY_URL}/${env.AI_GATEWAY_ACCOUNT_ID}/${id}`;
+    } else if (binding) {
+      throw new Error('The AI_GATEWAY binding needs AI_GATEWAY_ACCOUNT_ID or AI_GATEWAY_BASE_URL to build gateway URLs');
+    } else {
+      this.gatewayBaseUrl = null;
+    }
 
-  async chat(request: LLMRequest): Promise<LLMResponse> {
-    const provider = request.provider ?? detectProvider(request.model);
-    const fallbackOrder = getFallbackOrder(provider);
-    let lastError: Error | null = null;
+    this.metadata = Object.fromEntries(Object.entries(options.metadata ?? {}).slice(0, MAX_METADATA_ENTRIES));
+    this.routing = options.routing ?? DEFAULT_ROUTING_POLICY;
+    this.sleep = options.sleep ?? ((ms) => new Promise((resolve) => setTimeout(resolve, ms)));
+  }
 
-    for (const config of fallbackOrder) {
-      try {
-        const apiKey = this.env[config.apiKeyEnvVar] as string;
-        if (!apiKey) continue;
+  /** Calls made so far, for measuring the cache hit rate */
+  getCacheStats(): CacheStats {
+    return { ...this.cacheStats };
+  }
 
-        const model =
-          config.provider === provider ? request.model : config.defaultModel;
+  /**
+   * Send a request to the first model in its route that answers, retrying
+   * each on 429/5xx. A response from a fallback model says why the model
+   * the request was routed to didn't serve it.
+   */
+  async chat(request: LLMRequest): Promise<LLMResponse> {
+    if (!request.responseSchema) return this.complete(request);
 
-        const startMs = Date.now();
-        const response = await this.callProvider(config, apiKey, {
-          ...request,
-          model,
-          provider: config.provider,
-        });
-        const latencyMs = Date.now() - startMs;
+    const structured = withSchemaInstruction(request);
+    return this.validated(structured, await this.complete(structured));
+  }
 
-        return { ...response, latencyMs };
-      } catch (error) {
-        lastError = error instanceof Error ? error : new Error(String(error));
-        // Continue to next provider in fallback chain
+  /**
+   * chat() with the text streamed as it is generated: yields each delta,
+   * then the full response with usage. Routing (retries and fallbacks)
+   * applies until a provider starts streaming; errors after that propagate.
+   * With a responseSchema, the streamed text is the first attempt; a repair
+   * is not streamed.
+   */
+  async *chatStream(request: LLMRequest): AsyncGenerator<LLMStreamChunk, void, undefined> {
+    const sent = withSchemaInstruction(request);
+    const startMs = Date.now();
+    const { res, candidate, fallback } = await this.open(sent, true);
+    let content = '';
+    let model = candidate.model;
+    let inputTokens: number | undefined;
+    let outputTokens: number | undefined;
+
+    for await (const data of sseData(res)) {
+      const event = parseStreamEvent(candidate.provider, data);
+      model = event.model ?? model;
+      inputTokens = event.inputTokens ?? inputTokens;
+      outputTokens = event.outputTokens ?? outputTokens;
+      if (event.text) {
+        content += event.text;
+        yield { type: 'delta', text: event.text };
       }
     }
 
-    throw lastError ?? new Error('All LLM providers failed');
+    const cached = res.headers.get('cf-aig-cache-status') === 'HIT';
+    this.countCall(sent, cached);
+
+    const response: LLMResponse = {
+      content,
+      model,
+      provider: candidate.provider,
+      // Estimated if the stream ended without reporting usage
+      inputTokens: inputTokens ?? estimateTokens(sent.messages.map((m) => m.content).join('\n')),
+      outputTokens: outputTokens ?? estimateTokens(content),
+      cached,
+      latencyMs: Date.now() - startMs,
+      ...(fallback && { fallback }),
+    };
+    yield { type: 'done', response: sent.responseSchema ? await this.validated(sent, response) : response };
   }
 
-  private async callProvider(
-    config: ProviderConfig,
-    apiKey: string,
-    request: LLMRequest & { provider: LLMProvider },
-  ): Promise<Omit<LLMResponse, 'latencyMs'>> {
-    switch (config.provider) {
-      case 'openai':
-        return this.callOpenAI(apiKey, request);
-      case 'anthropic':
-        return this.callAnthropic(apiKey, request);
-      case 'google':
-        return this.callGoogle(apiKey, request);
-    }
+  /** One call, unvalidated */
+  private async complete(request: LLMRequest): Promise<LLMResponse> {
+    const startMs = Date.now();
+    const { res, candidate, fallback } = await this.open(request, false);
+    const completion = parseCompletion(candidate.provider, candidate.model, await res.json());
+    const cached = res.headers.get('cf-aig-cache-status') === 'HIT';
+    this.countCall(request, cached);
+
+    return {
+      ...completion,
+      provider: candidate.provider,
+      cached,
+      latencyMs: Date.now() - startMs,
+      ...(fallback && { fallback }),
+    };
   }
 
-  // ---- OpenAI -----------------------------------------------------------
+  /**
+   * The response with its JSON parsed into `data`. A reply that doesn't
+   * match the schema is sent back once with the errors to be repaired;
+   * throws StructuredOutputError if the repaired one doesn't match either.
+   */
+  private async validated(request: LLMRequest, response: LLMResponse): Promise<LLMResponse> {
+    const schema = request.responseSchema!;
+    const output = parseStructuredOutput(response.content, schema);
+    if (output.valid) return { ...response, data: output.value };
+
+    const repaired = withRepairUsage(
+      response,
+      await this.complete(repairRequest(request, response.content, output.errors)),
+    );
+    const repairedOutput = parseStructuredOutput(repaired.content, schema);
+    if (!repairedOutput.valid) {
+      throw new StructuredOutputError(repairedOutput.errors, repaired);
+    }
+    return { ...repaired, data: repairedOutput.value };
+  }
 
-  private async callOpenAI(
-    apiKey: string,
+  /** The response of the first model in the request's route that accepts it */
+  private async open(
     request: LLMRequest,
-  ): Promise<Omit<LLMResponse, 'latencyMs'>> {
-    const body = {
-      model: request.model,
-      messages: request.messages.map((m) => ({
-        role: m.role,
-        content: m.content,
-      })),
-      temperature: request.temperature ?? 0.7,
-      max_tokens: request.maxTokens ?? 4096,
-    };
-
-    const headers: Record<string, string> = {
-      'Content-Type': 'application/json',
-      Authorization: `Bearer ${apiKey}`,
-    };
+    stream: boolean,
+  ): Promise<{ res: Response; candidate: RouteCandidate; fallback?: LLMFallback }> {
+    const candidates = routeCandidates(this.routing, request.model, request.provider);
+    const routedModel = candidates[0].model;
+    let reason: FallbackReason | null = null;
+    let lastError: Error | null = null;
 
-    // Route through AI Gateway if available
-    const url = this.gatewayUrl('openai', '/chat/completions');
-    const res = await fetch(url, {
-      method: 'POST',
-      headers,
-      body: JSON.stringify(body),
-    });
+    for (const candidate of candidates) {
+      const config = providerConfig(candidate.provider);
+      // The mock provider doesn't check keys
+      const apiKey = this.mock ? 'mock' : (this.env[config.apiKeyEnvVar] as string);
+      if (!apiKey) {
+        reason ??= 'no_api_key';
+        continue;
+      }
 
-    if (!res.ok) {
-      const text = await res.text();
-      throw new Error(`OpenAI API error ${res.status}: ${text}`);
+      try {
+        const res = await this.sendWithRetry(config, apiKey, { ...request, model: candidate.model }, stream);
+        return {
+          res,
+          candidate,
+          fallback:
+            candidate.model !== routedModel
+              ? { fromModel: routedModel, reason: reason ?? 'provider_error' }
+              : undefined,
+        };
+      } catch (error) {
+        lastError = error instanceof Error ? error : new Error(String(error));
+        reason ??= fallbackReason(error);
+      }
     }
 
-    const data = (await res.json()) as {
-      choices: { message: { content: string } }[];
-      usage: { prompt_tokens: number; completion_tokens: number };
-      model: string;
-    };
-
-    return {
-      content: data.choices[0]?.message?.content ?? '',
-      model: data.model,
-      provider: 'openai',
-      inputTokens: data.usage?.prompt_tokens ?? 0,
-      outputTokens: data.usage?.completion_tokens ?? 0,
-      cached: res.headers.get('cf-aig-cache-status') === 'HIT',
-    };
+    throw lastError ?? new Error(`No API key is configured for ${routedModel} or its fallbacks`);
   }
 
-  // ---- Anthropic --------------------------------------------------------
-
-  private async callAnthropic(
+  private async sendWithRetry(
+    config: ProviderConfig,
     apiKey: string,
     request: LLMRequest,
-  ): Promise<Omit<LLMResponse, 'latencyMs'>> {
-    // Separate system message from conversation
-    const systemMsg = request.messages.find((m) => m.role === 'system');
-    const conversationMsgs = request.messages
-      .filter((m) => m.role !== 'system')
-      .map((m) => ({ role: m.role as 'user' | 'assistant', content: m.content }));
-
-    const body: Record<string, unknown> = {
-      model: request.model,
-      messages: conversationMsgs,
-      max_tokens: request.maxTokens ?? 4096,
-      temperature: request.temperature ?? 0.7,
-    };
-    if (systemMsg) {
-      body.system = systemMsg.content;
+    stream: boolean,
+  ): Promise<Response> {
+    const { retry } = this.routing;
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await this.send(config, apiKey, request, stream);
+      } catch (error) {
+        if (!(error instanceof LLMProviderError) || !error.retryable || attempt >= retry.maxRetries) {
+          throw error;
+        }
+        await this.sleep(retryDelayMs(retry, attempt, error.retryAfterMs));
+      }
     }
+  }
 
-    const url = this.gatewayUrl('anthropic', '/messages');
-    const res = await fetch(url, {
+  private async send(config: ProviderConfig, apiKey: string, request: LLMRequest, stream: boolean): Promise<Response> {
+    const { path, headers, body } = providerRequest(config.provider, apiKey, request, stream);
+    const res = await this.http(this.gatewayUrl(config.provider, path), {
       method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'x-api-key': apiKey,
-        'anthropic-version': '2023-06-01',
-      },
+      headers: { 'Content-Type': 'application/json', ...headers, ...this.gatewayHeaders(request) },
       body: JSON.stringify(body),
     });
 
     if (!res.ok) {
-      const text = await res.text();
-      throw new Error(`Anthropic API error ${res.status}: ${text}`);
+      throw await providerError(config.provider, res);
     }
+    return res;
+  }
 
-    const data = (await res.json()) as {
-      content: { type: string; text: string }[];
-      usage: { input_tokens: number; output_tokens: number };
-      model: string;
-    };
+  private countCall(request: LLMRequest, cached: boolean): void {
+    this.cacheStats.requests++;
+    if (request.cacheable) this.cacheStats.cacheableRequests++;
+    if (cached) this.cacheStats.cacheHits++;
+  }
 
-    return {
-      content: data.content.find((c) => c.type === 'text')?.text ?? '',
-      model: data.model,
-      provider: 'anthropic',
-      inputTokens: data.usage?.input_tokens ?? 0,
-      outputTokens: data.usage?.output_tokens ?? 0,
-      cached: res.headers.get('cf-aig-cache-status') === 'HIT',
-    };
+  // ---- Gateway helpers -------------------------------------------------
+
+  private gatewayUrl(provider: LLMProvider, path: string): string {
+    const config = providerConfig(provider);
+
+    // https://gateway.ai.cloudflare.com/v1/{account_id}/{gateway_id}/{provider}{path}
+    return this.gatewayBaseUrl ? `${this.gatewayBaseUrl}${config.gatewayPath}${path}` : `${config.baseUrl}${path}`;
   }
 
-  // ---- Google -----------------------------------------------------------
+  /** Cache control and metadata for AI Gateway (the mock provider honours the cache headers too) */
+  private gatewayHeaders(request: LLMRequest): Record<string, string> {
+    if (!this.gatewayBaseUrl && !this.mock) return {};
 
-  private async callGoogle(
-    apiKey: string,
-    request: LLMRequest,
-  ): Promise<Omit<LLMResponse, 'latencyMs'>> {
-    const contents = request.messages
-      .filter((m) => m.role !== 'system')
-      .map((m) => ({
-        role: m.role === 'assistant' ? 'model' : 'user',
-        parts: [{ text: m.content }],
-      }));
-
-    const systemInstruction = request.messages.find((m) => m.role === 'system');
-
-    const body: Record<string, unknown> = {
-      contents,
-      generationConfig: {
-        temperature: request.temperature ?? 0.7,
-        maxOutputTokens: request.maxTokens ?? 4096,
-      },
-    };
-    if (systemInstruction) {
-      body.systemInstruction = { parts: [{ text: systemInstruction.content }] };
+    const headers: Record<string, string> = {};
+    if (request.cacheable) {
+      const ttl = parseInt(this.env.AI_GATEWAY_CACHE_TTL_SECONDS ?? '', 10);
+      headers['cf-aig-cache-ttl'] = String(Number.isFinite(ttl) && ttl > 0 ? ttl : DEFAULT_CACHE_TTL_SECONDS);
+    } else {
+      headers['cf-aig-skip-cache'] = 'true';
     }
+    if (Object.keys(this.metadata).length > 0) {
+      headers['cf-aig-metadata'] = JSON.stringify(this.metadata);
+    }
+    if (this.env.AI_GATEWAY_TOKEN) {
+      headers['cf-aig-authorization'] = `Bearer ${this.env.AI_GATEWAY_TOKEN}`;
+    }
+    return headers;
+  }
+}
 
-    const url = this.gatewayUrl(
-      'google',
-      `/models/${request.model}:generateContent?key=${apiKey}`,
-    );
-    const res = await fetch(url, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify(body),
-    });
+// ---------------------------------------------------------------------------
+// Provider request and response formats
+// ---------------------------------------------------------------------------
+
+/** Path (after the provider base URL), auth headers and body for a call */
+function providerRequest(
+  provider: LLMProvider,
+  apiKey: string,
+  request: LLMRequest,
+  stream: boolean,
+): { path: string; headers: Record<string, string>; body: Record<string, unknown> } {
+  const systemMsg = request.messages.find((m) => m.role === 'system');
+  const conversationMsgs = request.messages.filter((m) => m.role !== 'system');
+  const temperature = request.temperature ?? 0.7;
+  const maxTokens = request.maxTokens ?? 4096;
+
+  switch (provider) {
+    case 'openai':
+      return {
+        path: '/chat/completions',
+        headers: { Authorization: `Bearer ${apiKey}` },
+        body: {
+          model: request.model,
+          messages: request.messages.map((m) => ({ role: m.role, content: m.content })),
+          temperature,
+          max_tokens: maxTokens,
+          ...(request.responseSchema && {
+            response_format: {
+              type: 'json_schema',
+              json_schema: { name: 'response', schema: nativeResponseSchema(request.responseSchema, 'openai') },
+            },
+          }),
+          // Usage arrives in a final chunk
+          ...(stream && { stream: true, stream_options: { include_usage: true } }),
+        },
+      };
+
+    case 'anthropic':
+      // Separate system message from conversation. There is no JSON mode;
+      // a responseSchema is only in the system prompt
+      return {
+        path: '/messages',
+        headers: { 'x-api-key': apiKey, 'anthropic-version': '2023-06-01' },
+        body: {
+          model: request.model,
+          messages: conversationMsgs.map((m) => ({ role: m.role as 'user' | 'assistant', content: m.content })),
+          max_tokens: maxTokens,
+          temperature,
+          ...(systemMsg && { system: systemMsg.content }),
+          ...(stream && { stream: true }),
+        },
+      };
+
+    case 'google':
+      return {
+        path: stream
+          ? `/models/${request.model}:streamGenerateContent?alt=sse&key=${apiKey}`
+          : `/models/${request.model}:generateContent?key=${apiKey}`,
+        headers: {},
+        body: {
+          contents: conversationMsgs.map((m) => ({
+            role: m.role === 'assistant' ? 'model' : 'user',
+            parts: [{ text: m.content }],
+          })),
+          generationConfig: {
+            temperature,
+            maxOutputTokens: maxTokens,
+            ...(request.responseSchema && {
+              responseMimeType: 'application/json',
+              responseSchema: nativeResponseSchema(request.responseSchema, 'google'),
+            }),
+          },
+          ...(systemMsg && { systemInstruction: { parts: [{ text: systemMsg.content }] } }),
+        },
+      };
+  }
+}
 
-    if (!res.ok) {
-      const text = await res.text();
-      throw new Error(`Google AI API error ${res.status}: ${text}`);
+type Completion = Pick<LLMResponse, 'content' | 'model' | 'inputTokens' | 'outputTokens'>;
+
+/** Text, serving model and usage from a completion response body */
+function parseCompletion(provider: LLMProvider, requestedModel: string, body: unknown): Completion {
+  switch (provider) {
+    case 'openai': {
+      const data = body as {
+        choices: { message: { content: string } }[];
+        usage: { prompt_tokens: number; completion_tokens: number };
+        model: string;
+      };
+      return {
+        content: data.choices[0]?.message?.content ?? '',
+        model: data.model,
+        inputTokens: data.usage?.prompt_tokens ?? 0,
+        outputTokens: data.usage?.completion_tokens ?? 0,
+      };
     }
 
-    const data = (await res.json()) as {
-      candidates: { content: { parts: { text: string }[] } }[];
-      usageMetadata: { promptTokenCount: number; candidatesTokenCount: number };
-    };
+    case 'anthropic': {
+      const data = body as {
+        content: { type: string; text: string }[];
+        usage: { input_tokens: number; output_tokens: number };
+        model: string;
+      };
+      return {
+        content: data.content.find((c) => c.type === 'text')?.text ?? '',
+        model: data.model,
+        inputTokens: data.usage?.input_tokens ?? 0,
+        outputTokens: data.usage?.output_tokens ?? 0,
+      };
+    }
 
-    return {
-      content: data.candidates?.[0]?.content?.parts?.[0]?.text ?? '',
-      model: request.model,
-      provider: 'google',
-      inputTokens: data.usageMetadata?.promptTokenCount ?? 0,
-      outputTokens: data.usageMetadata?.candidatesTokenCount ?? 0,
-      cached: res.headers.get('cf-aig-cache-status') === 'HIT',
-    };
+    case 'google': {
+      const data = body as {
+        candidates: { content: { parts: { text: string }[] } }[];
+        usageMetadata: { promptTokenCount: number; candidatesTokenCount: number };
+      };
+      return {
+        content: data.candidates?.[0]?.content?.parts?.[0]?.text ?? '',
+        model: requestedModel,
+        inputTokens: data.usageMetadata?.promptTokenCount ?? 0,
+        outputTokens: data.usageMetadata?.candidatesTokenCount ?? 0,
+      };
+    }
   }
+}
 
-  // ---- Gateway URL helper -----------------------------------------------
+/** What one streamed event adds: a text delta, the serving model, usage so far */
+interface StreamEvent {
+  text?: string;
+  model?: string;
+  inputTokens?: number;
+  outputTokens?: number;
+}
 
-  private gatewayUrl(provider: string, path: string): string {
-    // When AI Gateway binding is available, route through it.
-    // Otherwise fall back to direct provider URL.
-    const providerConfig = PROVIDERS.find((p) => p.provider === provider);
-    if (!providerConfig) throw new Error(`Unknown provider: ${provider}`);
+function parseStreamEvent(provider: LLMProvider, data: string): StreamEvent {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(data);
+  } catch {
+    // e.g. OpenAI's closing [DONE]
+    return {};
+  }
 
-    // Cloudflare AI Gateway URL pattern:
-    // https://gateway.ai.cloudflare.com/v1/{account_id}/{gateway_id}/{provider}{path}
-    // In Workers, we use the AI_GATEWAY service binding instead.
-    // For now, fall back to direct URL.
-    return `${providerConfig.baseUrl}${path}`;
+  switch (provider) {
+    case 'openai': {
+      const chunk = parsed as {
+        model?: string;
+        choices?: { delta?: { content?: string | null } }[];
+        usage?: { prompt_tokens: number; completion_tokens: number } | null;
+      };
+      return {
+        text: chunk.choices?.[0]?.delta?.content ?? undefined,
+        model: chunk.model,
+        inputTokens: chunk.usage?.prompt_tokens,
+        outputTokens: chunk.usage?.completion_tokens,
+      };
+    }
+
+    case 'anthropic': {
+      // Input tokens come with message_start, the output total with message_delta
+      const event = parsed as {
+        type: string;
+        message?: { model: string; usage?: { input_tokens: number } };
+        delta?: { type?: string; text?: string };
+        usage?: { output_tokens: number };
+      };
+      if (event.type === 'message_start') {
+        return { model: event.message?.model, inputTokens: event.message?.usage?.input_tokens };
+      }
+      if (event.type === 'content_block_delta' && event.delta?.type === 'text_delta') {
+        return { text: event.delta.text };
+      }
+      if (event.type === 'message_delta') {
+        return { outputTokens: event.usage?.output_tokens };
+      }
+      return {};
+    }
+
+    case 'google': {
+      // Each chunk carries the usage so far
+      const chunk = parsed as {
+        candidates?: { content?: { parts?: { text?: string }[] } }[];
+        usageMetadata?: { promptTokenCount?: number; candidatesTokenCount?: number };
+      };
+      return {
+        text: chunk.candidates?.[0]?.content?.parts?.map((p) => p.text ?? '').join('') || undefined,
+        inputTokens: chunk.usageMetadata?.promptTokenCount,
+        outputTokens: chunk.usageMetadata?.candidatesTokenCount,
+      };
+    }
+  }
+}
+
+/** The data payloads of a server-sent events response, in order */
+async function* sseData(res: Response): AsyncGenerator<string, void, undefined> {
+  if (!res.body) return;
+  const reader = res.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      buffer += done ? decoder.decode() : decoder.decode(value, { stream: true });
+      const lines = buffer.split('\n');
+      buffer = done ? '' : (lines.pop() ?? '');
+
+      for (const line of lines) {
+        const trimmed = line.trim();
+        if (trimmed.startsWith('data:')) yield trimmed.slice(5).trimStart();
+      }
+      if (done) return;
+    }
+  } finally {
+    // Stops the upstream response if the consumer gave up early
+    await reader.cancel().catch(() => {});
   }
 }
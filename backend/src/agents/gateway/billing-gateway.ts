@@ -6,41 +6,142 @@
  *
  * This is the "MVP mode" where agents run as regular async functions inside
  * the main Worker, not in sandboxed Workers for Platforms.
+ *
+ * With a PromptCache, a cacheable request that matches an earlier one is
+ * answered from the cache (cached: true) without calling the provider, and
+ * costs no credits.
+ *
+ * Calls that end in a StructuredOutputError (the reply never matched the
+ * request's responseSchema) still reached the provider, so they are added
+ * to the usage before the error is rethrown.
  */
 
-import type { AIGatewayClient, LLMRequest, LLMResponse, AgentEnv } from "../framework/types";
-import { CloudflareAIGateway } from "./ai-gateway";
+import type {
+  AIGatewayClient,
+  LLMRequest,
+  LLMResponse,
+  LLMStreamChunk,
+  AgentEnv,
+  PromptCache,
+} from "../framework/types";
+import { CloudflareAIGateway, type AIGatewayOptions, type CacheStats } from "./ai-gateway";
+import { promptCacheKey } from "./prompt-cache";
+import { StructuredOutputError, parseStructuredOutput } from "./structured-output";
 import {
   calculateCreditCost,
   isSupportedModel,
 } from "../../services/billing";
 
+export interface BillingAIGatewayOptions extends AIGatewayOptions {
+  promptCache?: PromptCache;
+}
+
 export class BillingAIGateway implements AIGatewayClient {
   private gateway: CloudflareAIGateway;
+  private promptCache: PromptCache | null;
   private totalInputTokens = 0;
   private totalOutputTokens = 0;
   private totalCreditCost = 0;
+  private promptCacheHits = 0;
 
-  constructor(env: AgentEnv) {
-    this.gateway = new CloudflareAIGateway(env);
+  constructor(env: AgentEnv, options: BillingAIGatewayOptions = {}) {
+    const { promptCache, ...gatewayOptions } = options;
+    this.gateway = new CloudflareAIGateway(env, undefined, gatewayOptions);
+    this.promptCache = promptCache ?? null;
   }
 
   async chat(request: LLMRequest): Promise<LLMResponse> {
-    const response = await this.gateway.chat(request);
+    const cacheKey = await this.cacheKey(request);
+    const hit = cacheKey ? await this.cachedResponse(request, cacheKey) : null;
+    if (hit) return hit;
+
+    try {
+      const response = await this.gateway.chat(request);
+      await this.record(response, cacheKey);
+      return response;
+    } catch (error) {
+      throw await this.recordFailure(error);
+    }
+  }
+
+  async *chatStream(request: LLMRequest): AsyncGenerator<LLMStreamChunk, void, undefined> {
+    const cacheKey = await this.cacheKey(request);
+    const hit = cacheKey ? await this.cachedResponse(request, cacheKey) : null;
+    if (hit) {
+      // A cached response arrives all at once
+      yield { type: "delta", text: hit.content };
+      yield { type: "done", response: hit };
+      return;
+    }
+
+    try {
+      for await (const chunk of this.gateway.chatStream(request)) {
+        if (chunk.type === "done") await this.record(chunk.response, cacheKey);
+        yield chunk;
+      }
+    } catch (error) {
+      throw await this.recordFailure(error);
+    }
+  }
+
+  private async cacheKey(request: LLMRequest): Promise<string | null> {
+    return request.cacheable && this.promptCache ? promptCacheKey(request) : null;
+  }
+
+  private async cachedResponse(request: LLMRequest, cacheKey: string): Promise<LLMResponse | null> {
+    const start = Date.now();
+    const hit = await this.promptCache!.get(cacheKey);
+    if (!hit) return null;
+
+    // Only validated replies are cached, but the data is parsed again
+    let data: unknown;
+    if (request.responseSchema) {
+      const output = parseStructuredOutput(hit.content, request.responseSchema);
+      if (!output.valid) return null;
+      data = output.value;
+    }
+
+    this.promptCacheHits++;
+    return {
+      ...hit,
+      cached: true,
+      latencyMs: Date.now() - start,
+      ...(request.responseSchema && { data }),
+    };
+  }
+
+  /** Cache a provider response and add it to the run's usage */
+  private async record(response: LLMResponse, cacheKey: string | null): Promise<void> {
+    if (cacheKey && response.content) {
+      await this.promptCache!.put(cacheKey, {
+        content: response.content,
+        model: response.model,
+        provider: response.provider,
+        inputTokens: response.inputTokens,
+        outputTokens: response.outputTokens,
+      });
+    }
 
     // Track cumulative usage for billing summary
     this.totalInputTokens += response.inputTokens;
     this.totalOutputTokens += response.outputTokens;
 
-    if (isSupportedModel(response.model)) {
+    // Cached responses cost the provider nothing, so they aren't charged
+    if (!response.cached && isSupportedModel(response.model)) {
       this.totalCreditCost += calculateCreditCost(
         response.model,
         response.inputTokens,
         response.outputTokens
       );
     }
+  }
 
-    return response;
+  /** Add the calls behind an invalid structured reply to the usage; returns the error to rethrow */
+  private async recordFailure(error: unknown): Promise<unknown> {
+    if (error instanceof StructuredOutputError) {
+      await this.record(error.response, null);
+    }
+    return error;
   }
 
   /** Get accumulated usage for the entire agent run */
@@ -51,4 +152,14 @@ export class BillingAIGateway implements AIGatewayClient {
       totalCreditCost: this.totalCreditCost,
     };
   }
+
+  /** LLM calls made during the run and how many were served from a cache */
+  getCacheStats(): CacheStats {
+    const stats = this.gateway.getCacheStats();
+    return {
+      requests: stats.requests + this.promptCacheHits,
+      cacheableRequests: stats.cacheableRequests + this.promptCacheHits,
+      cacheHits: stats.cacheHits + this.promptCacheHits,
+    };
+  }
 }
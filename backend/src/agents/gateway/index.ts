@@ -1 +1,23 @@
-export { CloudflareAIGateway } from './ai-gateway';
+export { CloudflareAIGateway, LLMProviderError, type AIGatewayOptions, type CacheStats } from './ai-gateway';
+export {
+  detectProvider,
+  resolveRoutingPolicy,
+  routeCandidates,
+  DEFAULT_ROUTING_POLICY,
+  TIER_ROUTING_POLICIES,
+  EQUIVALENT_MODELS,
+  type RoutingPolicy,
+  type RetryPolicy,
+  type RouteCandidate,
+  type UserTier,
+} from './routing';
+export { promptCacheKey } from './prompt-cache';
+export { StructuredOutputError, parseStructuredOutput, type StructuredOutput } from './structured-output';
+export {
+  createMockLLMClient,
+  isMockLLMEnabled,
+  mockLLMOptionsFromEnv,
+  estimateMockTokens,
+  type MockLLMOptions,
+  type MockReply,
+} from './mock-provider';
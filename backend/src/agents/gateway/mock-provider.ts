@@ -0,0 +1,392 @@
+/**
+ * Mock LLM provider.
+ *
+ * An HttpClient that answers OpenAI (/chat/completions), Anthropic
+ * (/messages) and Google (:generateContent) requests the way those APIs do,
+ * streaming included, without network access or API keys. Selected with
+ * LLM_PROVIDER=mock (ignored in production); CloudflareAIGateway and the
+ * /v1/chat/completions proxy then send their requests here, so fallback,
+ * billing and SSE paths run unchanged.
+ *
+ * Replies are deterministic: the content echoes the prompt (or, for a
+ * request in a native JSON mode, is a value matching its schema) and token
+ * usage is estimated from the text. They can be scripted in order (options.script)
+ * or steered per request with directives in the last user message:
+ *
+ *   [mock:reply=Some text]        reply with this content
+ *   [mock:error=429]              fail with this status (429, 500, 503...)
+ *   [mock:error=500@openai]       fail only when served as this provider
+ *   [mock:delay=3000]             wait this long before responding
+ *
+ * Like AI Gateway, a request sent with cf-aig-cache-ttl that repeats an
+ * earlier one is answered with cf-aig-cache-status: HIT.
+ */
+
+import type { HttpClient, LLMProvider } from '../framework/types';
+
+export interface MockReply {
+  /** Defaults to an echo of the last user message */
+  content?: string;
+  /** Respond with this HTTP status instead of a completion */
+  errorStatus?: number;
+  /** Only apply to requests served as this provider; others get the default reply */
+  provider?: LLMProvider;
+  /** Wait before responding, to simulate a slow provider */
+  delayMs?: number;
+}
+
+export interface MockLLMOptions {
+  /** Replies used in order, one per request; then the default reply */
+  script?: MockReply[];
+  /** Added before every response */
+  latencyMs?: number;
+  /** Delay between streamed chunks */
+  chunkIntervalMs?: number;
+}
+
+interface MockEnv {
+  LLM_PROVIDER?: unknown;
+  LLM_MOCK_LATENCY_MS?: unknown;
+  ENVIRONMENT?: unknown;
+}
+
+/** Whether LLM calls should go to the mock instead of real providers */
+export function isMockLLMEnabled(env: MockEnv): boolean {
+  return env.LLM_PROVIDER === 'mock' && env.ENVIRONMENT !== 'production';
+}
+
+export function mockLLMOptionsFromEnv(env: MockEnv): MockLLMOptions {
+  const latencyMs = parseInt(String(env.LLM_MOCK_LATENCY_MS ?? ''), 10);
+  return { latencyMs: Number.isFinite(latencyMs) && latencyMs > 0 ? latencyMs : 0 };
+}
+
+// ---------------------------------------------------------------------------
+// Request parsing
+// ---------------------------------------------------------------------------
+
+interface ParsedRequest {
+  provider: LLMProvider;
+  model: string;
+  stream: boolean;
+  includeUsage: boolean;
+  /** All message text, for input token counts */
+  promptText: string;
+  lastUserMessage: string;
+  messageCount: number;
+  /** Schema of a native JSON mode request (OpenAI response_format, Google responseSchema) */
+  responseSchema?: Record<string, unknown>;
+}
+
+function messageText(content: unknown): string {
+  if (typeof content === 'string') return content;
+  if (Array.isArray(content)) {
+    return content.map((part) => (part as { text?: string }).text ?? '').join('');
+  }
+  return '';
+}
+
+function parseRequest(url: string, body: Record<string, unknown>): ParsedRequest {
+  const path = new URL(url).pathname;
+
+  if (path.endsWith(':generateContent') || path.endsWith(':streamGenerateContent')) {
+    const contents = (body.contents as { role: string; parts: { text?: string }[] }[] | undefined) ?? [];
+    const system = messageText((body.systemInstruction as { parts?: unknown } | undefined)?.parts);
+    const texts = contents.map((c) => messageText(c.parts));
+    const lastUser = [...contents].reverse().find((c) => c.role === 'user');
+    return {
+      provider: 'google',
+      model: path.match(/models\/([^:]+)/)?.[1] ?? 'gemini-2.0-flash',
+      stream: path.endsWith(':streamGenerateContent'),
+      includeUsage: true,
+      promptText: [system, ...texts].join('\n'),
+      lastUserMessage: lastUser ? messageText(lastUser.parts) : '',
+      messageCount: contents.length + (system ? 1 : 0),
+      responseSchema: (body.generationConfig as { responseSchema?: Record<string, unknown> } | undefined)
+        ?.responseSchema,
+    };
+  }
+
+  const messages = (body.messages as { role: string; content: unknown }[] | undefined) ?? [];
+  const texts = messages.map((m) => messageText(m.content));
+  const lastUser = [...messages].reverse().find((m) => m.role === 'user');
+  const anthropic = path.endsWith('/messages');
+  return {
+    provider: anthropic ? 'anthropic' : 'openai',
+    model: (body.model as string | undefined) ?? (anthropic ? 'claude-haiku-3-5' : 'gpt-4o-mini'),
+    stream: body.stream === true,
+    includeUsage: anthropic || (body.stream_options as { include_usage?: boolean } | undefined)?.include_usage === true,
+    promptText: [typeof body.system === 'string' ? body.system : '', ...texts].join('\n'),
+    lastUserMessage: lastUser ? messageText(lastUser.content) : '',
+    messageCount: messages.length + (typeof body.system === 'string' ? 1 : 0),
+    responseSchema: (body.response_format as { json_schema?: { schema?: Record<string, unknown> } } | undefined)
+      ?.json_schema?.schema,
+  };
+}
+
+/** Directives embedded in the prompt, e.g. [mock:error=429@openai] */
+function parseDirectives(text: string): MockReply {
+  const reply: MockReply = {};
+  for (const [, name, value] of text.matchAll(/\[mock:(reply|error|delay)=([^\]]*)\]/g)) {
+    if (name === 'reply') reply.content = value;
+    if (name === 'delay') reply.delayMs = parseInt(value, 10) || 0;
+    if (name === 'error') {
+      const [status, provider] = value.split('@');
+      reply.errorStatus = parseInt(status, 10) || 500;
+      if (provider) reply.provider = provider as LLMProvider;
+    }
+  }
+  return reply;
+}
+
+// ---------------------------------------------------------------------------
+// Usage
+// ---------------------------------------------------------------------------
+
+/** Roughly what the providers' tokenizers give: ~4 chars/token, fewer for Korean */
+export function estimateMockTokens(text: string): number {
+  let tokens = 0;
+  for (const char of text) {
+    tokens += /[\u3131-\uD7A3]/.test(char) ? 0.5 : 0.25;
+  }
+  return Math.max(1, Math.ceil(tokens));
+}
+
+/** The simplest value matching a schema: first enum values, minimum lengths and counts */
+function sampleValue(schema: Record<string, unknown>): unknown {
+  const enumValues = schema.enum as unknown[] | undefined;
+  if (enumValues?.length) return enumValues[0];
+
+  // Google's schema types are upper case
+  switch (String(schema.type).toLowerCase()) {
+    case 'object': {
+      const properties = (schema.properties as Record<string, Record<string, unknown>> | undefined) ?? {};
+      return Object.fromEntries(Object.entries(properties).map(([key, child]) => [key, sampleValue(child)]));
+    }
+    case 'array': {
+      const minItems = typeof schema.minItems === 'number' ? Math.max(schema.minItems, 1) : 1;
+      const count = typeof schema.maxItems === 'number' ? Math.min(minItems, schema.maxItems) : minItems;
+      const items = (schema.items as Record<string, unknown> | undefined) ?? { type: 'string' };
+      return Array.from({ length: count }, () => sampleValue(items));
+    }
+    case 'number':
+    case 'integer':
+      return typeof schema.minimum === 'number' ? Math.ceil(schema.minimum) : 0;
+    case 'boolean':
+      return true;
+    default:
+      return 'mock'.padEnd(typeof schema.minLength === 'number' ? schema.minLength : 0, '.');
+  }
+}
+
+function defaultContent(request: ParsedRequest): string {
+  if (request.responseSchema) return JSON.stringify(sampleValue(request.responseSchema));
+
+  const prompt = request.lastUserMessage.replace(/\[mock:[^\]]*\]/g, '').trim();
+  const excerpt = prompt.length > 80 ? `${prompt.slice(0, 80)}...` : prompt;
+  return `Mock ${request.provider} response from ${request.model} to: "${excerpt}"`;
+}
+
+// ---------------------------------------------------------------------------
+// Responses, in each provider's wire format
+// ---------------------------------------------------------------------------
+
+interface Completion {
+  id: string;
+  model: string;
+  content: string;
+  inputTokens: number;
+  outputTokens: number;
+}
+
+function completionBody(provider: LLMProvider, c: Completion): Record<string, unknown> {
+  switch (provider) {
+    case 'openai':
+      return {
+        id: c.id,
+        object: 'chat.completion',
+        created: 0,
+        model: c.model,
+        choices: [{ index: 0, message: { role: 'assistant', content: c.content }, finish_reason: 'stop' }],
+        usage: {
+          prompt_tokens: c.inputTokens,
+          completion_tokens: c.outputTokens,
+          total_tokens: c.inputTokens + c.outputTokens,
+        },
+      };
+    case 'anthropic':
+      return {
+        id: c.id,
+        type: 'message',
+        role: 'assistant',
+        model: c.model,
+        content: [{ type: 'text', text: c.content }],
+        stop_reason: 'end_turn',
+        usage: { input_tokens: c.inputTokens, output_tokens: c.outputTokens },
+      };
+    case 'google':
+      return {
+        candidates: [{ content: { role: 'model', parts: [{ text: c.content }] }, finishReason: 'STOP' }],
+        usageMetadata: {
+          promptTokenCount: c.inputTokens,
+          candidatesTokenCount: c.outputTokens,
+          totalTokenCount: c.inputTokens + c.outputTokens,
+        },
+        modelVersion: c.model,
+      };
+  }
+}
+
+/** The SSE events the provider would stream for this completion */
+function streamEvents(provider: LLMProvider, c: Completion, includeUsage: boolean): string[] {
+  // Word-sized deltas, whitespace kept so the deltas join back to the content
+  const deltas = c.content.match(/\S+\s*|\s+/g) ?? [''];
+  const data = (payload: unknown) => `data: ${JSON.stringify(payload)}\n\n`;
+
+  if (provider === 'openai') {
+    const chunk = (delta: Record<string, unknown>, finishReason: string | null) =>
+      data({
+        id: c.id,
+        object: 'chat.completion.chunk',
+        created: 0,
+        model: c.model,
+        choices: [{ index: 0, delta, finish_reason: finishReason }],
+      });
+    const events = [
+      chunk({ role: 'assistant', content: '' }, null),
+      ...deltas.map((text) => chunk({ content: text }, null)),
+      chunk({}, 'stop'),
+    ];
+    if (includeUsage) {
+      events.push(
+        data({
+          id: c.id,
+          object: 'chat.completion.chunk',
+          created: 0,
+          model: c.model,
+          choices: [],
+          usage: {
+            prompt_tokens: c.inputTokens,
+            completion_tokens: c.outputTokens,
+            total_tokens: c.inputTokens + c.outputTokens,
+          },
+        }),
+      );
+    }
+    events.push('data: [DONE]\n\n');
+    return events;
+  }
+
+  if (provider === 'anthropic') {
+    const event = (type: string, payload: Record<string, unknown>) =>
+      `event: ${type}\n${data({ type, ...payload })}`;
+    return [
+      event('message_start', {
+        message: {
+          id: c.id,
+          type: 'message',
+          role: 'assistant',
+          model: c.model,
+          content: [],
+          stop_reason: null,
+          usage: { input_tokens: c.inputTokens, output_tokens: 1 },
+        },
+      }),
+      event('content_block_start', { index: 0, content_block: { type: 'text', text: '' } }),
+      ...deltas.map((text) => event('content_block_delta', { index: 0, delta: { type: 'text_delta', text } })),
+      event('content_block_stop', { index: 0 }),
+      event('message_delta', { delta: { stop_reason: 'end_turn' }, usage: { output_tokens: c.outputTokens } }),
+      event('message_stop', {}),
+    ];
+  }
+
+  return deltas.map((text, i) =>
+    data({
+      candidates: [
+        {
+          content: { role: 'model', parts: [{ text }] },
+          ...(i === deltas.length - 1 ? { finishReason: 'STOP' } : {}),
+        },
+      ],
+      ...(i === deltas.length - 1
+        ? { usageMetadata: { promptTokenCount: c.inputTokens, candidatesTokenCount: c.outputTokens } }
+        : {}),
+    }),
+  );
+}
+
+function errorResponse(provider: LLMProvider, status: number): Response {
+  const message = status === 429 ? 'Rate limit reached (mock)' : `Upstream error ${status} (mock)`;
+  const body =
+    provider === 'anthropic'
+      ? { type: 'error', error: { type: status === 429 ? 'rate_limit_error' : 'api_error', message } }
+      : { error: { code: status, message, type: status === 429 ? 'rate_limit_exceeded' : 'server_error' } };
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  if (status === 429) headers['Retry-After'] = '1';
+  return new Response(JSON.stringify(body), { status, headers });
+}
+
+const sleep = (ms: number) => (ms > 0 ? new Promise<void>((r) => setTimeout(r, ms)) : Promise.resolve());
+
+/** An HttpClient serving mock completions for any LLM provider URL */
+export function createMockLLMClient(options: MockLLMOptions = {}): HttpClient {
+  const script = [...(options.script ?? [])];
+  const chunkIntervalMs = options.chunkIntervalMs ?? 20;
+  const cachedRequests = new Set<string>();
+  let requestCount = 0;
+
+  return async (url, init) => {
+    const body = JSON.parse(typeof init?.body === 'string' ? init.body : '{}') as Record<string, unknown>;
+    const request = parseRequest(url, body);
+    requestCount++;
+
+    // A scripted reply for another provider is left for the fallback request
+    const next = script[0];
+    const scripted = next && (!next.provider || next.provider === request.provider) ? script.shift() : undefined;
+    const directives = parseDirectives(request.lastUserMessage);
+    const reply: MockReply = { ...directives, ...scripted };
+
+    await sleep((options.latencyMs ?? 0) + (reply.delayMs ?? 0));
+
+    if (reply.errorStatus && (!reply.provider || reply.provider === request.provider)) {
+      return errorResponse(request.provider, reply.errorStatus);
+    }
+
+    const cacheable = new Headers(init?.headers).has('cf-aig-cache-ttl');
+    const cacheKey = `${url}\n${typeof init?.body === 'string' ? init.body : ''}`;
+    const cacheHeaders: Record<string, string> = cacheable
+      ? { 'cf-aig-cache-status': cachedRequests.has(cacheKey) ? 'HIT' : 'MISS' }
+      : {};
+    if (cacheable) cachedRequests.add(cacheKey);
+
+    const content = reply.content ?? defaultContent(request);
+    const completion: Completion = {
+      id: `mock-${request.provider}-${requestCount}`,
+      model: request.model,
+      content,
+      // Chat formats add a few tokens of framing per message
+      inputTokens: estimateMockTokens(request.promptText) + request.messageCount * 4,
+      outputTokens: estimateMockTokens(content),
+    };
+
+    if (!request.stream) {
+      return new Response(JSON.stringify(completionBody(request.provider, completion)), {
+        headers: { 'Content-Type': 'application/json', ...cacheHeaders },
+      });
+    }
+
+    const encoder = new TextEncoder();
+    const events = streamEvents(request.provider, completion, request.includeUsage);
+    const stream = new ReadableStream<Uint8Array>({
+      async start(controller) {
+        for (const event of events) {
+          controller.enqueue(encoder.encode(event));
+          await sleep(chunkIntervalMs);
+        }
+        controller.close();
+      },
+    });
+    return new Response(stream, {
+      headers: { 'Content-Type': 'text/event-stream', 'Cache-Control': 'no-cache', ...cacheHeaders },
+    });
+  };
+}
@@ -0,0 +1,24 @@
+/**
+ * Prompt cache keys.
+ *
+ * A cacheable LLM request is answered from the PromptCache when an earlier
+ * request had the same provider, model, messages, temperature and response
+ * schema (BillingAIGateway). The key is a SHA-256 over exactly those fields, so
+ * prompts are not stored in it.
+ */
+
+import type { LLMRequest } from '../framework/types';
+import { detectProvider } from './routing';
+
+export async function promptCacheKey(request: LLMRequest): Promise<string> {
+  const material = JSON.stringify({
+    provider: request.provider ?? detectProvider(request.model),
+    model: request.model,
+    messages: request.messages.map((m) => ({ role: m.role, content: m.content })),
+    temperature: request.temperature ?? null,
+    // Left out when unset, so keys of requests without one are unchanged
+    ...(request.responseSchema && { responseSchema: request.responseSchema }),
+  });
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(material));
+  return [...new Uint8Array(digest)].map((b) => b.toString(16).padStart(2, '0')).join('');
+}
@@ -0,0 +1,140 @@
+/**
+ * Model routing policy.
+ *
+ * Decides which models may serve an LLM request and how hard to try each:
+ * - preferredModels swaps the model an agent asks for (e.g. a cheaper one
+ *   for a tier) before anything is sent
+ * - fallbacks lists, per model, the equivalent models on other providers
+ *   to try when it can't serve the request; a model without an entry has
+ *   no fallback
+ * - maxCostMultiplier drops fallbacks priced above that multiple of the
+ *   requested model (by MODEL_PRICING), so a fallback can't quietly cost
+ *   far more than what the agent chose
+ * - retry sets how often a model is retried on 429/5xx, with exponential
+ *   backoff (or the provider's Retry-After), before falling back
+ *
+ * Policies are set per user tier and can be adjusted per agent
+ * (Agent.routingPolicy).
+ */
+
+import type { LLMProvider } from '../framework/types';
+import { MODEL_PRICING } from '../../services/billing';
+
+export type UserTier = 'free' | 'paid';
+
+export interface RetryPolicy {
+  /** Retries per model after the first attempt */
+  maxRetries: number;
+  /** Delay before the first retry, doubled for each one after */
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+export interface RoutingPolicy {
+  /** Model to use in place of the one an agent requests */
+  preferredModels: Record<string, string>;
+  /** Equivalent models to fall back to, in order, per requested model */
+  fallbacks: Record<string, string[]>;
+  /** Highest fallback price relative to the requested model; Infinity for no limit */
+  maxCostMultiplier: number;
+  retry: RetryPolicy;
+}
+
+/** A model to try for a request, in order */
+export interface RouteCandidate {
+  model: string;
+  provider: LLMProvider;
+}
+
+/** Comparable tiers across providers */
+export const EQUIVALENT_MODELS: Record<string, string[]> = {
+  'gpt-4o': ['claude-sonnet-4-20250514'],
+  'claude-sonnet-4-20250514': ['gpt-4o'],
+  'gpt-4o-mini': ['gemini-2.0-flash', 'claude-haiku-3-5'],
+  'claude-haiku-3-5': ['gpt-4o-mini', 'gemini-2.0-flash'],
+  'gemini-2.0-flash': ['gpt-4o-mini', 'claude-haiku-3-5'],
+};
+
+export const DEFAULT_ROUTING_POLICY: RoutingPolicy = {
+  preferredModels: {},
+  fallbacks: EQUIVALENT_MODELS,
+  maxCostMultiplier: 2,
+  retry: { maxRetries: 2, baseDelayMs: 500, maxDelayMs: 8000 },
+};
+
+export const TIER_ROUTING_POLICIES: Record<UserTier, RoutingPolicy> = {
+  // Free runs fall back only to models priced close to the one requested
+  free: {
+    ...DEFAULT_ROUTING_POLICY,
+    maxCostMultiplier: 1.5,
+    retry: { maxRetries: 1, baseDelayMs: 1000, maxDelayMs: 4000 },
+  },
+  // Paid runs keep going on a pricier equivalent when a provider is down
+  paid: {
+    ...DEFAULT_ROUTING_POLICY,
+    maxCostMultiplier: 10,
+  },
+};
+
+/** The tier's policy with an agent's adjustments applied on top */
+export function resolveRoutingPolicy(tier: UserTier, overrides: Partial<RoutingPolicy> = {}): RoutingPolicy {
+  const base = TIER_ROUTING_POLICIES[tier];
+  return {
+    preferredModels: { ...base.preferredModels, ...overrides.preferredModels },
+    fallbacks: { ...base.fallbacks, ...overrides.fallbacks },
+    maxCostMultiplier: overrides.maxCostMultiplier ?? base.maxCostMultiplier,
+    retry: { ...base.retry, ...overrides.retry },
+  };
+}
+
+/** Detect provider from model name */
+export function detectProvider(model: string): LLMProvider {
+  if (model.startsWith('gpt-') || model.startsWith('o1') || model.startsWith('o3')) return 'openai';
+  if (model.startsWith('claude-')) return 'anthropic';
+  if (model.startsWith('gemini-')) return 'google';
+  return 'openai'; // default
+}
+
+/** Price of `model` relative to `baseline`, or null if either is unpriced */
+function relativeCost(model: string, baseline: string): number | null {
+  const price = MODEL_PRICING[model];
+  const baselinePrice = MODEL_PRICING[baseline];
+  if (!price || !baselinePrice) return null;
+  return (
+    (price.inputPerMillion + price.outputPerMillion) /
+    (baselinePrice.inputPerMillion + baselinePrice.outputPerMillion)
+  );
+}
+
+/**
+ * Models to try for a request: the requested (or preferred) model, then its
+ * fallbacks within the cost limit. An unpriced fallback is only allowed
+ * without a limit.
+ */
+export function routeCandidates(
+  policy: RoutingPolicy,
+  model: string,
+  provider?: LLMProvider,
+): RouteCandidate[] {
+  const requested = policy.preferredModels[model] ?? model;
+  const candidates: RouteCandidate[] = [
+    // An explicit provider only applies to the model the agent asked for
+    { model: requested, provider: requested === model && provider ? provider : detectProvider(requested) },
+  ];
+
+  for (const fallback of policy.fallbacks[requested] ?? []) {
+    if (candidates.some((c) => c.model === fallback)) continue;
+    if (Number.isFinite(policy.maxCostMultiplier)) {
+      const cost = relativeCost(fallback, requested);
+      if (cost === null || cost > policy.maxCostMultiplier) continue;
+    }
+    candidates.push({ model: fallback, provider: detectProvider(fallback) });
+  }
+  return candidates;
+}
+
+/** Backoff before retry number `attempt` (0-based); a Retry-After wins, within maxDelayMs */
+export function retryDelayMs(retry: RetryPolicy, attempt: number, retryAfterMs: number | null): number {
+  const backoff = retryAfterMs ?? retry.baseDelayMs * 2 ** attempt;
+  return Math.min(Math.max(backoff, 0), retry.maxDelayMs);
+}
@@ -0,0 +1,181 @@
+/**
+ * Structured (JSON) output.
+ *
+ * An LLMRequest with a responseSchema asks for a JSON value matching it.
+ * The schema is put in the system prompt for every provider and also sent to
+ * the provider's native JSON mode where there is one: OpenAI's json_schema
+ * response_format and Google's responseSchema (Anthropic has none). The reply
+ * is parsed and validated with validateSchema(); if it doesn't match, the
+ * model gets one repair round-trip with the errors, and a second mismatch is
+ * a StructuredOutputError (CloudflareAIGateway).
+ *
+ * Native JSON modes want an object at the root, so any other schema is sent
+ * wrapped as {"result": ...} and unwrapped again when parsing.
+ */
+
+import type { JsonSchema, LLMMessage, LLMRequest, LLMResponse, ValidationError } from '../framework/types';
+import { validateSchema } from '../framework/schema';
+
+/** Property holding a non-object response in the wrapped schema */
+const RESULT_KEY = 'result';
+/** Field the validation errors of a response are reported under */
+const RESPONSE_FIELD = 'response';
+
+/** JSON Schema keywords OpenAI and the system prompt get; labels, defaults and formats stay out */
+const JSON_SCHEMA_KEYWORDS = [
+  'type',
+  'description',
+  'properties',
+  'required',
+  'items',
+  'enum',
+  'minimum',
+  'maximum',
+  'minLength',
+  'maxLength',
+  'minItems',
+  'maxItems',
+] as const;
+
+/** The OpenAPI subset Gemini's responseSchema accepts */
+const GOOGLE_SCHEMA_KEYWORDS = ['type', 'description', 'properties', 'required', 'items', 'enum', 'minItems', 'maxItems'] as const;
+
+/**
+ * The model's reply still didn't match the schema after the repair attempt.
+ * `response` is the last reply with the usage of both calls, so they can
+ * still be charged.
+ */
+export class StructuredOutputError extends Error {
+  constructor(
+    public readonly errors: ValidationError[],
+    public readonly response: LLMResponse,
+  ) {
+    super(`LLM response did not match the expected JSON schema: ${errors.map((e) => e.message).join(', ')}`);
+    this.name = 'StructuredOutputError';
+  }
+}
+
+export type StructuredOutput = { valid: true; value: unknown } | { valid: false; errors: ValidationError[] };
+
+function isWrapped(schema: JsonSchema): boolean {
+  return schema.type !== 'object';
+}
+
+/** The schema as sent to providers: always an object at the root */
+function wireSchema(schema: JsonSchema): JsonSchema {
+  return isWrapped(schema) ? { type: 'object', properties: { [RESULT_KEY]: schema }, required: [RESULT_KEY] } : schema;
+}
+
+function pickKeywords(schema: JsonSchema, keywords: readonly string[], upperCaseTypes: boolean): Record<string, unknown> {
+  const result: Record<string, unknown> = {};
+  for (const keyword of keywords) {
+    const value = schema[keyword as keyof JsonSchema];
+    if (value === undefined) continue;
+    if (keyword === 'type') {
+      result.type = upperCaseTypes ? String(value).toUpperCase() : value;
+    } else if (keyword === 'properties') {
+      result.properties = Object.fromEntries(
+        Object.entries(value as Record<string, JsonSchema>).map(([key, child]) => [
+          key,
+          pickKeywords(child, keywords, upperCaseTypes),
+        ]),
+      );
+    } else if (keyword === 'items') {
+      result.items = pickKeywords(value as JsonSchema, keywords, upperCaseTypes);
+    } else {
+      result[keyword] = value;
+    }
+  }
+  return result;
+}
+
+/** The request's schema in the form a provider's native JSON mode takes */
+export function nativeResponseSchema(schema: JsonSchema, provider: 'openai' | 'google'): Record<string, unknown> {
+  return provider === 'google'
+    ? pickKeywords(wireSchema(schema), GOOGLE_SCHEMA_KEYWORDS, true)
+    : pickKeywords(wireSchema(schema), JSON_SCHEMA_KEYWORDS, false);
+}
+
+/** The request with its responseSchema added to the system prompt */
+export function withSchemaInstruction(request: LLMRequest): LLMRequest {
+  if (!request.responseSchema) return request;
+
+  const instruction = [
+    'Respond with only a JSON value matching this JSON Schema, without code fences or any other text:',
+    JSON.stringify(pickKeywords(wireSchema(request.responseSchema), JSON_SCHEMA_KEYWORDS, false)),
+  ].join('\n');
+
+  const hasSystem = request.messages.some((m) => m.role === 'system');
+  const messages: LLMMessage[] = hasSystem
+    ? request.messages.map((m) => (m.role === 'system' ? { ...m, content: `${m.content}\n\n${instruction}` } : m))
+    : [{ role: 'system', content: instruction }, ...request.messages];
+  return { ...request, messages };
+}
+
+/** A follow-up asking the model to fix a reply that didn't match the schema */
+export function repairRequest(request: LLMRequest, content: string, errors: ValidationError[]): LLMRequest {
+  return {
+    ...request,
+    messages: [
+      ...request.messages,
+      { role: 'assistant', content },
+      {
+        role: 'user',
+        content: [
+          'Your reply did not match the required JSON Schema:',
+          ...errors.map((e) => `- ${e.message}`),
+          'Reply with only the corrected JSON.',
+        ].join('\n'),
+      },
+    ],
+    // The repair depends on this exact reply, so it is not worth caching
+    cacheable: false,
+  };
+}
+
+/** The JSON text in a reply, without the code fences or prose some models still add */
+function extractJson(content: string): string {
+  const text = content
+    .trim()
+    .replace(/^```(?:json)?\s*/i, '')
+    .replace(/\s*```$/, '');
+  if (text.startsWith('{') || text.startsWith('[')) return text;
+  return text.match(/[[{][\s\S]*[\]}]/)?.[0] ?? text;
+}
+
+/** Parse the JSON in a reply and validate it against the schema */
+export function parseStructuredOutput(content: string, schema: JsonSchema): StructuredOutput {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(extractJson(content));
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : 'parse error';
+    return {
+      valid: false,
+      errors: [{ field: RESPONSE_FIELD, message: `${RESPONSE_FIELD} is not valid JSON (${reason})`, code: 'INVALID_JSON' }],
+    };
+  }
+
+  // Accept the value unwrapped too, e.g. from a provider without a native JSON mode
+  const value =
+    isWrapped(schema) && typeof parsed === 'object' && parsed !== null && !Array.isArray(parsed) && RESULT_KEY in parsed
+      ? (parsed as Record<string, unknown>)[RESULT_KEY]
+      : parsed;
+
+  const validation = validateSchema(schema, value, RESPONSE_FIELD);
+  return validation.valid ? { valid: true, value } : { valid: false, errors: validation.errors };
+}
+
+/** A repaired response, carrying the usage and latency of both calls */
+export function withRepairUsage(original: LLMResponse, repaired: LLMResponse): LLMResponse {
+  const fallback = repaired.fallback ?? original.fallback;
+  return {
+    ...repaired,
+    inputTokens: original.inputTokens + repaired.inputTokens,
+    outputTokens: original.outputTokens + repaired.outputTokens,
+    // Charged unless neither call reached a provider
+    cached: original.cached && repaired.cached,
+    latencyMs: original.latencyMs + repaired.latencyMs,
+    ...(fallback && { fallback }),
+  };
+}
@@ -72,7 +72,7 @@ app.post('/agents/:id/run', async (c) => {
   const agent = agentRegistry.get(agentId);
 
   // Validate input
-  const validation = agent.validate(input);
+  const validation = agent.validate(agent.applyDefaults(input));
   if (!validation.valid) {
     return c.json({ error: 'Validation failed', details: validation.errors }, 400);
   }
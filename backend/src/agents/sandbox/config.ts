@@ -24,6 +24,8 @@ export interface SandboxConfig {
   r2Prefix: string;
   /** AI Gateway rate limit (requests per minute) */
   aiGatewayRpm: number;
+  /** Max size of a single media upload (bytes) */
+  maxUploadBytes: number;
 }
 
 /** Default sandbox config for free-tier users */
@@ -35,6 +37,7 @@ export const FREE_TIER_CONFIG: SandboxConfig = {
   maxSubrequests: 50,
   r2Prefix: '', // Set dynamically per user
   aiGatewayRpm: 10,
+  maxUploadBytes: 256 * 1024 * 1024,
 };
 
 /** Sandbox config for paid users */
@@ -46,15 +49,21 @@ export const PAID_TIER_CONFIG: SandboxConfig = {
   maxSubrequests: 100,
   r2Prefix: '',
   aiGatewayRpm: 30,
+  maxUploadBytes: 1024 * 1024 * 1024,
 };
 
+/** R2 key prefix a user's objects live under */
+export function userR2Prefix(userId: string): string {
+  return `users/${userId}/`;
+}
+
 /** Build a user-scoped sandbox config */
 export function buildSandboxConfig(
   userId: string,
   tier: 'free' | 'paid',
 ): SandboxConfig {
   const base = tier === 'paid' ? { ...PAID_TIER_CONFIG } : { ...FREE_TIER_CONFIG };
-  base.r2Prefix = `users/${userId}/`;
+  base.r2Prefix = userR2Prefix(userId);
   return base;
 }
 
@@ -0,0 +1,127 @@
+/**
+ * Recorded tool fixtures.
+ *
+ * A recording client wraps a live HttpClient and keeps every request and
+ * response; a replay client serves those responses back without touching
+ * the network, so an agent's execute() can run offline against stored
+ * responses (framework/harness.ts).
+ *
+ * Requests are matched on method and URL, in recorded order. Credentials
+ * are redacted from the stored URLs (API keys, access tokens) and request
+ * headers and bodies are not stored, so fixtures can be committed.
+ */
+
+import type { HttpClient } from '../framework/types';
+
+export interface RecordedExchange {
+  method: string;
+  /** URL with credential query params redacted */
+  url: string;
+  status: number;
+  headers: Record<string, string>;
+  /** Response body: text as-is, binary (images, video) as base64 */
+  body: string;
+  bodyEncoding: 'text' | 'base64';
+}
+
+export interface ToolFixture {
+  version: 1;
+  exchanges: RecordedExchange[];
+}
+
+/** A replayed request that the fixture has no (more) responses for */
+export class FixtureMissError extends Error {
+  constructor(
+    public readonly method: string,
+    public readonly url: string,
+  ) {
+    super(`No recorded response for ${method} ${url}`);
+    this.name = 'FixtureMissError';
+  }
+}
+
+const REDACTED_PARAMS = ['key', 'access_token', 'client_secret', 'fb_exchange_token'];
+const REDACTED = 'REDACTED';
+// Describe the original transfer, not the stored body
+const DROPPED_HEADERS = ['content-length', 'content-encoding', 'transfer-encoding', 'set-cookie'];
+
+/** URL with credential query params replaced, used both to store and to match */
+export function redactUrl(url: string): string {
+  const parsed = new URL(url);
+  for (const name of REDACTED_PARAMS) {
+    if (parsed.searchParams.has(name)) parsed.searchParams.set(name, REDACTED);
+  }
+  return parsed.toString();
+}
+
+function isTextContentType(contentType: string | null): boolean {
+  return !contentType || /^text\/|json|xml|x-www-form-urlencoded/.test(contentType);
+}
+
+function toBase64(buffer: ArrayBuffer): string {
+  let binary = '';
+  for (const byte of new Uint8Array(buffer)) binary += String.fromCharCode(byte);
+  return btoa(binary);
+}
+
+function fromBase64(str: string): Uint8Array {
+  const binary = atob(str);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+}
+
+/**
+ * Pass requests through to `http` and record the exchanges; fixture()
+ * returns everything recorded so far.
+ */
+export function createRecordingClient(
+  http: HttpClient = (url, init) => fetch(url, init),
+): { http: HttpClient; fixture: () => ToolFixture } {
+  const exchanges: RecordedExchange[] = [];
+
+  const recording: HttpClient = async (url, init) => {
+    const res = await http(url, init);
+    const contentType = res.headers.get('Content-Type');
+    const text = isTextContentType(contentType);
+    const body = text ? await res.clone().text() : toBase64(await res.clone().arrayBuffer());
+
+    exchanges.push({
+      method: (init?.method ?? 'GET').toUpperCase(),
+      url: redactUrl(url),
+      status: res.status,
+      headers: Object.fromEntries([...res.headers.entries()].filter(([name]) => !DROPPED_HEADERS.includes(name))),
+      body,
+      bodyEncoding: text ? 'text' : 'base64',
+    });
+    return res;
+  };
+
+  return {
+    http: recording,
+    fixture: () => ({ version: 1, exchanges: [...exchanges] }),
+  };
+}
+
+/**
+ * Serve a fixture's responses. Each recorded exchange is used once, in order,
+ * for the request with the same method and (redacted) URL.
+ */
+export function createReplayClient(fixture: ToolFixture): HttpClient {
+  const remaining = [...fixture.exchanges];
+
+  return async (url, init) => {
+    const method = (init?.method ?? 'GET').toUpperCase();
+    const key = redactUrl(url);
+    const index = remaining.findIndex((exchange) => exchange.method === method && exchange.url === key);
+    if (index === -1) {
+      throw new FixtureMissError(method, key);
+    }
+
+    const [exchange] = remaining.splice(index, 1);
+    const body = exchange.bodyEncoding === 'base64' ? fromBase64(exchange.body) : exchange.body;
+    // Responses with these statuses can't carry a body
+    const hasBody = exchange.status !== 204 && exchange.status !== 304;
+    return new Response(hasBody ? body : null, { status: exchange.status, headers: exchange.headers });
+  };
+}
@@ -5,7 +5,7 @@
  * Supports text overlay for YouTube Shorts thumbnails.
  */
 
-import type { AIGatewayClient } from '../framework/types';
+import type { HttpClient, Tool, ToolOptions } from '../framework/types';
 
 export interface ImageGenParams {
   prompt: string;
@@ -30,10 +30,20 @@ export interface TextOverlayParams {
   fontWeight?: 'normal' | 'bold';
 }
 
-export class ImageGenTool {
+export const IMAGE_GEN_BASE_URL = 'https://api.openai.com/v1';
+
+export class ImageGenTool implements Tool {
+  readonly id = 'image-gen';
+  private readonly baseUrl: string;
+  private readonly http: HttpClient;
+
   constructor(
     private readonly apiKey: string,
-  ) {}
+    options: ToolOptions = {},
+  ) {
+    this.baseUrl = options.baseUrl ?? IMAGE_GEN_BASE_URL;
+    this.http = options.http ?? ((url, init) => fetch(url, init));
+  }
 
   /** Generate a thumbnail image using DALL-E */
   async generate(params: ImageGenParams): Promise<ImageGenResult> {
@@ -47,7 +57,7 @@ export class ImageGenTool {
       response_format: 'b64_json',
     };
 
-    const res = await fetch('https://api.openai.com/v1/images/generations', {
+    const res = await this.http(`${this.baseUrl}/images/generations`, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
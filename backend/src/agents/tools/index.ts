@@ -1,3 +1,12 @@
-export { YouTubeTool, type YouTubeTrendResult, type YouTubeSearchParams, type YouTubeUploadParams, type YouTubeUploadResult } from './youtube';
-export { InstagramTool, type InstagramHashtagResult, type InstagramTrendingPost, type InstagramReelsUploadParams, type InstagramUploadResult } from './instagram';
-export { ImageGenTool, type ImageGenParams, type ImageGenResult, type TextOverlayParams } from './image-gen';
+export { YouTubeTool, YOUTUBE_BASE_URL, type YouTubeTrendResult, type YouTubeSearchParams, type YouTubeUploadParams, type YouTubeUploadResult, type YouTubeVideoStatistics } from './youtube';
+export { InstagramTool, INSTAGRAM_BASE_URL, type InstagramHashtagResult, type InstagramTrendingPost, type InstagramReelsUploadParams, type InstagramUploadResult } from './instagram';
+export { ImageGenTool, IMAGE_GEN_BASE_URL, type ImageGenParams, type ImageGenResult, type TextOverlayParams } from './image-gen';
+export { Toolkit, type ToolkitOptions } from './toolkit';
+export {
+  createRecordingClient,
+  createReplayClient,
+  redactUrl,
+  FixtureMissError,
+  type ToolFixture,
+  type RecordedExchange,
+} from './fixtures';
@@ -5,6 +5,8 @@
  * capabilities for the agent runtime.
  */
 
+import type { HttpClient, Tool, ToolOptions } from '../framework/types';
+
 export interface InstagramHashtagResult {
   id: string;
   name: string;
@@ -38,10 +40,22 @@ export interface InstagramUploadResult {
   status: string;
 }
 
-export class InstagramTool {
-  private readonly baseUrl = 'https://graph.facebook.com/v19.0';
-
-  constructor(private readonly accessToken: string) {}
+export const INSTAGRAM_BASE_URL = 'https://graph.facebook.com/v19.0';
+
+export class InstagramTool implements Tool {
+  readonly id = 'instagram';
+  private readonly baseUrl: string;
+  private readonly http: HttpClient;
+  private readonly sleep: (ms: number) => Promise<void>;
+
+  constructor(
+    private readonly accessToken: string,
+    options: ToolOptions = {},
+  ) {
+    this.baseUrl = options.baseUrl ?? INSTAGRAM_BASE_URL;
+    this.http = options.http ?? ((url, init) => fetch(url, init));
+    this.sleep = options.sleep ?? ((ms) => new Promise((r) => setTimeout(r, ms)));
+  }
 
   /** Search for hashtags and get media counts */
   async searchHashtags(
@@ -54,7 +68,7 @@ export class InstagramTool {
       access_token: this.accessToken,
     });
 
-    const res = await fetch(
+    const res = await this.http(
       `${this.baseUrl}/ig_hashtag_search?${params.toString()}`,
     );
     if (!res.ok) {
@@ -69,7 +83,7 @@ export class InstagramTool {
     const results: InstagramHashtagResult[] = [];
     for (const hashtag of data.data.slice(0, 10)) {
       try {
-        const countRes = await fetch(
+        const countRes = await this.http(
           `${this.baseUrl}/${hashtag.id}?fields=id,name,media_count&access_token=${this.accessToken}`,
         );
         if (countRes.ok) {
@@ -104,7 +118,7 @@ export class InstagramTool {
       access_token: this.accessToken,
     });
 
-    const res = await fetch(
+    const res = await this.http(
       `${this.baseUrl}/${hashtagId}/${edge}?${params.toString()}`,
     );
     if (!res.ok) {
@@ -152,7 +166,7 @@ export class InstagramTool {
       access_token: params.accessToken,
     });
 
-    const containerRes = await fetch(
+    const containerRes = await this.http(
       `${this.baseUrl}/${params.igUserId}/media`,
       {
         method: 'POST',
@@ -175,10 +189,10 @@ export class InstagramTool {
     const maxAttempts = 30;
 
     while (status === 'IN_PROGRESS' && attempts < maxAttempts) {
-      await new Promise((r) => setTimeout(r, 2000));
+      await this.sleep(2000);
       attempts++;
 
-      const statusRes = await fetch(
+      const statusRes = await this.http(
         `${this.baseUrl}/${containerId}?fields=status_code&access_token=${params.accessToken}`,
       );
       if (statusRes.ok) {
@@ -192,7 +206,7 @@ export class InstagramTool {
     }
 
     // Step 3: Publish
-    const publishRes = await fetch(
+    const publishRes = await this.http(
       `${this.baseUrl}/${params.igUserId}/media_publish`,
       {
         method: 'POST',
@@ -212,7 +226,7 @@ export class InstagramTool {
     const publishData = (await publishRes.json()) as { id: string };
 
     // Get permalink
-    const mediaRes = await fetch(
+    const mediaRes = await this.http(
       `${this.baseUrl}/${publishData.id}?fields=permalink&access_token=${params.accessToken}`,
     );
     let permalink = '';
@@ -0,0 +1,42 @@
+/**
+ * Toolkit: the ToolFactory handed to agent runs.
+ *
+ * Builds every tool with one HttpClient and per-tool base URL overrides, so
+ * a run's external calls can be pointed at a stub server or served from
+ * recorded fixtures (tools/fixtures.ts) without changing agent code.
+ */
+
+import type { HttpClient, ToolFactory, ToolId, ToolOptions } from '../framework/types';
+import { YouTubeTool } from './youtube';
+import { InstagramTool } from './instagram';
+import { ImageGenTool } from './image-gen';
+
+export interface ToolkitOptions {
+  http?: HttpClient;
+  baseUrls?: Partial<Record<ToolId, string>>;
+  sleep?: (ms: number) => Promise<void>;
+}
+
+export class Toolkit implements ToolFactory {
+  constructor(private readonly options: ToolkitOptions = {}) {}
+
+  youtube(apiKey: string): YouTubeTool {
+    return new YouTubeTool(apiKey, this.optionsFor('youtube'));
+  }
+
+  instagram(accessToken: string): InstagramTool {
+    return new InstagramTool(accessToken, this.optionsFor('instagram'));
+  }
+
+  imageGen(apiKey: string): ImageGenTool {
+    return new ImageGenTool(apiKey, this.optionsFor('image-gen'));
+  }
+
+  private optionsFor(id: ToolId): ToolOptions {
+    return {
+      http: this.options.http,
+      baseUrl: this.options.baseUrls?.[id],
+      sleep: this.options.sleep,
+    };
+  }
+}
@@ -5,6 +5,8 @@
  * for the agent runtime.
  */
 
+import type { HttpClient, Tool, ToolOptions } from '../framework/types';
+
 export interface YouTubeTrendResult {
   videoId: string;
   title: string;
@@ -44,10 +46,27 @@ export interface YouTubeUploadResult {
   status: string;
 }
 
-export class YouTubeTool {
-  private readonly baseUrl = 'https://www.googleapis.com/youtube/v3';
+export interface YouTubeVideoStatistics {
+  videoId: string;
+  viewCount: number;
+  likeCount: number;
+  commentCount: number;
+}
+
+export const YOUTUBE_BASE_URL = 'https://www.googleapis.com';
 
-  constructor(private readonly apiKey: string) {}
+export class YouTubeTool implements Tool {
+  readonly id = 'youtube';
+  private readonly baseUrl: string;
+  private readonly http: HttpClient;
+
+  constructor(
+    private readonly apiKey: string,
+    options: ToolOptions = {},
+  ) {
+    this.baseUrl = options.baseUrl ?? YOUTUBE_BASE_URL;
+    this.http = options.http ?? ((url, init) => fetch(url, init));
+  }
 
   /** Search for trending Shorts in a specific niche/region */
   async searchTrending(params: YouTubeSearchParams): Promise<YouTubeTrendResult[]> {
@@ -66,8 +85,8 @@ export class YouTubeTool {
       searchParams.set('publishedAfter', params.publishedAfter);
     }
 
-    const searchRes = await fetch(
-      `${this.baseUrl}/search?${searchParams.toString()}`,
+    const searchRes = await this.http(
+      `${this.baseUrl}/youtube/v3/search?${searchParams.toString()}`,
     );
     if (!searchRes.ok) {
       throw new Error(`YouTube search API error: ${searchRes.status}`);
@@ -95,8 +114,8 @@ export class YouTubeTool {
       key: this.apiKey,
     });
 
-    const statsRes = await fetch(
-      `${this.baseUrl}/videos?${statsParams.toString()}`,
+    const statsRes = await this.http(
+      `${this.baseUrl}/youtube/v3/videos?${statsParams.toString()}`,
     );
     if (!statsRes.ok) {
       throw new Error(`YouTube videos API error: ${statsRes.status}`);
@@ -155,7 +174,7 @@ export class YouTubeTool {
       params.set('videoCategoryId', categoryId);
     }
 
-    const res = await fetch(`${this.baseUrl}/videos?${params.toString()}`);
+    const res = await this.http(`${this.baseUrl}/youtube/v3/videos?${params.toString()}`);
     if (!res.ok) {
       throw new Error(`YouTube trending API error: ${res.status}`);
     }
@@ -195,6 +214,41 @@ export class YouTubeTool {
     }));
   }
 
+  /**
+   * View, like and comment counts for videos. With the channel owner's
+   * access token the request is made as the owner instead of with the API key.
+   */
+  async getVideoStatistics(videoIds: string[], accessToken?: string): Promise<YouTubeVideoStatistics[]> {
+    const params = new URLSearchParams({ part: 'statistics', id: videoIds.join(',') });
+    if (!accessToken) params.set('key', this.apiKey);
+
+    const res = await this.http(
+      `${this.baseUrl}/youtube/v3/videos?${params.toString()}`,
+      accessToken ? { headers: { Authorization: `Bearer ${accessToken}` } } : undefined,
+    );
+    if (!res.ok) {
+      throw new Error(`YouTube videos API error: ${res.status}`);
+    }
+
+    const data = (await res.json()) as {
+      items: {
+        id: string;
+        statistics: {
+          viewCount?: string;
+          likeCount?: string;
+          commentCount?: string;
+        };
+      }[];
+    };
+
+    return data.items.map((item) => ({
+      videoId: item.id,
+      viewCount: parseInt(item.statistics.viewCount ?? '0', 10),
+      likeCount: parseInt(item.statistics.likeCount ?? '0', 10),
+      commentCount: parseInt(item.statistics.commentCount ?? '0', 10),
+    }));
+  }
+
   /** Upload a video to YouTube (requires OAuth access token) */
   async upload(params: YouTubeUploadParams): Promise<YouTubeUploadResult> {
     const metadata = {
@@ -211,8 +265,8 @@ export class YouTubeTool {
     };
 
     // Resumable upload: Step 1 - initiate
-    const initRes = await fetch(
-      'https://www.googleapis.com/upload/youtube/v3/videos?uploadType=resumable&part=snippet,status',
+    const initRes = await this.http(
+      `${this.baseUrl}/upload/youtube/v3/videos?uploadType=resumable&part=snippet,status`,
       {
         method: 'POST',
         headers: {
@@ -235,7 +289,7 @@ export class YouTubeTool {
     }
 
     // Step 2 - upload video data
-    const uploadRes = await fetch(uploadUrl, {
+    const uploadRes = await this.http(uploadUrl, {
       method: 'PUT',
       headers: {
         'Content-Type': 'video/*',
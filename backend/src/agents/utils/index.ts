@@ -1 +1 @@
-export { ok, fail, fieldError, requireStrings, requireOneOf, requireNumberInRange } from './validation';
+export { ok, fail, fieldError } from './validation';
@@ -2,7 +2,7 @@ import { Hono } from "hono";
 import { logger } from "hono/logger";
 import { secureHeaders } from "hono/secure-headers";
 import { requestId } from "hono/request-id";
-import type { Env, AuthUser, UsageQueueMessage } from "./types";
+import type { Env, AuthUser, UsageQueueMessage, AgentRunQueueMessage } from "./types";
 import { corsMiddleware } from "./middleware/cors";
 import { errorHandler } from "./middleware/error-handler";
 import { rateLimitMiddleware } from "./middleware/rate-limit";
@@ -10,9 +10,31 @@ import { authMiddleware, adminMiddleware } from "./middleware/auth";
 import { auth } from "./routes/auth";
 import { credits } from "./routes/credits";
 import { agents } from "./routes/agents";
+import { pipelines } from "./routes/pipelines";
 import { webhooks } from "./routes/webhooks";
 import { admin } from "./routes/admin";
 import { proxy } from "./routes/proxy";
+import { artifacts } from "./routes/artifacts";
+import { files } from "./routes/files";
+import { media } from "./routes/media";
+import { connections } from "./routes/connections";
+import {
+  AGENT_RUN_QUEUE_NAME,
+  AGENT_RUN_DLQ_NAME,
+  handleAgentRunQueue,
+  handleAgentRunDeadLetters,
+} from "./services/run-queue";
+import { reapStaleRuns } from "./services/run-reaper";
+import { dispatchDueSchedules } from "./services/schedule";
+import { renewExpiringConnections } from "./services/connections";
+import { abortStaleMediaUploads } from "./services/media";
+import { IdempotencyKeyModel } from "./models/idempotency-key";
+import { LlmResponseCacheModel } from "./models/llm-response-cache";
+import { IDEMPOTENCY_KEY_TTL_SECONDS } from "./middleware/idempotency";
+
+// Must match [triggers] crons in wrangler.toml
+const REAPER_CRON = "*/5 * * * *";
+const SCHEDULE_DISPATCH_CRON = "* * * * *";
 
 const app = new Hono<{ Bindings: Env; Variables: { user: AuthUser } }>();
 
@@ -39,6 +61,10 @@ app.get("/health", (c) => {
 // Public routes (no auth required)
 app.route("/api/v1/auth", auth);
 app.route("/api/webhooks", webhooks);
+// Signed artifact URLs carry their own authorization (services/artifact.ts)
+app.route("/api/v1/files", files);
+// Connected accounts: the OAuth callback is public, the rest authenticate per route
+app.route("/api/v1/connections", connections);
 
 // Credit packages endpoint is public (readable without auth)
 app.get("/api/v1/credits/packages", async (c) => {
@@ -52,9 +78,15 @@ app.get("/api/v1/credits/packages", async (c) => {
 // Protected routes (require authentication)
 app.use("/api/v1/credits/*", authMiddleware());
 app.use("/api/v1/agents/*", authMiddleware());
+app.use("/api/v1/pipelines/*", authMiddleware());
+app.use("/api/v1/artifacts/*", authMiddleware());
+app.use("/api/v1/media/*", authMiddleware());
 app.use("/api/v1/chat/*", authMiddleware());
 app.route("/api/v1/credits", credits);
 app.route("/api/v1/agents", agents);
+app.route("/api/v1/pipelines", pipelines);
+app.route("/api/v1/artifacts", artifacts);
+app.route("/api/v1/media", media);
 
 // LLM Proxy (OpenAI-compatible endpoint)
 // Mounted at /api so proxy's /v1/chat/completions becomes /api/v1/chat/completions
@@ -79,19 +111,57 @@ app.notFound((c) => {
 export default {
   fetch: app.fetch,
 
-  // Cloudflare Queue consumer for usage log processing
-  async queue(batch: MessageBatch<UsageQueueMessage>, env: Env): Promise<void> {
+  // Cloudflare Queue consumers: agent run execution (and its dead-letter
+  // queue) and usage log processing
+  async queue(batch: MessageBatch<unknown>, env: Env, ctx: ExecutionContext): Promise<void> {
+    if (batch.queue === AGENT_RUN_QUEUE_NAME) {
+      return handleAgentRunQueue(batch as MessageBatch<AgentRunQueueMessage>, env, ctx);
+    }
+    if (batch.queue === AGENT_RUN_DLQ_NAME) {
+      return handleAgentRunDeadLetters(batch as MessageBatch<AgentRunQueueMessage>, env, ctx);
+    }
+
     const now = new Date().toISOString();
-    const statements = batch.messages.map((msg) => {
+    const statements = (batch as MessageBatch<UsageQueueMessage>).messages.map((msg) => {
       const log = msg.body;
       return env.DB.prepare(
-        `INSERT INTO usage_log (id, agent_run_id, user_id, resource_type, resource_detail, quantity, credit_cost, created_at)
-         VALUES (?, ?, ?, ?, ?, ?, ?, ?)`
-      ).bind(log.id, log.agentRunId, log.userId, log.resourceType, log.resourceDetail, log.quantity, log.creditCost, log.createdAt || now);
+        `INSERT INTO usage_log (id, agent_run_id, user_id, resource_type, resource_detail, quantity, credit_cost, cached, fallback_from, fallback_reason, created_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+      ).bind(
+        log.id,
+        log.agentRunId,
+        log.userId,
+        log.resourceType,
+        log.resourceDetail,
+        log.quantity,
+        log.creditCost,
+        log.cached ? 1 : 0,
+        log.fallbackFrom ?? null,
+        log.fallbackReason ?? null,
+        log.createdAt || now
+      );
     });
 
     if (statements.length > 0) {
       await env.DB.batch(statements);
     }
   },
+
+  // Cron triggers: every 5 minutes, fail and settle runs whose isolate died
+  // mid-execution, cancel runs whose approval expired, abort media uploads
+  // left open, purge expired idempotency keys and prompt cache entries and
+  // renew expiring Meta tokens; every minute, start the runs of due agent
+  // schedules
+  async scheduled(controller: ScheduledController, env: Env, ctx: ExecutionContext): Promise<void> {
+    if (controller.cron === REAPER_CRON) {
+      ctx.waitUntil(reapStaleRuns(env, ctx));
+      ctx.waitUntil(abortStaleMediaUploads(env));
+      ctx.waitUntil(IdempotencyKeyModel.deleteExpired(env.DB, IDEMPOTENCY_KEY_TTL_SECONDS));
+      ctx.waitUntil(LlmResponseCacheModel.deleteExpired(env.DB));
+      ctx.waitUntil(renewExpiringConnections(env));
+    }
+    if (controller.cron === SCHEDULE_DISPATCH_CRON) {
+      ctx.waitUntil(dispatchDueSchedules(env, ctx));
+    }
+  },
 };
@@ -12,8 +12,8 @@ export function corsMiddleware() {
       return null;
     },
     allowMethods: ["GET", "POST", "PUT", "PATCH", "DELETE", "OPTIONS"],
-    allowHeaders: ["Content-Type", "Authorization"],
-    exposeHeaders: ["X-Request-Id"],
+    allowHeaders: ["Content-Type", "Authorization", "Last-Event-ID", "Idempotency-Key"],
+    exposeHeaders: ["X-Request-Id", "Idempotent-Replayed", "Content-Disposition"],
     maxAge: 86400,
     credentials: true,
   });
@@ -5,7 +5,9 @@ export class AppError extends Error {
   constructor(
     public statusCode: number,
     public code: string,
-    message: string
+    message: string,
+    /** Machine-readable extras, e.g. per-field validation errors */
+    public details?: unknown
   ) {
     super(message);
     this.name = "AppError";
@@ -21,7 +23,11 @@ export function errorHandler(): MiddlewareHandler<{ Bindings: Env }> {
         return c.json(
           {
             success: false,
-            error: { code: err.code, message: err.message },
+            error: {
+              code: err.code,
+              message: err.message,
+              ...(err.details !== undefined ? { details: err.details } : {}),
+            },
           },
           err.statusCode as 400 | 401 | 403 | 404 | 409 | 429 | 500
         );
@@ -0,0 +1,95 @@
+import type { MiddlewareHandler } from "hono";
+import type { Env, AuthUser } from "../types";
+import { IdempotencyKeyModel } from "../models/idempotency-key";
+import { AppError } from "./error-handler";
+
+export const IDEMPOTENCY_KEY_HEADER = "Idempotency-Key";
+export const IDEMPOTENT_REPLAYED_HEADER = "Idempotent-Replayed";
+
+/** How long a key is honoured; expired keys are purged by the cron trigger */
+export const IDEMPOTENCY_KEY_TTL_SECONDS = 24 * 60 * 60;
+// A request still in progress after this long is taken to have died
+const IN_PROGRESS_TIMEOUT_SECONDS = 60;
+const MAX_KEY_LENGTH = 255;
+
+async function hashRequest(method: string, path: string, body: string): Promise<string> {
+  const data = new TextEncoder().encode(`${method}\n${path}\n${body}`);
+  const digest = await crypto.subtle.digest("SHA-256", data);
+  return [...new Uint8Array(digest)].map((b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+/**
+ * Honour an Idempotency-Key header on a mutating route (after authMiddleware).
+ * The first request with a key runs normally and, if it succeeds, its response
+ * is stored; a retry with the same key and body gets that response back with
+ * Idempotent-Replayed: true. Reusing a key with a different request, or while
+ * the first is still running, is a 409. Failed requests release the key so the
+ * client can retry with it. Requests without the header are not affected.
+ */
+export function idempotencyMiddleware(): MiddlewareHandler<{
+  Bindings: Env;
+  Variables: { user: AuthUser };
+}> {
+  return async (c, next) => {
+    const key = c.req.header(IDEMPOTENCY_KEY_HEADER);
+    if (key === undefined) {
+      await next();
+      return;
+    }
+    if (!key || key.length > MAX_KEY_LENGTH || !/^[\x21-\x7e]+$/.test(key)) {
+      throw new AppError(
+        400,
+        "INVALID_IDEMPOTENCY_KEY",
+        `${IDEMPOTENCY_KEY_HEADER} must be 1-${MAX_KEY_LENGTH} printable ASCII characters`
+      );
+    }
+
+    const db = c.env.DB;
+    const { userId } = c.get("user");
+    const method = c.req.method;
+    const path = c.req.path;
+    // The body is cached, so the route handler can still read it
+    const requestHash = await hashRequest(method, path, await c.req.text());
+
+    let claimed = await IdempotencyKeyModel.tryCreate(db, { userId, key, method, path, requestHash });
+    if (!claimed && (await IdempotencyKeyModel.releaseStale(db, userId, key, IN_PROGRESS_TIMEOUT_SECONDS))) {
+      claimed = await IdempotencyKeyModel.tryCreate(db, { userId, key, method, path, requestHash });
+    }
+
+    if (!claimed) {
+      const existing = await IdempotencyKeyModel.find(db, userId, key);
+      if (existing && existing.request_hash !== requestHash) {
+        throw new AppError(
+          409,
+          "IDEMPOTENCY_KEY_REUSED",
+          `${IDEMPOTENCY_KEY_HEADER} was already used for a different request`
+        );
+      }
+      if (!existing || existing.status !== "completed") {
+        throw new AppError(
+          409,
+          "IDEMPOTENCY_REQUEST_IN_PROGRESS",
+          "A request with this idempotency key is still being processed"
+        );
+      }
+      return new Response(existing.response_body, {
+        status: existing.response_status ?? 200,
+        headers: { "Content-Type": "application/json", [IDEMPOTENT_REPLAYED_HEADER]: "true" },
+      });
+    }
+
+    try {
+      await next();
+    } catch (err) {
+      await IdempotencyKeyModel.delete(db, userId, key);
+      throw err;
+    }
+
+    if (c.error || !c.res.ok) {
+      await IdempotencyKeyModel.delete(db, userId, key);
+      return;
+    }
+    const body = await c.res.clone().text();
+    await IdempotencyKeyModel.complete(db, userId, key, { status: c.res.status, body });
+  };
+}
@@ -0,0 +1,76 @@
+export type AgentRunEventType = "progress" | "complete" | "error";
+
+export interface AgentRunEventRow {
+  agent_run_id: string;
+  seq: number;
+  event_type: AgentRunEventType;
+  stage: string;
+  message: string;
+  progress: number;
+  detail_json: string | null;
+  created_at: string;
+}
+
+export const AgentRunEventModel = {
+  /**
+   * Append an event; seq is assigned as MAX(seq) + 1 for the run.
+   * Callers must serialize appends per run.
+   */
+  async append(
+    db: D1Database,
+    data: {
+      agentRunId: string;
+      eventType: AgentRunEventType;
+      stage?: string;
+      message?: string;
+      progress?: number;
+      detail?: Record<string, unknown>;
+      createdAt?: string;
+    }
+  ): Promise<void> {
+    await db
+      .prepare(
+        `INSERT INTO agent_run_event (agent_run_id, seq, event_type, stage, message, progress, detail_json, created_at)
+         VALUES (?, (SELECT COALESCE(MAX(seq), 0) + 1 FROM agent_run_event WHERE agent_run_id = ?), ?, ?, ?, ?, ?, ?)`
+      )
+      .bind(
+        data.agentRunId,
+        data.agentRunId,
+        data.eventType,
+        data.stage ?? "",
+        data.message ?? "",
+        Math.round(data.progress ?? 0),
+        data.detail ? JSON.stringify(data.detail) : null,
+        data.createdAt ?? new Date().toISOString()
+      )
+      .run();
+  },
+
+  async listByRunId(db: D1Database, agentRunId: string): Promise<AgentRunEventRow[]> {
+    const result = await db
+      .prepare("SELECT * FROM agent_run_event WHERE agent_run_id = ? ORDER BY seq ASC")
+      .bind(agentRunId)
+      .all<AgentRunEventRow>();
+    return result.results;
+  },
+
+  async findLast(db: D1Database, agentRunId: string): Promise<AgentRunEventRow | null> {
+    return db
+      .prepare("SELECT * FROM agent_run_event WHERE agent_run_id = ? ORDER BY seq DESC LIMIT 1")
+      .bind(agentRunId)
+      .first<AgentRunEventRow>();
+  },
+
+  async listAfter(
+    db: D1Database,
+    agentRunId: string,
+    afterSeq: number,
+    limit = 100
+  ): Promise<AgentRunEventRow[]> {
+    const result = await db
+      .prepare("SELECT * FROM agent_run_event WHERE agent_run_id = ? AND seq > ? ORDER BY seq ASC LIMIT ?")
+      .bind(agentRunId, afterSeq, limit)
+      .all<AgentRunEventRow>();
+    return result.results;
+  },
+};
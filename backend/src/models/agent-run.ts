@@ -1,5 +1,5 @@
 import { generateId } from "../utils/ulid";
-import type { AgentRunStatus } from "../types";
+import type { AgentRunApprovalStatus, AgentRunDisplayStatus, AgentRunStatus } from "../types";
 
 export interface AgentRunRow {
   id: string;
@@ -14,9 +14,24 @@ export interface AgentRunRow {
   duration_ms: number | null;
   started_at: string | null;
   completed_at: string | null;
+  cancel_requested_at: string | null;
+  attempts: number;
+  dead_lettered_at: string | null;
+  pipeline_run_id: string | null;
+  schedule_id: string | null;
+  parent_run_id: string | null;
+  approval_status: AgentRunApprovalStatus | null;
+  approval_preview_json: string | null;
+  approval_expires_at: string | null;
+  approval_decided_at: string | null;
   created_at: string;
 }
 
+/** Status as shown to clients: a pending run held for approval is awaiting_approval */
+export function toDisplayStatus(run: Pick<AgentRunRow, "status" | "approval_status">): AgentRunDisplayStatus {
+  return run.status === "pending" && run.approval_status === "pending" ? "awaiting_approval" : run.status;
+}
+
 export const AgentRunModel = {
   async findById(db: D1Database, id: string): Promise<AgentRunRow | null> {
     return db.prepare("SELECT * FROM agent_run WHERE id = ?").bind(id).first<AgentRunRow>();
@@ -29,15 +44,30 @@ export const AgentRunModel = {
       userId: string;
       creditsReserved: number;
       inputJson: string;
+      /** Set for runs executing a pipeline step */
+      pipelineRunId?: string;
+      /** Set for runs started by an agent schedule */
+      scheduleId?: string;
+      /** Set for re-runs and forks of an earlier run */
+      parentRunId?: string;
     }
   ): Promise<AgentRunRow> {
     const id = generateId();
     await db
       .prepare(
-        `INSERT INTO agent_run (id, agent_config_id, user_id, credits_reserved, input_json, created_at)
-         VALUES (?, ?, ?, ?, ?, datetime('now'))`
+        `INSERT INTO agent_run (id, agent_config_id, user_id, credits_reserved, input_json, pipeline_run_id, schedule_id, parent_run_id, created_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, datetime('now'))`
+      )
+      .bind(
+        id,
+        data.agentConfigId,
+        data.userId,
+        data.creditsReserved,
+        data.inputJson,
+        data.pipelineRunId ?? null,
+        data.scheduleId ?? null,
+        data.parentRunId ?? null
       )
-      .bind(id, data.agentConfigId, data.userId, data.creditsReserved, data.inputJson)
       .run();
     return (await AgentRunModel.findById(db, id))!;
   },
@@ -67,16 +97,176 @@ export const AgentRunModel = {
     await db.prepare(`UPDATE agent_run SET ${sets.join(", ")} WHERE id = ?`).bind(...values).run();
   },
 
+  /** Flag a run for cancellation; the executing isolate polls this between steps */
+  async requestCancel(db: D1Database, id: string): Promise<void> {
+    await db
+      .prepare("UPDATE agent_run SET cancel_requested_at = datetime('now') WHERE id = ? AND cancel_requested_at IS NULL")
+      .bind(id)
+      .run();
+  },
+
+  async isCancelRequested(db: D1Database, id: string): Promise<boolean> {
+    const row = await db
+      .prepare("SELECT cancel_requested_at FROM agent_run WHERE id = ?")
+      .bind(id)
+      .first<{ cancel_requested_at: string | null }>();
+    return !!row?.cancel_requested_at;
+  },
+
+  /**
+   * Claim a run for a queue delivery: pending -> running, recording the attempt.
+   * A running run is only re-claimed by a later delivery, i.e. when the isolate
+   * executing an earlier attempt died. Runs awaiting approval aren't claimable.
+   * Returns false if the run isn't claimable.
+   */
+  async claim(db: D1Database, id: string, attempt: number): Promise<boolean> {
+    const result = await db
+      .prepare(
+        `UPDATE agent_run SET status = 'running', attempts = ?, started_at = datetime('now')
+         WHERE id = ?
+           AND ((status = 'pending' AND COALESCE(approval_status, '') <> 'pending') OR (status = 'running' AND attempts < ?))`
+      )
+      .bind(attempt, id, attempt)
+      .run();
+    return result.meta.changes > 0;
+  },
+
+  /**
+   * Cancel a run no delivery has claimed yet, including one awaiting approval
+   * (which counts as rejecting it). Returns false if it already started.
+   */
+  async cancelPending(db: D1Database, id: string): Promise<boolean> {
+    const result = await db
+      .prepare(
+        `UPDATE agent_run SET status = 'cancelled', error_message = 'Agent run was cancelled before it started',
+           cancel_requested_at = COALESCE(cancel_requested_at, datetime('now')), completed_at = datetime('now'),
+           approval_status = CASE WHEN approval_status = 'pending' THEN 'rejected' ELSE approval_status END,
+           approval_decided_at = CASE WHEN approval_status = 'pending' THEN datetime('now') ELSE approval_decided_at END
+         WHERE id = ? AND status = 'pending'`
+      )
+      .bind(id)
+      .run();
+    return result.meta.changes > 0;
+  },
+
+  /**
+   * Hold a claimed run for approval: back to pending, with the preview of what
+   * it will publish and when the approval request expires
+   */
+  async holdForApproval(
+    db: D1Database,
+    id: string,
+    data: { previewJson: string; expiresInSeconds: number }
+  ): Promise<void> {
+    await db
+      .prepare(
+        `UPDATE agent_run SET status = 'pending', approval_status = 'pending', approval_preview_json = ?,
+           approval_expires_at = datetime('now', ?), approval_decided_at = NULL
+         WHERE id = ? AND status = 'running'`
+      )
+      .bind(data.previewJson, `+${data.expiresInSeconds} seconds`, id)
+      .run();
+  },
+
+  /**
+   * Approve a run awaiting approval so the queue can claim it. Returns false if
+   * it isn't awaiting approval or the request has expired.
+   */
+  async approve(db: D1Database, id: string): Promise<boolean> {
+    const result = await db
+      .prepare(
+        `UPDATE agent_run SET approval_status = 'approved', approval_decided_at = datetime('now')
+         WHERE id = ? AND status = 'pending' AND approval_status = 'pending' AND approval_expires_at > datetime('now')`
+      )
+      .bind(id)
+      .run();
+    return result.meta.changes > 0;
+  },
+
+  /**
+   * Cancel a run awaiting approval, recording why: rejected by the user or
+   * expired. Returns false if it isn't awaiting approval.
+   */
+  async closeApproval(
+    db: D1Database,
+    id: string,
+    data: { approvalStatus: "rejected" | "expired"; errorMessage: string }
+  ): Promise<boolean> {
+    const result = await db
+      .prepare(
+        `UPDATE agent_run SET status = 'cancelled', approval_status = ?, approval_decided_at = datetime('now'),
+           error_message = ?, completed_at = datetime('now')
+         WHERE id = ? AND status = 'pending' AND approval_status = 'pending'`
+      )
+      .bind(data.approvalStatus, data.errorMessage, id)
+      .run();
+    return result.meta.changes > 0;
+  },
+
+  /** Runs whose approval request has expired, oldest first */
+  async listExpiredApprovals(db: D1Database, limit = 50): Promise<AgentRunRow[]> {
+    const result = await db
+      .prepare(
+        `SELECT * FROM agent_run
+         WHERE approval_status = 'pending' AND status = 'pending' AND approval_expires_at <= datetime('now')
+         ORDER BY approval_expires_at ASC LIMIT ?`
+      )
+      .bind(limit)
+      .all<AgentRunRow>();
+    return result.results;
+  },
+
+  /** Fail a run whose queue retries are exhausted */
+  async markDeadLettered(db: D1Database, id: string, errorMessage: string): Promise<void> {
+    await db
+      .prepare(
+        `UPDATE agent_run SET status = 'failed', error_message = ?, dead_lettered_at = datetime('now'),
+           completed_at = COALESCE(completed_at, datetime('now'))
+         WHERE id = ?`
+      )
+      .bind(errorMessage, id)
+      .run();
+  },
+
+  /** Running runs that started more than `olderThanSeconds` ago, oldest first */
+  async listStale(db: D1Database, olderThanSeconds: number, limit = 50): Promise<AgentRunRow[]> {
+    const result = await db
+      .prepare(
+        `SELECT * FROM agent_run
+         WHERE status = 'running' AND started_at IS NOT NULL AND julianday(started_at) < julianday('now', ?)
+         ORDER BY started_at ASC LIMIT ?`
+      )
+      .bind(`-${olderThanSeconds} seconds`, limit)
+      .all<AgentRunRow>();
+    return result.results;
+  },
+
+  /** Fail a run only if it is still running. Returns false if it finished meanwhile. */
+  async failIfRunning(db: D1Database, id: string, errorMessage: string): Promise<boolean> {
+    const result = await db
+      .prepare(
+        `UPDATE agent_run SET status = 'failed', error_message = ?, completed_at = datetime('now')
+         WHERE id = ? AND status = 'running'`
+      )
+      .bind(errorMessage, id)
+      .run();
+    return result.meta.changes > 0;
+  },
+
   async listByUserId(
     db: D1Database,
     userId: string,
-    opts: { limit?: number; offset?: number; status?: AgentRunStatus } = {}
+    opts: { limit?: number; offset?: number; status?: AgentRunDisplayStatus } = {}
   ): Promise<{ results: AgentRunRow[]; total: number }> {
     const limit = opts.limit ?? 50;
     const offset = opts.offset ?? 0;
     let where = "WHERE user_id = ?";
     const binds: unknown[] = [userId];
-    if (opts.status) {
+    if (opts.status === "awaiting_approval") {
+      where += " AND status = 'pending' AND approval_status = 'pending'";
+    } else if (opts.status === "pending") {
+      where += " AND status = 'pending' AND COALESCE(approval_status, '') <> 'pending'";
+    } else if (opts.status) {
       where += " AND status = ?";
       binds.push(opts.status);
     }
@@ -90,4 +280,13 @@ export const AgentRunModel = {
       .all<AgentRunRow>();
     return { results: results.results, total: countResult?.cnt ?? 0 };
   },
+
+  /** Re-runs and forks started from a run, oldest first */
+  async listByParentId(db: D1Database, parentRunId: string): Promise<AgentRunRow[]> {
+    const result = await db
+      .prepare("SELECT * FROM agent_run WHERE parent_run_id = ? ORDER BY created_at ASC")
+      .bind(parentRunId)
+      .all<AgentRunRow>();
+    return result.results;
+  },
 };
@@ -0,0 +1,159 @@
+import { generateId } from "../utils/ulid";
+
+export type AgentSchedulePausedReason = "failures" | "insufficient_credits" | "config_inactive";
+
+export interface AgentScheduleRow {
+  id: string;
+  agent_config_id: string;
+  user_id: string;
+  cron_expression: string;
+  timezone: string;
+  params_json: string;
+  enabled: number;
+  next_run_at: string | null;
+  last_run_at: string | null;
+  last_run_id: string | null;
+  consecutive_failures: number;
+  paused_reason: AgentSchedulePausedReason | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export const AgentScheduleModel = {
+  async findById(db: D1Database, id: string): Promise<AgentScheduleRow | null> {
+    return db.prepare("SELECT * FROM agent_schedule WHERE id = ?").bind(id).first<AgentScheduleRow>();
+  },
+
+  async listByConfigId(db: D1Database, agentConfigId: string): Promise<AgentScheduleRow[]> {
+    const result = await db
+      .prepare("SELECT * FROM agent_schedule WHERE agent_config_id = ? ORDER BY created_at ASC")
+      .bind(agentConfigId)
+      .all<AgentScheduleRow>();
+    return result.results;
+  },
+
+  async create(
+    db: D1Database,
+    data: {
+      agentConfigId: string;
+      userId: string;
+      cronExpression: string;
+      timezone: string;
+      paramsJson: string;
+      enabled: boolean;
+      nextRunAt: string | null;
+    }
+  ): Promise<AgentScheduleRow> {
+    const id = generateId();
+    const now = new Date().toISOString();
+    await db
+      .prepare(
+        `INSERT INTO agent_schedule (id, agent_config_id, user_id, cron_expression, timezone, params_json, enabled, next_run_at, created_at, updated_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+      )
+      .bind(
+        id,
+        data.agentConfigId,
+        data.userId,
+        data.cronExpression,
+        data.timezone,
+        data.paramsJson,
+        data.enabled ? 1 : 0,
+        data.nextRunAt,
+        now,
+        now
+      )
+      .run();
+    return (await AgentScheduleModel.findById(db, id))!;
+  },
+
+  async update(
+    db: D1Database,
+    id: string,
+    data: Partial<{
+      cronExpression: string;
+      timezone: string;
+      paramsJson: string;
+      enabled: boolean;
+      nextRunAt: string | null;
+      consecutiveFailures: number;
+      pausedReason: AgentSchedulePausedReason | null;
+    }>
+  ): Promise<void> {
+    const sets: string[] = [];
+    const values: unknown[] = [];
+    if (data.cronExpression !== undefined) { sets.push("cron_expression = ?"); values.push(data.cronExpression); }
+    if (data.timezone !== undefined) { sets.push("timezone = ?"); values.push(data.timezone); }
+    if (data.paramsJson !== undefined) { sets.push("params_json = ?"); values.push(data.paramsJson); }
+    if (data.enabled !== undefined) { sets.push("enabled = ?"); values.push(data.enabled ? 1 : 0); }
+    if (data.nextRunAt !== undefined) { sets.push("next_run_at = ?"); values.push(data.nextRunAt); }
+    if (data.consecutiveFailures !== undefined) { sets.push("consecutive_failures = ?"); values.push(data.consecutiveFailures); }
+    if (data.pausedReason !== undefined) { sets.push("paused_reason = ?"); values.push(data.pausedReason); }
+    if (sets.length === 0) return;
+    sets.push("updated_at = datetime('now')");
+    values.push(id);
+    await db.prepare(`UPDATE agent_schedule SET ${sets.join(", ")} WHERE id = ?`).bind(...values).run();
+  },
+
+  async delete(db: D1Database, id: string): Promise<void> {
+    await db.prepare("DELETE FROM agent_schedule WHERE id = ?").bind(id).run();
+  },
+
+  /** Enabled schedules whose next occurrence is at or before `now` (ISO 8601) */
+  async listDue(db: D1Database, now: string, limit: number): Promise<AgentScheduleRow[]> {
+    const result = await db
+      .prepare(
+        `SELECT * FROM agent_schedule
+         WHERE enabled = 1 AND next_run_at IS NOT NULL AND next_run_at <= ?
+         ORDER BY next_run_at ASC LIMIT ?`
+      )
+      .bind(now, limit)
+      .all<AgentScheduleRow>();
+    return result.results;
+  },
+
+  /**
+   * Move a due schedule on to its following occurrence. Returns false if
+   * another invocation already claimed this occurrence.
+   */
+  async advance(db: D1Database, id: string, dueAt: string, nextRunAt: string | null): Promise<boolean> {
+    const result = await db
+      .prepare(
+        `UPDATE agent_schedule SET next_run_at = ?, updated_at = datetime('now')
+         WHERE id = ? AND enabled = 1 AND next_run_at = ?`
+      )
+      .bind(nextRunAt, id, dueAt)
+      .run();
+    return result.meta.changes > 0;
+  },
+
+  /** Record the outcome of a dispatch; `runId` is null when no run could be started */
+  async recordDispatch(
+    db: D1Database,
+    id: string,
+    data: { runId: string | null; consecutiveFailures: number }
+  ): Promise<void> {
+    await db
+      .prepare(
+        `UPDATE agent_schedule SET last_run_at = ?, last_run_id = ?, consecutive_failures = ?, updated_at = datetime('now')
+         WHERE id = ?`
+      )
+      .bind(new Date().toISOString(), data.runId, data.consecutiveFailures, id)
+      .run();
+  },
+
+  async pause(
+    db: D1Database,
+    id: string,
+    data: { reason: AgentSchedulePausedReason; consecutiveFailures: number }
+  ): Promise<void> {
+    await db
+      .prepare(
+        `UPDATE agent_schedule SET enabled = 0, next_run_at = NULL, paused_reason = ?, consecutive_failures = ?,
+           updated_at = datetime('now')
+         WHERE id = ?`
+      )
+      .bind(data.reason, data.consecutiveFailures, id)
+      .run();
+  },
+};
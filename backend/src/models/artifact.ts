@@ -0,0 +1,72 @@
+import { generateId } from "../utils/ulid";
+
+export interface ArtifactRow {
+  id: string;
+  user_id: string;
+  agent_run_id: string | null;
+  r2_key: string;
+  content_type: string;
+  size_bytes: number;
+  created_at: string;
+}
+
+export const ArtifactModel = {
+  async findById(db: D1Database, id: string): Promise<ArtifactRow | null> {
+    return db.prepare("SELECT * FROM artifact WHERE id = ?").bind(id).first<ArtifactRow>();
+  },
+
+  /**
+   * Record an object stored in R2. Storing the same key again (an overwrite)
+   * updates its size rather than counting it twice.
+   */
+  async upsert(
+    db: D1Database,
+    data: { userId: string; agentRunId?: string; r2Key: string; contentType: string; sizeBytes: number }
+  ): Promise<void> {
+    await db
+      .prepare(
+        `INSERT INTO artifact (id, user_id, agent_run_id, r2_key, content_type, size_bytes, created_at)
+         VALUES (?, ?, ?, ?, ?, ?, datetime('now'))
+         ON CONFLICT (r2_key) DO UPDATE SET content_type = excluded.content_type, size_bytes = excluded.size_bytes`
+      )
+      .bind(generateId(), data.userId, data.agentRunId ?? null, data.r2Key, data.contentType, data.sizeBytes)
+      .run();
+  },
+
+  async listByUserId(
+    db: D1Database,
+    userId: string,
+    opts: { limit?: number; offset?: number; agentRunId?: string } = {}
+  ): Promise<{ results: ArtifactRow[]; total: number }> {
+    const limit = opts.limit ?? 50;
+    const offset = opts.offset ?? 0;
+    let where = "WHERE user_id = ?";
+    const binds: unknown[] = [userId];
+    if (opts.agentRunId) {
+      where += " AND agent_run_id = ?";
+      binds.push(opts.agentRunId);
+    }
+    const countResult = await db
+      .prepare(`SELECT COUNT(*) as cnt FROM artifact ${where}`)
+      .bind(...binds)
+      .first<{ cnt: number }>();
+    const results = await db
+      .prepare(`SELECT * FROM artifact ${where} ORDER BY created_at DESC LIMIT ? OFFSET ?`)
+      .bind(...binds, limit, offset)
+      .all<ArtifactRow>();
+    return { results: results.results, total: countResult?.cnt ?? 0 };
+  },
+
+  /** Bytes of all artifacts recorded for the user */
+  async totalBytesByUserId(db: D1Database, userId: string): Promise<number> {
+    const result = await db
+      .prepare("SELECT COALESCE(SUM(size_bytes), 0) as total FROM artifact WHERE user_id = ?")
+      .bind(userId)
+      .first<{ total: number }>();
+    return result?.total ?? 0;
+  },
+
+  async delete(db: D1Database, id: string): Promise<void> {
+    await db.prepare("DELETE FROM artifact WHERE id = ?").bind(id).run();
+  },
+};
@@ -58,4 +58,18 @@ export const CreditBalanceModel = {
       .bind(reservedAmount, actualAmount, userId)
       .run();
   },
+  /** Balances holding reserved credits while the user has no running run or pipeline run */
+  async listReservedWithoutRunningRun(db: D1Database, limit = 100): Promise<CreditBalanceRow[]> {
+    const result = await db
+      .prepare(
+        `SELECT cb.* FROM credit_balance cb
+         WHERE cb.reserved_credits > 0
+           AND NOT EXISTS (SELECT 1 FROM agent_run ar WHERE ar.user_id = cb.user_id AND ar.status = 'running')
+           AND NOT EXISTS (SELECT 1 FROM pipeline_run pr WHERE pr.user_id = cb.user_id AND pr.credits_reserved > 0)
+         LIMIT ?`
+      )
+      .bind(limit)
+      .all<CreditBalanceRow>();
+    return result.results;
+  },
 };
@@ -6,6 +6,7 @@ export interface CreditTransactionRow {
   user_id: string;
   payment_order_id: string | null;
   agent_run_id: string | null;
+  pipeline_run_id: string | null;
   type: CreditTransactionType;
   amount: number;
   balance_after: number;
@@ -46,6 +47,37 @@ export const CreditTransactionModel = {
     return id;
   },
 
+  /**
+   * The run's latest reservation, if it hasn't been settled yet. A retried run
+   * has one reservation/settlement pair per attempt.
+   */
+  async findUnsettledReservation(db: D1Database, agentRunId: string): Promise<CreditTransactionRow | null> {
+    return db
+      .prepare(
+        `SELECT * FROM credit_transaction
+         WHERE agent_run_id = ? AND type = 'reservation'
+           AND (SELECT COUNT(*) FROM credit_transaction WHERE agent_run_id = ? AND type = 'reservation')
+             > (SELECT COUNT(*) FROM credit_transaction WHERE agent_run_id = ? AND type = 'settlement')
+         ORDER BY created_at DESC, id DESC LIMIT 1`
+      )
+      .bind(agentRunId, agentRunId, agentRunId)
+      .first<CreditTransactionRow>();
+  },
+
+  /** Agent run reservations whose agent_run_id matches no agent_run row */
+  async listOrphanedReservations(db: D1Database, limit = 100): Promise<CreditTransactionRow[]> {
+    const result = await db
+      .prepare(
+        `SELECT ct.* FROM credit_transaction ct
+         LEFT JOIN agent_run ar ON ar.id = ct.agent_run_id
+         WHERE ct.type = 'reservation' AND ct.pipeline_run_id IS NULL AND ar.id IS NULL
+         ORDER BY ct.created_at DESC LIMIT ?`
+      )
+      .bind(limit)
+      .all<CreditTransactionRow>();
+    return result.results;
+  },
+
   async listByUserId(
     db: D1Database,
     userId: string,
@@ -0,0 +1,85 @@
+export type IdempotencyKeyStatus = "in_progress" | "completed";
+
+export interface IdempotencyKeyRow {
+  user_id: string;
+  idempotency_key: string;
+  request_method: string;
+  request_path: string;
+  request_hash: string;
+  status: IdempotencyKeyStatus;
+  response_status: number | null;
+  response_body: string | null;
+  created_at: string;
+  completed_at: string | null;
+}
+
+export const IdempotencyKeyModel = {
+  async find(db: D1Database, userId: string, key: string): Promise<IdempotencyKeyRow | null> {
+    return db
+      .prepare("SELECT * FROM idempotency_key WHERE user_id = ? AND idempotency_key = ?")
+      .bind(userId, key)
+      .first<IdempotencyKeyRow>();
+  },
+
+  /** Claim a key for a new request. Returns false if the user already used it. */
+  async tryCreate(
+    db: D1Database,
+    data: { userId: string; key: string; method: string; path: string; requestHash: string }
+  ): Promise<boolean> {
+    const result = await db
+      .prepare(
+        `INSERT INTO idempotency_key (user_id, idempotency_key, request_method, request_path, request_hash, created_at)
+         VALUES (?, ?, ?, ?, ?, datetime('now'))
+         ON CONFLICT (user_id, idempotency_key) DO NOTHING`
+      )
+      .bind(data.userId, data.key, data.method, data.path, data.requestHash)
+      .run();
+    return result.meta.changes > 0;
+  },
+
+  async complete(
+    db: D1Database,
+    userId: string,
+    key: string,
+    response: { status: number; body: string }
+  ): Promise<void> {
+    await db
+      .prepare(
+        `UPDATE idempotency_key SET status = 'completed', response_status = ?, response_body = ?, completed_at = datetime('now')
+         WHERE user_id = ? AND idempotency_key = ?`
+      )
+      .bind(response.status, response.body, userId, key)
+      .run();
+  },
+
+  async delete(db: D1Database, userId: string, key: string): Promise<void> {
+    await db
+      .prepare("DELETE FROM idempotency_key WHERE user_id = ? AND idempotency_key = ?")
+      .bind(userId, key)
+      .run();
+  },
+
+  /**
+   * Drop a key still in progress after `olderThanSeconds`, i.e. one whose
+   * request died before finishing. Returns false if there was none.
+   */
+  async releaseStale(db: D1Database, userId: string, key: string, olderThanSeconds: number): Promise<boolean> {
+    const result = await db
+      .prepare(
+        `DELETE FROM idempotency_key
+         WHERE user_id = ? AND idempotency_key = ? AND status = 'in_progress' AND created_at < datetime('now', ?)`
+      )
+      .bind(userId, key, `-${olderThanSeconds} seconds`)
+      .run();
+    return result.meta.changes > 0;
+  },
+
+  /** Remove keys created more than `olderThanSeconds` ago; returns how many were removed */
+  async deleteExpired(db: D1Database, olderThanSeconds: number): Promise<number> {
+    const result = await db
+      .prepare("DELETE FROM idempotency_key WHERE created_at < datetime('now', ?)")
+      .bind(`-${olderThanSeconds} seconds`)
+      .run();
+    return result.meta.changes;
+  },
+};
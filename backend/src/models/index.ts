@@ -7,3 +7,30 @@ export { AgentConfigModel, type AgentConfigRow } from "./agent-config";
 export { AgentRunModel, type AgentRunRow } from "./agent-run";
 export { UsageLogModel, type UsageLogRow } from "./usage-log";
 export { ConsentRecordModel, type ConsentRecordRow } from "./consent-record";
+export { AgentRunEventModel, type AgentRunEventRow, type AgentRunEventType } from "./agent-run-event";
+export {
+  PipelineModel,
+  PipelineRunModel,
+  PipelineRunStepModel,
+  type PipelineRow,
+  type PipelineRunRow,
+  type PipelineRunStepRow,
+  type PipelineStatus,
+  type PipelineRunStatus,
+} from "./pipeline";
+export {
+  AgentScheduleModel,
+  type AgentScheduleRow,
+  type AgentSchedulePausedReason,
+} from "./agent-schedule";
+export { IdempotencyKeyModel, type IdempotencyKeyRow, type IdempotencyKeyStatus } from "./idempotency-key";
+export { ArtifactModel, type ArtifactRow } from "./artifact";
+export { MediaModel, type MediaRow, type MediaStatus } from "./media";
+export {
+  OAuthConnectionModel,
+  type OAuthConnectionRow,
+  type OAuthProvider,
+  type OAuthConnectionStatus,
+} from "./oauth-connection";
+export { LlmCacheStatModel, type LlmCacheStatRow, type LlmCacheCounts } from "./llm-cache-stat";
+export { LlmResponseCacheModel, type LlmResponseCacheRow } from "./llm-response-cache";
@@ -0,0 +1,48 @@
+export interface LlmCacheStatRow {
+  agent_id: string;
+  day: string;
+  requests: number;
+  cacheable_requests: number;
+  cache_hits: number;
+}
+
+export interface LlmCacheCounts {
+  requests: number;
+  cacheableRequests: number;
+  cacheHits: number;
+}
+
+export const LlmCacheStatModel = {
+  /** Add a run's LLM call counts to its agent's row for the day */
+  async increment(db: D1Database, agentId: string, day: string, counts: LlmCacheCounts): Promise<void> {
+    await db
+      .prepare(
+        `INSERT INTO llm_cache_stat (agent_id, day, requests, cacheable_requests, cache_hits)
+         VALUES (?, ?, ?, ?, ?)
+         ON CONFLICT (agent_id, day) DO UPDATE SET
+           requests = requests + excluded.requests,
+           cacheable_requests = cacheable_requests + excluded.cacheable_requests,
+           cache_hits = cache_hits + excluded.cache_hits`
+      )
+      .bind(agentId, day, counts.requests, counts.cacheableRequests, counts.cacheHits)
+      .run();
+  },
+
+  /** Totals per agent since a day (inclusive) */
+  async summarizeSince(db: D1Database, sinceDay: string): Promise<(LlmCacheCounts & { agentId: string })[]> {
+    const result = await db
+      .prepare(
+        `SELECT agent_id, SUM(requests) as requests, SUM(cacheable_requests) as cacheable_requests, SUM(cache_hits) as cache_hits
+         FROM llm_cache_stat WHERE day >= ?
+         GROUP BY agent_id ORDER BY agent_id ASC`
+      )
+      .bind(sinceDay)
+      .all<Omit<LlmCacheStatRow, "day">>();
+    return result.results.map((row) => ({
+      agentId: row.agent_id,
+      requests: row.requests,
+      cacheableRequests: row.cacheable_requests,
+      cacheHits: row.cache_hits,
+    }));
+  },
+};
@@ -0,0 +1,60 @@
+export interface LlmResponseCacheRow {
+  cache_key: string;
+  provider: string;
+  model: string;
+  content: string;
+  input_tokens: number;
+  output_tokens: number;
+  hits: number;
+  created_at: string;
+  expires_at: string;
+}
+
+export const LlmResponseCacheModel = {
+  /** The entry for a key, unless it has expired */
+  async find(db: D1Database, cacheKey: string): Promise<LlmResponseCacheRow | null> {
+    return db
+      .prepare("SELECT * FROM llm_response_cache WHERE cache_key = ? AND expires_at > datetime('now')")
+      .bind(cacheKey)
+      .first<LlmResponseCacheRow>();
+  },
+
+  /** Store a response, replacing any earlier entry for the key */
+  async put(
+    db: D1Database,
+    data: {
+      cacheKey: string;
+      provider: string;
+      model: string;
+      content: string;
+      inputTokens: number;
+      outputTokens: number;
+      ttlSeconds: number;
+    }
+  ): Promise<void> {
+    await db
+      .prepare(
+        `INSERT OR REPLACE INTO llm_response_cache (cache_key, provider, model, content, input_tokens, output_tokens, expires_at)
+         VALUES (?, ?, ?, ?, ?, ?, datetime('now', ?))`
+      )
+      .bind(
+        data.cacheKey,
+        data.provider,
+        data.model,
+        data.content,
+        data.inputTokens,
+        data.outputTokens,
+        `+${data.ttlSeconds} seconds`
+      )
+      .run();
+  },
+
+  async recordHit(db: D1Database, cacheKey: string): Promise<void> {
+    await db.prepare("UPDATE llm_response_cache SET hits = hits + 1 WHERE cache_key = ?").bind(cacheKey).run();
+  },
+
+  async deleteExpired(db: D1Database): Promise<number> {
+    const result = await db.prepare("DELETE FROM llm_response_cache WHERE expires_at <= datetime('now')").run();
+    return result.meta.changes;
+  },
+};
@@ -0,0 +1,111 @@
+import { generateId } from "../utils/ulid";
+
+export type MediaStatus = "uploading" | "ready" | "aborted";
+
+export interface MediaRow {
+  id: string;
+  user_id: string;
+  r2_key: string;
+  upload_id: string;
+  filename: string;
+  content_type: string;
+  size_bytes: number;
+  duration_seconds: number | null;
+  width: number | null;
+  height: number | null;
+  status: MediaStatus;
+  created_at: string;
+  completed_at: string | null;
+}
+
+export const MediaModel = {
+  async findById(db: D1Database, id: string): Promise<MediaRow | null> {
+    return db.prepare("SELECT * FROM media WHERE id = ?").bind(id).first<MediaRow>();
+  },
+
+  async create(
+    db: D1Database,
+    data: {
+      id?: string;
+      userId: string;
+      r2Key: string;
+      uploadId: string;
+      filename: string;
+      contentType: string;
+      sizeBytes: number;
+      durationSeconds?: number;
+      width?: number;
+      height?: number;
+    }
+  ): Promise<MediaRow> {
+    const id = data.id ?? generateId();
+    await db
+      .prepare(
+        `INSERT INTO media (id, user_id, r2_key, upload_id, filename, content_type, size_bytes, duration_seconds, width, height, created_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, datetime('now'))`
+      )
+      .bind(
+        id,
+        data.userId,
+        data.r2Key,
+        data.uploadId,
+        data.filename,
+        data.contentType,
+        data.sizeBytes,
+        data.durationSeconds ?? null,
+        data.width ?? null,
+        data.height ?? null
+      )
+      .run();
+    return (await MediaModel.findById(db, id))!;
+  },
+
+  /** Mark an upload completed with the stored object's actual size */
+  async markReady(db: D1Database, id: string, sizeBytes: number): Promise<void> {
+    await db
+      .prepare(
+        "UPDATE media SET status = 'ready', size_bytes = ?, completed_at = datetime('now') WHERE id = ? AND status = 'uploading'"
+      )
+      .bind(sizeBytes, id)
+      .run();
+  },
+
+  async markAborted(db: D1Database, id: string): Promise<void> {
+    await db
+      .prepare("UPDATE media SET status = 'aborted', completed_at = datetime('now') WHERE id = ? AND status = 'uploading'")
+      .bind(id)
+      .run();
+  },
+
+  /** Uploads still open more than `olderThanSeconds` after they were created, oldest first */
+  async listStaleUploads(db: D1Database, olderThanSeconds: number, limit = 50): Promise<MediaRow[]> {
+    const result = await db
+      .prepare(
+        `SELECT * FROM media
+         WHERE status = 'uploading' AND julianday(created_at) < julianday('now', ?)
+         ORDER BY created_at ASC LIMIT ?`
+      )
+      .bind(`-${olderThanSeconds} seconds`, limit)
+      .all<MediaRow>();
+    return result.results;
+  },
+
+  async listByUserId(
+    db: D1Database,
+    userId: string,
+    opts: { limit?: number; offset?: number; status?: MediaStatus } = {}
+  ): Promise<{ results: MediaRow[]; total: number }> {
+    const limit = opts.limit ?? 50;
+    const offset = opts.offset ?? 0;
+    const status = opts.status ?? "ready";
+    const countResult = await db
+      .prepare("SELECT COUNT(*) as cnt FROM media WHERE user_id = ? AND status = ?")
+      .bind(userId, status)
+      .first<{ cnt: number }>();
+    const results = await db
+      .prepare("SELECT * FROM media WHERE user_id = ? AND status = ? ORDER BY created_at DESC LIMIT ? OFFSET ?")
+      .bind(userId, status, limit, offset)
+      .all<MediaRow>();
+    return { results: results.results, total: countResult?.cnt ?? 0 };
+  },
+};
@@ -0,0 +1,132 @@
+import { generateId } from "../utils/ulid";
+
+export type OAuthProvider = "google" | "meta";
+export type OAuthConnectionStatus = "active" | "expired";
+
+export interface OAuthConnectionRow {
+  id: string;
+  user_id: string;
+  provider: OAuthProvider;
+  external_account_id: string;
+  account_name: string | null;
+  scopes: string;
+  access_token_encrypted: string;
+  refresh_token_encrypted: string | null;
+  token_expires_at: string | null;
+  status: OAuthConnectionStatus;
+  last_error: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export const OAuthConnectionModel = {
+  async find(db: D1Database, userId: string, provider: OAuthProvider): Promise<OAuthConnectionRow | null> {
+    return db
+      .prepare("SELECT * FROM oauth_connection WHERE user_id = ? AND provider = ?")
+      .bind(userId, provider)
+      .first<OAuthConnectionRow>();
+  },
+
+  async listByUserId(db: D1Database, userId: string): Promise<OAuthConnectionRow[]> {
+    const result = await db
+      .prepare("SELECT * FROM oauth_connection WHERE user_id = ? ORDER BY provider ASC")
+      .bind(userId)
+      .all<OAuthConnectionRow>();
+    return result.results;
+  },
+
+  /** Connect an account, replacing any earlier connection to the same provider */
+  async upsert(
+    db: D1Database,
+    data: {
+      userId: string;
+      provider: OAuthProvider;
+      externalAccountId: string;
+      accountName: string | null;
+      scopes: string;
+      accessTokenEncrypted: string;
+      refreshTokenEncrypted: string | null;
+      tokenExpiresAt: string | null;
+    }
+  ): Promise<void> {
+    const now = new Date().toISOString();
+    await db
+      .prepare(
+        `INSERT INTO oauth_connection (id, user_id, provider, external_account_id, account_name, scopes, access_token_encrypted, refresh_token_encrypted, token_expires_at, created_at, updated_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+         ON CONFLICT (user_id, provider) DO UPDATE SET
+           external_account_id = excluded.external_account_id,
+           account_name = excluded.account_name,
+           scopes = excluded.scopes,
+           access_token_encrypted = excluded.access_token_encrypted,
+           refresh_token_encrypted = COALESCE(excluded.refresh_token_encrypted, oauth_connection.refresh_token_encrypted),
+           token_expires_at = excluded.token_expires_at,
+           status = 'active',
+           last_error = NULL,
+           updated_at = excluded.updated_at`
+      )
+      .bind(
+        generateId(),
+        data.userId,
+        data.provider,
+        data.externalAccountId,
+        data.accountName,
+        data.scopes,
+        data.accessTokenEncrypted,
+        data.refreshTokenEncrypted,
+        data.tokenExpiresAt,
+        now,
+        now
+      )
+      .run();
+  },
+
+  /** Store a refreshed access token (and a rotated refresh token, if one was issued) */
+  async updateTokens(
+    db: D1Database,
+    id: string,
+    data: { accessTokenEncrypted: string; refreshTokenEncrypted?: string; tokenExpiresAt: string | null }
+  ): Promise<void> {
+    await db
+      .prepare(
+        `UPDATE oauth_connection SET access_token_encrypted = ?, refresh_token_encrypted = COALESCE(?, refresh_token_encrypted),
+           token_expires_at = ?, status = 'active', last_error = NULL, updated_at = ?
+         WHERE id = ?`
+      )
+      .bind(data.accessTokenEncrypted, data.refreshTokenEncrypted ?? null, data.tokenExpiresAt, new Date().toISOString(), id)
+      .run();
+  },
+
+  async markExpired(db: D1Database, id: string, error: string): Promise<void> {
+    await db
+      .prepare("UPDATE oauth_connection SET status = 'expired', last_error = ?, updated_at = ? WHERE id = ?")
+      .bind(error, new Date().toISOString(), id)
+      .run();
+  },
+
+  /** Active connections of a provider whose token expires before the given time */
+  async listExpiring(
+    db: D1Database,
+    provider: OAuthProvider,
+    before: string,
+    limit = 50
+  ): Promise<OAuthConnectionRow[]> {
+    const result = await db
+      .prepare(
+        `SELECT * FROM oauth_connection
+         WHERE provider = ? AND status = 'active' AND token_expires_at IS NOT NULL AND token_expires_at < ?
+         ORDER BY token_expires_at ASC LIMIT ?`
+      )
+      .bind(provider, before, limit)
+      .all<OAuthConnectionRow>();
+    return result.results;
+  },
+
+  async delete(db: D1Database, userId: string, provider: OAuthProvider): Promise<boolean> {
+    const result = await db
+      .prepare("DELETE FROM oauth_connection WHERE user_id = ? AND provider = ?")
+      .bind(userId, provider)
+      .run();
+    return result.meta.changes > 0;
+  },
+};
@@ -104,6 +104,15 @@ export const PaymentOrderModel = {
     await db.prepare(`UPDATE payment_order SET ${sets.join(", ")} WHERE id = ?`).bind(...values).run();
   },
 
+  /** Whether the user has ever completed a payment (the paid tier) */
+  async hasPaidOrder(db: D1Database, userId: string): Promise<boolean> {
+    const row = await db
+      .prepare("SELECT 1 as found FROM payment_order WHERE user_id = ? AND status = 'paid' LIMIT 1")
+      .bind(userId)
+      .first<{ found: number }>();
+    return row !== null;
+  },
+
   async listByUserId(
     db: D1Database,
     userId: string,
@@ -0,0 +1,277 @@
+import { generateId } from "../utils/ulid";
+import type { AgentRunStatus } from "../types";
+
+export type PipelineStatus = "active" | "archived";
+export type PipelineRunStatus = AgentRunStatus;
+
+export interface PipelineRow {
+  id: string;
+  user_id: string;
+  name: string;
+  description: string;
+  steps_json: string;
+  status: PipelineStatus;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface PipelineRunRow {
+  id: string;
+  pipeline_id: string;
+  user_id: string;
+  status: PipelineRunStatus;
+  steps_json: string;
+  params_json: string;
+  current_step: number;
+  credits_reserved: number;
+  reservation_start_step: number;
+  credits_actual: number;
+  error_message: string | null;
+  started_at: string | null;
+  completed_at: string | null;
+  created_at: string;
+}
+
+export interface PipelineRunStepRow {
+  pipeline_run_id: string;
+  step_index: number;
+  step_id: string;
+  agent_config_id: string;
+  status: PipelineRunStatus;
+  agent_run_id: string | null;
+  credits_actual: number | null;
+  error_message: string | null;
+  started_at: string | null;
+  completed_at: string | null;
+}
+
+export const PipelineModel = {
+  async findById(db: D1Database, id: string): Promise<PipelineRow | null> {
+    return db.prepare("SELECT * FROM pipeline WHERE id = ?").bind(id).first<PipelineRow>();
+  },
+
+  async create(
+    db: D1Database,
+    data: { userId: string; name: string; description?: string; stepsJson: string }
+  ): Promise<PipelineRow> {
+    const id = generateId();
+    const now = new Date().toISOString();
+    await db
+      .prepare(
+        `INSERT INTO pipeline (id, user_id, name, description, steps_json, created_at, updated_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?)`
+      )
+      .bind(id, data.userId, data.name, data.description ?? "", data.stepsJson, now, now)
+      .run();
+    return (await PipelineModel.findById(db, id))!;
+  },
+
+  async update(
+    db: D1Database,
+    id: string,
+    data: Partial<{ name: string; description: string; stepsJson: string; status: PipelineStatus }>
+  ): Promise<void> {
+    const sets: string[] = [];
+    const values: unknown[] = [];
+    if (data.name !== undefined) { sets.push("name = ?"); values.push(data.name); }
+    if (data.description !== undefined) { sets.push("description = ?"); values.push(data.description); }
+    if (data.stepsJson !== undefined) { sets.push("steps_json = ?"); values.push(data.stepsJson); }
+    if (data.status !== undefined) { sets.push("status = ?"); values.push(data.status); }
+    if (sets.length === 0) return;
+    sets.push("updated_at = datetime('now')");
+    values.push(id);
+    await db.prepare(`UPDATE pipeline SET ${sets.join(", ")} WHERE id = ?`).bind(...values).run();
+  },
+
+  async listByUserId(
+    db: D1Database,
+    userId: string,
+    opts: { limit?: number; offset?: number; status?: PipelineStatus } = {}
+  ): Promise<PipelineRow[]> {
+    const limit = opts.limit ?? 50;
+    const offset = opts.offset ?? 0;
+    let query = "SELECT * FROM pipeline WHERE user_id = ?";
+    const binds: unknown[] = [userId];
+    if (opts.status) {
+      query += " AND status = ?";
+      binds.push(opts.status);
+    }
+    query += " ORDER BY created_at DESC LIMIT ? OFFSET ?";
+    const result = await db.prepare(query).bind(...binds, limit, offset).all<PipelineRow>();
+    return result.results;
+  },
+};
+
+export const PipelineRunModel = {
+  async findById(db: D1Database, id: string): Promise<PipelineRunRow | null> {
+    return db.prepare("SELECT * FROM pipeline_run WHERE id = ?").bind(id).first<PipelineRunRow>();
+  },
+
+  /** Create the run (status=pending) with one pending row per step */
+  async create(
+    db: D1Database,
+    data: {
+      pipelineId: string;
+      userId: string;
+      stepsJson: string;
+      paramsJson: string;
+      steps: { stepId: string; agentConfigId: string }[];
+    }
+  ): Promise<PipelineRunRow> {
+    const id = generateId();
+    await db.batch([
+      db
+        .prepare(
+          `INSERT INTO pipeline_run (id, pipeline_id, user_id, steps_json, params_json, created_at)
+           VALUES (?, ?, ?, ?, ?, datetime('now'))`
+        )
+        .bind(id, data.pipelineId, data.userId, data.stepsJson, data.paramsJson),
+      ...data.steps.map((step, index) =>
+        db
+          .prepare(
+            `INSERT INTO pipeline_run_step (pipeline_run_id, step_index, step_id, agent_config_id)
+             VALUES (?, ?, ?, ?)`
+          )
+          .bind(id, index, step.stepId, step.agentConfigId)
+      ),
+    ]);
+    return (await PipelineRunModel.findById(db, id))!;
+  },
+
+  /**
+   * Move a run that isn't running to running, recording the reservation it
+   * holds for steps from `startStep` on. Returns false if it is already running.
+   */
+  async markReserved(db: D1Database, id: string, creditsReserved: number, startStep: number): Promise<boolean> {
+    const result = await db
+      .prepare(
+        `UPDATE pipeline_run SET status = 'running', credits_reserved = ?, reservation_start_step = ?,
+           current_step = ?, error_message = NULL, completed_at = NULL,
+           started_at = COALESCE(started_at, datetime('now'))
+         WHERE id = ? AND status != 'running'`
+      )
+      .bind(creditsReserved, startStep, startStep, id)
+      .run();
+    return result.meta.changes > 0;
+  },
+
+  async setParams(db: D1Database, id: string, paramsJson: string): Promise<void> {
+    await db.prepare("UPDATE pipeline_run SET params_json = ? WHERE id = ?").bind(paramsJson, id).run();
+  },
+
+  async setCurrentStep(db: D1Database, id: string, stepIndex: number): Promise<void> {
+    await db.prepare("UPDATE pipeline_run SET current_step = ? WHERE id = ?").bind(stepIndex, id).run();
+  },
+
+  /**
+   * Move a running pipeline run to a final status, releasing its reservation.
+   * Returns false if it had already finished.
+   */
+  async finish(
+    db: D1Database,
+    id: string,
+    data: { status: PipelineRunStatus; creditsCharged: number; errorMessage?: string }
+  ): Promise<boolean> {
+    const result = await db
+      .prepare(
+        `UPDATE pipeline_run SET status = ?, credits_reserved = 0, credits_actual = credits_actual + ?,
+           error_message = ?, completed_at = datetime('now')
+         WHERE id = ? AND status = 'running'`
+      )
+      .bind(data.status, data.creditsCharged, data.errorMessage ?? null, id)
+      .run();
+    return result.meta.changes > 0;
+  },
+
+  async listByUserId(
+    db: D1Database,
+    userId: string,
+    opts: { limit?: number; offset?: number; pipelineId?: string } = {}
+  ): Promise<{ results: PipelineRunRow[]; total: number }> {
+    const limit = opts.limit ?? 50;
+    const offset = opts.offset ?? 0;
+    let where = "WHERE user_id = ?";
+    const binds: unknown[] = [userId];
+    if (opts.pipelineId) {
+      where += " AND pipeline_id = ?";
+      binds.push(opts.pipelineId);
+    }
+    const countResult = await db
+      .prepare(`SELECT COUNT(*) as cnt FROM pipeline_run ${where}`)
+      .bind(...binds)
+      .first<{ cnt: number }>();
+    const results = await db
+      .prepare(`SELECT * FROM pipeline_run ${where} ORDER BY created_at DESC LIMIT ? OFFSET ?`)
+      .bind(...binds, limit, offset)
+      .all<PipelineRunRow>();
+    return { results: results.results, total: countResult?.cnt ?? 0 };
+  },
+};
+
+export const PipelineRunStepModel = {
+  async listByRunId(db: D1Database, pipelineRunId: string): Promise<PipelineRunStepRow[]> {
+    const result = await db
+      .prepare("SELECT * FROM pipeline_run_step WHERE pipeline_run_id = ? ORDER BY step_index ASC")
+      .bind(pipelineRunId)
+      .all<PipelineRunStepRow>();
+    return result.results;
+  },
+
+  async findByIndex(db: D1Database, pipelineRunId: string, stepIndex: number): Promise<PipelineRunStepRow | null> {
+    return db
+      .prepare("SELECT * FROM pipeline_run_step WHERE pipeline_run_id = ? AND step_index = ?")
+      .bind(pipelineRunId, stepIndex)
+      .first<PipelineRunStepRow>();
+  },
+
+  async markRunning(db: D1Database, pipelineRunId: string, stepIndex: number, agentRunId: string): Promise<void> {
+    await db
+      .prepare(
+        `UPDATE pipeline_run_step SET status = 'running', agent_run_id = ?, credits_actual = NULL, error_message = NULL,
+           started_at = datetime('now'), completed_at = NULL
+         WHERE pipeline_run_id = ? AND step_index = ?`
+      )
+      .bind(agentRunId, pipelineRunId, stepIndex)
+      .run();
+  },
+
+  /** Record a running step's outcome. Returns false if it was already recorded. */
+  async finish(
+    db: D1Database,
+    pipelineRunId: string,
+    stepIndex: number,
+    data: { status: PipelineRunStatus; creditsActual: number; errorMessage?: string }
+  ): Promise<boolean> {
+    const result = await db
+      .prepare(
+        `UPDATE pipeline_run_step SET status = ?, credits_actual = ?, error_message = ?, completed_at = datetime('now')
+         WHERE pipeline_run_id = ? AND step_index = ? AND status = 'running'`
+      )
+      .bind(data.status, data.creditsActual, data.errorMessage ?? null, pipelineRunId, stepIndex)
+      .run();
+    return result.meta.changes > 0;
+  },
+
+  /** Put steps from `fromIndex` on back to pending for a resume */
+  async resetFrom(db: D1Database, pipelineRunId: string, fromIndex: number): Promise<void> {
+    await db
+      .prepare(
+        `UPDATE pipeline_run_step SET status = 'pending', error_message = NULL, completed_at = NULL
+         WHERE pipeline_run_id = ? AND step_index >= ?`
+      )
+      .bind(pipelineRunId, fromIndex)
+      .run();
+  },
+
+  /** Credits charged to steps from `fromIndex` on, i.e. those under the current reservation */
+  async sumCreditsFrom(db: D1Database, pipelineRunId: string, fromIndex: number): Promise<number> {
+    const row = await db
+      .prepare(
+        `SELECT COALESCE(SUM(credits_actual), 0) as total FROM pipeline_run_step
+         WHERE pipeline_run_id = ? AND step_index >= ?`
+      )
+      .bind(pipelineRunId, fromIndex)
+      .first<{ total: number }>();
+    return row?.total ?? 0;
+  },
+};
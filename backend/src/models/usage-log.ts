@@ -8,6 +8,9 @@ export interface UsageLogRow {
   resource_detail: string;
   quantity: number;
   credit_cost: number;
+  cached: number;
+  fallback_from: string | null;
+  fallback_reason: string | null;
   created_at: string;
 }
 
@@ -50,6 +53,18 @@ export const UsageLogModel = {
     return result.results;
   },
 
+  /** Total credit cost logged for a run at or after `since` */
+  async sumCostSince(db: D1Database, agentRunId: string, since: string): Promise<number> {
+    const row = await db
+      .prepare(
+        `SELECT COALESCE(SUM(credit_cost), 0) as total FROM usage_log
+         WHERE agent_run_id = ? AND julianday(created_at) >= julianday(?)`
+      )
+      .bind(agentRunId, since)
+      .first<{ total: number }>();
+    return row?.total ?? 0;
+  },
+
   async listByUserId(
     db: D1Database,
     userId: string,
@@ -3,6 +3,7 @@ import type { Env, AuthUser } from "../types";
 import { UserModel } from "../models/user";
 import { PaymentOrderModel } from "../models/payment-order";
 import { CreditBalanceModel } from "../models/credit-balance";
+import { LlmCacheStatModel } from "../models/llm-cache-stat";
 import { grantCredits } from "../services/credit";
 import { AppError } from "../middleware/error-handler";
 
@@ -195,4 +196,36 @@ admin.post("/credits/grant", async (c) => {
   });
 });
 
+// Share of cacheable LLM calls AI Gateway should answer from its cache
+const LLM_CACHE_HIT_RATE_TARGET = 0.3;
+
+// GET /admin/llm-cache - AI Gateway cache hit rate per agent over the last N days
+admin.get("/llm-cache", async (c) => {
+  const url = new URL(c.req.url);
+  const days = Math.min(Math.max(parseInt(url.searchParams.get("days") ?? "7", 10) || 7, 1), 90);
+  const since = new Date(Date.now() - (days - 1) * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+
+  const rows = await LlmCacheStatModel.summarizeSince(c.env.DB, since);
+  const hitRate = (hits: number, cacheable: number) => (cacheable > 0 ? hits / cacheable : null);
+  const total = rows.reduce(
+    (sum, row) => ({
+      requests: sum.requests + row.requests,
+      cacheableRequests: sum.cacheableRequests + row.cacheableRequests,
+      cacheHits: sum.cacheHits + row.cacheHits,
+    }),
+    { requests: 0, cacheableRequests: 0, cacheHits: 0 }
+  );
+
+  return c.json({
+    success: true,
+    data: {
+      since,
+      days,
+      target: LLM_CACHE_HIT_RATE_TARGET,
+      agents: rows.map((row) => ({ ...row, hitRate: hitRate(row.cacheHits, row.cacheableRequests) })),
+      total: { ...total, hitRate: hitRate(total.cacheHits, total.cacheableRequests) },
+    },
+  });
+});
+
 export { admin };
@@ -1,29 +1,84 @@
 import { Hono } from "hono";
-import type { Env, AuthUser, AgentConfigStatus, AgentRunStatus } from "../types";
+import { streamSSE } from "hono/streaming";
+import type { Env, AuthUser, AgentConfigStatus, AgentRunDisplayStatus } from "../types";
 import { AgentConfigModel } from "../models/agent-config";
-import { AgentRunModel } from "../models/agent-run";
+import { AgentRunModel, toDisplayStatus, type AgentRunRow } from "../models/agent-run";
 import { UsageLogModel } from "../models/usage-log";
-import { AGENT_TEMPLATES, startAgentRun, cancelAgentRun } from "../services/agent";
+import { AgentRunEventModel } from "../models/agent-run-event";
+import { AgentScheduleModel, type AgentScheduleRow } from "../models/agent-schedule";
+import {
+  listAgentTemplates,
+  getAgentTemplate,
+  validateAgentConfig,
+  startAgentRun,
+  forkAgentRun,
+  approveAgentRun,
+  rejectAgentRun,
+  cancelAgentRun,
+} from "../services/agent";
+import { compareRuns, MIN_COMPARE_RUNS, MAX_COMPARE_RUNS } from "../services/run-compare";
+import { exportFormatsFor, exportRunOutput, isExportFormat, EXPORT_FORMATS } from "../services/run-export";
+import { streamRunEvents, toRunEvent } from "../services/run-events";
+import {
+  createAgentSchedule,
+  updateAgentSchedule,
+  findOwnedConfig,
+  findOwnedSchedule,
+  type AgentScheduleInput,
+} from "../services/schedule";
 import { AppError } from "../middleware/error-handler";
+import { idempotencyMiddleware } from "../middleware/idempotency";
 import { sanitizeString } from "../utils/validation";
+import { userR2Prefix } from "../agents/sandbox/config";
 
 const agents = new Hono<{ Bindings: Env; Variables: { user: AuthUser } }>();
 
+function toSchedule(schedule: AgentScheduleRow) {
+  return {
+    id: schedule.id,
+    agentConfigId: schedule.agent_config_id,
+    cronExpression: schedule.cron_expression,
+    timezone: schedule.timezone,
+    params: JSON.parse(schedule.params_json) as Record<string, unknown>,
+    enabled: schedule.enabled === 1,
+    nextRunAt: schedule.next_run_at,
+    lastRunAt: schedule.last_run_at,
+    lastRunId: schedule.last_run_id,
+    consecutiveFailures: schedule.consecutive_failures,
+    pausedReason: schedule.paused_reason,
+    createdAt: schedule.created_at,
+    updatedAt: schedule.updated_at,
+  };
+}
+
 // GET /agents/templates - List available agent templates
 agents.get("/templates", async (c) => {
   return c.json({
     success: true,
     data: {
-      templates: AGENT_TEMPLATES.map((t) => ({
-        id: t.id,
-        name: t.name,
-        nameKo: t.nameKo,
-        description: t.description,
-        descriptionKo: t.descriptionKo,
-        category: t.category,
-        estimatedCreditsPerRun: t.estimatedCreditsPerRun,
-        configSchema: t.configSchema,
+      templates: listAgentTemplates(),
+    },
+  });
+});
+
+// GET /agents/files - List the user's R2 objects (for r2-key params such as videoR2Key)
+agents.get("/files", async (c) => {
+  const user = c.get("user");
+  const url = new URL(c.req.url);
+  const limit = Math.min(parseInt(url.searchParams.get("limit") ?? "100", 10), 1000);
+  const cursor = url.searchParams.get("cursor") ?? undefined;
+
+  const listing = await c.env.STORAGE.list({ prefix: userR2Prefix(user.userId), limit, cursor });
+
+  return c.json({
+    success: true,
+    data: {
+      files: listing.objects.map((obj) => ({
+        key: obj.key,
+        size: obj.size,
+        uploadedAt: obj.uploaded.toISOString(),
       })),
+      cursor: listing.truncated ? listing.cursor : null,
     },
   });
 });
@@ -43,10 +98,11 @@ agents.post("/configs", async (c) => {
   }
 
   // Validate template exists
-  const template = AGENT_TEMPLATES.find((t) => t.id === body.agentTemplateId);
+  const template = getAgentTemplate(body.agentTemplateId);
   if (!template) {
     throw new AppError(400, "INVALID_TEMPLATE", "Agent template not found");
   }
+  validateAgentConfig(template, body.configJson ?? {});
 
   const config = await AgentConfigModel.create(c.env.DB, {
     userId: user.userId,
@@ -118,7 +174,7 @@ agents.get("/configs/:id", async (c) => {
     throw new AppError(403, "FORBIDDEN", "Agent configuration does not belong to this user");
   }
 
-  const template = AGENT_TEMPLATES.find((t) => t.id === config.agent_template_id);
+  const template = getAgentTemplate(config.agent_template_id);
 
   return c.json({
     success: true,
@@ -127,6 +183,8 @@ agents.get("/configs/:id", async (c) => {
         id: config.id,
         agentTemplateId: config.agent_template_id,
         templateName: template?.nameKo ?? config.agent_template_id,
+        paramsSchema: template?.paramsSchema ?? null,
+        configSchema: template?.configSchema ?? null,
         name: config.name,
         description: config.description,
         configJson: JSON.parse(config.config_json),
@@ -159,6 +217,11 @@ agents.put("/configs/:id", async (c) => {
     status?: AgentConfigStatus;
   }>();
 
+  const template = getAgentTemplate(config.agent_template_id);
+  if (body.configJson && template) {
+    validateAgentConfig(template, body.configJson);
+  }
+
   await AgentConfigModel.update(c.env.DB, configId, {
     name: body.name ? sanitizeString(body.name, 100) : undefined,
     description: body.description !== undefined ? sanitizeString(body.description, 500) : undefined,
@@ -201,8 +264,72 @@ agents.delete("/configs/:id", async (c) => {
   return c.json({ success: true, data: { message: "Agent configuration archived" } });
 });
 
-// POST /agents/runs - Start an agent run
-agents.post("/runs", async (c) => {
+// GET /agents/configs/:id/schedules - List a config's schedules
+agents.get("/configs/:id/schedules", async (c) => {
+  const user = c.get("user");
+  const config = await findOwnedConfig(c.env.DB, user.userId, c.req.param("id"));
+  const schedules = await AgentScheduleModel.listByConfigId(c.env.DB, config.id);
+
+  return c.json({
+    success: true,
+    data: { schedules: schedules.map(toSchedule) },
+  });
+});
+
+// POST /agents/configs/:id/schedules - Create a schedule
+agents.post("/configs/:id/schedules", async (c) => {
+  const user = c.get("user");
+  const body = await c.req.json<AgentScheduleInput>();
+
+  const schedule = await createAgentSchedule(c.env.DB, user.userId, c.req.param("id"), body);
+
+  return c.json({
+    success: true,
+    data: { schedule: toSchedule(schedule) },
+  }, 201);
+});
+
+// GET /agents/configs/:id/schedules/:scheduleId - Get a schedule
+agents.get("/configs/:id/schedules/:scheduleId", async (c) => {
+  const user = c.get("user");
+  const schedule = await findOwnedSchedule(c.env.DB, user.userId, c.req.param("id"), c.req.param("scheduleId"));
+
+  return c.json({
+    success: true,
+    data: { schedule: toSchedule(schedule) },
+  });
+});
+
+// PUT /agents/configs/:id/schedules/:scheduleId - Update a schedule; enabling resumes a paused one
+agents.put("/configs/:id/schedules/:scheduleId", async (c) => {
+  const user = c.get("user");
+  const body = await c.req.json<AgentScheduleInput>();
+
+  const schedule = await updateAgentSchedule(
+    c.env.DB,
+    user.userId,
+    c.req.param("id"),
+    c.req.param("scheduleId"),
+    body
+  );
+
+  return c.json({
+    success: true,
+    data: { schedule: toSchedule(schedule) },
+  });
+});
+
+// DELETE /agents/configs/:id/schedules/:scheduleId - Delete a schedule
+agents.delete("/configs/:id/schedules/:scheduleId", async (c) => {
+  const user = c.get("user");
+  const schedule = await findOwnedSchedule(c.env.DB, user.userId, c.req.param("id"), c.req.param("scheduleId"));
+
+  await AgentScheduleModel.delete(c.env.DB, schedule.id);
+  return c.json({ success: true, data: { message: "Schedule deleted" } });
+});
+
+// POST /agents/runs - Start an agent run (honours Idempotency-Key)
+agents.post("/runs", idempotencyMiddleware(), async (c) => {
   const user = c.get("user");
   const body = await c.req.json<{
     agentConfigId: string;
@@ -215,6 +342,7 @@ agents.post("/runs", async (c) => {
 
   const result = await startAgentRun(
     c.env,
+    c.executionCtx,
     user.userId,
     body.agentConfigId,
     JSON.stringify(body.input ?? {})
@@ -225,7 +353,34 @@ agents.post("/runs", async (c) => {
     data: {
       runId: result.runId,
       creditsReserved: result.creditsReserved,
-      status: "running",
+      status: "pending",
+    },
+  }, 201);
+});
+
+// POST /agents/runs/:id/fork - Re-run an earlier run, or fork it with edited input (honours Idempotency-Key)
+agents.post("/runs/:id/fork", idempotencyMiddleware(), async (c) => {
+  const user = c.get("user");
+  const body = await c.req
+    .json<{ input?: Record<string, unknown> }>()
+    .catch(() => ({} as { input?: Record<string, unknown> }));
+
+  const parentRunId = c.req.param("id");
+  const result = await forkAgentRun(
+    c.env,
+    c.executionCtx,
+    user.userId,
+    parentRunId,
+    body.input !== undefined ? JSON.stringify(body.input) : undefined
+  );
+
+  return c.json({
+    success: true,
+    data: {
+      runId: result.runId,
+      creditsReserved: result.creditsReserved,
+      parentRunId,
+      status: "pending",
     },
   }, 201);
 });
@@ -236,7 +391,7 @@ agents.get("/runs", async (c) => {
   const url = new URL(c.req.url);
   const limit = Math.min(parseInt(url.searchParams.get("limit") ?? "50", 10), 100);
   const offset = Math.max(parseInt(url.searchParams.get("offset") ?? "0", 10), 0);
-  const status = url.searchParams.get("status") as AgentRunStatus | null;
+  const status = url.searchParams.get("status") as AgentRunDisplayStatus | null;
 
   const result = await AgentRunModel.listByUserId(c.env.DB, user.userId, {
     limit,
@@ -250,12 +405,14 @@ agents.get("/runs", async (c) => {
       runs: result.results.map((run) => ({
         id: run.id,
         agentConfigId: run.agent_config_id,
-        status: run.status,
+        status: toDisplayStatus(run),
         creditsReserved: run.credits_reserved,
         creditsActual: run.credits_actual,
         durationMs: run.duration_ms,
         startedAt: run.started_at,
         completedAt: run.completed_at,
+        deadLetteredAt: run.dead_lettered_at,
+        parentRunId: run.parent_run_id,
         createdAt: run.created_at,
       })),
       total: result.total,
@@ -265,6 +422,37 @@ agents.get("/runs", async (c) => {
   });
 });
 
+// GET /agents/runs/compare?ids=a,b - Structured diff of runs' inputs and outputs
+agents.get("/runs/compare", async (c) => {
+  const user = c.get("user");
+  const ids = [...new Set((c.req.query("ids") ?? "").split(",").map((id) => id.trim()).filter(Boolean))];
+
+  if (ids.length < MIN_COMPARE_RUNS || ids.length > MAX_COMPARE_RUNS) {
+    throw new AppError(
+      400,
+      "BAD_REQUEST",
+      `ids must list ${MIN_COMPARE_RUNS}-${MAX_COMPARE_RUNS} distinct run ids`
+    );
+  }
+
+  const runs: AgentRunRow[] = [];
+  for (const id of ids) {
+    const run = await AgentRunModel.findById(c.env.DB, id);
+    if (!run) {
+      throw new AppError(404, "RUN_NOT_FOUND", `Agent run ${id} not found`);
+    }
+    if (run.user_id !== user.userId) {
+      throw new AppError(403, "FORBIDDEN", "Agent run does not belong to this user");
+    }
+    runs.push(run);
+  }
+
+  return c.json({
+    success: true,
+    data: compareRuns(runs),
+  });
+});
+
 // GET /agents/runs/:id - Get agent run detail with usage logs
 agents.get("/runs/:id", async (c) => {
   const user = c.get("user");
@@ -278,7 +466,11 @@ agents.get("/runs/:id", async (c) => {
     throw new AppError(403, "FORBIDDEN", "Agent run does not belong to this user");
   }
 
-  const usageLogs = await UsageLogModel.listByRunId(c.env.DB, runId);
+  const [usageLogs, children, config] = await Promise.all([
+    UsageLogModel.listByRunId(c.env.DB, runId),
+    AgentRunModel.listByParentId(c.env.DB, runId),
+    AgentConfigModel.findById(c.env.DB, run.agent_config_id),
+  ]);
 
   return c.json({
     success: true,
@@ -286,7 +478,7 @@ agents.get("/runs/:id", async (c) => {
       run: {
         id: run.id,
         agentConfigId: run.agent_config_id,
-        status: run.status,
+        status: toDisplayStatus(run),
         creditsReserved: run.credits_reserved,
         creditsActual: run.credits_actual,
         inputJson: JSON.parse(run.input_json),
@@ -295,30 +487,142 @@ agents.get("/runs/:id", async (c) => {
         durationMs: run.duration_ms,
         startedAt: run.started_at,
         completedAt: run.completed_at,
+        cancelRequestedAt: run.cancel_requested_at,
+        attempts: run.attempts,
+        deadLetteredAt: run.dead_lettered_at,
+        pipelineRunId: run.pipeline_run_id,
+        scheduleId: run.schedule_id,
+        parentRunId: run.parent_run_id,
+        approval: run.approval_status
+          ? {
+              status: run.approval_status,
+              preview: run.approval_preview_json ? JSON.parse(run.approval_preview_json) : null,
+              expiresAt: run.approval_expires_at,
+              decidedAt: run.approval_decided_at,
+            }
+          : null,
+        exportFormats: run.output_json ? exportFormatsFor(config?.agent_template_id ?? null) : [],
         createdAt: run.created_at,
       },
+      children: children.map((child) => ({
+        id: child.id,
+        status: toDisplayStatus(child),
+        creditsActual: child.credits_actual,
+        createdAt: child.created_at,
+      })),
       usageLogs: usageLogs.map((log) => ({
         id: log.id,
         resourceType: log.resource_type,
         resourceDetail: log.resource_detail,
         quantity: log.quantity,
         creditCost: log.credit_cost,
+        cached: log.cached === 1,
+        fallbackFrom: log.fallback_from,
+        fallbackReason: log.fallback_reason,
         createdAt: log.created_at,
       })),
     },
   });
 });
 
+// GET /agents/runs/:id/events - Stream run progress as SSE, or the stored log with ?format=json
+// Reconnects resume after the Last-Event-ID header (or ?lastEventId=) and replay missed events.
+agents.get("/runs/:id/events", async (c) => {
+  const user = c.get("user");
+  const runId = c.req.param("id");
+  const run = await AgentRunModel.findById(c.env.DB, runId);
+
+  if (!run) {
+    throw new AppError(404, "RUN_NOT_FOUND", "Agent run not found");
+  }
+  if (run.user_id !== user.userId) {
+    throw new AppError(403, "FORBIDDEN", "Agent run does not belong to this user");
+  }
+
+  if (c.req.query("format") === "json") {
+    const events = await AgentRunEventModel.listByRunId(c.env.DB, runId);
+    return c.json({
+      success: true,
+      data: { runId, status: toDisplayStatus(run), events: events.map(toRunEvent) },
+    });
+  }
+
+  const lastEventId = parseInt(c.req.header("Last-Event-ID") ?? c.req.query("lastEventId") ?? "0", 10);
+  const afterSeq = Number.isFinite(lastEventId) && lastEventId > 0 ? lastEventId : 0;
+
+  return streamSSE(c, (stream) => streamRunEvents(c.env.DB, runId, afterSeq, stream));
+});
+
+// GET /agents/runs/:id/export?format=srt|vtt|md|csv|json - Download the run output as a file
+agents.get("/runs/:id/export", async (c) => {
+  const user = c.get("user");
+  const runId = c.req.param("id");
+  const format = c.req.query("format") ?? "json";
+
+  if (!isExportFormat(format)) {
+    throw new AppError(400, "BAD_REQUEST", `format must be one of ${EXPORT_FORMATS.join(", ")}`);
+  }
+
+  const run = await AgentRunModel.findById(c.env.DB, runId);
+  if (!run) {
+    throw new AppError(404, "RUN_NOT_FOUND", "Agent run not found");
+  }
+  if (run.user_id !== user.userId) {
+    throw new AppError(403, "FORBIDDEN", "Agent run does not belong to this user");
+  }
+
+  const config = await AgentConfigModel.findById(c.env.DB, run.agent_config_id);
+  const file = exportRunOutput(config?.agent_template_id ?? null, run, format);
+
+  return c.body(file.body, 200, {
+    "Content-Type": file.contentType,
+    "Content-Disposition": `attachment; filename="${file.filename}"`,
+  });
+});
+
+// POST /agents/runs/:id/approve - Approve a run awaiting approval; it resumes and publishes
+agents.post("/runs/:id/approve", async (c) => {
+  const user = c.get("user");
+  const runId = c.req.param("id");
+
+  await approveAgentRun(c.env, c.executionCtx, user.userId, runId);
+
+  return c.json({
+    success: true,
+    data: { runId, status: "pending" },
+  });
+});
+
+// POST /agents/runs/:id/reject - Reject a run awaiting approval; it is cancelled without publishing
+agents.post("/runs/:id/reject", async (c) => {
+  const user = c.get("user");
+  const runId = c.req.param("id");
+  const body = await c.req
+    .json<{ reason?: string }>()
+    .catch(() => ({} as { reason?: string }));
+
+  if (body.reason !== undefined && typeof body.reason !== "string") {
+    throw new AppError(400, "BAD_REQUEST", "reason must be a string");
+  }
+
+  await rejectAgentRun(c.env, c.executionCtx, user.userId, runId, body.reason ? sanitizeString(body.reason, 500) || undefined : undefined);
+
+  return c.json({
+    success: true,
+    data: { runId, status: "cancelled" },
+  });
+});
+
 // POST /agents/runs/:id/cancel - Cancel an agent run
 agents.post("/runs/:id/cancel", async (c) => {
   const user = c.get("user");
   const runId = c.req.param("id");
 
-  await cancelAgentRun(c.env, user.userId, runId);
+  await cancelAgentRun(c.env, c.executionCtx, user.userId, runId);
 
   return c.json({
     success: true,
-    data: { message: "Agent run cancelled", runId },
+    data: { message: "Agent run cancellation requested", runId },
   });
 });
 
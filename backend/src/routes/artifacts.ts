@@ -0,0 +1,109 @@
+import { Hono } from "hono";
+import type { Env, AuthUser } from "../types";
+import { ArtifactModel, type ArtifactRow } from "../models/artifact";
+import {
+  createSignedUrl,
+  deleteArtifact,
+  findOwnedArtifact,
+  getStorageUsage,
+  objectResponse,
+  DEFAULT_SIGNED_URL_TTL_SECONDS,
+  MAX_SIGNED_URL_TTL_SECONDS,
+} from "../services/artifact";
+import { AppError } from "../middleware/error-handler";
+
+const artifacts = new Hono<{ Bindings: Env; Variables: { user: AuthUser } }>();
+
+function toArtifact(artifact: ArtifactRow) {
+  return {
+    id: artifact.id,
+    key: artifact.r2_key,
+    agentRunId: artifact.agent_run_id,
+    contentType: artifact.content_type,
+    sizeBytes: artifact.size_bytes,
+    createdAt: artifact.created_at,
+  };
+}
+
+// GET /artifacts - List the user's artifacts (newest first) with storage usage
+artifacts.get("/", async (c) => {
+  const user = c.get("user");
+  const url = new URL(c.req.url);
+  const limit = Math.min(parseInt(url.searchParams.get("limit") ?? "50", 10), 100);
+  const offset = Math.max(parseInt(url.searchParams.get("offset") ?? "0", 10), 0);
+  const runId = url.searchParams.get("runId") ?? undefined;
+
+  const [result, storage] = await Promise.all([
+    ArtifactModel.listByUserId(c.env.DB, user.userId, { limit, offset, agentRunId: runId }),
+    getStorageUsage(c.env, user.userId),
+  ]);
+
+  return c.json({
+    success: true,
+    data: {
+      artifacts: result.results.map(toArtifact),
+      total: result.total,
+      storage,
+    },
+  });
+});
+
+// GET /artifacts/usage - Bytes stored against the user's storage quota
+artifacts.get("/usage", async (c) => {
+  const user = c.get("user");
+
+  return c.json({
+    success: true,
+    data: await getStorageUsage(c.env, user.userId),
+  });
+});
+
+// GET /artifacts/:id/download - Download an artifact's object
+artifacts.get("/:id/download", async (c) => {
+  const user = c.get("user");
+  const artifact = await findOwnedArtifact(c.env.DB, user.userId, c.req.param("id"));
+
+  const object = await c.env.STORAGE.get(artifact.r2_key);
+  if (!object) {
+    throw new AppError(404, "ARTIFACT_NOT_FOUND", "Artifact object is missing from storage");
+  }
+
+  return objectResponse(object, { attachment: true });
+});
+
+// POST /artifacts/:id/signed-url - Time-limited URL that needs no auth header
+artifacts.post("/:id/signed-url", async (c) => {
+  const user = c.get("user");
+  const body = await c.req.json<{ expiresInSeconds?: number }>().catch(() => ({} as { expiresInSeconds?: number }));
+  const expiresInSeconds = body.expiresInSeconds ?? DEFAULT_SIGNED_URL_TTL_SECONDS;
+
+  if (!Number.isInteger(expiresInSeconds) || expiresInSeconds < 1 || expiresInSeconds > MAX_SIGNED_URL_TTL_SECONDS) {
+    throw new AppError(
+      400,
+      "BAD_REQUEST",
+      `expiresInSeconds must be an integer between 1 and ${MAX_SIGNED_URL_TTL_SECONDS}`
+    );
+  }
+
+  const artifact = await findOwnedArtifact(c.env.DB, user.userId, c.req.param("id"));
+
+  return c.json({
+    success: true,
+    data: await createSignedUrl(c.env, artifact.r2_key, expiresInSeconds),
+  });
+});
+
+// DELETE /artifacts/:id - Delete an artifact and its object, freeing quota
+artifacts.delete("/:id", async (c) => {
+  const user = c.get("user");
+  const artifactId = c.req.param("id");
+
+  await deleteArtifact(c.env, user.userId, artifactId);
+
+  return c.json({
+    success: true,
+    data: { artifactId, deleted: true },
+  });
+});
+
+export { artifacts };
@@ -0,0 +1,103 @@
+import { Hono } from "hono";
+import type { Env, AuthUser } from "../types";
+import { authMiddleware } from "../middleware/auth";
+import { AppError } from "../middleware/error-handler";
+import { OAuthConnectionModel, type OAuthConnectionRow, type OAuthProvider } from "../models/oauth-connection";
+import {
+  OAUTH_PROVIDERS,
+  isOAuthProvider,
+  isProviderConfigured,
+  getAuthorizationUrl,
+  completeAuthorization,
+  disconnectAccount,
+} from "../services/connections";
+
+const connections = new Hono<{ Bindings: Env; Variables: { user: AuthUser } }>();
+
+// Tokens never leave the backend
+function toConnection(row: OAuthConnectionRow) {
+  return {
+    provider: row.provider,
+    accountId: row.external_account_id,
+    accountName: row.account_name,
+    scopes: row.scopes.split(/[\s,]+/).filter(Boolean),
+    status: row.status,
+    lastError: row.last_error,
+    tokenExpiresAt: row.token_expires_at,
+    connectedAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+function parseProvider(value: string): OAuthProvider {
+  if (!isOAuthProvider(value)) {
+    throw new AppError(404, "PROVIDER_NOT_FOUND", `Unknown provider: ${value}`);
+  }
+  return value;
+}
+
+/** Back to the settings page, which shows the outcome from the query string */
+function settingsUrl(env: Env, params: Record<string, string>): string {
+  const query = new URLSearchParams({ tab: "connections", ...params });
+  return `${env.APP_URL.replace(/\/+$/, "")}/dashboard/settings?${query.toString()}`;
+}
+
+// GET /connections - List the user's connected accounts and which providers are available
+connections.get("/", authMiddleware(), async (c) => {
+  const user = c.get("user");
+  const rows = await OAuthConnectionModel.listByUserId(c.env.DB, user.userId);
+
+  return c.json({
+    success: true,
+    data: {
+      connections: rows.map(toConnection),
+      providers: OAUTH_PROVIDERS.map((provider) => ({
+        provider,
+        configured: isProviderConfigured(c.env, provider),
+      })),
+    },
+  });
+});
+
+// POST /connections/:provider/authorize - Get the provider's consent URL to redirect to
+connections.post("/:provider/authorize", authMiddleware(), async (c) => {
+  const user = c.get("user");
+  const provider = parseProvider(c.req.param("provider"));
+
+  const url = await getAuthorizationUrl(c.env, user.userId, provider);
+
+  return c.json({ success: true, data: { url } });
+});
+
+// GET /connections/:provider/callback - Handle the provider's OAuth redirect
+// Public: the signed state identifies the user. Always redirects to settings.
+connections.get("/:provider/callback", async (c) => {
+  const provider = parseProvider(c.req.param("provider"));
+  const code = c.req.query("code");
+  const error = c.req.query("error");
+
+  if (error || !code) {
+    return c.redirect(settingsUrl(c.env, { error: error === "access_denied" ? "ACCESS_DENIED" : "OAUTH_ERROR" }));
+  }
+
+  try {
+    await completeAuthorization(c.env, provider, code, c.req.query("state"));
+  } catch (err) {
+    console.error(`Failed to connect ${provider} account:`, err);
+    return c.redirect(settingsUrl(c.env, { error: err instanceof AppError ? err.code : "CONNECTION_FAILED" }));
+  }
+
+  return c.redirect(settingsUrl(c.env, { connected: provider }));
+});
+
+// DELETE /connections/:provider - Disconnect an account and revoke its tokens
+connections.delete("/:provider", authMiddleware(), async (c) => {
+  const user = c.get("user");
+  const provider = parseProvider(c.req.param("provider"));
+
+  await disconnectAccount(c.env, user.userId, provider);
+
+  return c.json({ success: true, data: { provider } });
+});
+
+export { connections };
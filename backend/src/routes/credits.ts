@@ -7,6 +7,7 @@ import { PaymentOrderModel } from "../models/payment-order";
 import { CreditTransactionModel } from "../models/credit-transaction";
 import { CreditBalanceModel } from "../models/credit-balance";
 import { AppError } from "../middleware/error-handler";
+import { idempotencyMiddleware } from "../middleware/idempotency";
 import { isValidPackageCode } from "../utils/validation";
 
 const credits = new Hono<{ Bindings: Env; Variables: { user: AuthUser } }>();
@@ -26,8 +27,8 @@ credits.get("/packages", async (c) => {
   });
 });
 
-// POST /credits/prepare - Create a payment order before calling PortOne SDK
-credits.post("/prepare", async (c) => {
+// POST /credits/prepare - Create a payment order before calling PortOne SDK (honours Idempotency-Key)
+credits.post("/prepare", idempotencyMiddleware(), async (c) => {
   const user = c.get("user");
   const body = await c.req.json<{ packageCode: string }>();
 
@@ -0,0 +1,26 @@
+import { Hono } from "hono";
+import type { Env } from "../types";
+import { verifySignedUrl, objectResponse } from "../services/artifact";
+import { AppError } from "../middleware/error-handler";
+
+const files = new Hono<{ Bindings: Env }>();
+
+// GET /files/:key?expires=&signature= - Serve an R2 object through a signed URL
+// No auth header: the signature (services/artifact.ts) grants access until it expires.
+files.get("/:key{.+}", async (c) => {
+  const key = c.req.param("key");
+  const expires = c.req.query("expires");
+
+  if (!(await verifySignedUrl(c.env, key, expires, c.req.query("signature")))) {
+    throw new AppError(403, "INVALID_SIGNATURE", "Signed URL is invalid or has expired");
+  }
+
+  const object = await c.env.STORAGE.get(key);
+  if (!object) {
+    throw new AppError(404, "FILE_NOT_FOUND", "File not found");
+  }
+
+  return objectResponse(object, { maxAgeSeconds: parseInt(expires!, 10) - Math.floor(Date.now() / 1000) });
+});
+
+export { files };
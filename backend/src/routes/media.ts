@@ -0,0 +1,106 @@
+import { Hono } from "hono";
+import type { Env, AuthUser } from "../types";
+import { MediaModel, type MediaRow } from "../models/media";
+import {
+  createMediaUpload,
+  uploadMediaPart,
+  completeMediaUpload,
+  abortMediaUpload,
+  type MediaUploadInput,
+  type UploadedPart,
+} from "../services/media";
+
+const media = new Hono<{ Bindings: Env; Variables: { user: AuthUser } }>();
+
+function toMedia(row: MediaRow) {
+  return {
+    id: row.id,
+    key: row.r2_key,
+    filename: row.filename,
+    contentType: row.content_type,
+    sizeBytes: row.size_bytes,
+    durationSeconds: row.duration_seconds,
+    width: row.width,
+    height: row.height,
+    status: row.status,
+    createdAt: row.created_at,
+    completedAt: row.completed_at,
+  };
+}
+
+// GET /media - List the user's uploaded media (newest first)
+media.get("/", async (c) => {
+  const user = c.get("user");
+  const url = new URL(c.req.url);
+  const limit = Math.min(parseInt(url.searchParams.get("limit") ?? "50", 10), 100);
+  const offset = Math.max(parseInt(url.searchParams.get("offset") ?? "0", 10), 0);
+
+  const result = await MediaModel.listByUserId(c.env.DB, user.userId, { limit, offset });
+
+  return c.json({
+    success: true,
+    data: {
+      media: result.results.map(toMedia),
+      total: result.total,
+    },
+  });
+});
+
+// POST /media/uploads - Start a multipart upload
+// Body: { filename, contentType, sizeBytes, durationSeconds?, width?, height? }
+media.post("/uploads", async (c) => {
+  const user = c.get("user");
+  const body = await c.req.json<MediaUploadInput>();
+
+  const { media: row, partSizeBytes, maxBytes } = await createMediaUpload(c.env, user.userId, body);
+
+  return c.json({
+    success: true,
+    data: { media: toMedia(row), partSizeBytes, maxBytes },
+  }, 201);
+});
+
+// PUT /media/uploads/:id/parts/:partNumber - Upload one part (raw bytes)
+media.put("/uploads/:id/parts/:partNumber", async (c) => {
+  const user = c.get("user");
+  const part = await uploadMediaPart(
+    c.env,
+    user.userId,
+    c.req.param("id"),
+    parseInt(c.req.param("partNumber"), 10),
+    await c.req.arrayBuffer()
+  );
+
+  return c.json({
+    success: true,
+    data: part,
+  });
+});
+
+// POST /media/uploads/:id/complete - Assemble the parts into the final object
+media.post("/uploads/:id/complete", async (c) => {
+  const user = c.get("user");
+  const body = await c.req.json<{ parts?: UploadedPart[] }>();
+
+  const row = await completeMediaUpload(c.env, user.userId, c.req.param("id"), body.parts);
+
+  return c.json({
+    success: true,
+    data: { media: toMedia(row) },
+  });
+});
+
+// DELETE /media/uploads/:id - Abort an upload in progress
+media.delete("/uploads/:id", async (c) => {
+  const user = c.get("user");
+  const mediaId = c.req.param("id");
+
+  await abortMediaUpload(c.env, user.userId, mediaId);
+
+  return c.json({
+    success: true,
+    data: { mediaId, status: "aborted" },
+  });
+});
+
+export { media };
@@ -0,0 +1,252 @@
+import { Hono } from "hono";
+import type { Env, AuthUser } from "../types";
+import { AgentRunModel, toDisplayStatus } from "../models/agent-run";
+import {
+  PipelineModel,
+  PipelineRunModel,
+  PipelineRunStepModel,
+  type PipelineRow,
+  type PipelineRunRow,
+  type PipelineStatus,
+} from "../models/pipeline";
+import {
+  validatePipelineSteps,
+  estimatePipelineCredits,
+  startPipelineRun,
+  resumePipelineRun,
+  cancelPipelineRun,
+  findOwnedRun,
+  type PipelineStep,
+  type PipelineRunParams,
+} from "../services/pipeline";
+import { AppError } from "../middleware/error-handler";
+import { sanitizeString } from "../utils/validation";
+
+const pipelines = new Hono<{ Bindings: Env; Variables: { user: AuthUser } }>();
+
+function toPipeline(pipeline: PipelineRow) {
+  return {
+    id: pipeline.id,
+    name: pipeline.name,
+    description: pipeline.description,
+    steps: JSON.parse(pipeline.steps_json) as PipelineStep[],
+    status: pipeline.status,
+    createdAt: pipeline.created_at,
+    updatedAt: pipeline.updated_at,
+  };
+}
+
+function toPipelineRun(run: PipelineRunRow) {
+  return {
+    id: run.id,
+    pipelineId: run.pipeline_id,
+    status: run.status,
+    currentStep: run.current_step,
+    creditsReserved: run.credits_reserved,
+    creditsActual: run.credits_actual,
+    errorMessage: run.error_message,
+    startedAt: run.started_at,
+    completedAt: run.completed_at,
+    createdAt: run.created_at,
+  };
+}
+
+async function findOwnedPipeline(db: D1Database, userId: string, id: string): Promise<PipelineRow> {
+  const pipeline = await PipelineModel.findById(db, id);
+  if (!pipeline) {
+    throw new AppError(404, "PIPELINE_NOT_FOUND", "Pipeline not found");
+  }
+  if (pipeline.user_id !== userId) {
+    throw new AppError(403, "FORBIDDEN", "Pipeline does not belong to this user");
+  }
+  return pipeline;
+}
+
+// GET /pipelines/runs - List user's pipeline runs
+pipelines.get("/runs", async (c) => {
+  const user = c.get("user");
+  const url = new URL(c.req.url);
+  const limit = Math.min(parseInt(url.searchParams.get("limit") ?? "50", 10), 100);
+  const offset = Math.max(parseInt(url.searchParams.get("offset") ?? "0", 10), 0);
+  const pipelineId = url.searchParams.get("pipelineId") ?? undefined;
+
+  const result = await PipelineRunModel.listByUserId(c.env.DB, user.userId, { limit, offset, pipelineId });
+
+  return c.json({
+    success: true,
+    data: {
+      runs: result.results.map(toPipelineRun),
+      total: result.total,
+      limit,
+      offset,
+    },
+  });
+});
+
+// GET /pipelines/runs/:id - Pipeline run with per-step status
+pipelines.get("/runs/:id", async (c) => {
+  const user = c.get("user");
+  const run = await findOwnedRun(c.env.DB, user.userId, c.req.param("id"));
+  const stepRows = await PipelineRunStepModel.listByRunId(c.env.DB, run.id);
+  const steps = JSON.parse(run.steps_json) as PipelineStep[];
+
+  const stepResults = await Promise.all(
+    stepRows.map(async (row) => {
+      const agentRun = row.agent_run_id ? await AgentRunModel.findById(c.env.DB, row.agent_run_id) : null;
+      const output = agentRun?.output_json ? (JSON.parse(agentRun.output_json) as { summary?: string }) : null;
+      return {
+        index: row.step_index,
+        id: row.step_id,
+        agentConfigId: row.agent_config_id,
+        mappings: steps[row.step_index]?.mappings ?? [],
+        status: row.status,
+        awaitingApproval: !!agentRun && toDisplayStatus(agentRun) === "awaiting_approval",
+        agentRunId: row.agent_run_id,
+        creditsActual: row.credits_actual,
+        errorMessage: row.error_message,
+        summary: output?.summary ?? null,
+        startedAt: row.started_at,
+        completedAt: row.completed_at,
+      };
+    })
+  );
+
+  return c.json({
+    success: true,
+    data: {
+      run: { ...toPipelineRun(run), params: JSON.parse(run.params_json) as PipelineRunParams },
+      steps: stepResults,
+    },
+  });
+});
+
+// POST /pipelines/runs/:id/cancel - Cancel a running pipeline run
+pipelines.post("/runs/:id/cancel", async (c) => {
+  const user = c.get("user");
+  await cancelPipelineRun(c.env, c.executionCtx, user.userId, c.req.param("id"));
+  return c.json({ success: true, data: { message: "Pipeline run cancellation requested" } });
+});
+
+// POST /pipelines/runs/:id/resume - Resume a failed or cancelled run from its failed step
+pipelines.post("/runs/:id/resume", async (c) => {
+  const user = c.get("user");
+  const body = await c.req.json<{ params?: PipelineRunParams }>().catch(() => ({} as { params?: PipelineRunParams }));
+
+  const result = await resumePipelineRun(c.env, c.executionCtx, user.userId, c.req.param("id"), body.params ?? {});
+
+  return c.json({
+    success: true,
+    data: { ...result, status: "running" },
+  });
+});
+
+// POST /pipelines - Create a pipeline
+pipelines.post("/", async (c) => {
+  const user = c.get("user");
+  const body = await c.req.json<{ name: string; description?: string; steps: unknown }>();
+
+  if (!body.name) {
+    throw new AppError(400, "BAD_REQUEST", "name is required");
+  }
+  const steps = await validatePipelineSteps(c.env.DB, user.userId, body.steps);
+
+  const pipeline = await PipelineModel.create(c.env.DB, {
+    userId: user.userId,
+    name: sanitizeString(body.name, 100),
+    description: body.description ? sanitizeString(body.description, 500) : undefined,
+    stepsJson: JSON.stringify(steps),
+  });
+
+  return c.json({
+    success: true,
+    data: {
+      pipeline: {
+        ...toPipeline(pipeline),
+        estimatedCredits: await estimatePipelineCredits(c.env.DB, user.userId, steps),
+      },
+    },
+  }, 201);
+});
+
+// GET /pipelines - List user's pipelines
+pipelines.get("/", async (c) => {
+  const user = c.get("user");
+  const url = new URL(c.req.url);
+  const limit = Math.min(parseInt(url.searchParams.get("limit") ?? "50", 10), 100);
+  const offset = Math.max(parseInt(url.searchParams.get("offset") ?? "0", 10), 0);
+  const status = url.searchParams.get("status") as PipelineStatus | null;
+
+  const rows = await PipelineModel.listByUserId(c.env.DB, user.userId, {
+    limit,
+    offset,
+    status: status ?? undefined,
+  });
+
+  return c.json({
+    success: true,
+    data: { pipelines: rows.map(toPipeline) },
+  });
+});
+
+// GET /pipelines/:id - Pipeline definition with its credit estimate
+pipelines.get("/:id", async (c) => {
+  const user = c.get("user");
+  const pipeline = await findOwnedPipeline(c.env.DB, user.userId, c.req.param("id"));
+  const steps = JSON.parse(pipeline.steps_json) as PipelineStep[];
+  // A step whose config was archived makes the pipeline unrunnable; report that rather than fail
+  const estimatedCredits = await estimatePipelineCredits(c.env.DB, user.userId, steps).catch(() => null);
+
+  return c.json({
+    success: true,
+    data: {
+      pipeline: { ...toPipeline(pipeline), estimatedCredits },
+    },
+  });
+});
+
+// PUT /pipelines/:id - Update a pipeline
+pipelines.put("/:id", async (c) => {
+  const user = c.get("user");
+  const pipelineId = c.req.param("id");
+  await findOwnedPipeline(c.env.DB, user.userId, pipelineId);
+
+  const body = await c.req.json<{
+    name?: string;
+    description?: string;
+    steps?: unknown;
+    status?: PipelineStatus;
+  }>();
+
+  if (body.status && body.status !== "active" && body.status !== "archived") {
+    throw new AppError(400, "BAD_REQUEST", "status must be active or archived");
+  }
+  const steps = body.steps !== undefined ? await validatePipelineSteps(c.env.DB, user.userId, body.steps) : undefined;
+
+  await PipelineModel.update(c.env.DB, pipelineId, {
+    name: body.name ? sanitizeString(body.name, 100) : undefined,
+    description: body.description !== undefined ? sanitizeString(body.description, 500) : undefined,
+    stepsJson: steps ? JSON.stringify(steps) : undefined,
+    status: body.status,
+  });
+
+  const updated = await PipelineModel.findById(c.env.DB, pipelineId);
+  return c.json({
+    success: true,
+    data: { pipeline: toPipeline(updated!) },
+  });
+});
+
+// POST /pipelines/:id/runs - Start a pipeline run
+pipelines.post("/:id/runs", async (c) => {
+  const user = c.get("user");
+  const body = await c.req.json<{ params?: PipelineRunParams }>().catch(() => ({} as { params?: PipelineRunParams }));
+
+  const result = await startPipelineRun(c.env, c.executionCtx, user.userId, c.req.param("id"), body.params ?? {});
+
+  return c.json({
+    success: true,
+    data: { ...result, status: "running" },
+  }, 201);
+});
+
+export { pipelines };
@@ -10,6 +10,7 @@ import {
   isSupportedModel,
 } from "../services/billing";
 import { createStreamProxy, parseNonStreamingUsage } from "../services/stream";
+import { createMockLLMClient, isMockLLMEnabled, mockLLMOptionsFromEnv } from "../agents/gateway/mock-provider";
 
 const proxy = new Hono<{ Bindings: Env; Variables: { user: AuthUser } }>();
 
@@ -108,8 +109,11 @@ proxy.post("/v1/chat/completions", async (c) => {
     };
   }
 
-  // 4. Proxy request to LLM provider
-  const upstreamResponse = await fetch(providerConfig.url, {
+  // 4. Proxy request to LLM provider (or the mock provider with LLM_PROVIDER=mock)
+  const upstreamFetch = isMockLLMEnabled(c.env)
+    ? createMockLLMClient(mockLLMOptionsFromEnv(c.env))
+    : (url: string, init?: RequestInit) => fetch(url, init);
+  const upstreamResponse = await upstreamFetch(providerConfig.url, {
     method: "POST",
     headers: upstreamHeaders,
     body: JSON.stringify(upstreamBody),
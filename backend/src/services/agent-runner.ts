@@ -1,20 +1,29 @@
 /**
  * Agent Runner Service.
  *
- * Executes agents as regular async functions within the main Worker.
- * Integrates the agent framework with the billing engine and D1 persistence.
+ * Executes agents as regular async functions, driven by the agent run queue
+ * consumer (services/run-queue.ts). Integrates the agent framework with the
+ * billing engine and D1 persistence.
  *
  * Flow:
  * 1. Reserve credits (D1 transaction)
- * 2. Execute agent with BillingAIGateway
+ * 2. Execute agent with BillingAIGateway, recording progress to agent_run_event
  * 3. Settle credits (actual vs reserved)
  * 4. Persist run + usage logs to D1
+ *
+ * Runs of agents that publish externally may instead stop before step 1,
+ * held for approval with a preview; approving re-queues them.
+ *
+ * The agent_run row is created by services/agent.ts and claimed by the queue
+ * consumer; this module only updates it, so the run id and the credit
+ * reservation each have a single owner.
  */
 
-import type { Env, UsageQueueMessage } from "../types";
+import type { Env, AgentRunStatus, UsageQueueMessage } from "../types";
 import type {
   AgentInput,
   AgentRun,
+  ApprovalPreview,
   ProgressEvent,
   UsageLog,
   AgentEnv,
@@ -22,9 +31,15 @@ import type {
 import { agentRegistry } from "../agents/framework/registry";
 import { AgentLifecycleManager } from "../agents/framework/lifecycle";
 import { BillingAIGateway } from "../agents/gateway/billing-gateway";
+import { resolveRoutingPolicy, type UserTier } from "../agents/gateway/routing";
 import { registerAllAgents } from "../agents/agents";
+import { AgentRunModel } from "../models/agent-run";
+import { LlmCacheStatModel } from "../models/llm-cache-stat";
 import { reserveCredits, settleCredits } from "./credit";
-import { generateId } from "../utils/ulid";
+import { createRunEventRecorder } from "./run-events";
+import { createArtifactStore } from "./artifact";
+import { createCredentialProvider } from "./connections";
+import { createPromptCache } from "./prompt-cache";
 
 // Ensure agents are registered
 let agentsRegistered = false;
@@ -38,32 +53,78 @@ function ensureAgentsRegistered() {
 /** Map backend Env to the AgentEnv the framework expects */
 function toAgentEnv(env: Env): AgentEnv {
   return {
-    AI_GATEWAY: null as unknown as Fetcher,
+    AI_GATEWAY: env.AI_GATEWAY,
     AGENT_STORAGE: env.STORAGE,
     DB: env.DB,
-    YOUTUBE_API_KEY: "",
+    YOUTUBE_API_KEY: env.YOUTUBE_API_KEY ?? "",
     OPENAI_API_KEY: env.OPENAI_API_KEY,
     ANTHROPIC_API_KEY: env.ANTHROPIC_API_KEY,
     GOOGLE_AI_API_KEY: "",
     INSTAGRAM_ACCESS_TOKEN: "",
+    ENVIRONMENT: env.ENVIRONMENT,
+    LLM_PROVIDER: env.LLM_PROVIDER,
+    LLM_MOCK_LATENCY_MS: env.LLM_MOCK_LATENCY_MS,
+    AI_GATEWAY_ACCOUNT_ID: env.AI_GATEWAY_ACCOUNT_ID,
+    AI_GATEWAY_ID: env.AI_GATEWAY_ID,
+    AI_GATEWAY_BASE_URL: env.AI_GATEWAY_BASE_URL,
+    AI_GATEWAY_TOKEN: env.AI_GATEWAY_TOKEN,
+    AI_GATEWAY_CACHE_TTL_SECONDS: env.AI_GATEWAY_CACHE_TTL_SECONDS,
   };
 }
 
+// How long a run waits for approval before the cron trigger expires it
+const DEFAULT_APPROVAL_TTL_HOURS = 24;
+
+function approvalTtlSeconds(env: Env): number {
+  const hours = parseFloat(env.AGENT_RUN_APPROVAL_TTL_HOURS ?? "");
+  return Math.round((Number.isFinite(hours) && hours > 0 ? hours : DEFAULT_APPROVAL_TTL_HOURS) * 3600);
+}
+
+/**
+ * The framework's "queued" state is stored as "pending" in agent_run, as is
+ * "awaiting_approval" (with approval_status set by holdForApproval)
+ */
+function toRowStatus(status: AgentRun["status"]): AgentRunStatus {
+  return status === "queued" || status === "awaiting_approval" ? "pending" : status;
+}
+
 export interface AgentRunRequest {
+  /** Id of an existing agent_run row (status=pending) */
+  runId: string;
   agentId: string;
   userId: string;
+  /** Picks the model routing policy for the run's LLM calls */
+  tier: UserTier;
   config: Record<string, unknown>;
   params: Record<string, unknown>;
+  /**
+   * Hand a transiently failed run back to the queue: the row returns to
+   * pending and the log records a retry instead of a terminal error.
+   */
+  retryOnTransientError?: boolean;
+  /**
+   * Credits are held by an enclosing reservation (a pipeline run): skip the
+   * per-run reserve and settle, and only record what the run cost.
+   */
+  prepaid?: boolean;
+  /** Set when resuming an approved run: skip the approval hold and publish this */
+  approvedPreview?: ApprovalPreview;
 }
 
 export interface AgentRunResult {
   run: AgentRun;
-  stream: ReadableStream;
+  /**
+   * Settles with the final run once its state and events have been persisted,
+   * or null if the lifecycle rejected the run (validation, insufficient credits)
+   */
+  completion: Promise<AgentRun | null>;
 }
 
 /**
- * Execute an agent run with SSE progress streaming.
- * Returns a ReadableStream of SSE events + the final AgentRun record.
+ * Execute an agent run. Progress is written to the run's event log, which
+ * GET /agents/runs/:id/events streams to clients.
+ * Returns the initial AgentRun record and a completion promise the caller
+ * must await or hand to ctx.waitUntil().
  */
 export function executeAgentRun(
   env: Env,
@@ -72,7 +133,7 @@ export function executeAgentRun(
   ensureAgentsRegistered();
 
   const agent = agentRegistry.get(request.agentId);
-  const runId = generateId();
+  const runId = request.runId;
   const agentEnv = toAgentEnv(env);
 
   const input: AgentInput = {
@@ -80,49 +141,25 @@ export function executeAgentRun(
     userId: request.userId,
     config: { ...request.config, agentConfigId: request.config.agentConfigId ?? "" },
     params: request.params,
+    approvedPreview: request.approvedPreview,
   };
 
-  // Validate first (synchronous, throw early)
-  const validation = agent.validate(input);
-  if (!validation.valid) {
-    const errorStream = createErrorStream(runId, `Validation failed: ${validation.errors.map(e => e.message).join(", ")}`);
-    return {
-      run: {
-        id: runId,
-        agentConfigId: (request.config.agentConfigId as string) ?? "",
-        userId: request.userId,
-        status: "failed",
-        creditsReserved: 0,
-        creditsActual: 0,
-        input,
-        output: null,
-        errorMessage: `Validation failed: ${validation.errors.map(e => e.message).join(", ")}`,
-        durationMs: 0,
-        startedAt: null,
-        completedAt: new Date().toISOString(),
-        createdAt: new Date().toISOString(),
-      },
-      stream: errorStream,
-    };
-  }
-
-  // Set up SSE streaming
-  const { readable, writable } = new TransformStream();
-  const writer = writable.getWriter();
-  const encoder = new TextEncoder();
-
-  const sendSSE = (event: string, data: unknown) => {
-    const message = `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
-    writer.write(encoder.encode(message)).catch(() => {});
-  };
-
-  const billingGateway = new BillingAIGateway(agentEnv);
+  const events = createRunEventRecorder(env.DB, runId);
+  const billingGateway = new BillingAIGateway(agentEnv, {
+    // Shown on each request in the AI Gateway logs
+    metadata: { userId: request.userId, runId, agentId: request.agentId },
+    promptCache: createPromptCache(env) ?? undefined,
+    routing: resolveRoutingPolicy(request.tier, agent.routingPolicy),
+  });
+  const willRetry = (run: AgentRun) =>
+    !!request.retryOnTransientError && run.status === "failed" && !!run.retryable;
 
   // Build lifecycle with real D1 callbacks
   const lifecycle = new AgentLifecycleManager(agent, agentEnv, {
-    onProgress: (event: ProgressEvent) => sendSSE("progress", event),
+    onProgress: (event: ProgressEvent) => events.progress(event),
 
     reserveCredits: async (userId: string, amount: number) => {
+      if (request.prepaid) return true;
       try {
         await reserveCredits(env.DB, userId, amount, runId);
         return true;
@@ -132,33 +169,45 @@ export function executeAgentRun(
     },
 
     settleCredits: async (userId: string, reserved: number, actual: number) => {
-      await settleCredits(env.DB, userId, reserved, actual, runId);
+      if (request.prepaid) return;
+      await settleCredits(env.DB, userId, reserved, toChargedCredits(reserved, actual), runId);
     },
 
     persistRun: async (run: AgentRun) => {
-      const now = new Date().toISOString();
-      await env.DB.prepare(
-        `INSERT OR REPLACE INTO agent_run (id, agent_config_id, user_id, status, credits_reserved, credits_actual, input_json, output_json, error_message, duration_ms, started_at, completed_at, created_at)
-         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
-      )
-        .bind(
-          run.id,
-          run.agentConfigId,
-          run.userId,
-          run.status,
-          run.creditsReserved,
-          run.creditsActual,
-          JSON.stringify(run.input),
-          run.output ? JSON.stringify(run.output) : null,
-          run.errorMessage,
-          run.durationMs,
-          run.startedAt,
-          run.completedAt,
-          run.createdAt
-        )
-        .run();
+      if (run.status === "awaiting_approval") {
+        await AgentRunModel.holdForApproval(env.DB, run.id, {
+          previewJson: JSON.stringify(run.approvalPreview ?? null),
+          expiresInSeconds: approvalTtlSeconds(env),
+        });
+        return;
+      }
+      if (willRetry(run)) {
+        await AgentRunModel.updateStatus(env.DB, run.id, {
+          status: "pending",
+          errorMessage: run.errorMessage ?? undefined,
+        });
+        return;
+      }
+      // UPDATE rather than INSERT OR REPLACE: a REPLACE deletes the row first,
+      // which would cascade to usage_log rows already written for this run.
+      await AgentRunModel.updateStatus(env.DB, run.id, {
+        status: toRowStatus(run.status),
+        creditsActual:
+          run.creditsActual !== null ? toChargedCredits(run.creditsReserved, run.creditsActual) : undefined,
+        outputJson: run.output ? JSON.stringify(run.output) : undefined,
+        errorMessage: run.errorMessage ?? undefined,
+        durationMs: run.durationMs ?? undefined,
+        startedAt: run.startedAt ?? undefined,
+        completedAt: run.completedAt ?? undefined,
+      });
     },
 
+    isCancelRequested: () => AgentRunModel.isCancelRequested(env.DB, runId),
+    isRunActive: async () => (await AgentRunModel.findById(env.DB, runId))?.status === "running",
+
+    artifacts: createArtifactStore(env, request.userId, runId),
+    credentials: createCredentialProvider(env, request.userId),
+
     persistUsage: async (logs: UsageLog[]) => {
       if (logs.length === 0) return;
 
@@ -171,6 +220,9 @@ export function executeAgentRun(
         resourceDetail: log.resourceDetail,
         quantity: log.quantity,
         creditCost: log.creditCost,
+        cached: log.cached,
+        fallbackFrom: log.fallbackFrom,
+        fallbackReason: log.fallbackReason,
         createdAt: log.createdAt,
       }));
 
@@ -184,30 +236,35 @@ export function executeAgentRun(
     },
   });
 
-  // Placeholder for the final run result
-  let finalRun: AgentRun | null = null;
-
-  // Execute in background (stream is returned immediately)
-  const executionPromise = lifecycle
+  const completion = lifecycle
     .run(input, billingGateway, env.STORAGE)
-    .then((run) => {
-      finalRun = run;
-      sendSSE("complete", {
-        runId: run.id,
-        status: run.status,
-        output: run.output,
-        creditsUsed: run.creditsActual,
-        durationMs: run.durationMs,
-      });
+    .then((run): AgentRun | null => {
+      if (run.status === "completed") {
+        events.complete({
+          status: run.status,
+          output: run.output,
+          creditsUsed: run.creditsActual,
+          durationMs: run.durationMs,
+        });
+      } else if (run.status === "awaiting_approval") {
+        events.awaitingApproval(run.approvalPreview?.summary ?? "Waiting for approval", {
+          preview: run.approvalPreview,
+        });
+      } else if (willRetry(run)) {
+        events.retry(`Retrying after transient error: ${run.errorMessage}`, { error: run.errorMessage });
+      } else {
+        events.error(run.errorMessage ?? "Agent run did not complete", { status: run.status });
+      }
+      return run;
     })
     .catch((error) => {
-      sendSSE("error", {
-        runId,
-        error: error instanceof Error ? error.message : "Unknown error",
-      });
+      events.error(error instanceof Error ? error.message : "Unknown error", { status: "failed" });
+      return null;
     })
-    .finally(() => {
-      writer.close().catch(() => {});
+    .then(async (run) => {
+      await events.flush();
+      await recordCacheStats(env.DB, request.agentId, billingGateway);
+      return run;
     });
 
   return {
@@ -226,17 +283,27 @@ export function executeAgentRun(
       completedAt: null,
       createdAt: new Date().toISOString(),
     },
-    stream: readable,
+    completion,
   };
 }
 
-function createErrorStream(runId: string, error: string): ReadableStream {
-  const { readable, writable } = new TransformStream();
-  const writer = writable.getWriter();
-  const encoder = new TextEncoder();
-  const message = `event: error\ndata: ${JSON.stringify({ runId, error })}\n\n`;
-  writer.write(encoder.encode(message)).then(() => writer.close());
-  return readable;
+/** Add the run's LLM calls and AI Gateway cache hits to today's per-agent stats */
+async function recordCacheStats(db: D1Database, agentId: string, gateway: BillingAIGateway): Promise<void> {
+  const stats = gateway.getCacheStats();
+  if (stats.requests === 0) return;
+  try {
+    await LlmCacheStatModel.increment(db, agentId, new Date().toISOString().slice(0, 10), stats);
+  } catch (err) {
+    console.error("Failed to record LLM cache stats:", err);
+  }
+}
+
+/**
+ * Credits are whole numbers in D1, while agents accumulate fractional costs.
+ * Round up, but never charge more than was reserved for the run.
+ */
+function toChargedCredits(reserved: number, actual: number): number {
+  return Math.min(reserved, Math.ceil(actual));
 }
 
 /** List available agents */
@@ -245,6 +312,13 @@ export function listAgents() {
   return agentRegistry.listMeta();
 }
 
+/** Run an agent's schema validation (after defaults) without executing it */
+export function validateAgentInput(agentId: string, input: AgentInput) {
+  ensureAgentsRegistered();
+  const agent = agentRegistry.get(agentId);
+  return agent.validate(agent.applyDefaults(input));
+}
+
 /** Get agent metadata */
 export function getAgent(agentId: string) {
   ensureAgentsRegistered();
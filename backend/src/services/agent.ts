@@ -1,11 +1,18 @@
 import type { Env } from "../types";
 import { AgentConfigModel } from "../models/agent-config";
-import { AgentRunModel } from "../models/agent-run";
-import { UsageLogModel } from "../models/usage-log";
-import { reserveCredits, settleCredits } from "./credit";
+import { AgentRunModel, toDisplayStatus, type AgentRunRow } from "../models/agent-run";
+import { CreditBalanceModel } from "../models/credit-balance";
+import { getAgent, listAgents, validateAgentInput } from "./agent-runner";
+import { enqueueAgentRun } from "./run-queue";
+import { syncPipelineStep } from "./pipeline";
+import { expireApproval } from "./run-reaper";
 import { AppError } from "../middleware/error-handler";
+import type { AgentMeta, JsonSchema } from "../agents/framework/types";
+import { applySchemaDefaults, validateSchema } from "../agents/framework/schema";
+import { AgentLifecycleManager } from "../agents/framework/lifecycle";
 
-// Agent templates define the available agent types users can configure
+// Agent templates are the registered agents as seen by the dashboard; the
+// registry is the single source of truth for what can be configured and run.
 export interface AgentTemplate {
   id: string;
   name: string;
@@ -13,103 +20,67 @@ export interface AgentTemplate {
   description: string;
   descriptionKo: string;
   category: string;
+  estimatedCredits: { min: number; max: number };
+  /** Upper bound reserved per run */
   estimatedCreditsPerRun: number;
-  configSchema: Record<string, unknown>;
+  paramsSchema: JsonSchema;
+  configSchema: JsonSchema;
 }
 
-export const AGENT_TEMPLATES: AgentTemplate[] = [
-  {
-    id: "shorts-script-writer",
-    name: "Shorts Script Writer",
-    nameKo: "숏폼 스크립트 작성기",
-    description: "AI agent that writes engaging short-form video scripts optimized for Korean audience",
-    descriptionKo: "한국 시청자에 최적화된 숏폼 영상 스크립트를 작성하는 AI 에이전트",
-    category: "content",
-    estimatedCreditsPerRun: 15,
-    configSchema: {
-      type: "object",
-      properties: {
-        tone: { type: "string", enum: ["casual", "professional", "humorous", "emotional"] },
-        targetLength: { type: "number", description: "Target video length in seconds" },
-        language: { type: "string", default: "ko" },
-      },
-    },
-  },
-  {
-    id: "thumbnail-generator",
-    name: "Thumbnail Generator",
-    nameKo: "썸네일 생성기",
-    description: "Generate eye-catching thumbnails for YouTube Shorts and Instagram Reels",
-    descriptionKo: "유튜브 숏츠 및 인스타그램 릴스용 썸네일 생성 에이전트",
-    category: "visual",
-    estimatedCreditsPerRun: 25,
-    configSchema: {
-      type: "object",
-      properties: {
-        style: { type: "string", enum: ["vibrant", "minimal", "text-heavy", "photo-based"] },
-        dimensions: { type: "string", default: "1080x1920" },
-      },
-    },
-  },
-  {
-    id: "hashtag-optimizer",
-    name: "Hashtag Optimizer",
-    nameKo: "해시태그 최적화기",
-    description: "Analyze trends and suggest optimal hashtags for maximum reach",
-    descriptionKo: "트렌드 분석 후 최적의 해시태그를 추천하는 에이전트",
-    category: "seo",
-    estimatedCreditsPerRun: 10,
-    configSchema: {
-      type: "object",
-      properties: {
-        platform: { type: "string", enum: ["youtube", "instagram", "tiktok", "all"] },
-        niche: { type: "string" },
-      },
-    },
-  },
-  {
-    id: "content-repurposer",
-    name: "Content Repurposer",
-    nameKo: "콘텐츠 리퍼포서",
-    description: "Transform long-form content into multiple short-form pieces",
-    descriptionKo: "긴 콘텐츠를 여러 숏폼 콘텐츠로 변환하는 에이전트",
-    category: "content",
-    estimatedCreditsPerRun: 30,
-    configSchema: {
-      type: "object",
-      properties: {
-        sourceType: { type: "string", enum: ["blog", "video_transcript", "podcast", "article"] },
-        outputCount: { type: "number", default: 3 },
-      },
-    },
-  },
-  {
-    id: "caption-translator",
-    name: "Caption Translator",
-    nameKo: "자막 번역기",
-    description: "Translate and localize captions for multi-language distribution",
-    descriptionKo: "다국어 배포를 위한 자막 번역 및 현지화 에이전트",
-    category: "localization",
-    estimatedCreditsPerRun: 20,
-    configSchema: {
-      type: "object",
-      properties: {
-        sourceLanguage: { type: "string", default: "ko" },
-        targetLanguages: { type: "array", items: { type: "string" }, default: ["en", "ja"] },
-      },
-    },
-  },
-];
+function toTemplate(meta: AgentMeta): AgentTemplate {
+  return {
+    id: meta.id,
+    name: meta.name,
+    nameKo: meta.nameKo,
+    description: meta.description,
+    descriptionKo: meta.descriptionKo,
+    category: meta.category,
+    estimatedCredits: meta.estimatedCredits,
+    estimatedCreditsPerRun: meta.estimatedCredits.max,
+    paramsSchema: meta.paramsSchema,
+    configSchema: meta.configSchema,
+  };
+}
+
+export function listAgentTemplates(): AgentTemplate[] {
+  return listAgents().map(toTemplate);
+}
+
+export function getAgentTemplate(templateId: string): AgentTemplate | null {
+  const meta = getAgent(templateId);
+  return meta ? toTemplate(meta) : null;
+}
+
+/**
+ * Check a config's settings against its template's config schema.
+ * Throws VALIDATION_FAILED with per-field details so the form can show them inline.
+ */
+export function validateAgentConfig(template: AgentTemplate, configJson: Record<string, unknown>): void {
+  const validation = validateSchema(template.configSchema, applySchemaDefaults(template.configSchema, configJson));
+  if (!validation.valid) {
+    throw new AppError(
+      400,
+      "VALIDATION_FAILED",
+      `Validation failed: ${validation.errors.map((e) => e.message).join(", ")}`,
+      validation.errors
+    );
+  }
+}
 
 /**
- * Start an agent run: reserve credits, create the run record, and
- * enqueue the actual execution (execution logic is a stub for now).
+ * Start an agent run: create the run record and put it on the agent run
+ * queue, whose consumer reserves credits, executes the registered agent and
+ * settles. `ctx` keeps the in-process queue used in local development alive.
+ * `scheduleId` tags runs started by an agent schedule, `parentRunId` re-runs
+ * and forks of an earlier run.
  */
 export async function startAgentRun(
   env: Env,
+  ctx: Pick<ExecutionContext, "waitUntil">,
   userId: string,
   agentConfigId: string,
-  inputJson: string
+  inputJson: string,
+  options: { scheduleId?: string; parentRunId?: string } = {}
 ): Promise<{ runId: string; creditsReserved: number }> {
   // Look up agent config
   const config = await AgentConfigModel.findById(env.DB, agentConfigId);
@@ -123,74 +94,177 @@ export async function startAgentRun(
     throw new AppError(400, "CONFIG_INACTIVE", "Agent configuration is not active");
   }
 
-  const creditsToReserve = config.estimated_credits_per_run;
+  const agentMeta = getAgent(config.agent_template_id);
+  if (!agentMeta) {
+    throw new AppError(400, "AGENT_NOT_RUNNABLE", `No runnable agent for template ${config.agent_template_id}`);
+  }
+
+  const params = JSON.parse(inputJson) as Record<string, unknown>;
+  const agentConfig = { ...(JSON.parse(config.config_json) as Record<string, unknown>), agentConfigId };
+
+  // Reject invalid input before a run record exists
+  const validation = validateAgentInput(config.agent_template_id, {
+    runId: "",
+    userId,
+    config: agentConfig,
+    params,
+  });
+  if (!validation.valid) {
+    throw new AppError(
+      400,
+      "VALIDATION_FAILED",
+      `Validation failed: ${validation.errors.map((e) => e.message).join(", ")}`,
+      validation.errors
+    );
+  }
+
+  // The lifecycle reserves the agent's max estimate; pre-check so the caller
+  // gets a 402 instead of a run that fails immediately.
+  const creditsToReserve = agentMeta.estimatedCredits.max;
+  const balance = await CreditBalanceModel.findByUserId(env.DB, userId);
+  if (!balance || balance.available_credits < creditsToReserve) {
+    throw new AppError(402, "INSUFFICIENT_CREDITS", "Insufficient credits for this operation");
+  }
 
-  // Create the run record first (status=pending)
+  // Create the run record (status=pending); the queue consumer claims it
   const run = await AgentRunModel.create(env.DB, {
     agentConfigId,
     userId,
     creditsReserved: creditsToReserve,
     inputJson,
+    scheduleId: options.scheduleId,
+    parentRunId: options.parentRunId,
   });
 
-  // Reserve credits (throws if insufficient)
   try {
-    await reserveCredits(env.DB, userId, creditsToReserve, run.id);
+    await enqueueAgentRun(env, ctx, run.id);
   } catch (err) {
-    // If reservation fails, mark run as failed
     await AgentRunModel.updateStatus(env.DB, run.id, {
       status: "failed",
-      errorMessage: err instanceof AppError ? err.message : "Credit reservation failed",
+      errorMessage: "Failed to queue agent run",
+      completedAt: new Date().toISOString(),
     });
-    throw err;
+    throw err instanceof AppError ? err : new AppError(503, "QUEUE_UNAVAILABLE", "Failed to queue agent run");
   }
 
-  // Mark run as running
-  await AgentRunModel.updateStatus(env.DB, run.id, {
-    status: "running",
-    startedAt: new Date().toISOString(),
-  });
+  return { runId: run.id, creditsReserved: creditsToReserve };
+}
+
+async function findOwnedRun(db: D1Database, userId: string, runId: string): Promise<AgentRunRow> {
+  const run = await AgentRunModel.findById(db, runId);
+  if (!run) {
+    throw new AppError(404, "RUN_NOT_FOUND", "Agent run not found");
+  }
+  if (run.user_id !== userId) {
+    throw new AppError(403, "FORBIDDEN", "Agent run does not belong to this user");
+  }
+  return run;
+}
 
-  // TODO: Enqueue actual agent execution via Cloudflare Queue or DO
-  // For now, the run is marked as running and will be completed
-  // when the agent execution service calls back.
+/**
+ * Start a new run of an earlier run's agent config with `parentRunId` set:
+ * a re-run with the parent's input, or a fork when `inputJson` is given.
+ */
+export async function forkAgentRun(
+  env: Env,
+  ctx: Pick<ExecutionContext, "waitUntil">,
+  userId: string,
+  parentRunId: string,
+  inputJson?: string
+): Promise<{ runId: string; creditsReserved: number }> {
+  const parent = await findOwnedRun(env.DB, userId, parentRunId);
 
-  return { runId: run.id, creditsReserved: creditsToReserve };
+  return startAgentRun(env, ctx, userId, parent.agent_config_id, inputJson ?? parent.input_json, {
+    parentRunId: parent.id,
+  });
 }
 
 /**
- * Cancel an agent run. Returns reserved credits minus any already consumed.
+ * Approve a run held for approval and queue it again; it then reserves
+ * credits and publishes the approved preview. Pipeline steps are covered by
+ * their pipeline's reservation, so only standalone runs get a credit pre-check.
  */
-export async function cancelAgentRun(
+export async function approveAgentRun(
   env: Env,
+  ctx: Pick<ExecutionContext, "waitUntil">,
   userId: string,
   runId: string
 ): Promise<void> {
-  const run = await AgentRunModel.findById(env.DB, runId);
-  if (!run) {
-    throw new AppError(404, "RUN_NOT_FOUND", "Agent run not found");
+  const run = await findOwnedRun(env.DB, userId, runId);
+  if (toDisplayStatus(run) !== "awaiting_approval") {
+    throw new AppError(400, "INVALID_STATUS", `Cannot approve run with status ${toDisplayStatus(run)}`);
   }
-  if (run.user_id !== userId) {
-    throw new AppError(403, "FORBIDDEN", "Agent run does not belong to this user");
+
+  if (!run.pipeline_run_id) {
+    const balance = await CreditBalanceModel.findByUserId(env.DB, userId);
+    if (!balance || balance.available_credits < run.credits_reserved) {
+      throw new AppError(402, "INSUFFICIENT_CREDITS", "Insufficient credits for this operation");
+    }
   }
-  if (run.status !== "pending" && run.status !== "running") {
-    throw new AppError(400, "INVALID_STATUS", `Cannot cancel run with status ${run.status}`);
+
+  if (!(await AgentRunModel.approve(env.DB, runId))) {
+    // Still awaiting approval means the request ran out before the cron expired it
+    if (await expireApproval(env, ctx, run)) {
+      throw new AppError(400, "APPROVAL_EXPIRED", "The approval request has expired");
+    }
+    throw new AppError(409, "INVALID_STATUS", "Agent run is no longer awaiting approval");
   }
 
-  // Get actual credits consumed so far
-  const usageLogs = await UsageLogModel.listByRunId(env.DB, runId);
-  const actualCreditsUsed = usageLogs.reduce((sum, log) => sum + log.credit_cost, 0);
+  try {
+    await enqueueAgentRun(env, ctx, runId);
+  } catch (err) {
+    await AgentRunModel.updateStatus(env.DB, runId, {
+      status: "failed",
+      errorMessage: "Failed to queue agent run",
+      completedAt: new Date().toISOString(),
+    });
+    if (run.pipeline_run_id) await syncPipelineStep(env, ctx, run.pipeline_run_id);
+    throw err instanceof AppError ? err : new AppError(503, "QUEUE_UNAVAILABLE", "Failed to queue agent run");
+  }
+}
 
-  // Settle: charge for what was used, return the rest
-  await settleCredits(env.DB, userId, run.credits_reserved, actualCreditsUsed, runId);
+/** Reject a run held for approval: it is cancelled without publishing or charging anything */
+export async function rejectAgentRun(
+  env: Env,
+  ctx: Pick<ExecutionContext, "waitUntil">,
+  userId: string,
+  runId: string,
+  reason?: string
+): Promise<void> {
+  const run = await findOwnedRun(env.DB, userId, runId);
+  if (toDisplayStatus(run) !== "awaiting_approval") {
+    throw new AppError(400, "INVALID_STATUS", `Cannot reject run with status ${toDisplayStatus(run)}`);
+  }
 
-  // Mark run as cancelled
-  await AgentRunModel.updateStatus(env.DB, runId, {
-    status: "cancelled",
-    creditsActual: actualCreditsUsed,
-    completedAt: new Date().toISOString(),
-    durationMs: run.started_at
-      ? Date.now() - new Date(run.started_at).getTime()
-      : 0,
-  });
+  const errorMessage = reason ? `Publishing was rejected: ${reason}` : "Publishing was rejected";
+  if (!(await AgentRunModel.closeApproval(env.DB, runId, { approvalStatus: "rejected", errorMessage }))) {
+    throw new AppError(409, "INVALID_STATUS", "Agent run is no longer awaiting approval");
+  }
+  if (run.pipeline_run_id) await syncPipelineStep(env, ctx, run.pipeline_run_id);
+}
+
+/**
+ * Request cancellation of an agent run. A run still waiting in the queue, or
+ * for approval, is cancelled outright; a running one stops at its next step, immediately if it
+ * executes in this isolate, and the lifecycle settles credits against the
+ * usage logged up to that point.
+ */
+export async function cancelAgentRun(
+  env: Env,
+  ctx: Pick<ExecutionContext, "waitUntil">,
+  userId: string,
+  runId: string
+): Promise<void> {
+  const run = await findOwnedRun(env.DB, userId, runId);
+  if (run.status !== "pending" && run.status !== "running") {
+    throw new AppError(400, "INVALID_STATUS", `Cannot cancel run with status ${run.status}`);
+  }
+
+  if (run.status === "pending" && (await AgentRunModel.cancelPending(env.DB, runId))) {
+    // Nothing will dequeue it now, so settle its pipeline here
+    if (run.pipeline_run_id) await syncPipelineStep(env, ctx, run.pipeline_run_id);
+    return;
+  }
+  await AgentRunModel.requestCancel(env.DB, runId);
+  AgentLifecycleManager.cancel(runId);
 }
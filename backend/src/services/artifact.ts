@@ -0,0 +1,163 @@
+/**
+ * Artifact Service.
+ *
+ * Objects agents store in R2 live under the user's sandbox prefix
+ * (users/{userId}/) and are recorded in the artifact table, which backs
+ * listing and the per-user storage quota. Downloads go through the API with
+ * the user's token, or through a time-limited signed URL for clients that
+ * can't send one (Instagram fetching a Reel's video).
+ *
+ * Signed URLs point at GET /api/v1/files/{key} with expires and signature
+ * query params; the signature is an HMAC-SHA256 of the key and expiry.
+ */
+
+import type { Env } from "../types";
+import type { ArtifactRef, ArtifactStore } from "../agents/framework/types";
+import { userR2Prefix } from "../agents/sandbox/config";
+import { ArtifactModel, type ArtifactRow } from "../models/artifact";
+import { AppError } from "../middleware/error-handler";
+import { hmacSha256Hex, constantTimeEqual } from "../utils/crypto";
+
+const DEFAULT_STORAGE_QUOTA_MB = 1024;
+
+export const DEFAULT_SIGNED_URL_TTL_SECONDS = 60 * 60;
+export const MAX_SIGNED_URL_TTL_SECONDS = 7 * 24 * 60 * 60;
+
+export interface StorageUsage {
+  usedBytes: number;
+  quotaBytes: number;
+}
+
+export function storageQuotaBytes(env: Env): number {
+  const mb = parseFloat(env.ARTIFACT_STORAGE_QUOTA_MB ?? "");
+  return Math.round((Number.isFinite(mb) && mb > 0 ? mb : DEFAULT_STORAGE_QUOTA_MB) * 1024 * 1024);
+}
+
+export async function getStorageUsage(env: Env, userId: string): Promise<StorageUsage> {
+  return {
+    usedBytes: await ArtifactModel.totalBytesByUserId(env.DB, userId),
+    quotaBytes: storageQuotaBytes(env),
+  };
+}
+
+/** Whether an R2 key is inside the user's sandbox prefix */
+export function isOwnedKey(userId: string, key: string): boolean {
+  return key.startsWith(userR2Prefix(userId)) && !key.split("/").includes("..");
+}
+
+// ---------------------------------------------------------------------------
+// Signed URLs
+// ---------------------------------------------------------------------------
+
+function signingSecret(env: Env): string {
+  if (!env.ARTIFACT_SIGNING_SECRET) {
+    throw new AppError(500, "SIGNING_NOT_CONFIGURED", "Signed artifact URLs are not configured");
+  }
+  return env.ARTIFACT_SIGNING_SECRET;
+}
+
+/** Time-limited URL for an R2 object that needs no auth header */
+export async function createSignedUrl(
+  env: Env,
+  key: string,
+  expiresInSeconds = DEFAULT_SIGNED_URL_TTL_SECONDS
+): Promise<{ url: string; expiresAt: string }> {
+  const ttl = Math.min(Math.max(Math.floor(expiresInSeconds), 1), MAX_SIGNED_URL_TTL_SECONDS);
+  const expires = Math.floor(Date.now() / 1000) + ttl;
+  const signature = await hmacSha256Hex(signingSecret(env), `${key}\n${expires}`);
+  const path = key.split("/").map(encodeURIComponent).join("/");
+  const base = env.PUBLIC_API_URL.replace(/\/+$/, "");
+
+  return {
+    url: `${base}/api/v1/files/${path}?expires=${expires}&signature=${signature}`,
+    expiresAt: new Date(expires * 1000).toISOString(),
+  };
+}
+
+/** Check a signed URL's expiry and signature */
+export async function verifySignedUrl(
+  env: Env,
+  key: string,
+  expires: string | undefined,
+  signature: string | undefined
+): Promise<boolean> {
+  const expiresAt = parseInt(expires ?? "", 10);
+  if (!signature || !Number.isFinite(expiresAt) || expiresAt < Math.floor(Date.now() / 1000)) {
+    return false;
+  }
+  const expected = await hmacSha256Hex(signingSecret(env), `${key}\n${expiresAt}`);
+  return constantTimeEqual(expected, signature.toLowerCase());
+}
+
+// ---------------------------------------------------------------------------
+// Artifacts
+// ---------------------------------------------------------------------------
+
+/** The ArtifactStore handed to an agent run: quota checks and records against its user */
+export function createArtifactStore(env: Env, userId: string, runId: string): ArtifactStore {
+  return {
+    async hasQuota(sizeBytes: number) {
+      const { usedBytes, quotaBytes } = await getStorageUsage(env, userId);
+      return usedBytes + sizeBytes <= quotaBytes;
+    },
+
+    async record(artifact: ArtifactRef) {
+      await ArtifactModel.upsert(env.DB, {
+        userId,
+        agentRunId: runId,
+        r2Key: artifact.key,
+        contentType: artifact.contentType,
+        sizeBytes: artifact.sizeBytes,
+      });
+    },
+
+    async signedUrl(key: string, expiresInSeconds: number) {
+      if (!isOwnedKey(userId, key)) {
+        throw new Error(`Storage key is outside the user's prefix: ${key}`);
+      }
+      return (await createSignedUrl(env, key, expiresInSeconds)).url;
+    },
+  };
+}
+
+/** Load an artifact that belongs to the user, or throw 404/403 */
+export async function findOwnedArtifact(db: D1Database, userId: string, artifactId: string): Promise<ArtifactRow> {
+  const artifact = await ArtifactModel.findById(db, artifactId);
+  if (!artifact) {
+    throw new AppError(404, "ARTIFACT_NOT_FOUND", "Artifact not found");
+  }
+  if (artifact.user_id !== userId) {
+    throw new AppError(403, "FORBIDDEN", "Artifact does not belong to this user");
+  }
+  return artifact;
+}
+
+/**
+ * Delete an artifact's R2 object and record. Only keys under the user's
+ * sandbox prefix can be deleted; objects stored before artifacts were scoped
+ * to it are left alone.
+ */
+export async function deleteArtifact(env: Env, userId: string, artifactId: string): Promise<void> {
+  const artifact = await findOwnedArtifact(env.DB, userId, artifactId);
+  if (!isOwnedKey(userId, artifact.r2_key)) {
+    throw new AppError(403, "FORBIDDEN", "Artifact is outside the user's storage prefix");
+  }
+
+  await env.STORAGE.delete(artifact.r2_key);
+  await ArtifactModel.delete(env.DB, artifact.id);
+}
+
+/** Stream an R2 object as a response; attachment for downloads, inline otherwise */
+export function objectResponse(object: R2ObjectBody, opts: { attachment?: boolean; maxAgeSeconds?: number } = {}): Response {
+  const headers = new Headers();
+  object.writeHttpMetadata(headers);
+  headers.set("ETag", object.httpEtag);
+  headers.set("Content-Length", String(object.size));
+  if (!headers.has("Content-Type")) headers.set("Content-Type", "application/octet-stream");
+  if (opts.attachment) {
+    const filename = object.key.split("/").pop() ?? "artifact";
+    headers.set("Content-Disposition", `attachment; filename="${filename.replace(/"/g, "")}"`);
+  }
+  headers.set("Cache-Control", `private, max-age=${Math.max(0, Math.floor(opts.maxAgeSeconds ?? 0))}`);
+  return new Response(object.body, { headers });
+}
@@ -9,6 +9,9 @@ export const MODEL_PRICING: Record<string, { inputPerMillion: number; outputPerM
   "gpt-4o-mini": { inputPerMillion: 0.15, outputPerMillion: 0.6 },
   "claude-sonnet-4-20250514": { inputPerMillion: 3.0, outputPerMillion: 15.0 },
   "claude-haiku-3.5": { inputPerMillion: 0.8, outputPerMillion: 4.0 },
+  // Model ids agent LLM calls use (agents/gateway)
+  "claude-haiku-3-5": { inputPerMillion: 0.8, outputPerMillion: 4.0 },
+  "gemini-2.0-flash": { inputPerMillion: 0.1, outputPerMillion: 0.4 },
 };
 
 const USD_TO_KRW = 1350;
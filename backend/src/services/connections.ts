@@ -0,0 +1,413 @@
+/**
+ * Connected Accounts Service.
+ *
+ * Users connect Google (YouTube upload, read and analytics scopes) and Meta
+ * (Instagram Graph publishing and insights) with OAuth from settings. Agents
+ * then resolve credentials from the connection instead of run params.
+ *
+ * Flow:
+ * 1. POST /connections/:provider/authorize returns the provider's consent URL,
+ *    with a signed state carrying the user id
+ * 2. The provider redirects to GET /connections/:provider/callback, which
+ *    exchanges the code, looks up the YouTube channel or Instagram account and
+ *    stores the tokens encrypted (utils/crypto.ts)
+ * 3. Runs get a fresh access token through the CredentialProvider: Google
+ *    tokens are refreshed with the refresh token shortly before they expire;
+ *    Meta long-lived tokens are re-exchanged by the cron trigger a week before
+ *    they lapse. A refresh the provider rejects marks the connection expired.
+ */
+
+import type { Env } from "../types";
+import type { ConnectedAccount, CredentialProvider } from "../agents/framework/types";
+import {
+  OAuthConnectionModel,
+  type OAuthConnectionRow,
+  type OAuthProvider,
+} from "../models/oauth-connection";
+import { AppError } from "../middleware/error-handler";
+import { encryptSecret, decryptSecret, hmacSha256Hex, constantTimeEqual } from "../utils/crypto";
+
+export const OAUTH_PROVIDERS: OAuthProvider[] = ["google", "meta"];
+
+const GOOGLE_SCOPES = [
+  "https://www.googleapis.com/auth/youtube.upload",
+  "https://www.googleapis.com/auth/youtube.readonly",
+  "https://www.googleapis.com/auth/yt-analytics.readonly",
+];
+const META_SCOPES = [
+  "instagram_basic",
+  "instagram_content_publish",
+  "instagram_manage_insights",
+  "pages_show_list",
+  "pages_read_engagement",
+];
+const META_GRAPH_URL = "https://graph.facebook.com/v19.0";
+
+const STATE_TTL_SECONDS = 10 * 60;
+// Refresh a Google access token this close to its expiry
+const REFRESH_MARGIN_SECONDS = 5 * 60;
+// Meta long-lived tokens last about 60 days; renew them this long before they lapse
+const META_RENEW_BEFORE_SECONDS = 7 * 24 * 60 * 60;
+
+const PROVIDER_LABEL: Record<OAuthProvider, string> = { google: "YouTube", meta: "Instagram" };
+
+interface TokenGrant {
+  accessToken: string;
+  refreshToken?: string;
+  expiresInSeconds?: number;
+  scopes?: string;
+}
+
+interface ExternalAccount {
+  id: string;
+  name: string | null;
+}
+
+/** Provider rejected a token or grant: the user has to reconnect */
+class ConnectionRevokedError extends Error {}
+
+export function isOAuthProvider(value: string): value is OAuthProvider {
+  return (OAUTH_PROVIDERS as string[]).includes(value);
+}
+
+export function isProviderConfigured(env: Env, provider: OAuthProvider): boolean {
+  return provider === "google"
+    ? !!env.GOOGLE_CLIENT_ID && !!env.GOOGLE_CLIENT_SECRET
+    : !!env.META_APP_ID && !!env.META_APP_SECRET;
+}
+
+function redirectUri(env: Env, provider: OAuthProvider): string {
+  return `${env.PUBLIC_API_URL.replace(/\/+$/, "")}/api/v1/connections/${provider}/callback`;
+}
+
+function encryptionKey(env: Env): string {
+  if (!env.OAUTH_TOKEN_ENCRYPTION_KEY) {
+    throw new AppError(500, "ENCRYPTION_NOT_CONFIGURED", "Token encryption is not configured");
+  }
+  return env.OAUTH_TOKEN_ENCRYPTION_KEY;
+}
+
+function expiresAt(expiresInSeconds: number | undefined): string | null {
+  return expiresInSeconds ? new Date(Date.now() + expiresInSeconds * 1000).toISOString() : null;
+}
+
+// ---------------------------------------------------------------------------
+// OAuth state
+// ---------------------------------------------------------------------------
+
+/** "<base64url payload>.<hmac>", so the callback knows the user without a session */
+async function signState(env: Env, userId: string, provider: OAuthProvider): Promise<string> {
+  const payload = btoa(
+    JSON.stringify({ userId, provider, exp: Math.floor(Date.now() / 1000) + STATE_TTL_SECONDS })
+  ).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+  return `${payload}.${await hmacSha256Hex(env.JWT_SECRET, `oauth-state\n${payload}`)}`;
+}
+
+async function verifyState(env: Env, state: string | undefined, provider: OAuthProvider): Promise<string> {
+  const [payload, signature] = (state ?? "").split(".");
+  if (!payload || !signature) {
+    throw new AppError(400, "INVALID_STATE", "OAuth state is missing or malformed");
+  }
+  const expected = await hmacSha256Hex(env.JWT_SECRET, `oauth-state\n${payload}`);
+  if (!constantTimeEqual(expected, signature)) {
+    throw new AppError(400, "INVALID_STATE", "OAuth state signature is invalid");
+  }
+
+  const data = JSON.parse(atob(payload.replace(/-/g, "+").replace(/_/g, "/"))) as {
+    userId: string;
+    provider: string;
+    exp: number;
+  };
+  if (data.provider !== provider || data.exp < Math.floor(Date.now() / 1000)) {
+    throw new AppError(400, "INVALID_STATE", "OAuth state has expired; start connecting again");
+  }
+  return data.userId;
+}
+
+// ---------------------------------------------------------------------------
+// Provider calls
+// ---------------------------------------------------------------------------
+
+async function postForm(url: string, body: Record<string, string>): Promise<Response> {
+  return fetch(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/x-www-form-urlencoded" },
+    body: new URLSearchParams(body).toString(),
+  });
+}
+
+/** Token endpoint error: 400/401 means the grant was rejected, anything else is transient */
+async function tokenError(provider: OAuthProvider, res: Response): Promise<Error> {
+  const message = `${PROVIDER_LABEL[provider]} token request failed: ${res.status} ${await res.text()}`;
+  return res.status === 400 || res.status === 401 ? new ConnectionRevokedError(message) : new Error(message);
+}
+
+async function exchangeGoogleCode(env: Env, code: string): Promise<TokenGrant> {
+  const res = await postForm("https://oauth2.googleapis.com/token", {
+    code,
+    client_id: env.GOOGLE_CLIENT_ID,
+    client_secret: env.GOOGLE_CLIENT_SECRET,
+    redirect_uri: redirectUri(env, "google"),
+    grant_type: "authorization_code",
+  });
+  if (!res.ok) throw await tokenError("google", res);
+  const data = (await res.json()) as { access_token: string; refresh_token?: string; expires_in?: number; scope?: string };
+  return { accessToken: data.access_token, refreshToken: data.refresh_token, expiresInSeconds: data.expires_in, scopes: data.scope };
+}
+
+async function refreshGoogleToken(env: Env, refreshToken: string): Promise<TokenGrant> {
+  const res = await postForm("https://oauth2.googleapis.com/token", {
+    refresh_token: refreshToken,
+    client_id: env.GOOGLE_CLIENT_ID,
+    client_secret: env.GOOGLE_CLIENT_SECRET,
+    grant_type: "refresh_token",
+  });
+  if (!res.ok) throw await tokenError("google", res);
+  const data = (await res.json()) as { access_token: string; refresh_token?: string; expires_in?: number };
+  return { accessToken: data.access_token, refreshToken: data.refresh_token, expiresInSeconds: data.expires_in };
+}
+
+async function getYouTubeChannel(accessToken: string): Promise<ExternalAccount> {
+  const res = await fetch("https://www.googleapis.com/youtube/v3/channels?part=snippet&mine=true", {
+    headers: { Authorization: `Bearer ${accessToken}` },
+  });
+  if (!res.ok) {
+    throw new Error(`YouTube channel lookup failed: ${res.status} ${await res.text()}`);
+  }
+  const data = (await res.json()) as { items?: { id: string; snippet?: { title?: string } }[] };
+  const channel = data.items?.[0];
+  if (!channel) {
+    throw new AppError(400, "NO_YOUTUBE_CHANNEL", "The Google account has no YouTube channel");
+  }
+  return { id: channel.id, name: channel.snippet?.title ?? null };
+}
+
+/** Swap a short-lived (or expiring long-lived) Meta user token for a long-lived one */
+async function exchangeMetaToken(env: Env, token: string): Promise<TokenGrant> {
+  const params = new URLSearchParams({
+    grant_type: "fb_exchange_token",
+    client_id: env.META_APP_ID,
+    client_secret: env.META_APP_SECRET,
+    fb_exchange_token: token,
+  });
+  const res = await fetch(`${META_GRAPH_URL}/oauth/access_token?${params.toString()}`);
+  if (!res.ok) throw await tokenError("meta", res);
+  const data = (await res.json()) as { access_token: string; expires_in?: number };
+  return { accessToken: data.access_token, expiresInSeconds: data.expires_in };
+}
+
+async function exchangeMetaCode(env: Env, code: string): Promise<TokenGrant> {
+  const params = new URLSearchParams({
+    client_id: env.META_APP_ID,
+    client_secret: env.META_APP_SECRET,
+    redirect_uri: redirectUri(env, "meta"),
+    code,
+  });
+  const res = await fetch(`${META_GRAPH_URL}/oauth/access_token?${params.toString()}`);
+  if (!res.ok) throw await tokenError("meta", res);
+  const data = (await res.json()) as { access_token: string };
+  return { ...(await exchangeMetaToken(env, data.access_token)), scopes: META_SCOPES.join(" ") };
+}
+
+/** The Instagram professional account linked to one of the user's Facebook Pages */
+async function getInstagramAccount(accessToken: string): Promise<ExternalAccount> {
+  const params = new URLSearchParams({
+    fields: "name,instagram_business_account{id,username}",
+    access_token: accessToken,
+  });
+  const res = await fetch(`${META_GRAPH_URL}/me/accounts?${params.toString()}`);
+  if (!res.ok) {
+    throw new Error(`Instagram account lookup failed: ${res.status} ${await res.text()}`);
+  }
+  const data = (await res.json()) as {
+    data?: { instagram_business_account?: { id: string; username?: string } }[];
+  };
+  const account = data.data?.find((page) => page.instagram_business_account)?.instagram_business_account;
+  if (!account) {
+    throw new AppError(
+      400,
+      "NO_INSTAGRAM_ACCOUNT",
+      "No Instagram professional account is linked to the Facebook Pages you granted"
+    );
+  }
+  return { id: account.id, name: account.username ?? null };
+}
+
+/** Best effort: the connection is deleted on our side either way */
+async function revokeToken(provider: OAuthProvider, accessToken: string): Promise<void> {
+  try {
+    if (provider === "google") {
+      await postForm("https://oauth2.googleapis.com/revoke", { token: accessToken });
+    } else {
+      await fetch(`${META_GRAPH_URL}/me/permissions?access_token=${encodeURIComponent(accessToken)}`, {
+        method: "DELETE",
+      });
+    }
+  } catch (err) {
+    console.error(`Failed to revoke ${provider} token:`, err);
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Connecting and disconnecting
+// ---------------------------------------------------------------------------
+
+/** The provider's consent URL to send the user to */
+export async function getAuthorizationUrl(env: Env, userId: string, provider: OAuthProvider): Promise<string> {
+  if (!isProviderConfigured(env, provider)) {
+    throw new AppError(503, "PROVIDER_NOT_CONFIGURED", `${PROVIDER_LABEL[provider]} connections are not available`);
+  }
+  const state = await signState(env, userId, provider);
+
+  if (provider === "google") {
+    const params = new URLSearchParams({
+      client_id: env.GOOGLE_CLIENT_ID,
+      redirect_uri: redirectUri(env, provider),
+      response_type: "code",
+      scope: GOOGLE_SCOPES.join(" "),
+      // A refresh token is only issued with offline access, and again only on consent
+      access_type: "offline",
+      prompt: "consent",
+      include_granted_scopes: "true",
+      state,
+    });
+    return `https://accounts.google.com/o/oauth2/v2/auth?${params.toString()}`;
+  }
+
+  const params = new URLSearchParams({
+    client_id: env.META_APP_ID,
+    redirect_uri: redirectUri(env, provider),
+    response_type: "code",
+    scope: META_SCOPES.join(","),
+    state,
+  });
+  return `https://www.facebook.com/v19.0/dialog/oauth?${params.toString()}`;
+}
+
+/** Handle the provider's redirect: store the account's tokens, encrypted */
+export async function completeAuthorization(
+  env: Env,
+  provider: OAuthProvider,
+  code: string,
+  state: string | undefined
+): Promise<{ userId: string; account: ExternalAccount }> {
+  const userId = await verifyState(env, state, provider);
+  const key = encryptionKey(env);
+
+  const grant = provider === "google" ? await exchangeGoogleCode(env, code) : await exchangeMetaCode(env, code);
+  const account =
+    provider === "google" ? await getYouTubeChannel(grant.accessToken) : await getInstagramAccount(grant.accessToken);
+
+  await OAuthConnectionModel.upsert(env.DB, {
+    userId,
+    provider,
+    externalAccountId: account.id,
+    accountName: account.name,
+    scopes: grant.scopes ?? (provider === "google" ? GOOGLE_SCOPES : META_SCOPES).join(" "),
+    accessTokenEncrypted: await encryptSecret(grant.accessToken, key),
+    refreshTokenEncrypted: grant.refreshToken ? await encryptSecret(grant.refreshToken, key) : null,
+    tokenExpiresAt: expiresAt(grant.expiresInSeconds),
+  });
+  return { userId, account };
+}
+
+export async function disconnectAccount(env: Env, userId: string, provider: OAuthProvider): Promise<void> {
+  const connection = await OAuthConnectionModel.find(env.DB, userId, provider);
+  if (!connection) {
+    throw new AppError(404, "CONNECTION_NOT_FOUND", `No ${PROVIDER_LABEL[provider]} account is connected`);
+  }
+
+  const accessToken = await decryptSecret(connection.access_token_encrypted, encryptionKey(env)).catch(() => null);
+  if (accessToken) await revokeToken(provider, accessToken);
+  await OAuthConnectionModel.delete(env.DB, userId, provider);
+}
+
+// ---------------------------------------------------------------------------
+// Credentials for runs
+// ---------------------------------------------------------------------------
+
+/** Get a new access token; marks the connection expired if the provider refuses */
+async function refreshConnection(env: Env, connection: OAuthConnectionRow): Promise<string> {
+  const key = encryptionKey(env);
+  try {
+    let grant: TokenGrant;
+    if (connection.provider === "google") {
+      if (!connection.refresh_token_encrypted) {
+        throw new ConnectionRevokedError("No refresh token was granted");
+      }
+      grant = await refreshGoogleToken(env, await decryptSecret(connection.refresh_token_encrypted, key));
+    } else {
+      grant = await exchangeMetaToken(env, await decryptSecret(connection.access_token_encrypted, key));
+    }
+
+    await OAuthConnectionModel.updateTokens(env.DB, connection.id, {
+      accessTokenEncrypted: await encryptSecret(grant.accessToken, key),
+      refreshTokenEncrypted: grant.refreshToken ? await encryptSecret(grant.refreshToken, key) : undefined,
+      tokenExpiresAt: expiresAt(grant.expiresInSeconds),
+    });
+    return grant.accessToken;
+  } catch (err) {
+    if (err instanceof ConnectionRevokedError) {
+      await OAuthConnectionModel.markExpired(env.DB, connection.id, err.message);
+    }
+    throw err;
+  }
+}
+
+/**
+ * The user's connected account with a usable access token, refreshed if it
+ * is about to expire; null if none is connected
+ */
+export async function getConnectedAccount(
+  env: Env,
+  userId: string,
+  provider: OAuthProvider
+): Promise<ConnectedAccount | null> {
+  const connection = await OAuthConnectionModel.find(env.DB, userId, provider);
+  if (!connection) return null;
+  if (connection.status === "expired") {
+    throw new Error(`Your ${PROVIDER_LABEL[provider]} connection has expired; reconnect it in Settings`);
+  }
+
+  const expiresSoon =
+    connection.token_expires_at !== null &&
+    new Date(connection.token_expires_at).getTime() - Date.now() < REFRESH_MARGIN_SECONDS * 1000;
+  const accessToken = expiresSoon
+    ? await refreshConnection(env, connection)
+    : await decryptSecret(connection.access_token_encrypted, encryptionKey(env));
+
+  return {
+    accessToken,
+    accountId: connection.external_account_id,
+    accountName: connection.account_name,
+  };
+}
+
+/** The CredentialProvider handed to an agent run */
+export function createCredentialProvider(env: Env, userId: string): CredentialProvider {
+  return {
+    get: (provider) => getConnectedAccount(env, userId, provider),
+  };
+}
+
+/**
+ * Renew Meta long-lived tokens a week before they lapse; they can't be
+ * renewed once expired. Run from the cron trigger.
+ */
+export async function renewExpiringConnections(env: Env): Promise<{ renewed: number; failed: number }> {
+  const before = new Date(Date.now() + META_RENEW_BEFORE_SECONDS * 1000).toISOString();
+  const expiring = await OAuthConnectionModel.listExpiring(env.DB, "meta", before);
+
+  let renewed = 0;
+  let failed = 0;
+  for (const connection of expiring) {
+    try {
+      await refreshConnection(env, connection);
+      renewed++;
+    } catch (err) {
+      console.error(`Failed to renew ${connection.provider} connection ${connection.id}:`, err);
+      failed++;
+    }
+  }
+  return { renewed, failed };
+}
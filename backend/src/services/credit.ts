@@ -76,6 +76,29 @@ export async function reserveCredits(
   userId: string,
   amount: number,
   agentRunId: string
+): Promise<void> {
+  await reserve(db, userId, amount, { agentRunId }, `Credit reservation for agent run ${agentRunId}`);
+}
+
+/**
+ * Reserve credits for the remaining steps of a pipeline run. One reservation
+ * covers every step; the steps' agent runs don't reserve on their own.
+ */
+export async function reservePipelineCredits(
+  db: D1Database,
+  userId: string,
+  amount: number,
+  pipelineRunId: string
+): Promise<void> {
+  await reserve(db, userId, amount, { pipelineRunId }, `Credit reservation for pipeline run ${pipelineRunId}`);
+}
+
+async function reserve(
+  db: D1Database,
+  userId: string,
+  amount: number,
+  ref: { agentRunId?: string; pipelineRunId?: string },
+  description: string
 ): Promise<void> {
   if (amount <= 0) {
     throw new AppError(400, "INVALID_AMOUNT", "Amount must be positive");
@@ -93,10 +116,10 @@ export async function reserveCredits(
       .bind(amount, now, userId, amount),
     db
       .prepare(
-        `INSERT INTO credit_transaction (id, user_id, agent_run_id, type, amount, balance_after, description, created_at)
-         VALUES (?, ?, ?, 'reservation', ?, (SELECT (total_credits - used_credits - reserved_credits) FROM credit_balance WHERE user_id = ?), ?, ?)`
+        `INSERT INTO credit_transaction (id, user_id, agent_run_id, pipeline_run_id, type, amount, balance_after, description, created_at)
+         VALUES (?, ?, ?, ?, 'reservation', ?, (SELECT (total_credits - used_credits - reserved_credits) FROM credit_balance WHERE user_id = ?), ?, ?)`
       )
-      .bind(txId, userId, agentRunId, -amount, userId, `Credit reservation for agent run ${agentRunId}`, now),
+      .bind(txId, userId, ref.agentRunId ?? null, ref.pipelineRunId ?? null, -amount, userId, description, now),
   ]);
 
   // Check if the UPDATE actually modified a row
@@ -148,7 +171,8 @@ export async function refundCredits(
 /**
  * Settle credits after an agent run completes.
  * Moves from reserved to used (actual cost), returns excess to available.
- * Uses D1 batch transaction for atomicity.
+ * Uses D1 batch transaction for atomicity. Returns false, changing nothing,
+ * if the run's reservation was already settled (e.g. by the stale-run reaper).
  */
 export async function settleCredits(
   db: D1Database,
@@ -156,34 +180,72 @@ export async function settleCredits(
   reservedAmount: number,
   actualAmount: number,
   agentRunId: string
-): Promise<void> {
+): Promise<boolean> {
+  return settle(
+    db,
+    userId,
+    reservedAmount,
+    actualAmount,
+    { agentRunId },
+    `Settlement for agent run ${agentRunId}: reserved=${reservedAmount}, actual=${actualAmount}`
+  );
+}
+
+/** Settle a pipeline run's reservation against what its steps were charged */
+export async function settlePipelineCredits(
+  db: D1Database,
+  userId: string,
+  reservedAmount: number,
+  actualAmount: number,
+  pipelineRunId: string
+): Promise<boolean> {
+  return settle(
+    db,
+    userId,
+    reservedAmount,
+    actualAmount,
+    { pipelineRunId },
+    `Settlement for pipeline run ${pipelineRunId}: reserved=${reservedAmount}, actual=${actualAmount}`
+  );
+}
+
+async function settle(
+  db: D1Database,
+  userId: string,
+  reservedAmount: number,
+  actualAmount: number,
+  ref: { agentRunId?: string; pipelineRunId?: string },
+  description: string
+): Promise<boolean> {
   const txId = generateId();
   const now = new Date().toISOString();
   const refundAmount = reservedAmount - actualAmount;
 
-  await db.batch([
+  // Each reservation is settled once: both statements only apply while the
+  // run has more reservations than settlements, checked inside the batch
+  const refColumn = ref.agentRunId ? "agent_run_id = ?" : "pipeline_run_id = ? AND agent_run_id IS NULL";
+  const refId = ref.agentRunId ?? ref.pipelineRunId;
+  const unsettled = `(SELECT COUNT(*) FROM credit_transaction WHERE ${refColumn} AND type = 'reservation')
+    > (SELECT COUNT(*) FROM credit_transaction WHERE ${refColumn} AND type = 'settlement')`;
+
+  const results = await db.batch([
     db
       .prepare(
         `UPDATE credit_balance
          SET reserved_credits = reserved_credits - ?,
              used_credits = used_credits + ?,
              updated_at = ?
-         WHERE user_id = ?`
+         WHERE user_id = ? AND ${unsettled}`
       )
-      .bind(reservedAmount, actualAmount, now, userId),
+      .bind(reservedAmount, actualAmount, now, userId, refId, refId),
     db
       .prepare(
-        `INSERT INTO credit_transaction (id, user_id, agent_run_id, type, amount, balance_after, description, created_at)
-         VALUES (?, ?, ?, 'settlement', ?, (SELECT (total_credits - used_credits - reserved_credits) FROM credit_balance WHERE user_id = ?), ?, ?)`
+        `INSERT INTO credit_transaction (id, user_id, agent_run_id, pipeline_run_id, type, amount, balance_after, description, created_at)
+         SELECT ?, ?, ?, ?, 'settlement', ?, (SELECT (total_credits - used_credits - reserved_credits) FROM credit_balance WHERE user_id = ?), ?, ?
+         WHERE ${unsettled}`
       )
-      .bind(
-        txId,
-        userId,
-        agentRunId,
-        refundAmount,
-        userId,
-        `Settlement for agent run ${agentRunId}: reserved=${reservedAmount}, actual=${actualAmount}`,
-        now
-      ),
+      .bind(txId, userId, ref.agentRunId ?? null, ref.pipelineRunId ?? null, refundAmount, userId, description, now, refId, refId),
   ]);
+
+  return (results[1]?.meta.changes ?? 0) > 0;
 }
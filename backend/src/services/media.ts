@@ -0,0 +1,263 @@
+/**
+ * Media Upload Service.
+ *
+ * Users upload videos (for cross-platform-poster's videoR2Key) and images
+ * with an R2 multipart upload: create, upload parts, then complete or abort.
+ * Objects go under the user's sandbox prefix, and the size limit depends on
+ * their tier (sandbox config). The client reads duration and resolution from
+ * the file and sends them at creation. Parts must add up to that declared
+ * size (full UPLOAD_PART_SIZE_BYTES parts, then the remainder), the size is
+ * checked again against the completed object, which is then recorded as an
+ * artifact for the quota, and uploads left open are aborted by the cron.
+ */
+
+import type { Env } from "../types";
+import { buildSandboxConfig, userR2Prefix } from "../agents/sandbox/config";
+import { MediaModel, type MediaRow } from "../models/media";
+import { ArtifactModel } from "../models/artifact";
+import { PaymentOrderModel } from "../models/payment-order";
+import { getStorageUsage } from "./artifact";
+import { AppError } from "../middleware/error-handler";
+import { generateId } from "../utils/ulid";
+
+export const ALLOWED_MEDIA_TYPES = [
+  "video/mp4",
+  "video/quicktime",
+  "video/webm",
+  "image/jpeg",
+  "image/png",
+  "image/webp",
+];
+
+/** Size of every part but the last, which holds the rest; R2 needs at least 5 MiB */
+export const UPLOAD_PART_SIZE_BYTES = 10 * 1024 * 1024;
+const MAX_PARTS = 10_000;
+const MAX_DURATION_SECONDS = 60 * 60;
+const MAX_DIMENSION = 8192;
+// Uploads still open after this long are aborted, so their parts stop taking up storage
+const STALE_UPLOAD_SECONDS = 24 * 60 * 60;
+const STALE_UPLOAD_BATCH_SIZE = 50;
+
+export interface MediaUploadInput {
+  filename?: string;
+  contentType?: string;
+  sizeBytes?: number;
+  durationSeconds?: number;
+  width?: number;
+  height?: number;
+}
+
+export interface UploadedPart {
+  partNumber: number;
+  etag: string;
+}
+
+/** Paid tier once the user has completed a payment */
+async function maxUploadBytes(db: D1Database, userId: string): Promise<number> {
+  const tier = (await PaymentOrderModel.hasPaidOrder(db, userId)) ? "paid" : "free";
+  return buildSandboxConfig(userId, tier).maxUploadBytes;
+}
+
+function isPositive(value: unknown, max: number, integer = false): boolean {
+  return typeof value === "number" && Number.isFinite(value) && value > 0 && value <= max && (!integer || Number.isInteger(value));
+}
+
+/** Object keys keep to ASCII so they are safe in URLs and Content-Disposition */
+function keyFilename(filename: string): string {
+  const safe = filename.replace(/[^A-Za-z0-9._-]+/g, "_").replace(/^[._]+/, "");
+  return safe.slice(-100) || "upload";
+}
+
+function formatMb(bytes: number): string {
+  return `${Math.round(bytes / (1024 * 1024))} MB`;
+}
+
+/** Start a multipart upload under the user's prefix */
+export async function createMediaUpload(
+  env: Env,
+  userId: string,
+  input: MediaUploadInput
+): Promise<{ media: MediaRow; partSizeBytes: number; maxBytes: number }> {
+  const filename = input.filename?.trim();
+  if (!filename || filename.length > 255) {
+    throw new AppError(400, "BAD_REQUEST", "filename is required (at most 255 characters)");
+  }
+  if (!input.contentType || !ALLOWED_MEDIA_TYPES.includes(input.contentType)) {
+    throw new AppError(400, "UNSUPPORTED_MEDIA_TYPE", `contentType must be one of ${ALLOWED_MEDIA_TYPES.join(", ")}`, {
+      allowed: ALLOWED_MEDIA_TYPES,
+    });
+  }
+  if (input.durationSeconds !== undefined && !isPositive(input.durationSeconds, MAX_DURATION_SECONDS)) {
+    throw new AppError(400, "BAD_REQUEST", `durationSeconds must be between 0 and ${MAX_DURATION_SECONDS}`);
+  }
+  for (const field of ["width", "height"] as const) {
+    if (input[field] !== undefined && !isPositive(input[field], MAX_DIMENSION, true)) {
+      throw new AppError(400, "BAD_REQUEST", `${field} must be a whole number of pixels up to ${MAX_DIMENSION}`);
+    }
+  }
+
+  const maxBytes = await maxUploadBytes(env.DB, userId);
+  if (!isPositive(input.sizeBytes, Number.MAX_SAFE_INTEGER, true)) {
+    throw new AppError(400, "BAD_REQUEST", "sizeBytes must be a positive integer");
+  }
+  const sizeBytes = input.sizeBytes as number;
+  if (sizeBytes > maxBytes) {
+    throw new AppError(413, "FILE_TOO_LARGE", `Uploads are limited to ${formatMb(maxBytes)} on your plan`, { maxBytes });
+  }
+
+  const { usedBytes, quotaBytes } = await getStorageUsage(env, userId);
+  if (usedBytes + sizeBytes > quotaBytes) {
+    throw new AppError(413, "STORAGE_QUOTA_EXCEEDED", "Not enough storage left; delete files to free up space", {
+      usedBytes,
+      quotaBytes,
+    });
+  }
+
+  const id = generateId();
+  const key = `${userR2Prefix(userId)}media/${id}/${keyFilename(filename)}`;
+  const upload = await env.STORAGE.createMultipartUpload(key, {
+    httpMetadata: { contentType: input.contentType },
+    customMetadata: { mediaId: id },
+  });
+
+  const media = await MediaModel.create(env.DB, {
+    id,
+    userId,
+    r2Key: key,
+    uploadId: upload.uploadId,
+    filename,
+    contentType: input.contentType,
+    sizeBytes,
+    durationSeconds: input.durationSeconds,
+    width: input.width,
+    height: input.height,
+  });
+
+  return { media, partSizeBytes: UPLOAD_PART_SIZE_BYTES, maxBytes };
+}
+
+/** Load the user's media row, or throw 404/403 */
+export async function findOwnedMedia(db: D1Database, userId: string, mediaId: string): Promise<MediaRow> {
+  const media = await MediaModel.findById(db, mediaId);
+  if (!media) {
+    throw new AppError(404, "MEDIA_NOT_FOUND", "Media not found");
+  }
+  if (media.user_id !== userId) {
+    throw new AppError(403, "FORBIDDEN", "Media does not belong to this user");
+  }
+  return media;
+}
+
+async function findOpenUpload(db: D1Database, userId: string, mediaId: string): Promise<MediaRow> {
+  const media = await findOwnedMedia(db, userId, mediaId);
+  if (media.status !== "uploading") {
+    throw new AppError(409, "UPLOAD_CLOSED", `Upload is already ${media.status === "ready" ? "completed" : "aborted"}`);
+  }
+  return media;
+}
+
+export async function uploadMediaPart(
+  env: Env,
+  userId: string,
+  mediaId: string,
+  partNumber: number,
+  body: ArrayBuffer
+): Promise<UploadedPart> {
+  if (!Number.isInteger(partNumber) || partNumber < 1 || partNumber > MAX_PARTS) {
+    throw new AppError(400, "BAD_REQUEST", `partNumber must be between 1 and ${MAX_PARTS}`);
+  }
+
+  const media = await findOpenUpload(env.DB, userId, mediaId);
+
+  // Parts can only add up to the size declared (and checked) at creation
+  const partCount = Math.ceil(media.size_bytes / UPLOAD_PART_SIZE_BYTES);
+  if (partNumber > partCount) {
+    throw new AppError(400, "BAD_REQUEST", `partNumber must be between 1 and ${partCount} for this upload`);
+  }
+  const expectedBytes =
+    partNumber < partCount ? UPLOAD_PART_SIZE_BYTES : media.size_bytes - (partCount - 1) * UPLOAD_PART_SIZE_BYTES;
+  if (body.byteLength !== expectedBytes) {
+    throw new AppError(400, "BAD_REQUEST", `Part ${partNumber} must be exactly ${expectedBytes} bytes`, {
+      expectedBytes,
+    });
+  }
+
+  const upload = env.STORAGE.resumeMultipartUpload(media.r2_key, media.upload_id);
+  const part = await upload.uploadPart(partNumber, body);
+  return { partNumber: part.partNumber, etag: part.etag };
+}
+
+/** Assemble the uploaded parts; the object must still fit the tier's size limit */
+export async function completeMediaUpload(
+  env: Env,
+  userId: string,
+  mediaId: string,
+  parts: UploadedPart[] | undefined
+): Promise<MediaRow> {
+  const valid =
+    Array.isArray(parts) &&
+    parts.length > 0 &&
+    parts.every((p) => Number.isInteger(p?.partNumber) && typeof p?.etag === "string");
+  if (!valid) {
+    throw new AppError(400, "BAD_REQUEST", "parts must list each uploaded part's partNumber and etag");
+  }
+
+  const media = await findOpenUpload(env.DB, userId, mediaId);
+  const upload = env.STORAGE.resumeMultipartUpload(media.r2_key, media.upload_id);
+
+  let object: R2Object;
+  try {
+    object = await upload.complete([...parts].sort((a, b) => a.partNumber - b.partNumber));
+  } catch (err) {
+    throw new AppError(400, "UPLOAD_FAILED", err instanceof Error ? err.message : "Could not complete the upload");
+  }
+
+  const maxBytes = await maxUploadBytes(env.DB, userId);
+  if (object.size > maxBytes) {
+    await env.STORAGE.delete(media.r2_key);
+    await MediaModel.markAborted(env.DB, media.id);
+    throw new AppError(413, "FILE_TOO_LARGE", `Uploads are limited to ${formatMb(maxBytes)} on your plan`, { maxBytes });
+  }
+
+  await MediaModel.markReady(env.DB, media.id, object.size);
+  await ArtifactModel.upsert(env.DB, {
+    userId,
+    r2Key: media.r2_key,
+    contentType: media.content_type,
+    sizeBytes: object.size,
+  });
+  return (await MediaModel.findById(env.DB, media.id))!;
+}
+
+export async function abortMediaUpload(env: Env, userId: string, mediaId: string): Promise<void> {
+  const media = await findOpenUpload(env.DB, userId, mediaId);
+  await env.STORAGE.resumeMultipartUpload(media.r2_key, media.upload_id).abort();
+  await MediaModel.markAborted(env.DB, media.id);
+}
+
+/**
+ * Abort uploads left open past STALE_UPLOAD_SECONDS, run from the scheduled
+ * (cron) handler. Returns the ids of the aborted uploads.
+ */
+export async function abortStaleMediaUploads(env: Env): Promise<string[]> {
+  const stale = await MediaModel.listStaleUploads(env.DB, STALE_UPLOAD_SECONDS, STALE_UPLOAD_BATCH_SIZE);
+  const aborted: string[] = [];
+  for (const media of stale) {
+    try {
+      await env.STORAGE.resumeMultipartUpload(media.r2_key, media.upload_id).abort();
+    } catch (err) {
+      // Most likely R2 already discarded it; the row is closed either way
+      console.warn(`Could not abort stale upload ${media.id} in R2:`, err);
+    }
+    try {
+      await MediaModel.markAborted(env.DB, media.id);
+      aborted.push(media.id);
+    } catch (err) {
+      console.error(`Failed to mark stale upload ${media.id} aborted:`, err);
+    }
+  }
+  if (aborted.length > 0) {
+    console.warn(`Aborted ${aborted.length} stale media upload(s)`, aborted);
+  }
+  return aborted;
+}
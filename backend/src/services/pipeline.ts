@@ -0,0 +1,493 @@
+// Agent pipelines.
+// A pipeline is a saved sequence of the user's agent configs, e.g.
+// trend research -> script -> SEO -> thumbnail -> post. A step's params are its
+// static params, overlaid with fields mapped from earlier steps'
+// AgentOutput.data and then the run's per-step overrides.
+//
+// Steps execute one at a time as ordinary agent runs on the run queue (tagged
+// with pipeline_run_id, so they don't reserve credits themselves). The pipeline
+// run holds a single reservation sized from the steps' estimatedCredits.max and
+// settles it once when it completes, fails or is cancelled. A failed or
+// cancelled run resumes from its first unfinished step under a new reservation.
+
+import type { Env } from "../types";
+import type { AgentMeta, ValidationError } from "../agents/framework/types";
+import { AgentLifecycleManager } from "../agents/framework/lifecycle";
+import { AgentConfigModel, type AgentConfigRow } from "../models/agent-config";
+import { AgentRunModel } from "../models/agent-run";
+import { CreditBalanceModel } from "../models/credit-balance";
+import {
+  PipelineModel,
+  PipelineRunModel,
+  PipelineRunStepModel,
+  type PipelineRunRow,
+  type PipelineRunStatus,
+} from "../models/pipeline";
+import { AppError } from "../middleware/error-handler";
+import { getAgent } from "./agent-runner";
+import { reservePipelineCredits, settlePipelineCredits } from "./credit";
+import { enqueueAgentRun } from "./run-queue";
+
+const MAX_PIPELINE_STEPS = 10;
+const STEP_ID_PATTERN = /^[a-z0-9][a-z0-9_-]{0,39}$/i;
+
+export interface PipelineStepMapping {
+  /** Param to set on this step; dotted for nested params, e.g. "youtube.categoryId" */
+  param: string;
+  /** Id of an earlier step */
+  fromStep: string;
+  /** Path into that step's AgentOutput.data, e.g. "youtube.trendingTopics[0].topic" */
+  field: string;
+}
+
+export interface PipelineStep {
+  /** Unique within the pipeline; mappings and run params refer to steps by id */
+  id: string;
+  agentConfigId: string;
+  params?: Record<string, unknown>;
+  mappings?: PipelineStepMapping[];
+}
+
+/** Per-step param overrides for a run, keyed by step id */
+export type PipelineRunParams = Record<string, Record<string, unknown>>;
+
+type WaitUntil = Pick<ExecutionContext, "waitUntil">;
+
+interface StepAgent {
+  config: AgentConfigRow;
+  meta: AgentMeta;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Check a pipeline definition: unique step ids, the user's own runnable
+ * configs, and mappings that only read from earlier steps into params the
+ * agent declares. Throws VALIDATION_FAILED with per-field details.
+ */
+export async function validatePipelineSteps(
+  db: D1Database,
+  userId: string,
+  input: unknown
+): Promise<PipelineStep[]> {
+  const errors: ValidationError[] = [];
+  const fail = (field: string, message: string, code: string) => errors.push({ field, message, code });
+
+  if (!Array.isArray(input) || input.length === 0) {
+    throw new AppError(400, "VALIDATION_FAILED", "A pipeline needs at least one step", [
+      { field: "steps", message: "A pipeline needs at least one step", code: "REQUIRED" },
+    ]);
+  }
+  if (input.length > MAX_PIPELINE_STEPS) {
+    throw new AppError(400, "VALIDATION_FAILED", `A pipeline can have at most ${MAX_PIPELINE_STEPS} steps`, [
+      { field: "steps", message: `At most ${MAX_PIPELINE_STEPS} steps`, code: "OUT_OF_RANGE" },
+    ]);
+  }
+
+  const steps: PipelineStep[] = [];
+  const seen = new Set<string>();
+
+  for (const [i, raw] of input.entries()) {
+    const path = `steps[${i}]`;
+    if (!isPlainObject(raw)) {
+      fail(path, "Step must be an object", "INVALID_TYPE");
+      continue;
+    }
+
+    const id = typeof raw.id === "string" ? raw.id.trim() : "";
+    if (!STEP_ID_PATTERN.test(id)) {
+      fail(`${path}.id`, "Step id must be 1-40 letters, digits, '-' or '_'", "INVALID_TYPE");
+    } else if (seen.has(id)) {
+      fail(`${path}.id`, `Duplicate step id "${id}"`, "DUPLICATE");
+    }
+
+    let meta: AgentMeta | null = null;
+    if (typeof raw.agentConfigId !== "string" || !raw.agentConfigId) {
+      fail(`${path}.agentConfigId`, "agentConfigId is required", "REQUIRED");
+    } else {
+      const config = await AgentConfigModel.findById(db, raw.agentConfigId);
+      if (!config || config.user_id !== userId) {
+        fail(`${path}.agentConfigId`, "Agent configuration not found", "INVALID_REFERENCE");
+      } else {
+        meta = getAgent(config.agent_template_id);
+        if (!meta) fail(`${path}.agentConfigId`, `No runnable agent for template ${config.agent_template_id}`, "INVALID_REFERENCE");
+      }
+    }
+
+    if (raw.params !== undefined && !isPlainObject(raw.params)) {
+      fail(`${path}.params`, "params must be an object", "INVALID_TYPE");
+    }
+
+    const mappings: PipelineStepMapping[] = [];
+    if (raw.mappings !== undefined && !Array.isArray(raw.mappings)) {
+      fail(`${path}.mappings`, "mappings must be an array", "INVALID_TYPE");
+    }
+    for (const [j, mapping] of (Array.isArray(raw.mappings) ? raw.mappings : []).entries()) {
+      const mpath = `${path}.mappings[${j}]`;
+      if (!isPlainObject(mapping)) {
+        fail(mpath, "Mapping must be an object", "INVALID_TYPE");
+        continue;
+      }
+      const { param, fromStep, field } = mapping;
+      if (typeof param !== "string" || !param) {
+        fail(`${mpath}.param`, "param is required", "REQUIRED");
+      } else if (meta && !meta.paramsSchema.properties?.[param.split(".")[0]]) {
+        fail(`${mpath}.param`, `${meta.id} has no param "${param.split(".")[0]}"`, "INVALID_REFERENCE");
+      }
+      if (typeof fromStep !== "string" || !seen.has(fromStep)) {
+        fail(`${mpath}.fromStep`, "fromStep must be the id of an earlier step", "INVALID_REFERENCE");
+      }
+      if (typeof field !== "string" || !field) {
+        fail(`${mpath}.field`, "field is required", "REQUIRED");
+      }
+      if (typeof param === "string" && typeof fromStep === "string" && typeof field === "string") {
+        mappings.push({ param, fromStep, field });
+      }
+    }
+
+    if (id) seen.add(id);
+    steps.push({
+      id,
+      agentConfigId: raw.agentConfigId as string,
+      ...(isPlainObject(raw.params) ? { params: raw.params } : {}),
+      ...(mappings.length > 0 ? { mappings } : {}),
+    });
+  }
+
+  if (errors.length > 0) {
+    throw new AppError(
+      400,
+      "VALIDATION_FAILED",
+      `Validation failed: ${errors.map((e) => e.message).join(", ")}`,
+      errors
+    );
+  }
+  return steps;
+}
+
+/** Sum of the steps' max estimates, i.e. what a run reserves up front */
+export async function estimatePipelineCredits(db: D1Database, userId: string, steps: PipelineStep[]): Promise<number> {
+  const agents = await loadStepAgents(db, userId, steps);
+  return agents.reduce((sum, agent) => sum + agent.meta.estimatedCredits.max, 0);
+}
+
+// Resolve each step's config and agent, requiring them to still be runnable
+async function loadStepAgents(db: D1Database, userId: string, steps: PipelineStep[]): Promise<StepAgent[]> {
+  const agents: StepAgent[] = [];
+  for (const step of steps) {
+    const config = await AgentConfigModel.findById(db, step.agentConfigId);
+    if (!config || config.user_id !== userId) {
+      throw new AppError(400, "CONFIG_NOT_FOUND", `Agent configuration for step "${step.id}" not found`);
+    }
+    if (config.status !== "active") {
+      throw new AppError(400, "CONFIG_INACTIVE", `Agent configuration for step "${step.id}" is not active`);
+    }
+    const meta = getAgent(config.agent_template_id);
+    if (!meta) {
+      throw new AppError(400, "AGENT_NOT_RUNNABLE", `No runnable agent for template ${config.agent_template_id}`);
+    }
+    agents.push({ config, meta });
+  }
+  return agents;
+}
+
+async function ensureBalance(db: D1Database, userId: string, amount: number): Promise<void> {
+  const balance = await CreditBalanceModel.findByUserId(db, userId);
+  if (!balance || balance.available_credits < amount) {
+    throw new AppError(402, "INSUFFICIENT_CREDITS", "Insufficient credits for this operation");
+  }
+}
+
+/**
+ * Start a pipeline run: reserve credits for every step and queue the first.
+ */
+export async function startPipelineRun(
+  env: Env,
+  ctx: WaitUntil,
+  userId: string,
+  pipelineId: string,
+  params: PipelineRunParams = {}
+): Promise<{ pipelineRunId: string; creditsReserved: number }> {
+  const pipeline = await PipelineModel.findById(env.DB, pipelineId);
+  if (!pipeline) {
+    throw new AppError(404, "PIPELINE_NOT_FOUND", "Pipeline not found");
+  }
+  if (pipeline.user_id !== userId) {
+    throw new AppError(403, "FORBIDDEN", "Pipeline does not belong to this user");
+  }
+  if (pipeline.status !== "active") {
+    throw new AppError(400, "PIPELINE_INACTIVE", "Pipeline is not active");
+  }
+
+  const steps = JSON.parse(pipeline.steps_json) as PipelineStep[];
+  const agents = await loadStepAgents(env.DB, userId, steps);
+  const creditsToReserve = agents.reduce((sum, agent) => sum + agent.meta.estimatedCredits.max, 0);
+  await ensureBalance(env.DB, userId, creditsToReserve);
+
+  const run = await PipelineRunModel.create(env.DB, {
+    pipelineId,
+    userId,
+    stepsJson: pipeline.steps_json,
+    paramsJson: JSON.stringify(params),
+    steps: steps.map((step) => ({ stepId: step.id, agentConfigId: step.agentConfigId })),
+  });
+
+  await reserveAndStart(env, ctx, run, 0, creditsToReserve);
+  return { pipelineRunId: run.id, creditsReserved: creditsToReserve };
+}
+
+/**
+ * Resume a failed or cancelled pipeline run from its first unfinished step.
+ * `params` replaces the run's overrides for the steps it names.
+ */
+export async function resumePipelineRun(
+  env: Env,
+  ctx: WaitUntil,
+  userId: string,
+  pipelineRunId: string,
+  params: PipelineRunParams = {}
+): Promise<{ pipelineRunId: string; creditsReserved: number; fromStep: string }> {
+  const run = await findOwnedRun(env.DB, userId, pipelineRunId);
+  if (run.status !== "failed" && run.status !== "cancelled") {
+    throw new AppError(400, "INVALID_STATUS", `Cannot resume pipeline run with status ${run.status}`);
+  }
+
+  const steps = JSON.parse(run.steps_json) as PipelineStep[];
+  const stepRows = await PipelineRunStepModel.listByRunId(env.DB, run.id);
+  const from = stepRows.findIndex((row) => row.status !== "completed");
+  if (from === -1) {
+    throw new AppError(400, "INVALID_STATUS", "Every step of this pipeline run has completed");
+  }
+
+  const agents = await loadStepAgents(env.DB, userId, steps.slice(from));
+  const creditsToReserve = agents.reduce((sum, agent) => sum + agent.meta.estimatedCredits.max, 0);
+  await ensureBalance(env.DB, userId, creditsToReserve);
+
+  if (Object.keys(params).length > 0) {
+    const merged = { ...(JSON.parse(run.params_json) as PipelineRunParams), ...params };
+    await PipelineRunModel.setParams(env.DB, run.id, JSON.stringify(merged));
+    run.params_json = JSON.stringify(merged);
+  }
+  await PipelineRunStepModel.resetFrom(env.DB, run.id, from);
+
+  await reserveAndStart(env, ctx, run, from, creditsToReserve);
+  return { pipelineRunId: run.id, creditsReserved: creditsToReserve, fromStep: steps[from].id };
+}
+
+async function reserveAndStart(
+  env: Env,
+  ctx: WaitUntil,
+  run: PipelineRunRow,
+  fromStep: number,
+  creditsToReserve: number
+): Promise<void> {
+  // Claim first so concurrent resumes can't both reserve
+  if (!(await PipelineRunModel.markReserved(env.DB, run.id, creditsToReserve, fromStep))) {
+    throw new AppError(409, "PIPELINE_RUN_ACTIVE", "Pipeline run is already running");
+  }
+  try {
+    await reservePipelineCredits(env.DB, run.user_id, creditsToReserve, run.id);
+  } catch (err) {
+    // Nothing was reserved, so finish without settling
+    await PipelineRunModel.finish(env.DB, run.id, {
+      status: "failed",
+      creditsCharged: 0,
+      errorMessage: err instanceof AppError ? err.message : "Failed to reserve credits",
+    });
+    throw err;
+  }
+
+  await startStep(env, ctx, { ...run, status: "running", credits_reserved: creditsToReserve, reservation_start_step: fromStep }, fromStep);
+}
+
+// Create the step's agent run with its resolved params and queue it
+async function startStep(env: Env, ctx: WaitUntil, run: PipelineRunRow, index: number): Promise<void> {
+  const steps = JSON.parse(run.steps_json) as PipelineStep[];
+  const step = steps[index];
+
+  const config = await AgentConfigModel.findById(env.DB, step.agentConfigId);
+  const meta = config && config.status === "active" ? getAgent(config.agent_template_id) : null;
+  if (!config || !meta) {
+    await finishPipelineRun(env.DB, run.id, "failed", `Step "${step.id}": agent configuration is no longer runnable`);
+    return;
+  }
+
+  const params = await resolveStepParams(env.DB, run, steps, index);
+  const agentRun = await AgentRunModel.create(env.DB, {
+    agentConfigId: config.id,
+    userId: run.user_id,
+    creditsReserved: meta.estimatedCredits.max,
+    inputJson: JSON.stringify(params),
+    pipelineRunId: run.id,
+  });
+  await PipelineRunStepModel.markRunning(env.DB, run.id, index, agentRun.id);
+  await PipelineRunModel.setCurrentStep(env.DB, run.id, index);
+
+  try {
+    await enqueueAgentRun(env, ctx, agentRun.id);
+  } catch (err) {
+    console.error(`Failed to queue step "${step.id}" of pipeline run ${run.id}:`, err);
+    await AgentRunModel.updateStatus(env.DB, agentRun.id, {
+      status: "failed",
+      errorMessage: "Failed to queue agent run",
+      completedAt: new Date().toISOString(),
+    });
+    await syncPipelineStep(env, ctx, run.id);
+  }
+}
+
+async function resolveStepParams(
+  db: D1Database,
+  run: PipelineRunRow,
+  steps: PipelineStep[],
+  index: number
+): Promise<Record<string, unknown>> {
+  const step = steps[index];
+  const params: Record<string, unknown> = structuredClone(step.params ?? {});
+  const outputs = new Map<string, unknown>();
+
+  for (const mapping of step.mappings ?? []) {
+    if (!outputs.has(mapping.fromStep)) {
+      outputs.set(mapping.fromStep, await loadStepOutput(db, run.id, steps, mapping.fromStep));
+    }
+    const value = readPath(outputs.get(mapping.fromStep), mapping.field);
+    // Leave the param to its static value or schema default when the field is absent
+    if (value !== undefined) writePath(params, mapping.param, value);
+  }
+
+  const overrides = (JSON.parse(run.params_json) as PipelineRunParams)[step.id];
+  return { ...params, ...(overrides ?? {}) };
+}
+
+// AgentOutput.data of a completed earlier step
+async function loadStepOutput(db: D1Database, pipelineRunId: string, steps: PipelineStep[], stepId: string): Promise<unknown> {
+  const index = steps.findIndex((s) => s.id === stepId);
+  const row = index >= 0 ? await PipelineRunStepModel.findByIndex(db, pipelineRunId, index) : null;
+  if (!row?.agent_run_id || row.status !== "completed") return undefined;
+  const agentRun = await AgentRunModel.findById(db, row.agent_run_id);
+  if (!agentRun?.output_json) return undefined;
+  return (JSON.parse(agentRun.output_json) as { data?: unknown }).data;
+}
+
+// "a.b[0].c" -> ["a", "b", "0", "c"]
+function pathSegments(path: string): string[] {
+  return path.match(/[^.[\]]+/g) ?? [];
+}
+
+function readPath(value: unknown, path: string): unknown {
+  let current = value;
+  for (const segment of pathSegments(path)) {
+    if (current === null || typeof current !== "object") return undefined;
+    current = (current as Record<string, unknown>)[segment];
+  }
+  return current;
+}
+
+function writePath(target: Record<string, unknown>, path: string, value: unknown): void {
+  const segments = pathSegments(path);
+  let current = target;
+  for (const segment of segments.slice(0, -1)) {
+    if (!isPlainObject(current[segment])) current[segment] = {};
+    current = current[segment] as Record<string, unknown>;
+  }
+  current[segments[segments.length - 1]] = value;
+}
+
+/**
+ * Advance a pipeline run once its current step's agent run has finished:
+ * queue the next step, or settle the run when it completes, fails or is
+ * cancelled. Called by the run queue consumer, the reaper and cancel paths;
+ * safe to call more than once.
+ */
+export async function syncPipelineStep(env: Env, ctx: WaitUntil, pipelineRunId: string): Promise<void> {
+  const run = await PipelineRunModel.findById(env.DB, pipelineRunId);
+  if (!run || run.status !== "running") return;
+
+  const stepRow = await PipelineRunStepModel.findByIndex(env.DB, run.id, run.current_step);
+  if (!stepRow || stepRow.status !== "running" || !stepRow.agent_run_id) return;
+
+  const agentRun = await AgentRunModel.findById(env.DB, stepRow.agent_run_id);
+  if (agentRun && (agentRun.status === "pending" || agentRun.status === "running")) return;
+
+  const status: PipelineRunStatus = agentRun?.status ?? "failed";
+  const errorMessage = agentRun ? agentRun.error_message ?? undefined : "Agent run not found";
+  const recorded = await PipelineRunStepModel.finish(env.DB, run.id, run.current_step, {
+    status,
+    creditsActual: agentRun?.credits_actual ?? 0,
+    errorMessage,
+  });
+  if (!recorded) return;
+
+  if (status !== "completed") {
+    await finishPipelineRun(
+      env.DB,
+      run.id,
+      status,
+      `Step "${stepRow.step_id}" ${status === "cancelled" ? "was cancelled" : "failed"}${errorMessage ? `: ${errorMessage}` : ""}`
+    );
+    return;
+  }
+
+  const steps = JSON.parse(run.steps_json) as PipelineStep[];
+  if (run.current_step + 1 < steps.length) {
+    await startStep(env, ctx, run, run.current_step + 1);
+  } else {
+    await finishPipelineRun(env.DB, run.id, "completed");
+  }
+}
+
+// Finish the run and settle its reservation against the steps it covered
+async function finishPipelineRun(
+  db: D1Database,
+  pipelineRunId: string,
+  status: PipelineRunStatus,
+  errorMessage?: string
+): Promise<void> {
+  const run = await PipelineRunModel.findById(db, pipelineRunId);
+  if (!run || run.status !== "running") return;
+
+  const used = await PipelineRunStepModel.sumCreditsFrom(db, run.id, run.reservation_start_step);
+  const charged = Math.min(run.credits_reserved, used);
+  // Finish first so a concurrent sync can't settle the same reservation twice
+  if (!(await PipelineRunModel.finish(db, run.id, { status, creditsCharged: charged, errorMessage }))) return;
+  if (run.credits_reserved > 0) {
+    await settlePipelineCredits(db, run.user_id, run.credits_reserved, charged, run.id);
+  }
+}
+
+/**
+ * Cancel a running pipeline run by cancelling its current step. A step still
+ * waiting in the queue is cancelled outright; a running one stops at its next
+ * step and the queue consumer settles the pipeline.
+ */
+export async function cancelPipelineRun(env: Env, ctx: WaitUntil, userId: string, pipelineRunId: string): Promise<void> {
+  const run = await findOwnedRun(env.DB, userId, pipelineRunId);
+  if (run.status !== "running") {
+    throw new AppError(400, "INVALID_STATUS", `Cannot cancel pipeline run with status ${run.status}`);
+  }
+
+  const stepRow = await PipelineRunStepModel.findByIndex(env.DB, run.id, run.current_step);
+  if (!stepRow?.agent_run_id) {
+    await finishPipelineRun(env.DB, run.id, "cancelled", "Pipeline run was cancelled");
+    return;
+  }
+
+  if (!(await AgentRunModel.cancelPending(env.DB, stepRow.agent_run_id))) {
+    await AgentRunModel.requestCancel(env.DB, stepRow.agent_run_id);
+    AgentLifecycleManager.cancel(stepRow.agent_run_id);
+  }
+  await syncPipelineStep(env, ctx, run.id);
+}
+
+export async function findOwnedRun(db: D1Database, userId: string, pipelineRunId: string): Promise<PipelineRunRow> {
+  const run = await PipelineRunModel.findById(db, pipelineRunId);
+  if (!run) {
+    throw new AppError(404, "PIPELINE_RUN_NOT_FOUND", "Pipeline run not found");
+  }
+  if (run.user_id !== userId) {
+    throw new AppError(403, "FORBIDDEN", "Pipeline run does not belong to this user");
+  }
+  return run;
+}
@@ -0,0 +1,51 @@
+// Prompt cache for agent runs.
+// Stores responses to cacheable LLM requests in D1 (llm_response_cache) so
+// identical requests within the TTL are answered without a provider call.
+
+import type { Env } from "../types";
+import type { CachedLLMResponse, LLMProvider, PromptCache } from "../agents/framework/types";
+import { LlmResponseCacheModel } from "../models/llm-response-cache";
+
+const DEFAULT_PROMPT_CACHE_TTL_SECONDS = 24 * 60 * 60;
+
+function promptCacheTtlSeconds(env: Env): number {
+  const ttl = parseInt(env.PROMPT_CACHE_TTL_SECONDS ?? "", 10);
+  return Number.isFinite(ttl) && ttl >= 0 ? ttl : DEFAULT_PROMPT_CACHE_TTL_SECONDS;
+}
+
+/**
+ * The PromptCache handed to an agent run, or null when the TTL is 0.
+ * Cache errors are logged and treated as misses, so they never fail a call.
+ */
+export function createPromptCache(env: Env): PromptCache | null {
+  const ttlSeconds = promptCacheTtlSeconds(env);
+  if (ttlSeconds === 0) return null;
+
+  return {
+    async get(key: string): Promise<CachedLLMResponse | null> {
+      try {
+        const row = await LlmResponseCacheModel.find(env.DB, key);
+        if (!row) return null;
+        await LlmResponseCacheModel.recordHit(env.DB, key);
+        return {
+          content: row.content,
+          model: row.model,
+          provider: row.provider as LLMProvider,
+          inputTokens: row.input_tokens,
+          outputTokens: row.output_tokens,
+        };
+      } catch (err) {
+        console.error("Prompt cache lookup failed:", err);
+        return null;
+      }
+    },
+
+    async put(key: string, response: CachedLLMResponse): Promise<void> {
+      try {
+        await LlmResponseCacheModel.put(env.DB, { cacheKey: key, ...response, ttlSeconds });
+      } catch (err) {
+        console.error("Failed to store prompt cache entry:", err);
+      }
+    },
+  };
+}
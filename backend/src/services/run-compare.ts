@@ -0,0 +1,198 @@
+// Side-by-side comparison of agent runs, e.g. a run and its re-runs or forks.
+// Each section lines the runs' outputs up in request order: inputs that
+// differ, script sections by position, SEO title sets, hashtags (common to
+// all vs. unique to one) and thumbnail artifacts. A section is null when no
+// compared run produced it; a run without it gets an empty entry.
+
+import type { ArtifactRef } from "../agents/framework/types";
+import { toDisplayStatus, type AgentRunRow } from "../models/agent-run";
+
+export const MIN_COMPARE_RUNS = 2;
+export const MAX_COMPARE_RUNS = 4;
+
+interface StoredOutput {
+  data?: Record<string, unknown>;
+  summary?: string;
+  artifacts?: ArtifactRef[];
+}
+
+export interface ScriptSectionVersion {
+  label: string;
+  startTime?: string;
+  endTime?: string;
+  content: string;
+  visualDirection?: string;
+}
+
+export interface ThumbnailVersion {
+  key: string;
+  url?: string;
+  style?: string;
+  overlayText?: string;
+}
+
+export interface RunComparison {
+  runs: {
+    id: string;
+    agentConfigId: string;
+    parentRunId: string | null;
+    status: string;
+    summary: string | null;
+    creditsActual: number | null;
+    createdAt: string;
+  }[];
+  /** Params whose values differ between runs, one value per run */
+  inputDiff: { field: string; values: unknown[] }[];
+  script: {
+    /** One row per section position; `changed` if any run's content differs */
+    sections: { index: number; changed: boolean; versions: (ScriptSectionVersion | null)[] }[];
+    hooks: string[][];
+  } | null;
+  titles: {
+    versions: { title: string; score?: number }[][];
+    common: string[];
+    unique: string[][];
+  } | null;
+  hashtags: {
+    versions: string[][];
+    common: string[];
+    unique: string[][];
+  } | null;
+  thumbnails: { versions: ThumbnailVersion[][] } | null;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function asArray(value: unknown): unknown[] {
+  return Array.isArray(value) ? value : [];
+}
+
+function parseJson<T>(json: string | null): T | null {
+  if (!json) return null;
+  try {
+    return JSON.parse(json) as T;
+  } catch {
+    return null;
+  }
+}
+
+/** Items in every list, and per list the items no other list has (compared case-insensitively) */
+function setDiff(lists: string[][]): { common: string[]; unique: string[][] } {
+  const normalized = lists.map((list) => new Set(list.map((item) => item.toLowerCase())));
+  const common = lists[0]?.filter((item) => normalized.every((set) => set.has(item.toLowerCase()))) ?? [];
+  const unique = lists.map((list, i) =>
+    list.filter((item) => normalized.every((set, j) => j === i || !set.has(item.toLowerCase())))
+  );
+  return { common, unique };
+}
+
+function diffInputs(inputs: Record<string, unknown>[]): RunComparison["inputDiff"] {
+  const fields = [...new Set(inputs.flatMap((input) => Object.keys(input)))].sort();
+  return fields
+    .map((field) => ({ field, values: inputs.map((input) => input[field] ?? null) }))
+    .filter(({ values }) => new Set(values.map((v) => JSON.stringify(v))).size > 1);
+}
+
+function toSection(raw: unknown): ScriptSectionVersion | null {
+  if (!isRecord(raw) || typeof raw.content !== "string") return null;
+  return {
+    label: typeof raw.label === "string" ? raw.label : "",
+    startTime: typeof raw.startTime === "string" ? raw.startTime : undefined,
+    endTime: typeof raw.endTime === "string" ? raw.endTime : undefined,
+    content: raw.content,
+    visualDirection: typeof raw.visualDirection === "string" ? raw.visualDirection : undefined,
+  };
+}
+
+function compareScripts(data: Record<string, unknown>[]): RunComparison["script"] {
+  if (!data.some((d) => Array.isArray(d.script))) return null;
+
+  const scripts = data.map((d) => asArray(d.script).map(toSection));
+  const length = Math.max(...scripts.map((s) => s.length));
+  const sections = Array.from({ length }, (_, index) => {
+    const versions = scripts.map((s) => s[index] ?? null);
+    const contents = new Set(versions.map((v) => v?.content.trim() ?? null));
+    return { index, changed: contents.size > 1, versions };
+  });
+
+  const hooks = data.map((d) =>
+    asArray(d.hooks)
+      .map((hook) => (isRecord(hook) && typeof hook.text === "string" ? hook.text : null))
+      .filter((text): text is string => text !== null)
+  );
+  return { sections, hooks };
+}
+
+function compareTitles(data: Record<string, unknown>[]): RunComparison["titles"] {
+  if (!data.some((d) => Array.isArray(d.titles))) return null;
+
+  const versions = data.map((d) =>
+    asArray(d.titles).flatMap((t) => {
+      if (typeof t === "string") return [{ title: t }];
+      if (isRecord(t) && typeof t.title === "string") {
+        return [{ title: t.title, score: typeof t.score === "number" ? t.score : undefined }];
+      }
+      return [];
+    })
+  );
+  return { versions, ...setDiff(versions.map((v) => v.map((t) => t.title))) };
+}
+
+function compareHashtags(data: Record<string, unknown>[]): RunComparison["hashtags"] {
+  if (!data.some((d) => Array.isArray(d.hashtags))) return null;
+
+  const versions = data.map((d) =>
+    asArray(d.hashtags).filter((tag): tag is string => typeof tag === "string")
+  );
+  return { versions, ...setDiff(versions) };
+}
+
+function compareThumbnails(outputs: (StoredOutput | null)[]): RunComparison["thumbnails"] {
+  const versions = outputs.map((output) => {
+    const thumbnails: ThumbnailVersion[] = asArray(output?.data?.thumbnails).flatMap((t) => {
+      if (!isRecord(t) || typeof t.r2Key !== "string") return [];
+      const overlay = isRecord(t.textOverlayPlan) ? t.textOverlayPlan.text : undefined;
+      return [{
+        key: t.r2Key,
+        url: typeof t.url === "string" ? t.url : undefined,
+        style: typeof t.style === "string" ? t.style : undefined,
+        overlayText: typeof overlay === "string" ? overlay : undefined,
+      }];
+    });
+    // Image artifacts the agent didn't describe in its data
+    const described = new Set(thumbnails.map((t) => t.key));
+    for (const artifact of output?.artifacts ?? []) {
+      if (artifact.contentType.startsWith("image/") && !described.has(artifact.key)) {
+        thumbnails.push({ key: artifact.key, url: artifact.url });
+      }
+    }
+    return thumbnails;
+  });
+  return versions.some((v) => v.length > 0) ? { versions } : null;
+}
+
+/** Compare runs' inputs and outputs; `runs` are in the order to show them */
+export function compareRuns(runs: AgentRunRow[]): RunComparison {
+  const outputs = runs.map((run) => parseJson<StoredOutput>(run.output_json));
+  const data = outputs.map((output) => (isRecord(output?.data) ? output.data : {}));
+  const inputs = runs.map((run) => parseJson<Record<string, unknown>>(run.input_json) ?? {});
+
+  return {
+    runs: runs.map((run, i) => ({
+      id: run.id,
+      agentConfigId: run.agent_config_id,
+      parentRunId: run.parent_run_id,
+      status: toDisplayStatus(run),
+      summary: outputs[i]?.summary ?? null,
+      creditsActual: run.credits_actual,
+      createdAt: run.created_at,
+    })),
+    inputDiff: diffInputs(inputs),
+    script: compareScripts(data),
+    titles: compareTitles(data),
+    hashtags: compareHashtags(data),
+    thumbnails: compareThumbnails(outputs),
+  };
+}
@@ -0,0 +1,163 @@
+// Per-run progress event log.
+// The runner appends events to D1 as the agent yields them; the SSE endpoint
+// tails the log, so any isolate can serve a client and reconnects replay from
+// Last-Event-ID.
+
+import type { SSEStreamingApi } from "hono/streaming";
+import type { ProgressEvent } from "../agents/framework/types";
+import { AgentRunEventModel, type AgentRunEventRow, type AgentRunEventType } from "../models/agent-run-event";
+import { AgentRunModel, toDisplayStatus } from "../models/agent-run";
+
+const POLL_INTERVAL_MS = 1000;
+const KEEPALIVE_INTERVAL_MS = 15_000;
+// A little over the lifecycle's 5 minute execution limit; clients reconnect after this
+const MAX_STREAM_MS = 6 * 60 * 1000;
+
+const TERMINAL_EVENTS: AgentRunEventType[] = ["complete", "error"];
+const TERMINAL_STATUSES = ["completed", "failed", "cancelled"];
+// Stage of the event recorded when a run stops to wait for approval
+const AWAITING_APPROVAL_STAGE = "awaiting-approval";
+
+export interface RunEventRecorder {
+  progress(event: ProgressEvent): void;
+  complete(detail: Record<string, unknown>): void;
+  error(message: string, detail?: Record<string, unknown>): void;
+  /** A failed attempt that will be retried; not terminal, so streams stay open */
+  retry(message: string, detail?: Record<string, unknown>): void;
+  /** The run stopped to wait for approval; streams close until it resumes */
+  awaitingApproval(message: string, detail?: Record<string, unknown>): void;
+  /** Resolves once every recorded event has been written */
+  flush(): Promise<void>;
+}
+
+// Appends are chained so seq order matches emit order; a failed write is
+// logged and skipped rather than failing the run.
+export function createRunEventRecorder(db: D1Database, runId: string): RunEventRecorder {
+  let pending: Promise<void> = Promise.resolve();
+  let lastStage = "";
+  let lastProgress = 0;
+
+  const append = (data: Omit<Parameters<typeof AgentRunEventModel.append>[1], "agentRunId">) => {
+    pending = pending
+      .then(() => AgentRunEventModel.append(db, { agentRunId: runId, ...data }))
+      .catch((err) => console.error(`Failed to record event for run ${runId}:`, err));
+  };
+
+  return {
+    progress(event) {
+      lastStage = event.stage;
+      lastProgress = event.progress;
+      append({
+        eventType: "progress",
+        stage: event.stage,
+        message: event.message,
+        progress: event.progress,
+        detail: event.detail,
+        createdAt: new Date(event.timestamp).toISOString(),
+      });
+    },
+    complete(detail) {
+      append({ eventType: "complete", stage: "complete", progress: 100, detail });
+    },
+    // Recorded against the last stage reached, so history shows where it stopped
+    error(message, detail) {
+      append({
+        eventType: "error",
+        stage: lastStage,
+        message,
+        progress: lastProgress,
+        detail,
+      });
+    },
+    retry(message, detail) {
+      append({
+        eventType: "progress",
+        stage: lastStage,
+        message,
+        progress: lastProgress,
+        detail,
+      });
+    },
+    awaitingApproval(message, detail) {
+      append({
+        eventType: "progress",
+        stage: AWAITING_APPROVAL_STAGE,
+        message,
+        progress: lastProgress,
+        detail,
+      });
+    },
+    flush() {
+      return pending;
+    },
+  };
+}
+
+export function toRunEvent(row: AgentRunEventRow) {
+  return {
+    seq: row.seq,
+    type: row.event_type,
+    stage: row.stage,
+    message: row.message,
+    progress: row.progress,
+    detail: row.detail_json ? (JSON.parse(row.detail_json) as Record<string, unknown>) : null,
+    createdAt: row.created_at,
+  };
+}
+
+// Write events after `afterSeq` to the SSE stream until the run finishes,
+// the client disconnects or MAX_STREAM_MS elapses.
+export async function streamRunEvents(
+  db: D1Database,
+  runId: string,
+  afterSeq: number,
+  stream: SSEStreamingApi
+): Promise<void> {
+  let cursor = afterSeq;
+  let aborted = false;
+  stream.onAbort(() => {
+    aborted = true;
+  });
+
+  const deadline = Date.now() + MAX_STREAM_MS;
+  let lastWriteAt = Date.now();
+  let drained = false;
+
+  while (!aborted && Date.now() < deadline) {
+    const rows = await AgentRunEventModel.listAfter(db, runId, cursor);
+    for (const row of rows) {
+      await stream.writeSSE({
+        id: String(row.seq),
+        event: row.event_type,
+        data: JSON.stringify(toRunEvent(row)),
+      });
+      cursor = row.seq;
+      lastWriteAt = Date.now();
+      if (TERMINAL_EVENTS.includes(row.event_type)) return;
+    }
+
+    if (rows.length === 0) {
+      // Runs that end without a terminal event (e.g. cancelled) close the stream
+      // once the log is drained, as do runs held for approval, which emit
+      // nothing more until approved. The final status is persisted just before
+      // the terminal event is appended, so allow one more poll before giving up.
+      const run = await AgentRunModel.findById(db, runId);
+      if (!run || TERMINAL_STATUSES.includes(run.status) || toDisplayStatus(run) === "awaiting_approval") {
+        if (drained) {
+          await stream.writeSSE({
+            event: "end",
+            data: JSON.stringify({ runId, status: run ? toDisplayStatus(run) : null }),
+          });
+          return;
+        }
+        drained = true;
+      }
+    }
+
+    if (Date.now() - lastWriteAt >= KEEPALIVE_INTERVAL_MS) {
+      await stream.write(": keepalive\n\n");
+      lastWriteAt = Date.now();
+    }
+    await stream.sleep(POLL_INTERVAL_MS);
+  }
+}
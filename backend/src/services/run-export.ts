@@ -0,0 +1,369 @@
+// Downloadable exports of agent run outputs.
+// Every output can be exported as JSON; agents whose output has a natural
+// file form get converters on top: scripts become SRT/VTT subtitles (cues
+// from each section's startTime/endTime), SEO and trend reports Markdown, and
+// analytics metrics CSV. Converters read the stored output defensively, since
+// older runs and partial outputs may lack fields.
+
+import { AppError } from "../middleware/error-handler";
+import type { AgentRunRow } from "../models/agent-run";
+
+export const EXPORT_FORMATS = ["srt", "vtt", "md", "csv", "json"] as const;
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+export interface ExportedFile {
+  body: string;
+  contentType: string;
+  filename: string;
+}
+
+interface StoredOutput {
+  data?: Record<string, unknown>;
+  summary?: string;
+  artifacts?: unknown[];
+}
+
+type Converter = (data: Record<string, unknown>, params: Record<string, unknown>) => string;
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+  srt: "application/x-subrip; charset=utf-8",
+  vtt: "text/vtt; charset=utf-8",
+  md: "text/markdown; charset=utf-8",
+  csv: "text/csv; charset=utf-8",
+  json: "application/json; charset=utf-8",
+};
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function records(value: unknown): Record<string, unknown>[] {
+  return Array.isArray(value) ? value.filter(isRecord) : [];
+}
+
+function strings(value: unknown): string[] {
+  return Array.isArray(value) ? value.filter((v): v is string => typeof v === "string") : [];
+}
+
+function text(value: unknown): string {
+  return typeof value === "string" ? value : typeof value === "number" ? String(value) : "";
+}
+
+/** "0:03", "1:02:03" or a number of seconds; null if unparseable */
+function parseTimestamp(value: unknown): number | null {
+  if (typeof value === "number") return value >= 0 ? value : null;
+  if (typeof value !== "string") return null;
+  const parts = value.trim().split(":");
+  if (parts.length > 3 || parts.some((part) => !/^\d+(\.\d+)?$/.test(part))) return null;
+  return parts.reduce((total, part) => total * 60 + parseFloat(part), 0);
+}
+
+/** hh:mm:ss,mmm (SRT) or hh:mm:ss.mmm (VTT) */
+function formatTimestamp(seconds: number, separator: "," | "."): string {
+  const ms = Math.round(seconds * 1000);
+  const pad = (n: number, width = 2) => String(n).padStart(width, "0");
+  return `${pad(Math.floor(ms / 3_600_000))}:${pad(Math.floor(ms / 60_000) % 60)}:${pad(Math.floor(ms / 1000) % 60)}${separator}${pad(ms % 1000, 3)}`;
+}
+
+function markdownCell(value: unknown): string {
+  return text(value).replace(/\|/g, "\\|").replace(/\r?\n/g, " ");
+}
+
+function markdownTable(headers: string[], rows: unknown[][]): string[] {
+  return [
+    `| ${headers.join(" | ")} |`,
+    `| ${headers.map(() => "---").join(" | ")} |`,
+    ...rows.map((row) => `| ${row.map(markdownCell).join(" | ")} |`),
+    "",
+  ];
+}
+
+function bulletList(items: string[]): string[] {
+  return [...items.map((item) => `- ${item}`), ""];
+}
+
+// RFC 4180: quote fields containing a delimiter, quote or line break
+function csvField(value: unknown): string {
+  const s = text(value);
+  return /[",\r\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+}
+
+function csv(headers: string[], rows: unknown[][]): string {
+  // BOM so spreadsheet apps read the UTF-8 (Korean) content correctly
+  return "\uFEFF" + [headers, ...rows].map((row) => row.map(csvField).join(",")).join("\r\n") + "\r\n";
+}
+
+// ---------------------------------------------------------------------------
+// Script generator: subtitles and Markdown
+// ---------------------------------------------------------------------------
+
+interface Cue {
+  start: number;
+  end: number;
+  text: string;
+}
+
+// Sections without usable timestamps continue from the previous cue
+function scriptCues(data: Record<string, unknown>): Cue[] {
+  const cues: Cue[] = [];
+  let cursor = 0;
+  for (const section of records(data.script)) {
+    const content = text(section.content).trim();
+    if (!content) continue;
+    const duration = typeof section.durationSeconds === "number" && section.durationSeconds > 0 ? section.durationSeconds : 2;
+    const start = parseTimestamp(section.startTime) ?? cursor;
+    const parsedEnd = parseTimestamp(section.endTime);
+    const end = parsedEnd !== null && parsedEnd > start ? parsedEnd : start + duration;
+    cues.push({ start, end, text: content });
+    cursor = end;
+  }
+  if (cues.length === 0) {
+    throw new AppError(400, "EXPORT_UNAVAILABLE", "Run output has no script sections to export as subtitles");
+  }
+  return cues;
+}
+
+const scriptToSrt: Converter = (data) =>
+  scriptCues(data)
+    .map((cue, i) => `${i + 1}\n${formatTimestamp(cue.start, ",")} --> ${formatTimestamp(cue.end, ",")}\n${cue.text}\n`)
+    .join("\n");
+
+const scriptToVtt: Converter = (data) =>
+  "WEBVTT\n\n" +
+  scriptCues(data)
+    .map((cue, i) => `${i + 1}\n${formatTimestamp(cue.start, ".")} --> ${formatTimestamp(cue.end, ".")}\n${cue.text}\n`)
+    .join("\n");
+
+const scriptToMarkdown: Converter = (data, params) => {
+  const lines = [`# ${text(data.topic) || text(params.topic) || "대본"}`, ""];
+  if (data.totalDurationSeconds !== undefined) lines.push(`총 길이: ${text(data.totalDurationSeconds)}초`, "");
+
+  const hooks = records(data.hooks);
+  if (hooks.length > 0) {
+    lines.push("## 훅", "", ...bulletList(hooks.map((h) => `${text(h.text)}${h.type ? ` _(${text(h.type)})_` : ""}`)));
+  }
+
+  lines.push("## 대본", "");
+  for (const section of records(data.script)) {
+    lines.push(`### [${text(section.startTime)}-${text(section.endTime)}] ${text(section.label)}`, "", text(section.content), "");
+    if (section.visualDirection) lines.push(`> 화면: ${text(section.visualDirection)}`, "");
+    if (section.audioNote) lines.push(`> 오디오: ${text(section.audioNote)}`, "");
+  }
+
+  if (data.callToAction) lines.push("## 콜투액션", "", text(data.callToAction), "");
+  return lines.join("\n");
+};
+
+// ---------------------------------------------------------------------------
+// SEO optimizer and trend research: Markdown reports
+// ---------------------------------------------------------------------------
+
+const seoToMarkdown: Converter = (data, params) => {
+  const lines = [`# SEO 리포트${params.topic ? `: ${text(params.topic)}` : ""}`, ""];
+  if (data.platform) lines.push(`플랫폼: ${text(data.platform)}`, "");
+
+  const titles = records(data.titles);
+  if (titles.length > 0) {
+    lines.push(
+      "## 추천 제목",
+      "",
+      ...markdownTable(
+        ["#", "제목", "글자 수", "점수", "이유"],
+        titles.map((t, i) => [i + 1, t.title, t.characterCount, t.score, t.reasoning])
+      )
+    );
+  }
+
+  if (isRecord(data.description)) {
+    lines.push("## 설명", "", text(data.description.description), "");
+  }
+
+  if (isRecord(data.tags)) {
+    lines.push("## 태그", "");
+    for (const [key, label] of [["primary", "핵심"], ["secondary", "보조"], ["longTail", "롱테일"]] as const) {
+      const tags = strings(data.tags[key]);
+      if (tags.length > 0) lines.push(`- **${label}**: ${tags.join(", ")}`);
+    }
+    lines.push("");
+  }
+
+  const hashtags = strings(data.hashtags);
+  if (hashtags.length > 0) lines.push("## 해시태그", "", hashtags.join(" "), "");
+
+  if (isRecord(data.seoScore)) {
+    const score = data.seoScore;
+    lines.push(
+      "## SEO 점수",
+      "",
+      ...markdownTable(
+        ["전체", "제목", "설명", "태그"],
+        [[score.overall, score.titleScore, score.descriptionScore, score.tagScore]]
+      )
+    );
+    const improvements = strings(score.improvements);
+    if (improvements.length > 0) lines.push("### 개선 제안", "", ...bulletList(improvements));
+  }
+  return lines.join("\n");
+};
+
+const trendToMarkdown: Converter = (data, params) => {
+  const lines = [`# 트렌드 리포트: ${text(data.niche) || text(params.niche)}`, ""];
+  if (data.generatedAt) lines.push(`생성 시각: ${text(data.generatedAt)}`, "");
+  if (data.aiInsights) lines.push("## 인사이트", "", text(data.aiInsights), "");
+
+  const recommendations = strings(data.recommendations);
+  if (recommendations.length > 0) lines.push("## 추천", "", ...bulletList(recommendations));
+
+  if (isRecord(data.youtube)) {
+    const topics = records(data.youtube.trendingTopics);
+    if (topics.length > 0) {
+      lines.push(
+        "## 유튜브 트렌딩 주제",
+        "",
+        ...markdownTable(
+          ["주제", "영상 수", "평균 조회수", "평균 참여율", "경쟁도"],
+          topics.map((t) => [t.topic, t.videoCount, t.avgViews, t.avgEngagement, t.competitionLevel])
+        )
+      );
+    }
+    const keywords = records(data.youtube.topKeywords);
+    if (keywords.length > 0) {
+      lines.push(
+        "## 유튜브 키워드",
+        "",
+        ...markdownTable(
+          ["키워드", "빈도", "평균 조회수", "추세"],
+          keywords.map((k) => [k.keyword, k.frequency, k.avgViews, k.trend])
+        )
+      );
+    }
+  }
+
+  if (isRecord(data.instagram)) {
+    const hashtags = records(data.instagram.trendingHashtags);
+    if (hashtags.length > 0) {
+      lines.push(
+        "## 인스타그램 트렌딩 해시태그",
+        "",
+        ...markdownTable(
+          ["해시태그", "게시물 수", "경쟁도"],
+          hashtags.map((h) => [h.hashtag, h.mediaCount, h.competitionLevel])
+        )
+      );
+    }
+  }
+  return lines.join("\n");
+};
+
+// ---------------------------------------------------------------------------
+// Analytics: metrics CSV and Markdown report
+// ---------------------------------------------------------------------------
+
+const METRIC_COLUMNS = [
+  "contentId",
+  "platform",
+  "views",
+  "likes",
+  "comments",
+  "shares",
+  "engagementRate",
+  "avgWatchTime",
+  "retentionRate",
+  "ctr",
+  "impressions",
+];
+
+const analyticsToCsv: Converter = (data) => {
+  const metrics = records(data.metrics);
+  if (metrics.length === 0) {
+    throw new AppError(400, "EXPORT_UNAVAILABLE", "Run output has no metrics to export as CSV");
+  }
+  return csv(METRIC_COLUMNS, metrics.map((m) => METRIC_COLUMNS.map((column) => m[column])));
+};
+
+const analyticsToMarkdown: Converter = (data) => {
+  const lines = ["# 성과 분석 리포트", ""];
+  if (isRecord(data.period)) lines.push(`기간: ${text(data.period.start)} ~ ${text(data.period.end)}`, "");
+
+  const metrics = records(data.metrics);
+  if (metrics.length > 0) {
+    lines.push("## 지표", "", ...markdownTable(METRIC_COLUMNS, metrics.map((m) => METRIC_COLUMNS.map((column) => m[column]))));
+  }
+
+  if (isRecord(data.abTestResult)) {
+    const ab = data.abTestResult;
+    lines.push(
+      "## A/B 테스트",
+      "",
+      ...markdownTable(
+        ["승자", "지표", "A", "B", "개선율", "신뢰도"],
+        [[ab.winner, ab.metric, ab.variantAValue, ab.variantBValue, ab.improvement, ab.confidence]]
+      )
+    );
+    if (ab.explanation) lines.push(text(ab.explanation), "");
+  }
+
+  const insights = strings(data.insights);
+  if (insights.length > 0) lines.push("## 인사이트", "", ...bulletList(insights));
+  const recommendations = strings(data.recommendations);
+  if (recommendations.length > 0) lines.push("## 추천", "", ...bulletList(recommendations));
+  return lines.join("\n");
+};
+
+// ---------------------------------------------------------------------------
+// Registry
+// ---------------------------------------------------------------------------
+
+/** Converters by agent template id; JSON is available for every agent */
+const CONVERTERS: Record<string, Partial<Record<Exclude<ExportFormat, "json">, Converter>>> = {
+  "script-generator": { srt: scriptToSrt, vtt: scriptToVtt, md: scriptToMarkdown },
+  "seo-optimizer": { md: seoToMarkdown },
+  "trend-research": { md: trendToMarkdown },
+  analytics: { csv: analyticsToCsv, md: analyticsToMarkdown },
+};
+
+export function isExportFormat(value: string): value is ExportFormat {
+  return (EXPORT_FORMATS as readonly string[]).includes(value);
+}
+
+/** Formats a run of the given agent can be exported as */
+export function exportFormatsFor(agentId: string | null): ExportFormat[] {
+  const converters = agentId ? CONVERTERS[agentId] ?? {} : {};
+  return EXPORT_FORMATS.filter((format) => format === "json" || format in converters);
+}
+
+/** Convert a run's stored output to a downloadable file */
+export function exportRunOutput(agentId: string | null, run: AgentRunRow, format: ExportFormat): ExportedFile {
+  const output = run.output_json ? (JSON.parse(run.output_json) as StoredOutput) : null;
+  if (!output) {
+    throw new AppError(400, "EXPORT_UNAVAILABLE", "Agent run has no output to export");
+  }
+  const data = isRecord(output.data) ? output.data : {};
+  const filename = `${agentId ?? "agent-run"}-${run.id}.${format}`;
+
+  if (format === "json") {
+    const body = JSON.stringify(
+      { runId: run.id, agentId, createdAt: run.created_at, summary: output.summary ?? null, data, artifacts: output.artifacts ?? [] },
+      null,
+      2
+    );
+    return { body, contentType: CONTENT_TYPES.json, filename };
+  }
+
+  const converter = agentId ? CONVERTERS[agentId]?.[format] : undefined;
+  if (!converter) {
+    const supported = exportFormatsFor(agentId);
+    throw new AppError(
+      400,
+      "UNSUPPORTED_EXPORT_FORMAT",
+      `Runs of ${agentId ?? "this agent"} can be exported as ${supported.join(", ")}`,
+      { supported }
+    );
+  }
+  const params = JSON.parse(run.input_json) as Record<string, unknown>;
+  return { body: converter(data, params), contentType: CONTENT_TYPES[format], filename };
+}
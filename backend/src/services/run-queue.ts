@@ -0,0 +1,221 @@
+// Agent run queue.
+// POST /agents/runs enqueues { runId }; the consumer claims the run
+// (pending -> running), executes it through the agent runner and retries
+// transient failures with exponential backoff. A run the agent holds for
+// approval is acked and only queued again once approved. A run whose retries
+// are exhausted, or whose message lands in the dead-letter queue because the
+// consumer itself kept failing, is failed with dead_lettered_at set.
+//
+// Without an AGENT_RUN_QUEUE binding (local development) runs go through an
+// in-process stand-in that delivers to the same consumer.
+
+import type { Env, AgentRunQueueMessage } from "../types";
+import type { ApprovalPreview } from "../agents/framework/types";
+import { AgentConfigModel } from "../models/agent-config";
+import { AgentRunModel } from "../models/agent-run";
+import { PaymentOrderModel } from "../models/payment-order";
+import { AppError } from "../middleware/error-handler";
+import { executeAgentRun } from "./agent-runner";
+import { createRunEventRecorder } from "./run-events";
+import { settleAbandonedReservation } from "./run-reaper";
+import { syncPipelineStep } from "./pipeline";
+
+export const AGENT_RUN_QUEUE_NAME = "openclaw-agent-runs";
+export const AGENT_RUN_DLQ_NAME = "openclaw-agent-runs-dlq";
+
+// Keep in line with max_retries on the openclaw-agent-runs consumer
+const DEFAULT_MAX_RETRIES = 3;
+const DEFAULT_RETRY_DELAY_SECONDS = 30;
+const MAX_RETRY_DELAY_SECONDS = 15 * 60;
+
+export type AgentRunQueueProducer = Pick<Queue<AgentRunQueueMessage>, "send">;
+type WaitUntil = Pick<ExecutionContext, "waitUntil">;
+
+function retryPolicy(env: Env): { maxRetries: number; baseDelaySeconds: number } {
+  const maxRetries = parseInt(env.AGENT_RUN_MAX_RETRIES ?? "", 10);
+  const baseDelaySeconds = parseInt(env.AGENT_RUN_RETRY_DELAY_SECONDS ?? "", 10);
+  return {
+    maxRetries: Number.isNaN(maxRetries) ? DEFAULT_MAX_RETRIES : Math.max(maxRetries, 0),
+    baseDelaySeconds: Number.isNaN(baseDelaySeconds) ? DEFAULT_RETRY_DELAY_SECONDS : Math.max(baseDelaySeconds, 0),
+  };
+}
+
+/** Exponential backoff after the given (1-based) attempt */
+function retryDelaySeconds(env: Env, attempts: number): number {
+  const { baseDelaySeconds } = retryPolicy(env);
+  return Math.min(baseDelaySeconds * 2 ** (attempts - 1), MAX_RETRY_DELAY_SECONDS);
+}
+
+/**
+ * Queue a pending run for execution. Falls back to the in-process queue in
+ * development when no AGENT_RUN_QUEUE binding is configured.
+ */
+export async function enqueueAgentRun(env: Env, ctx: WaitUntil, runId: string): Promise<void> {
+  let queue: AgentRunQueueProducer | undefined = env.AGENT_RUN_QUEUE;
+  if (!queue && env.ENVIRONMENT === "development") {
+    queue = createLocalRunQueue(env, ctx);
+  }
+  if (!queue) {
+    throw new AppError(500, "QUEUE_UNAVAILABLE", "Agent run queue is not configured");
+  }
+  await queue.send({ runId });
+}
+
+/** Consumer for AGENT_RUN_QUEUE */
+export async function handleAgentRunQueue(
+  batch: MessageBatch<AgentRunQueueMessage>,
+  env: Env,
+  ctx: WaitUntil
+): Promise<void> {
+  await Promise.all(batch.messages.map((msg) => processRunMessage(msg, env, ctx)));
+}
+
+async function processRunMessage(msg: Message<AgentRunQueueMessage>, env: Env, ctx: WaitUntil): Promise<void> {
+  const { runId } = msg.body;
+  const row = await AgentRunModel.findById(env.DB, runId);
+  if (!row) {
+    msg.ack();
+    return;
+  }
+
+  const config = await AgentConfigModel.findById(env.DB, row.agent_config_id);
+  if (!config) {
+    await AgentRunModel.updateStatus(env.DB, runId, {
+      status: "failed",
+      errorMessage: "Agent configuration not found",
+      completedAt: new Date().toISOString(),
+    });
+    if (row.pipeline_run_id) await syncPipelineStep(env, ctx, row.pipeline_run_id);
+    msg.ack();
+    return;
+  }
+
+  // Already finished, cancelled while queued, or being executed by another delivery
+  if (!(await AgentRunModel.claim(env.DB, runId, msg.attempts))) {
+    msg.ack();
+    return;
+  }
+  // Redelivered after the isolate running an earlier attempt died
+  if (row.status === "running") {
+    await settleAbandonedReservation(env.DB, runId, row.user_id);
+  }
+
+  const { maxRetries } = retryPolicy(env);
+  const canRetry = msg.attempts <= maxRetries;
+  // Paid tier once the user has completed a payment
+  const tier = (await PaymentOrderModel.hasPaidOrder(env.DB, row.user_id)) ? "paid" : "free";
+
+  const { completion } = executeAgentRun(env, {
+    runId,
+    agentId: config.agent_template_id,
+    userId: row.user_id,
+    tier,
+    config: { ...(JSON.parse(config.config_json) as Record<string, unknown>), agentConfigId: config.id },
+    params: JSON.parse(row.input_json) as Record<string, unknown>,
+    retryOnTransientError: canRetry,
+    prepaid: !!row.pipeline_run_id,
+    approvedPreview:
+      row.approval_status === "approved" && row.approval_preview_json
+        ? (JSON.parse(row.approval_preview_json) as ApprovalPreview)
+        : undefined,
+  });
+  const run = await completion;
+
+  if (run?.status === "failed" && run.retryable) {
+    if (canRetry) {
+      msg.retry({ delaySeconds: retryDelaySeconds(env, msg.attempts) });
+      return;
+    }
+    await AgentRunModel.markDeadLettered(
+      env.DB,
+      runId,
+      `Retries exhausted after ${msg.attempts} attempts: ${run.errorMessage}`
+    );
+  }
+  if (row.pipeline_run_id) await syncPipelineStep(env, ctx, row.pipeline_run_id);
+  msg.ack();
+}
+
+/** Consumer for the dead-letter queue: fail runs the main consumer never finished */
+export async function handleAgentRunDeadLetters(
+  batch: MessageBatch<AgentRunQueueMessage>,
+  env: Env,
+  ctx: WaitUntil
+): Promise<void> {
+  for (const msg of batch.messages) {
+    const row = await AgentRunModel.findById(env.DB, msg.body.runId);
+    if (row && (row.status === "pending" || row.status === "running")) {
+      const message = "Agent run could not be executed after repeated delivery attempts";
+      await AgentRunModel.markDeadLettered(env.DB, row.id, message);
+      if (row.status === "running") {
+        await settleAbandonedReservation(env.DB, row.id, row.user_id);
+      }
+      if (row.pipeline_run_id) await syncPipelineStep(env, ctx, row.pipeline_run_id);
+      const events = createRunEventRecorder(env.DB, row.id);
+      events.error(message, { status: "failed", deadLettered: true });
+      await events.flush();
+    }
+    msg.ack();
+  }
+}
+
+/**
+ * In-process stand-in for AGENT_RUN_QUEUE. Each message is delivered on its
+ * own to handleAgentRunQueue, kept alive with waitUntil. Retried messages are
+ * redelivered after their delay, and a message retried past max retries goes
+ * to handleAgentRunDeadLetters, as the platform would do.
+ */
+export function createLocalRunQueue(env: Env, ctx: WaitUntil): AgentRunQueueProducer {
+  const { maxRetries } = retryPolicy(env);
+
+  const deliver = async (body: AgentRunQueueMessage, attempts: number, delaySeconds = 0): Promise<void> => {
+    if (delaySeconds > 0) {
+      await new Promise((resolve) => setTimeout(resolve, delaySeconds * 1000));
+    }
+
+    let retry: { delaySeconds?: number } | null = null;
+    const message: Message<AgentRunQueueMessage> = {
+      id: crypto.randomUUID(),
+      timestamp: new Date(),
+      body,
+      attempts,
+      ack: () => {
+        retry = null;
+      },
+      retry: (options) => {
+        retry = { delaySeconds: options?.delaySeconds };
+      },
+    };
+    const batchFor = (queue: string): MessageBatch<AgentRunQueueMessage> => ({
+      queue,
+      messages: [message],
+      ackAll: () => message.ack(),
+      retryAll: (options) => message.retry(options),
+    });
+
+    try {
+      await handleAgentRunQueue(batchFor(AGENT_RUN_QUEUE_NAME), env, ctx);
+    } catch (err) {
+      console.error(`Local agent run queue delivery failed for run ${body.runId}:`, err);
+      retry = {};
+    }
+
+    const pending = retry as { delaySeconds?: number } | null;
+    if (!pending) return;
+    if (attempts > maxRetries) {
+      await handleAgentRunDeadLetters(batchFor(AGENT_RUN_DLQ_NAME), env, ctx);
+      return;
+    }
+    await deliver(body, attempts + 1, pending.delaySeconds);
+  };
+
+  return {
+    async send(body, options) {
+      ctx.waitUntil(
+        deliver(body, 1, options?.delaySeconds).catch((err) =>
+          console.error(`Local agent run queue failed for run ${body.runId}:`, err)
+        )
+      );
+    },
+  };
+}
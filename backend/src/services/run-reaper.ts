@@ -0,0 +1,150 @@
+// Stale-run reaper, run from the scheduled (cron) handler.
+// Credits are settled in the lifecycle's finally, so a run whose isolate died
+// mid-execution stays 'running' with its reservation held. Runs past the
+// wall-time limit are failed and settled against the usage logged so far,
+// which the lifecycle writes as each call finishes. A reservation is settled
+// only once, so a run still executing past its timeout can't settle it again.
+// Reservations that no run accounts for are reported for follow-up. Runs
+// left awaiting approval past their expiry are cancelled here too.
+
+import type { Env } from "../types";
+import type { AgentRunRow } from "../models/agent-run";
+import { MAX_EXECUTION_MS } from "../agents/framework/lifecycle";
+import { AgentRunModel } from "../models/agent-run";
+import { AgentRunEventModel } from "../models/agent-run-event";
+import { CreditBalanceModel } from "../models/credit-balance";
+import { CreditTransactionModel } from "../models/credit-transaction";
+import { UsageLogModel } from "../models/usage-log";
+import { settleCredits } from "./credit";
+import { syncPipelineStep } from "./pipeline";
+
+// Grace on top of the lifecycle's own timeout before a run counts as abandoned
+const STALE_GRACE_MS = 5 * 60 * 1000;
+const STALE_AFTER_SECONDS = (MAX_EXECUTION_MS + STALE_GRACE_MS) / 1000;
+const REAP_BATCH_SIZE = 50;
+
+const TIMEOUT_REASON = "Agent run exceeded its wall-time limit and was stopped";
+const APPROVAL_EXPIRED_REASON = "Approval request expired before the run was approved";
+
+export interface ReaperReport {
+  reaped: { runId: string; userId: string; creditsReserved: number; creditsCharged: number }[];
+  /** Runs cancelled because nobody approved them in time */
+  expiredApprovals: string[];
+  /** Reservation transactions whose run no longer exists */
+  orphanedReservations: { transactionId: string; userId: string; agentRunId: string | null; amount: number }[];
+  /** Users holding reserved credits without any running run */
+  unbackedReservations: { userId: string; reservedCredits: number }[];
+}
+
+export async function reapStaleRuns(env: Env, ctx: Pick<ExecutionContext, "waitUntil">): Promise<ReaperReport> {
+  const report: ReaperReport = { reaped: [], expiredApprovals: [], orphanedReservations: [], unbackedReservations: [] };
+
+  const stale = await AgentRunModel.listStale(env.DB, STALE_AFTER_SECONDS, REAP_BATCH_SIZE);
+  for (const run of stale) {
+    try {
+      const reaped = await reapRun(env.DB, run.id, run.user_id);
+      if (reaped) report.reaped.push(reaped);
+      if (reaped && run.pipeline_run_id) await syncPipelineStep(env, ctx, run.pipeline_run_id);
+    } catch (err) {
+      console.error(`Reaper: failed to reap run ${run.id}:`, err);
+    }
+  }
+
+  const expired = await AgentRunModel.listExpiredApprovals(env.DB, REAP_BATCH_SIZE);
+  for (const run of expired) {
+    try {
+      if (await expireApproval(env, ctx, run)) report.expiredApprovals.push(run.id);
+    } catch (err) {
+      console.error(`Reaper: failed to expire approval of run ${run.id}:`, err);
+    }
+  }
+
+  const orphaned = await CreditTransactionModel.listOrphanedReservations(env.DB);
+  report.orphanedReservations = orphaned.map((tx) => ({
+    transactionId: tx.id,
+    userId: tx.user_id,
+    agentRunId: tx.agent_run_id,
+    amount: -tx.amount,
+  }));
+
+  // Read after reaping, so balances released above aren't reported
+  const unbacked = await CreditBalanceModel.listReservedWithoutRunningRun(env.DB);
+  report.unbackedReservations = unbacked.map((balance) => ({
+    userId: balance.user_id,
+    reservedCredits: balance.reserved_credits,
+  }));
+
+  if (report.reaped.length > 0) {
+    console.warn(`Reaper: failed and settled ${report.reaped.length} stale run(s)`, report.reaped);
+  }
+  if (report.expiredApprovals.length > 0) {
+    console.warn(`Reaper: cancelled ${report.expiredApprovals.length} run(s) whose approval expired`, report.expiredApprovals);
+  }
+  for (const tx of report.orphanedReservations) {
+    console.warn(`Reaper: reservation ${tx.transactionId} (${tx.amount} credits, user ${tx.userId}) has no matching run ${tx.agentRunId}`);
+  }
+  for (const balance of report.unbackedReservations) {
+    console.warn(`Reaper: user ${balance.userId} holds ${balance.reservedCredits} reserved credits with no running run`);
+  }
+
+  return report;
+}
+
+async function reapRun(db: D1Database, runId: string, userId: string): Promise<ReaperReport["reaped"][number] | null> {
+  // Fail first so a run that finishes concurrently isn't settled twice
+  if (!(await AgentRunModel.failIfRunning(db, runId, TIMEOUT_REASON))) return null;
+
+  const { reserved, charged } = await settleAbandonedReservation(db, runId, userId);
+  await AgentRunModel.updateStatus(db, runId, { status: "failed", creditsActual: charged });
+
+  // Recorded against the last stage reached, as the runner does for errors
+  const last = await AgentRunEventModel.findLast(db, runId);
+  await AgentRunEventModel.append(db, {
+    agentRunId: runId,
+    eventType: "error",
+    stage: last?.stage,
+    message: TIMEOUT_REASON,
+    progress: last?.progress,
+    detail: { status: "failed", timedOut: true },
+  });
+
+  return { runId, userId, creditsReserved: reserved, creditsCharged: charged };
+}
+
+/**
+ * Cancel a run whose approval request expired. Nothing was reserved for it;
+ * a pipeline waiting on it moves on. Returns false if it was decided meanwhile.
+ */
+export async function expireApproval(
+  env: Env,
+  ctx: Pick<ExecutionContext, "waitUntil">,
+  run: AgentRunRow
+): Promise<boolean> {
+  const expired = await AgentRunModel.closeApproval(env.DB, run.id, {
+    approvalStatus: "expired",
+    errorMessage: APPROVAL_EXPIRED_REASON,
+  });
+  if (expired && run.pipeline_run_id) await syncPipelineStep(env, ctx, run.pipeline_run_id);
+  return expired;
+}
+
+/**
+ * Settle the reservation left by an attempt whose isolate died, charging the
+ * usage it logged. The attempt may have died before reserving, in which case
+ * there is nothing to release.
+ */
+export async function settleAbandonedReservation(
+  db: D1Database,
+  runId: string,
+  userId: string
+): Promise<{ reserved: number; charged: number }> {
+  const reservation = await CreditTransactionModel.findUnsettledReservation(db, runId);
+  if (!reservation) return { reserved: 0, charged: 0 };
+
+  const reserved = -reservation.amount;
+  const used = await UsageLogModel.sumCostSince(db, runId, reservation.created_at);
+  const charged = Math.min(reserved, Math.ceil(used));
+  // False if the attempt settled it meanwhile
+  if (!(await settleCredits(db, userId, reserved, charged, runId))) return { reserved: 0, charged: 0 };
+  return { reserved, charged };
+}
@@ -0,0 +1,310 @@
+// Scheduled agent runs.
+// A schedule attaches a cron expression, evaluated in the schedule's timezone
+// (the user's by default), and a params template to an agent config. The
+// scheduled handler dispatches due schedules through startAgentRun, so runs
+// get the usual credit pre-check, queueing and reservation.
+//
+// A run's outcome is read when the schedule next comes due: a failed run
+// counts towards MAX_CONSECUTIVE_FAILURES, a completed one resets the count,
+// and a run still in flight (or awaiting approval) makes that occurrence skip
+// rather than overlap.
+// Schedules pause themselves after repeated failures, when the user is out of
+// credits, or when the config can no longer run; re-enabling resumes them.
+
+import type { Env } from "../types";
+import type { ValidationError } from "../agents/framework/types";
+import { AgentConfigModel, type AgentConfigRow } from "../models/agent-config";
+import { AgentRunModel } from "../models/agent-run";
+import {
+  AgentScheduleModel,
+  type AgentScheduleRow,
+  type AgentSchedulePausedReason,
+} from "../models/agent-schedule";
+import { UserModel } from "../models/user";
+import { AppError } from "../middleware/error-handler";
+import { isValidTimeZone, nextCronOccurrence, parseCron } from "../utils/cron";
+import { getAgent, validateAgentInput } from "./agent-runner";
+import { startAgentRun } from "./agent";
+
+const MAX_SCHEDULES_PER_CONFIG = 10;
+const MAX_CONSECUTIVE_FAILURES = 3;
+const DISPATCH_BATCH_SIZE = 50;
+const DEFAULT_TIMEZONE = "Asia/Seoul";
+
+// startAgentRun errors that mean the schedule can't run until the user acts
+const PAUSE_ON_ERROR: Record<string, AgentSchedulePausedReason> = {
+  INSUFFICIENT_CREDITS: "insufficient_credits",
+  CONFIG_NOT_FOUND: "config_inactive",
+  CONFIG_INACTIVE: "config_inactive",
+  AGENT_NOT_RUNNABLE: "config_inactive",
+};
+
+type WaitUntil = Pick<ExecutionContext, "waitUntil">;
+
+export interface AgentScheduleInput {
+  cronExpression?: unknown;
+  timezone?: unknown;
+  params?: unknown;
+  enabled?: unknown;
+}
+
+export interface ScheduleDispatchReport {
+  dispatched: { scheduleId: string; runId: string }[];
+  /** Occurrences skipped because the previous run was still in flight */
+  skipped: string[];
+  paused: { scheduleId: string; reason: AgentSchedulePausedReason }[];
+  failed: { scheduleId: string; error: string }[];
+}
+
+/** Next occurrence after `after` as ISO 8601, or null if the expression never fires again */
+export function computeNextRunAt(cronExpression: string, timezone: string, after = new Date()): string | null {
+  return nextCronOccurrence(parseCron(cronExpression), after, timezone)?.toISOString() ?? null;
+}
+
+export async function findOwnedConfig(db: D1Database, userId: string, configId: string): Promise<AgentConfigRow> {
+  const config = await AgentConfigModel.findById(db, configId);
+  if (!config) {
+    throw new AppError(404, "CONFIG_NOT_FOUND", "Agent configuration not found");
+  }
+  if (config.user_id !== userId) {
+    throw new AppError(403, "FORBIDDEN", "Agent configuration does not belong to this user");
+  }
+  return config;
+}
+
+export async function findOwnedSchedule(
+  db: D1Database,
+  userId: string,
+  configId: string,
+  scheduleId: string
+): Promise<AgentScheduleRow> {
+  const schedule = await AgentScheduleModel.findById(db, scheduleId);
+  if (!schedule || schedule.agent_config_id !== configId) {
+    throw new AppError(404, "SCHEDULE_NOT_FOUND", "Schedule not found");
+  }
+  if (schedule.user_id !== userId) {
+    throw new AppError(403, "FORBIDDEN", "Schedule does not belong to this user");
+  }
+  return schedule;
+}
+
+/**
+ * Check schedule fields, falling back to `current` for those not given.
+ * Params are checked against the agent's params schema, as for a manual run.
+ * Throws VALIDATION_FAILED with per-field details.
+ */
+function validateScheduleInput(
+  config: AgentConfigRow,
+  userId: string,
+  input: AgentScheduleInput,
+  current: { cronExpression?: string; timezone: string; params: Record<string, unknown> }
+): { cronExpression: string; timezone: string; params: Record<string, unknown> } {
+  if (!getAgent(config.agent_template_id)) {
+    throw new AppError(400, "AGENT_NOT_RUNNABLE", `No runnable agent for template ${config.agent_template_id}`);
+  }
+  const errors: ValidationError[] = [];
+
+  const cronExpression = input.cronExpression !== undefined ? input.cronExpression : current.cronExpression;
+  if (typeof cronExpression !== "string" || !cronExpression.trim()) {
+    errors.push({ field: "cronExpression", message: "cronExpression is required", code: "REQUIRED" });
+  } else {
+    try {
+      parseCron(cronExpression);
+    } catch (err) {
+      errors.push({ field: "cronExpression", message: (err as Error).message, code: "INVALID_FORMAT" });
+    }
+  }
+
+  const timezone = input.timezone !== undefined ? input.timezone : current.timezone;
+  if (typeof timezone !== "string" || !isValidTimeZone(timezone)) {
+    errors.push({ field: "timezone", message: "timezone must be an IANA time zone, e.g. Asia/Seoul", code: "INVALID_FORMAT" });
+  }
+
+  const params = input.params !== undefined ? input.params : current.params;
+  if (typeof params !== "object" || params === null || Array.isArray(params)) {
+    errors.push({ field: "params", message: "params must be an object", code: "INVALID_TYPE" });
+  } else {
+    const validation = validateAgentInput(config.agent_template_id, {
+      runId: "",
+      userId,
+      config: { ...(JSON.parse(config.config_json) as Record<string, unknown>), agentConfigId: config.id },
+      params: params as Record<string, unknown>,
+    });
+    // Reported under the param names, as for POST /agents/runs
+    errors.push(...validation.errors);
+  }
+
+  if (input.enabled !== undefined && typeof input.enabled !== "boolean") {
+    errors.push({ field: "enabled", message: "enabled must be a boolean", code: "INVALID_TYPE" });
+  }
+
+  if (errors.length > 0) {
+    throw new AppError(
+      400,
+      "VALIDATION_FAILED",
+      `Validation failed: ${errors.map((e) => e.message).join(", ")}`,
+      errors
+    );
+  }
+  return {
+    cronExpression: (cronExpression as string).trim(),
+    timezone: timezone as string,
+    params: params as Record<string, unknown>,
+  };
+}
+
+export async function createAgentSchedule(
+  db: D1Database,
+  userId: string,
+  configId: string,
+  input: AgentScheduleInput
+): Promise<AgentScheduleRow> {
+  const config = await findOwnedConfig(db, userId, configId);
+  if (config.status === "archived") {
+    throw new AppError(400, "CONFIG_INACTIVE", "Cannot schedule an archived agent configuration");
+  }
+
+  const existing = await AgentScheduleModel.listByConfigId(db, configId);
+  if (existing.length >= MAX_SCHEDULES_PER_CONFIG) {
+    throw new AppError(400, "SCHEDULE_LIMIT", `An agent configuration can have at most ${MAX_SCHEDULES_PER_CONFIG} schedules`);
+  }
+
+  const user = await UserModel.findById(db, userId);
+  const fields = validateScheduleInput(config, userId, input, {
+    timezone: user?.timezone ?? DEFAULT_TIMEZONE,
+    params: {},
+  });
+  const enabled = input.enabled !== false;
+
+  return AgentScheduleModel.create(db, {
+    agentConfigId: configId,
+    userId,
+    cronExpression: fields.cronExpression,
+    timezone: fields.timezone,
+    paramsJson: JSON.stringify(fields.params),
+    enabled,
+    nextRunAt: enabled ? computeNextRunAt(fields.cronExpression, fields.timezone) : null,
+  });
+}
+
+/**
+ * Update a schedule. The next run is recomputed whenever timing or the
+ * enabled flag changes; enabling clears any automatic pause.
+ */
+export async function updateAgentSchedule(
+  db: D1Database,
+  userId: string,
+  configId: string,
+  scheduleId: string,
+  input: AgentScheduleInput
+): Promise<AgentScheduleRow> {
+  const config = await findOwnedConfig(db, userId, configId);
+  const schedule = await findOwnedSchedule(db, userId, configId, scheduleId);
+
+  const fields = validateScheduleInput(config, userId, input, {
+    cronExpression: schedule.cron_expression,
+    timezone: schedule.timezone,
+    params: JSON.parse(schedule.params_json) as Record<string, unknown>,
+  });
+  const enabled = typeof input.enabled === "boolean" ? input.enabled : schedule.enabled === 1;
+  const resumed = enabled && schedule.enabled !== 1;
+  const timingChanged =
+    fields.cronExpression !== schedule.cron_expression || fields.timezone !== schedule.timezone;
+
+  await AgentScheduleModel.update(db, scheduleId, {
+    cronExpression: fields.cronExpression,
+    timezone: fields.timezone,
+    paramsJson: JSON.stringify(fields.params),
+    enabled,
+    nextRunAt:
+      !enabled ? null
+      : resumed || timingChanged ? computeNextRunAt(fields.cronExpression, fields.timezone)
+      : undefined,
+    ...(resumed ? { consecutiveFailures: 0, pausedReason: null } : {}),
+  });
+
+  return (await AgentScheduleModel.findById(db, scheduleId))!;
+}
+
+/** Start the runs of every due schedule. Called from the cron trigger. */
+export async function dispatchDueSchedules(env: Env, ctx: WaitUntil): Promise<ScheduleDispatchReport> {
+  const report: ScheduleDispatchReport = { dispatched: [], skipped: [], paused: [], failed: [] };
+  const now = new Date();
+
+  const due = await AgentScheduleModel.listDue(env.DB, now.toISOString(), DISPATCH_BATCH_SIZE);
+  for (const schedule of due) {
+    try {
+      await dispatchSchedule(env, ctx, schedule, now, report);
+    } catch (err) {
+      console.error(`Scheduler: failed to dispatch schedule ${schedule.id}:`, err);
+      report.failed.push({ scheduleId: schedule.id, error: err instanceof Error ? err.message : String(err) });
+    }
+  }
+
+  for (const paused of report.paused) {
+    console.warn(`Scheduler: paused schedule ${paused.scheduleId} (${paused.reason})`);
+  }
+
+  return report;
+}
+
+async function dispatchSchedule(
+  env: Env,
+  ctx: WaitUntil,
+  schedule: AgentScheduleRow,
+  now: Date,
+  report: ScheduleDispatchReport
+): Promise<void> {
+  // Occurrences missed while nothing dispatched are not caught up: the next
+  // run is computed from now, so a late dispatch starts one run only
+  const nextRunAt = computeNextRunAt(schedule.cron_expression, schedule.timezone, now);
+  if (!(await AgentScheduleModel.advance(env.DB, schedule.id, schedule.next_run_at!, nextRunAt))) {
+    return;
+  }
+
+  let failures = schedule.consecutive_failures;
+  if (schedule.last_run_id) {
+    const last = await AgentRunModel.findById(env.DB, schedule.last_run_id);
+    if (last?.status === "pending" || last?.status === "running") {
+      report.skipped.push(schedule.id);
+      return;
+    }
+    if (last?.status === "failed") failures += 1;
+    if (last?.status === "completed") failures = 0;
+  }
+
+  const pause = async (reason: AgentSchedulePausedReason) => {
+    await AgentScheduleModel.pause(env.DB, schedule.id, { reason, consecutiveFailures: failures });
+    report.paused.push({ scheduleId: schedule.id, reason });
+  };
+
+  if (failures >= MAX_CONSECUTIVE_FAILURES) {
+    await pause("failures");
+    return;
+  }
+
+  try {
+    const { runId } = await startAgentRun(
+      env,
+      ctx,
+      schedule.user_id,
+      schedule.agent_config_id,
+      schedule.params_json,
+      { scheduleId: schedule.id }
+    );
+    await AgentScheduleModel.recordDispatch(env.DB, schedule.id, { runId, consecutiveFailures: failures });
+    report.dispatched.push({ scheduleId: schedule.id, runId });
+  } catch (err) {
+    const reason = err instanceof AppError ? PAUSE_ON_ERROR[err.code] : undefined;
+    if (reason) {
+      await pause(reason);
+      return;
+    }
+    // Anything else (invalid params after a template change, queue outage)
+    // counts as a failed run
+    failures += 1;
+    await AgentScheduleModel.recordDispatch(env.DB, schedule.id, { runId: null, consecutiveFailures: failures });
+    if (failures >= MAX_CONSECUTIVE_FAILURES) await pause("failures");
+    throw err;
+  }
+}
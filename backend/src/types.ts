@@ -11,6 +11,7 @@ export interface Env {
   STORAGE: R2Bucket;
   // Cloudflare Queues
   USAGE_QUEUE: Queue;
+  AGENT_RUN_QUEUE?: Queue<AgentRunQueueMessage>;
   // Environment variables
   ENVIRONMENT: string;
   CORS_ORIGINS: string;
@@ -18,20 +19,50 @@ export interface Env {
   RATE_LIMIT_WINDOW_SECONDS: string;
   PAYMENT_RATE_LIMIT_MAX: string;
   PAYMENT_RATE_LIMIT_WINDOW_SECONDS: string;
+  AGENT_RUN_MAX_RETRIES?: string;
+  AGENT_RUN_RETRY_DELAY_SECONDS?: string;
+  AGENT_RUN_APPROVAL_TTL_HOURS?: string;
+  ARTIFACT_STORAGE_QUOTA_MB?: string;
+  // Base URL signed artifact URLs point at (services/artifact.ts)
+  PUBLIC_API_URL: string;
+  ARTIFACT_SIGNING_SECRET: string;
+  // Frontend origin the OAuth connection callback redirects back to
+  APP_URL: string;
   // Kakao OAuth
   KAKAO_CLIENT_ID: string;
   KAKAO_CLIENT_SECRET: string;
   KAKAO_REDIRECT_URI: string;
   // JWT
   JWT_SECRET: string;
+  // Connected accounts (services/connections.ts); the key is 32 bytes, base64
+  GOOGLE_CLIENT_ID: string;
+  GOOGLE_CLIENT_SECRET: string;
+  META_APP_ID: string;
+  META_APP_SECRET: string;
+  OAUTH_TOKEN_ENCRYPTION_KEY: string;
+  // Server key for public YouTube Data API reads
+  YOUTUBE_API_KEY?: string;
   // PortOne V2
   PORTONE_API_KEY: string;
   PORTONE_API_SECRET: string;
   PORTONE_WEBHOOK_SECRET: string;
   PORTONE_STORE_ID: string;
+  // Cloudflare AI Gateway: {account}/{gateway}/{provider} URLs, or a full base
+  // URL; requests go through the AI_GATEWAY binding when bound
+  AI_GATEWAY?: Fetcher;
+  AI_GATEWAY_ACCOUNT_ID?: string;
+  AI_GATEWAY_ID?: string;
+  AI_GATEWAY_BASE_URL?: string;
+  AI_GATEWAY_TOKEN?: string;
+  AI_GATEWAY_CACHE_TTL_SECONDS?: string;
   // LLM Provider API Keys (set via wrangler secret put)
   OPENAI_API_KEY: string;
   ANTHROPIC_API_KEY: string;
+  // Seconds a cacheable agent LLM response is reused for; 0 disables the cache
+  PROMPT_CACHE_TTL_SECONDS?: string;
+  // "mock" answers LLM calls with the built-in mock provider (not in production)
+  LLM_PROVIDER?: string;
+  LLM_MOCK_LATENCY_MS?: string;
 }
 
 // ---------------------------------------------------------------------------
@@ -70,6 +101,9 @@ export type PaymentStatus = "pending" | "paid" | "failed" | "cancelled" | "refun
 export type PayMethod = "card" | "vbank" | "kakaopay" | "naverpay" | "phone";
 export type CreditTransactionType = "purchase" | "usage" | "reservation" | "settlement" | "refund" | "bonus" | "trial";
 export type AgentRunStatus = "pending" | "running" | "completed" | "failed" | "cancelled";
+/** Shown to clients for a pending run held for approval (approval_status='pending') */
+export type AgentRunDisplayStatus = AgentRunStatus | "awaiting_approval";
+export type AgentRunApprovalStatus = "pending" | "approved" | "rejected" | "expired";
 export type AgentConfigStatus = "active" | "inactive" | "archived";
 export type ConsentType = "terms_of_service" | "privacy_policy" | "marketing";
 
@@ -123,6 +157,7 @@ export interface CreditTransactionRow {
   user_id: string;
   payment_order_id: string | null;
   agent_run_id: string | null;
+  pipeline_run_id: string | null;
   type: CreditTransactionType;
   amount: number;
   balance_after: number;
@@ -166,6 +201,16 @@ export interface AgentRunRow {
   duration_ms: number | null;
   started_at: string | null;
   completed_at: string | null;
+  cancel_requested_at: string | null;
+  attempts: number;
+  dead_lettered_at: string | null;
+  pipeline_run_id: string | null;
+  schedule_id: string | null;
+  parent_run_id: string | null;
+  approval_status: AgentRunApprovalStatus | null;
+  approval_preview_json: string | null;
+  approval_expires_at: string | null;
+  approval_decided_at: string | null;
   created_at: string;
 }
 
@@ -209,6 +254,10 @@ export interface CreditPackage {
 // Queue Message Types
 // ---------------------------------------------------------------------------
 
+export interface AgentRunQueueMessage {
+  runId: string;
+}
+
 export interface UsageQueueMessage {
   id: string;
   agentRunId: string;
@@ -217,5 +266,8 @@ export interface UsageQueueMessage {
   resourceDetail: string;
   quantity: number;
   creditCost: number;
+  cached?: boolean;
+  fallbackFrom?: string;
+  fallbackReason?: string;
   createdAt: string;
 }
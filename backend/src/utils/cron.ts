@@ -0,0 +1,180 @@
+// Five-field cron expressions ("minute hour day-of-month month day-of-week")
+// evaluated against wall-clock time in an IANA time zone.
+// Fields accept "*", numbers, ranges ("1-5"), steps ("*/15", "0-30/10"),
+// lists ("1,15") and JAN-DEC / SUN-SAT names; day-of-week 7 is Sunday.
+
+export interface CronExpression {
+  minutes: number[];
+  hours: number[];
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  /** Both day fields are restricted, so a day matching either one counts (standard cron) */
+  dayOr: boolean;
+  dayOfMonthRestricted: boolean;
+  dayOfWeekRestricted: boolean;
+}
+
+const MONTH_NAMES = ["JAN", "FEB", "MAR", "APR", "MAY", "JUN", "JUL", "AUG", "SEP", "OCT", "NOV", "DEC"];
+const DAY_NAMES = ["SUN", "MON", "TUE", "WED", "THU", "FRI", "SAT"];
+
+const ALIASES: Record<string, string> = {
+  "@hourly": "0 * * * *",
+  "@daily": "0 0 * * *",
+  "@weekly": "0 0 * * 0",
+  "@monthly": "0 0 1 * *",
+  "@yearly": "0 0 1 1 *",
+};
+
+// Long enough to find e.g. "0 0 29 2 1" (Feb 29th on a Monday)
+const SEARCH_HORIZON_DAYS = 366 * 28;
+
+function parseValue(value: string, names: string[] | undefined, offset: number): number {
+  const index = names?.indexOf(value.toUpperCase()) ?? -1;
+  if (index !== -1) return index + offset;
+  if (!/^\d+$/.test(value)) throw new Error(`Invalid value "${value}"`);
+  return parseInt(value, 10);
+}
+
+function parseField(field: string, min: number, max: number, names?: string[], nameOffset = 0): Set<number> {
+  const values = new Set<number>();
+  for (const part of field.split(",")) {
+    const [range, stepText, extra] = part.split("/");
+    if (extra !== undefined || !range) throw new Error(`Invalid field "${field}"`);
+    const step = stepText === undefined ? 1 : parseInt(stepText, 10);
+    if (stepText !== undefined && (!/^\d+$/.test(stepText) || step < 1)) {
+      throw new Error(`Invalid step in "${part}"`);
+    }
+
+    let start: number;
+    let end: number;
+    if (range === "*") {
+      start = min;
+      end = max;
+    } else {
+      const [from, to] = range.split("-");
+      start = parseValue(from, names, nameOffset);
+      // "5/15" means from 5 to the end of the range
+      end = to !== undefined ? parseValue(to, names, nameOffset) : stepText !== undefined ? max : start;
+    }
+    if (start < min || end > max || start > end) {
+      throw new Error(`"${part}" is outside ${min}-${max}`);
+    }
+    for (let v = start; v <= end; v += step) values.add(v);
+  }
+  return values;
+}
+
+/** Parse a cron expression. Throws an Error describing the first problem found. */
+export function parseCron(expression: string): CronExpression {
+  const normalized = ALIASES[expression.trim().toLowerCase()] ?? expression.trim();
+  const fields = normalized.split(/\s+/);
+  if (fields.length !== 5) {
+    throw new Error("Cron expression must have 5 fields: minute hour day-of-month month day-of-week");
+  }
+  const [minute, hour, dayOfMonth, month, dayOfWeek] = fields;
+
+  const daysOfWeek = parseField(dayOfWeek, 0, 7, DAY_NAMES);
+  if (daysOfWeek.delete(7)) daysOfWeek.add(0);
+
+  const dayOfMonthRestricted = dayOfMonth !== "*";
+  const dayOfWeekRestricted = dayOfWeek !== "*";
+  return {
+    minutes: [...parseField(minute, 0, 59)].sort((a, b) => a - b),
+    hours: [...parseField(hour, 0, 23)].sort((a, b) => a - b),
+    daysOfMonth: parseField(dayOfMonth, 1, 31),
+    months: parseField(month, 1, 12, MONTH_NAMES, 1),
+    daysOfWeek,
+    dayOr: dayOfMonthRestricted && dayOfWeekRestricted,
+    dayOfMonthRestricted,
+    dayOfWeekRestricted,
+  };
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+/** Wall-clock fields of `date` in `timeZone` (month is 1-based) */
+function zonedParts(date: Date, timeZone: string) {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "numeric",
+      day: "numeric",
+      hour: "numeric",
+      minute: "numeric",
+    });
+    formatters.set(timeZone, formatter);
+  }
+  const parts = formatter.formatToParts(date);
+  const get = (type: Intl.DateTimeFormatPartTypes) => parseInt(parts.find((p) => p.type === type)!.value, 10);
+  return { year: get("year"), month: get("month"), day: get("day"), hour: get("hour") % 24, minute: get("minute") };
+}
+
+/** UTC offset of `timeZone` at the given instant, in ms */
+function zoneOffsetMs(utcMs: number, timeZone: string): number {
+  const minuteMs = Math.floor(utcMs / 60_000) * 60_000;
+  const p = zonedParts(new Date(minuteMs), timeZone);
+  return Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute) - minuteMs;
+}
+
+/**
+ * The instant a wall-clock time occurs in `timeZone`, or null if it doesn't
+ * (skipped by a daylight-saving jump).
+ */
+function zonedTimeToUtc(
+  year: number,
+  month: number,
+  day: number,
+  hour: number,
+  minute: number,
+  timeZone: string
+): number | null {
+  const wall = Date.UTC(year, month - 1, day, hour, minute);
+  let utc = wall - zoneOffsetMs(wall, timeZone);
+  utc = wall - zoneOffsetMs(utc, timeZone);
+  const check = zonedParts(new Date(utc), timeZone);
+  return check.hour === hour && check.minute === minute && check.day === day ? utc : null;
+}
+
+function dayMatches(cron: CronExpression, dayOfMonth: number, dayOfWeek: number): boolean {
+  const domMatch = cron.daysOfMonth.has(dayOfMonth);
+  const dowMatch = cron.daysOfWeek.has(dayOfWeek);
+  if (cron.dayOr) return domMatch || dowMatch;
+  return (!cron.dayOfMonthRestricted || domMatch) && (!cron.dayOfWeekRestricted || dowMatch);
+}
+
+/**
+ * First occurrence of `cron` strictly after `after`, evaluated in `timeZone`.
+ * Wall-clock times skipped by a daylight-saving jump don't fire. Returns null
+ * if the expression never matches (e.g. "0 0 31 2 *").
+ */
+export function nextCronOccurrence(cron: CronExpression, after: Date, timeZone: string): Date | null {
+  const start = zonedParts(after, timeZone);
+  for (let offset = 0; offset <= SEARCH_HORIZON_DAYS; offset++) {
+    const day = new Date(Date.UTC(start.year, start.month - 1, start.day + offset));
+    const month = day.getUTCMonth() + 1;
+    if (!cron.months.has(month) || !dayMatches(cron, day.getUTCDate(), day.getUTCDay())) continue;
+
+    for (const hour of cron.hours) {
+      if (offset === 0 && hour < start.hour) continue;
+      for (const minute of cron.minutes) {
+        if (offset === 0 && hour === start.hour && minute <= start.minute) continue;
+        const utc = zonedTimeToUtc(day.getUTCFullYear(), month, day.getUTCDate(), hour, minute, timeZone);
+        if (utc !== null && utc > after.getTime()) return new Date(utc);
+      }
+    }
+  }
+  return null;
+}
@@ -0,0 +1,77 @@
+// ---------------------------------------------------------------------------
+// HMAC signing
+// ---------------------------------------------------------------------------
+
+function toHex(buffer: ArrayBuffer): string {
+  return [...new Uint8Array(buffer)].map((b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+/** HMAC-SHA256 of data as lowercase hex */
+export async function hmacSha256Hex(secret: string, data: string): Promise<string> {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey(
+    "raw",
+    encoder.encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"]
+  );
+  return toHex(await crypto.subtle.sign("HMAC", key, encoder.encode(data)));
+}
+
+/** Compare without exiting early, so timing doesn't reveal a signature */
+export function constantTimeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  return diff === 0;
+}
+
+// ---------------------------------------------------------------------------
+// Encryption at rest
+// ---------------------------------------------------------------------------
+
+// Stored values are "v1:<iv>:<ciphertext>" (base64); the version leaves room
+// for key rotation
+const ENCRYPTION_VERSION = "v1";
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = "";
+  for (const byte of bytes) binary += String.fromCharCode(byte);
+  return btoa(binary);
+}
+
+function fromBase64(str: string): Uint8Array {
+  const binary = atob(str);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+}
+
+/** keyBase64 is a 32-byte AES-256 key, base64 encoded */
+async function importAesKey(keyBase64: string): Promise<CryptoKey> {
+  const raw = fromBase64(keyBase64);
+  if (raw.byteLength !== 32) {
+    throw new Error("Encryption key must be 32 bytes (base64 encoded)");
+  }
+  return crypto.subtle.importKey("raw", raw, { name: "AES-GCM" }, false, ["encrypt", "decrypt"]);
+}
+
+/** Encrypt a secret with AES-256-GCM under a random IV */
+export async function encryptSecret(plaintext: string, keyBase64: string): Promise<string> {
+  const key = await importAesKey(keyBase64);
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const ciphertext = await crypto.subtle.encrypt({ name: "AES-GCM", iv }, key, new TextEncoder().encode(plaintext));
+  return `${ENCRYPTION_VERSION}:${toBase64(iv)}:${toBase64(new Uint8Array(ciphertext))}`;
+}
+
+/** Decrypt a value from encryptSecret; throws if it was tampered with or the key differs */
+export async function decryptSecret(stored: string, keyBase64: string): Promise<string> {
+  const [version, iv, ciphertext] = stored.split(":");
+  if (version !== ENCRYPTION_VERSION || !iv || !ciphertext) {
+    throw new Error("Unrecognized encrypted value");
+  }
+  const key = await importAesKey(keyBase64);
+  const plaintext = await crypto.subtle.decrypt({ name: "AES-GCM", iv: fromBase64(iv) }, key, fromBase64(ciphertext));
+  return new TextDecoder().decode(plaintext);
+}
@@ -19,6 +19,7 @@ import {
   XCircle,
   Loader2,
   Clock,
+  Hourglass,
 } from "lucide-react";
 import { api } from "@/lib/api";
 import { formatNumber, formatRelativeTimeKo } from "@/lib/format";
@@ -29,6 +30,7 @@ const STATUS_MAP: Record<
   { label: string; icon: React.ElementType; className: string }
 > = {
   queued: { label: "대기 중", icon: Clock, className: "text-muted-foreground" },
+  awaiting_approval: { label: "승인 대기", icon: Hourglass, className: "text-amber-600" },
   running: { label: "실행 중", icon: Loader2, className: "text-blue-600" },
   completed: { label: "완료", icon: CheckCircle2, className: "text-green-600" },
   failed: { label: "실패", icon: XCircle, className: "text-destructive" },
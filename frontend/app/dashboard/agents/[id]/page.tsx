@@ -1,13 +1,14 @@
 "use client";
 
-import { useEffect, useState } from "react";
+import { useEffect, useRef, useState } from "react";
 import { useRouter } from "next/navigation";
 import Link from "next/link";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
-import { Label } from "@/components/ui/label";
 import { Separator } from "@/components/ui/separator";
+import { SchemaForm, fieldErrorsFromDetails, hasSchemaFields } from "@/components/schema-form";
+import { AgentSchedules } from "@/components/agent-schedules";
 import {
   Bot,
   ArrowLeft,
@@ -31,7 +32,10 @@ export default function AgentDetailPage({ params }: { params: { id: string } })
   const [loading, setLoading] = useState(true);
   const [submitting, setSubmitting] = useState(false);
   const [balance, setBalance] = useState(0);
-  const [inputJson, setInputJson] = useState("{}");
+  const [runInput, setRunInput] = useState<Record<string, unknown>>({});
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({});
+  // Reused when the same input is submitted again, so a retry can't start a second run
+  const runKey = useRef<{ input: string; key: string } | null>(null);
 
   useEffect(() => {
     async function fetchData() {
@@ -60,24 +64,25 @@ export default function AgentDetailPage({ params }: { params: { id: string } })
   async function handleRun() {
     if (!config || !hasEnoughCredits) return;
 
-    let parsedInput: Record<string, unknown> = {};
-    try {
-      parsedInput = JSON.parse(inputJson);
-    } catch {
-      toast({ title: "입력 오류", description: "유효한 JSON 형식이 아닙니다.", variant: "destructive" });
-      return;
-    }
-
     setSubmitting(true);
+    setFieldErrors({});
     try {
+      const input = JSON.stringify(runInput);
+      if (runKey.current?.input !== input) {
+        runKey.current = { input, key: crypto.randomUUID() };
+      }
       const res = await api.post<{ runId: string; creditsReserved: number; status: string }>(
         "/agents/runs",
-        { agentConfigId: config.id, input: parsedInput }
+        { agentConfigId: config.id, input: runInput },
+        { headers: { "Idempotency-Key": runKey.current.key } }
       );
 
       if (res.success && res.data) {
         toast({ title: "실행 시작", description: `에이전트 실행이 시작되었습니다. (${formatNumber(res.data.creditsReserved)} 크레딧 예약)` });
         router.push(`/dashboard/runs/${res.data.runId}`);
+      } else if (res.error?.code === "VALIDATION_FAILED") {
+        setFieldErrors(fieldErrorsFromDetails(res.error.details));
+        toast({ title: "입력 오류", description: "입력 항목을 확인해주세요.", variant: "destructive" });
       } else {
         toast({ title: "실행 실패", description: res.error?.message || "에이전트 실행에 실패했습니다.", variant: "destructive" });
       }
@@ -178,22 +183,29 @@ export default function AgentDetailPage({ params }: { params: { id: string } })
           <Card>
             <CardHeader>
               <CardTitle className="text-base">실행 입력</CardTitle>
-              <CardDescription>에이전트 실행에 전달할 입력 데이터 (JSON)</CardDescription>
+              <CardDescription>에이전트 실행에 전달할 입력 데이터</CardDescription>
             </CardHeader>
-            <CardContent className="space-y-4">
-              <div className="space-y-2">
-                <Label htmlFor="input-json">입력 JSON</Label>
-                <textarea
-                  id="input-json"
-                  className="flex min-h-[100px] w-full rounded-md border border-input bg-background px-3 py-2 text-sm font-mono ring-offset-background placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2"
-                  value={inputJson}
-                  onChange={(e) => setInputJson(e.target.value)}
-                  placeholder='{"topic": "겨울 브이로그", "style": "casual"}'
+            <CardContent>
+              {hasSchemaFields(config.paramsSchema) ? (
+                <SchemaForm
+                  schema={config.paramsSchema}
+                  value={runInput}
+                  onChange={(value) => {
+                    setRunInput(value);
+                    setFieldErrors({});
+                  }}
+                  errors={fieldErrors}
+                  idPrefix="run-input"
                 />
-              </div>
+              ) : (
+                <p className="text-sm text-muted-foreground">입력 항목이 없습니다.</p>
+              )}
             </CardContent>
           </Card>
 
+          {/* Schedules */}
+          <AgentSchedules config={config} />
+
           {/* Recent Runs for this config */}
           {runs.length > 0 && (
             <Card>
@@ -212,6 +224,7 @@ export default function AgentDetailPage({ params }: { params: { id: string } })
                         <Badge variant="outline" className="text-xs">
                           {run.status === "completed" ? "완료" :
                            run.status === "running" ? "실행 중" :
+                           run.status === "awaiting_approval" ? "승인 대기" :
                            run.status === "failed" ? "실패" :
                            run.status === "cancelled" ? "취소" : "대기"}
                         </Badge>
@@ -6,6 +6,7 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { SchemaForm, fieldErrorsFromDetails, hasSchemaFields } from "@/components/schema-form";
 import { ArrowLeft, Bot, Loader2 } from "lucide-react";
 import { api } from "@/lib/api";
 import { formatNumber } from "@/lib/format";
@@ -24,6 +25,8 @@ export default function NewAgentPage() {
 
   const [name, setName] = useState("");
   const [description, setDescription] = useState("");
+  const [configJson, setConfigJson] = useState<Record<string, unknown>>({});
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({});
 
   useEffect(() => {
     async function fetchTemplates() {
@@ -52,17 +55,21 @@ export default function NewAgentPage() {
     if (!selectedTemplate || !name.trim()) return;
 
     setSubmitting(true);
+    setFieldErrors({});
     try {
       const res = await api.post<{ config: { id: string } }>("/agents/configs", {
         agentTemplateId: selectedTemplate.id,
         name: name.trim(),
         description: description.trim() || undefined,
-        configJson: {},
+        configJson,
       });
 
       if (res.success && res.data) {
         toast({ title: "에이전트 생성 완료", description: `${name} 에이전트가 생성되었습니다.` });
         router.push(`/dashboard/agents/${res.data.config.id}`);
+      } else if (res.error?.code === "VALIDATION_FAILED") {
+        setFieldErrors(fieldErrorsFromDetails(res.error.details));
+        toast({ title: "입력 오류", description: "설정 항목을 확인해주세요.", variant: "destructive" });
       } else {
         toast({ title: "생성 실패", description: res.error?.message || "에이전트 생성에 실패했습니다.", variant: "destructive" });
       }
@@ -154,6 +161,18 @@ export default function NewAgentPage() {
                 placeholder="이 설정에 대한 간단한 설명 (선택)"
               />
             </div>
+            {hasSchemaFields(selectedTemplate.configSchema) && (
+              <SchemaForm
+                schema={selectedTemplate.configSchema}
+                value={configJson}
+                onChange={(value) => {
+                  setConfigJson(value);
+                  setFieldErrors({});
+                }}
+                errors={fieldErrors}
+                idPrefix="config"
+              />
+            )}
             <div className="flex gap-3 pt-2">
               <Button
                 variant="outline"
@@ -161,6 +180,8 @@ export default function NewAgentPage() {
                   setSelectedTemplate(null);
                   setName("");
                   setDescription("");
+                  setConfigJson({});
+                  setFieldErrors({});
                 }}
               >
                 템플릿 변경
@@ -11,20 +11,24 @@ import {
   Coins,
   Plus,
   Loader2,
-  Sparkles,
+  TrendingUp,
+  FileText,
   Image,
   Hash,
-  Languages,
+  Share2,
+  BarChart3,
 } from "lucide-react";
 import { api } from "@/lib/api";
 import { formatNumber, formatRelativeTimeKo } from "@/lib/format";
 import type { AgentTemplate, AgentConfig } from "@/types";
 
 const CATEGORY_META: Record<string, { label: string; icon: React.ElementType }> = {
-  content: { label: "콘텐츠", icon: Sparkles },
-  visual: { label: "비주얼", icon: Image },
-  seo: { label: "SEO", icon: Hash },
-  localization: { label: "현지화", icon: Languages },
+  "trend-research": { label: "트렌드", icon: TrendingUp },
+  "script-generator": { label: "스크립트", icon: FileText },
+  "thumbnail-generator": { label: "비주얼", icon: Image },
+  "seo-optimizer": { label: "SEO", icon: Hash },
+  "cross-platform-poster": { label: "게시", icon: Share2 },
+  analytics: { label: "분석", icon: BarChart3 },
 };
 
 const CONFIG_STATUS_LABELS: Record<string, { label: string; className: string }> = {
@@ -82,7 +86,7 @@ export default function AgentsPage() {
           </p>
           <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
             {templates.map((template) => {
-              const catMeta = CATEGORY_META[template.category] || CATEGORY_META.content;
+              const catMeta = CATEGORY_META[template.category] || CATEGORY_META["script-generator"];
               const CatIcon = catMeta.icon;
               return (
                 <Card key={template.id} className="flex flex-col">
@@ -108,7 +112,9 @@ export default function AgentsPage() {
                     <div className="flex items-center justify-between">
                       <div className="flex items-center gap-1 text-sm text-muted-foreground">
                         <Coins className="h-4 w-4" />
-                        <span>~{formatNumber(template.estimatedCreditsPerRun)} 크레딧/실행</span>
+                        <span>
+                          {formatNumber(template.estimatedCredits.min)}~{formatNumber(template.estimatedCredits.max)} 크레딧/실행
+                        </span>
                       </div>
                       <Link href={`/dashboard/agents/new?template=${template.id}`}>
                         <Button size="sm" className="gap-1">
@@ -1,6 +1,6 @@
 "use client";
 
-import { useEffect, useState, useCallback } from "react";
+import { useEffect, useRef, useState, useCallback } from "react";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
@@ -80,6 +80,8 @@ export default function CreditsPage() {
   const [selectedPkg, setSelectedPkg] = useState<CreditPackage | null>(null);
   const [payMethod, setPayMethod] = useState<PayMethod>("card");
   const [paying, setPaying] = useState(false);
+  // Reused when preparing the same package again after a failed or lost response
+  const prepareKey = useRef<{ packageCode: string; key: string } | null>(null);
   const [balance, setBalance] = useState<CreditBalance | null>(null);
 
   const [vbankInfo, setVbankInfo] = useState<{
@@ -156,6 +158,9 @@ export default function CreditsPage() {
 
     try {
       // Step 1: Create payment order on backend (server generates merchant_uid)
+      if (prepareKey.current?.packageCode !== selectedPkg.id) {
+        prepareKey.current = { packageCode: selectedPkg.id, key: crypto.randomUUID() };
+      }
       const prepRes = await api.post<{
         type: string;
         orderId: string;
@@ -163,8 +168,13 @@ export default function CreditsPage() {
         amount: number;
         packageName: string;
         creditsToGrant: number;
-      }>("/credits/prepare", { packageCode: selectedPkg.id });
+      }>(
+        "/credits/prepare",
+        { packageCode: selectedPkg.id },
+        { headers: { "Idempotency-Key": prepareKey.current.key } }
+      );
 
+      if (prepRes.success) prepareKey.current = null;
       if (!prepRes.success || !prepRes.data) {
         toast({ title: "결제 준비 실패", description: prepRes.error?.message || "결제 준비에 실패했습니다.", variant: "destructive" });
         setPaying(false);
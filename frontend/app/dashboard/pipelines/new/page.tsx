@@ -0,0 +1,358 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { ArrowLeft, ArrowDown, Loader2, Plus, Trash2, X } from "lucide-react";
+import { api } from "@/lib/api";
+import { formatNumber } from "@/lib/format";
+import { toast } from "@/hooks/use-toast";
+import type { AgentConfig, FieldError, PipelineStep, PipelineStepMapping } from "@/types";
+
+type StepDraft = { id: string; agentConfigId: string; mappings: PipelineStepMapping[] };
+
+/** VALIDATION_FAILED details keyed by their full path, e.g. "steps[1].mappings[0].fromStep" */
+function errorsByPath(details: unknown): Record<string, string> {
+  const errors: Record<string, string> = {};
+  if (!Array.isArray(details)) return errors;
+  for (const item of details as FieldError[]) {
+    if (item && typeof item.field === "string" && !errors[item.field]) errors[item.field] = item.message;
+  }
+  return errors;
+}
+
+function FieldMessage({ message }: { message?: string }) {
+  if (!message) return null;
+  return <p className="text-xs text-destructive">{message}</p>;
+}
+
+export default function NewPipelinePage() {
+  const router = useRouter();
+  const [configs, setConfigs] = useState<AgentConfig[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [submitting, setSubmitting] = useState(false);
+
+  const [name, setName] = useState("");
+  const [description, setDescription] = useState("");
+  const [steps, setSteps] = useState<StepDraft[]>([{ id: "", agentConfigId: "", mappings: [] }]);
+  const [errors, setErrors] = useState<Record<string, string>>({});
+
+  useEffect(() => {
+    async function fetchConfigs() {
+      try {
+        const res = await api.get<{ configs: AgentConfig[] }>("/agents/configs");
+        if (res.success && res.data) {
+          setConfigs(res.data.configs.filter((c) => c.status === "active"));
+        }
+      } catch {
+        // API not available
+      } finally {
+        setLoading(false);
+      }
+    }
+    fetchConfigs();
+  }, []);
+
+  function updateStep(index: number, patch: Partial<StepDraft>) {
+    setSteps((prev) => prev.map((step, i) => (i === index ? { ...step, ...patch } : step)));
+    setErrors({});
+  }
+
+  function updateMapping(stepIndex: number, mappingIndex: number, patch: Partial<PipelineStepMapping>) {
+    const step = steps[stepIndex];
+    updateStep(stepIndex, {
+      mappings: step.mappings.map((m, i) => (i === mappingIndex ? { ...m, ...patch } : m)),
+    });
+  }
+
+  function selectConfig(index: number, configId: string) {
+    const config = configs.find((c) => c.id === configId);
+    const step = steps[index];
+    // Default the step id to the agent it runs, so mappings read naturally
+    const id = step.id || (config ? config.agentTemplateId.replace(/[^a-z0-9]+/gi, "_") : "");
+    updateStep(index, { agentConfigId: configId, id });
+  }
+
+  const estimatedCredits = steps.reduce(
+    (sum, step) => sum + (configs.find((c) => c.id === step.agentConfigId)?.estimatedCreditsPerRun ?? 0),
+    0
+  );
+  const canSubmit =
+    name.trim() !== "" && steps.length > 0 && steps.every((s) => s.id.trim() && s.agentConfigId) && !submitting;
+
+  async function handleCreate() {
+    if (!canSubmit) return;
+
+    setSubmitting(true);
+    setErrors({});
+    try {
+      const body: { name: string; description?: string; steps: PipelineStep[] } = {
+        name: name.trim(),
+        description: description.trim() || undefined,
+        steps: steps.map((step) => ({
+          id: step.id.trim(),
+          agentConfigId: step.agentConfigId,
+          mappings: step.mappings.length > 0 ? step.mappings : undefined,
+        })),
+      };
+      const res = await api.post<{ pipeline: { id: string } }>("/pipelines", body);
+
+      if (res.success && res.data) {
+        toast({ title: "파이프라인 생성 완료", description: `${name} 파이프라인이 생성되었습니다.` });
+        router.push("/dashboard/pipelines");
+      } else if (res.error?.code === "VALIDATION_FAILED") {
+        setErrors(errorsByPath(res.error.details));
+        toast({ title: "입력 오류", description: "단계 설정을 확인해주세요.", variant: "destructive" });
+      } else {
+        toast({ title: "생성 실패", description: res.error?.message || "파이프라인 생성에 실패했습니다.", variant: "destructive" });
+      }
+    } catch {
+      toast({ title: "오류", description: "파이프라인 생성 중 오류가 발생했습니다.", variant: "destructive" });
+    } finally {
+      setSubmitting(false);
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-20">
+        <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  if (configs.length === 0) {
+    return (
+      <div className="space-y-6 max-w-2xl">
+        <Button variant="ghost" className="gap-1" onClick={() => router.back()}>
+          <ArrowLeft className="h-4 w-4" />
+          뒤로
+        </Button>
+        <Card>
+          <CardContent className="py-12 text-center">
+            <p className="text-sm text-muted-foreground mb-4">
+              파이프라인에 넣을 에이전트 설정이 없습니다. 먼저 에이전트를 만들어 주세요.
+            </p>
+            <Link href="/dashboard/agents/new">
+              <Button variant="outline">에이전트 만들기</Button>
+            </Link>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6 max-w-2xl">
+      <Button variant="ghost" className="gap-1" onClick={() => router.back()}>
+        <ArrowLeft className="h-4 w-4" />
+        뒤로
+      </Button>
+
+      <h1 className="text-2xl font-bold">새 파이프라인</h1>
+
+      <Card>
+        <CardContent className="space-y-4 pt-6">
+          <div className="space-y-2">
+            <Label htmlFor="name">이름 <span className="text-destructive">*</span></Label>
+            <Input
+              id="name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="예: 데일리 숏폼 제작"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="description">설명</Label>
+            <Input
+              id="description"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              placeholder="이 파이프라인에 대한 간단한 설명 (선택)"
+            />
+          </div>
+          <FieldMessage message={errors.steps} />
+        </CardContent>
+      </Card>
+
+      {steps.map((step, index) => {
+        const path = `steps[${index}]`;
+        const earlierSteps = steps.slice(0, index).filter((s) => s.id.trim());
+        return (
+          <div key={index} className="space-y-6">
+            {index > 0 && <ArrowDown className="h-5 w-5 text-muted-foreground mx-auto" />}
+            <Card>
+              <CardHeader className="flex flex-row items-start justify-between space-y-0">
+                <div>
+                  <CardTitle className="text-base">{index + 1}단계</CardTitle>
+                  <CardDescription className="text-xs">
+                    {index === 0
+                      ? "첫 단계는 실행 시 입력한 파라미터만 사용합니다."
+                      : "이전 단계 결과의 필드를 이 단계의 파라미터로 연결할 수 있습니다."}
+                  </CardDescription>
+                </div>
+                {steps.length > 1 && (
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => {
+                      setSteps((prev) => prev.filter((_, i) => i !== index));
+                      setErrors({});
+                    }}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                )}
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="grid gap-4 sm:grid-cols-2">
+                  <div className="space-y-2">
+                    <Label>에이전트 <span className="text-destructive">*</span></Label>
+                    <Select value={step.agentConfigId} onValueChange={(v) => selectConfig(index, v)}>
+                      <SelectTrigger>
+                        <SelectValue placeholder="에이전트 선택" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {configs.map((config) => (
+                          <SelectItem key={config.id} value={config.id}>
+                            {config.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FieldMessage message={errors[`${path}.agentConfigId`]} />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor={`step-${index}-id`}>단계 ID <span className="text-destructive">*</span></Label>
+                    <Input
+                      id={`step-${index}-id`}
+                      value={step.id}
+                      onChange={(e) => updateStep(index, { id: e.target.value })}
+                      placeholder="예: trend"
+                      className="font-mono"
+                    />
+                    <FieldMessage message={errors[`${path}.id`]} />
+                  </div>
+                </div>
+
+                {index > 0 && (
+                  <div className="space-y-2">
+                    <Label>파라미터 연결</Label>
+                    {step.mappings.map((mapping, mappingIndex) => {
+                      const mappingPath = `${path}.mappings[${mappingIndex}]`;
+                      return (
+                        <div key={mappingIndex} className="space-y-1">
+                          <div className="flex items-center gap-2">
+                            <Input
+                              value={mapping.param}
+                              onChange={(e) => updateMapping(index, mappingIndex, { param: e.target.value })}
+                              placeholder="파라미터 (예: topic)"
+                              className="font-mono text-xs"
+                            />
+                            <span className="text-xs text-muted-foreground shrink-0">←</span>
+                            <Select
+                              value={mapping.fromStep}
+                              onValueChange={(v) => updateMapping(index, mappingIndex, { fromStep: v })}
+                            >
+                              <SelectTrigger className="w-32 shrink-0">
+                                <SelectValue placeholder="단계" />
+                              </SelectTrigger>
+                              <SelectContent>
+                                {earlierSteps.map((s) => (
+                                  <SelectItem key={s.id} value={s.id}>
+                                    {s.id}
+                                  </SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                            <Input
+                              value={mapping.field}
+                              onChange={(e) => updateMapping(index, mappingIndex, { field: e.target.value })}
+                              placeholder="결과 필드 (예: topics[0].topic)"
+                              className="font-mono text-xs"
+                            />
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              className="shrink-0"
+                              onClick={() =>
+                                updateStep(index, { mappings: step.mappings.filter((_, i) => i !== mappingIndex) })
+                              }
+                            >
+                              <X className="h-4 w-4" />
+                            </Button>
+                          </div>
+                          <FieldMessage
+                            message={
+                              errors[`${mappingPath}.param`] ||
+                              errors[`${mappingPath}.fromStep`] ||
+                              errors[`${mappingPath}.field`] ||
+                              errors[mappingPath]
+                            }
+                          />
+                        </div>
+                      );
+                    })}
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="gap-1"
+                      disabled={earlierSteps.length === 0}
+                      onClick={() =>
+                        updateStep(index, {
+                          mappings: [
+                            ...step.mappings,
+                            { param: "", fromStep: earlierSteps[earlierSteps.length - 1]?.id ?? "", field: "" },
+                          ],
+                        })
+                      }
+                    >
+                      <Plus className="h-4 w-4" />
+                      연결 추가
+                    </Button>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+        );
+      })}
+
+      <Button
+        variant="outline"
+        className="w-full gap-1"
+        onClick={() => setSteps((prev) => [...prev, { id: "", agentConfigId: "", mappings: [] }])}
+      >
+        <Plus className="h-4 w-4" />
+        단계 추가
+      </Button>
+
+      <div className="flex items-center justify-between">
+        <span className="text-sm text-muted-foreground">
+          예상 크레딧 약 {formatNumber(estimatedCredits)} (실행 시 최대치 기준으로 예약)
+        </span>
+        <Button disabled={!canSubmit} onClick={handleCreate}>
+          {submitting ? (
+            <>
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              생성 중...
+            </>
+          ) : (
+            "파이프라인 생성"
+          )}
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,210 @@
+"use client";
+
+import { useEffect, useState, useCallback } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Loader2,
+  CheckCircle2,
+  XCircle,
+  Clock,
+  Plus,
+  Play,
+  Workflow,
+  ChevronRight,
+} from "lucide-react";
+import { cn } from "@/lib/utils";
+import { api } from "@/lib/api";
+import { formatNumber, formatDateKST, formatRelativeTimeKo } from "@/lib/format";
+import { toast } from "@/hooks/use-toast";
+import type { Pipeline, PipelineRun } from "@/types";
+
+const STATUS_META: Record<string, { label: string; icon: React.ElementType; className: string }> = {
+  pending: { label: "대기", icon: Clock, className: "text-muted-foreground" },
+  running: { label: "실행 중", icon: Loader2, className: "text-blue-600" },
+  completed: { label: "완료", icon: CheckCircle2, className: "text-green-600" },
+  failed: { label: "실패", icon: XCircle, className: "text-destructive" },
+  cancelled: { label: "취소", icon: XCircle, className: "text-muted-foreground" },
+};
+
+export default function PipelinesPage() {
+  const router = useRouter();
+  const [pipelines, setPipelines] = useState<Pipeline[]>([]);
+  const [runs, setRuns] = useState<PipelineRun[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [startingId, setStartingId] = useState<string | null>(null);
+
+  const fetchData = useCallback(async () => {
+    try {
+      const [pipelinesRes, runsRes] = await Promise.all([
+        api.get<{ pipelines: Pipeline[] }>("/pipelines?status=active"),
+        api.get<{ runs: PipelineRun[]; total: number }>("/pipelines/runs?limit=10"),
+      ]);
+      if (pipelinesRes.success && pipelinesRes.data) setPipelines(pipelinesRes.data.pipelines);
+      if (runsRes.success && runsRes.data) setRuns(runsRes.data.runs);
+    } catch {
+      // API not available
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchData();
+  }, [fetchData]);
+
+  async function handleRun(pipeline: Pipeline) {
+    setStartingId(pipeline.id);
+    try {
+      const res = await api.post<{ pipelineRunId: string; creditsReserved: number }>(
+        `/pipelines/${pipeline.id}/runs`,
+        {}
+      );
+      if (res.success && res.data) {
+        toast({
+          title: "파이프라인 실행 시작",
+          description: `${formatNumber(res.data.creditsReserved)} 크레딧이 예약되었습니다.`,
+        });
+        router.push(`/dashboard/pipelines/runs/${res.data.pipelineRunId}`);
+      } else {
+        toast({ title: "실행 실패", description: res.error?.message || "파이프라인 실행에 실패했습니다.", variant: "destructive" });
+      }
+    } catch {
+      toast({ title: "오류", description: "파이프라인 실행 중 오류가 발생했습니다.", variant: "destructive" });
+    } finally {
+      setStartingId(null);
+    }
+  }
+
+  const pipelineNames = new Map(pipelines.map((p) => [p.id, p.name]));
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-20">
+        <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold">파이프라인</h1>
+          <p className="text-sm text-muted-foreground">
+            여러 에이전트를 순서대로 연결해 한 번에 실행합니다.
+          </p>
+        </div>
+        <Link href="/dashboard/pipelines/new">
+          <Button className="gap-1">
+            <Plus className="h-4 w-4" />
+            새 파이프라인
+          </Button>
+        </Link>
+      </div>
+
+      {pipelines.length === 0 ? (
+        <Card>
+          <CardContent className="py-12 text-center">
+            <Workflow className="h-12 w-12 text-muted-foreground mx-auto mb-3" />
+            <p className="text-sm text-muted-foreground mb-4">
+              아직 파이프라인이 없습니다. 트렌드 분석부터 업로드까지 에이전트를 연결해 보세요.
+            </p>
+            <Link href="/dashboard/pipelines/new">
+              <Button variant="outline">파이프라인 만들기</Button>
+            </Link>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="grid gap-4 sm:grid-cols-2">
+          {pipelines.map((pipeline) => (
+            <Card key={pipeline.id}>
+              <CardHeader>
+                <CardTitle className="text-base">{pipeline.name}</CardTitle>
+                {pipeline.description && <CardDescription>{pipeline.description}</CardDescription>}
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="flex flex-wrap items-center gap-1 text-xs">
+                  {pipeline.steps.map((step, index) => (
+                    <span key={step.id} className="flex items-center gap-1">
+                      {index > 0 && <ChevronRight className="h-3 w-3 text-muted-foreground" />}
+                      <Badge variant="secondary" className="font-mono">{step.id}</Badge>
+                    </span>
+                  ))}
+                </div>
+                <div className="flex items-center justify-between">
+                  <span className="text-sm text-muted-foreground">
+                    {pipeline.estimatedCredits != null
+                      ? `최대 ${formatNumber(pipeline.estimatedCredits)} 크레딧`
+                      : `${pipeline.steps.length}단계`}
+                  </span>
+                  <Button
+                    size="sm"
+                    className="gap-1"
+                    disabled={startingId !== null}
+                    onClick={() => handleRun(pipeline)}
+                  >
+                    {startingId === pipeline.id ? (
+                      <Loader2 className="h-4 w-4 animate-spin" />
+                    ) : (
+                      <Play className="h-4 w-4" />
+                    )}
+                    실행
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+
+      {runs.length > 0 && (
+        <div className="space-y-3">
+          <h2 className="text-lg font-semibold">최근 실행</h2>
+          <div className="space-y-2">
+            {runs.map((run) => {
+              const meta = STATUS_META[run.status] || STATUS_META.pending;
+              const StatusIcon = meta.icon;
+              const credits = run.status === "running" ? run.creditsReserved : run.creditsActual;
+              return (
+                <Link
+                  key={run.id}
+                  href={`/dashboard/pipelines/runs/${run.id}`}
+                  className="flex items-center justify-between rounded-lg border p-4 hover:bg-muted/50 transition-colors"
+                >
+                  <div className="flex items-center gap-3 min-w-0">
+                    <StatusIcon
+                      className={cn(
+                        "h-5 w-5 shrink-0",
+                        meta.className,
+                        run.status === "running" && "animate-spin"
+                      )}
+                    />
+                    <div className="min-w-0">
+                      <div className="flex items-center gap-2">
+                        <p className="text-sm font-medium truncate">
+                          {pipelineNames.get(run.pipelineId) || run.pipelineId.slice(0, 8)}
+                        </p>
+                        <Badge variant="outline" className="text-xs shrink-0">
+                          {meta.label}
+                        </Badge>
+                      </div>
+                      <p className="text-xs text-muted-foreground mt-0.5">{formatDateKST(run.createdAt)}</p>
+                    </div>
+                  </div>
+                  <div className="text-right shrink-0 ml-4">
+                    <p className="text-sm font-medium">{formatNumber(credits)} 크레딧</p>
+                    <p className="text-xs text-muted-foreground">{formatRelativeTimeKo(run.createdAt)}</p>
+                  </div>
+                </Link>
+              );
+            })}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
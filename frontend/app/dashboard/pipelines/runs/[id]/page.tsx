@@ -0,0 +1,307 @@
+"use client";
+
+import { useEffect, useState, useCallback } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  ArrowLeft,
+  Ban,
+  CheckCircle2,
+  Clock,
+  Coins,
+  ExternalLink,
+  Hourglass,
+  Loader2,
+  RotateCcw,
+  XCircle,
+} from "lucide-react";
+import { cn } from "@/lib/utils";
+import { api } from "@/lib/api";
+import { formatNumber, formatDateKST, formatRelativeTimeKo } from "@/lib/format";
+import { toast } from "@/hooks/use-toast";
+import type { PipelineRun, PipelineRunStep } from "@/types";
+
+const POLL_INTERVAL_MS = 3000;
+
+const STATUS_CONFIG: Record<string, {
+  label: string;
+  icon: React.ElementType;
+  className: string;
+  badgeVariant: "default" | "secondary" | "destructive" | "outline";
+}> = {
+  pending: { label: "대기 중", icon: Clock, className: "text-muted-foreground", badgeVariant: "secondary" },
+  running: { label: "실행 중", icon: Loader2, className: "text-blue-600", badgeVariant: "default" },
+  completed: { label: "완료", icon: CheckCircle2, className: "text-green-600", badgeVariant: "outline" },
+  failed: { label: "실패", icon: XCircle, className: "text-destructive", badgeVariant: "destructive" },
+  cancelled: { label: "취소됨", icon: Ban, className: "text-muted-foreground", badgeVariant: "secondary" },
+};
+
+export default function PipelineRunDetailPage({ params }: { params: { id: string } }) {
+  const router = useRouter();
+  const [run, setRun] = useState<PipelineRun | null>(null);
+  const [steps, setSteps] = useState<PipelineRunStep[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [acting, setActing] = useState(false);
+
+  const fetchRun = useCallback(async () => {
+    try {
+      const res = await api.get<{ run: PipelineRun; steps: PipelineRunStep[] }>(`/pipelines/runs/${params.id}`);
+      if (res.success && res.data) {
+        setRun(res.data.run);
+        setSteps(res.data.steps);
+      }
+    } catch {
+      // API not available
+    } finally {
+      setLoading(false);
+    }
+  }, [params.id]);
+
+  useEffect(() => {
+    fetchRun();
+  }, [fetchRun]);
+
+  // Steps run one after another on the queue; poll until the run settles
+  const isActive = run?.status === "pending" || run?.status === "running";
+  useEffect(() => {
+    if (!isActive) return;
+    const timer = setInterval(fetchRun, POLL_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [isActive, fetchRun]);
+
+  async function handleCancel() {
+    if (!run) return;
+    setActing(true);
+    try {
+      const res = await api.post<{ message: string }>(`/pipelines/runs/${run.id}/cancel`);
+      if (res.success) {
+        toast({ title: "취소 요청됨", description: "진행 중인 단계가 끝나면 파이프라인이 중단됩니다." });
+        fetchRun();
+      } else {
+        toast({ title: "취소 실패", description: res.error?.message || "취소에 실패했습니다.", variant: "destructive" });
+      }
+    } catch {
+      toast({ title: "오류", description: "취소 처리 중 오류가 발생했습니다.", variant: "destructive" });
+    } finally {
+      setActing(false);
+    }
+  }
+
+  async function handleResume() {
+    if (!run) return;
+    setActing(true);
+    try {
+      const res = await api.post<{ pipelineRunId: string; creditsReserved: number; fromStep: string }>(
+        `/pipelines/runs/${run.id}/resume`,
+        {}
+      );
+      if (res.success && res.data) {
+        toast({
+          title: "이어서 실행",
+          description: `${res.data.fromStep} 단계부터 다시 실행합니다. ${formatNumber(res.data.creditsReserved)} 크레딧 예약`,
+        });
+        fetchRun();
+      } else {
+        toast({ title: "재개 실패", description: res.error?.message || "파이프라인을 이어서 실행하지 못했습니다.", variant: "destructive" });
+      }
+    } catch {
+      toast({ title: "오류", description: "재개 처리 중 오류가 발생했습니다.", variant: "destructive" });
+    } finally {
+      setActing(false);
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-20">
+        <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  if (!run) {
+    return (
+      <div className="space-y-6">
+        <Button variant="ghost" className="gap-1" onClick={() => router.back()}>
+          <ArrowLeft className="h-4 w-4" />
+          뒤로
+        </Button>
+        <Card>
+          <CardContent className="py-12 text-center">
+            <p className="text-muted-foreground">파이프라인 실행을 찾을 수 없습니다.</p>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  const statusConfig = STATUS_CONFIG[run.status] || STATUS_CONFIG.pending;
+  const StatusIcon = statusConfig.icon;
+  const completedSteps = steps.filter((s) => s.status === "completed").length;
+
+  return (
+    <div className="space-y-6">
+      <Button variant="ghost" className="gap-1" onClick={() => router.push("/dashboard/pipelines")}>
+        <ArrowLeft className="h-4 w-4" />
+        파이프라인
+      </Button>
+
+      {/* Status Header */}
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+        <div className="flex items-center gap-3">
+          <div className={cn(
+            "flex h-10 w-10 items-center justify-center rounded-full",
+            isActive ? "bg-blue-100" : run.status === "completed" ? "bg-green-100" : "bg-muted"
+          )}>
+            <StatusIcon className={cn("h-5 w-5", statusConfig.className, isActive && "animate-spin")} />
+          </div>
+          <div>
+            <div className="flex items-center gap-2">
+              <h1 className="text-xl font-bold">파이프라인 실행</h1>
+              <Badge variant={statusConfig.badgeVariant}>{statusConfig.label}</Badge>
+              <Badge variant="outline">{completedSteps}/{steps.length} 단계</Badge>
+            </div>
+            <p className="text-sm text-muted-foreground">
+              {formatDateKST(run.createdAt)} ({formatRelativeTimeKo(run.createdAt)})
+            </p>
+          </div>
+        </div>
+
+        <div className="flex gap-2">
+          {isActive && (
+            <Button variant="outline" className="gap-1" disabled={acting} onClick={handleCancel}>
+              {acting ? <Loader2 className="h-4 w-4 animate-spin" /> : <Ban className="h-4 w-4" />}
+              취소
+            </Button>
+          )}
+          {(run.status === "failed" || run.status === "cancelled") && (
+            <Button variant="outline" className="gap-1" disabled={acting} onClick={handleResume}>
+              {acting ? <Loader2 className="h-4 w-4 animate-spin" /> : <RotateCcw className="h-4 w-4" />}
+              실패한 단계부터 재개
+            </Button>
+          )}
+        </div>
+      </div>
+
+      <div className="grid gap-6 lg:grid-cols-3">
+        <div className="lg:col-span-2 space-y-3">
+          {steps.map((step) => {
+            const meta = STATUS_CONFIG[step.status] || STATUS_CONFIG.pending;
+            const StepIcon = meta.icon;
+            return (
+              <Card key={step.index} className={cn(step.status === "failed" && "border-destructive")}>
+                <CardContent className="py-4 space-y-2">
+                  <div className="flex items-center justify-between gap-3">
+                    <div className="flex items-center gap-3 min-w-0">
+                      <StepIcon
+                        className={cn("h-5 w-5 shrink-0", meta.className, step.status === "running" && "animate-spin")}
+                      />
+                      <div className="min-w-0">
+                        <div className="flex items-center gap-2">
+                          <p className="text-sm font-medium">{step.index + 1}. <span className="font-mono">{step.id}</span></p>
+                          <Badge variant="outline" className="text-xs shrink-0">{meta.label}</Badge>
+                          {step.awaitingApproval && (
+                            <Badge variant="secondary" className="text-xs shrink-0 gap-1">
+                              <Hourglass className="h-3 w-3" />
+                              승인 대기
+                            </Badge>
+                          )}
+                        </div>
+                        {step.mappings.length > 0 && (
+                          <p className="text-xs text-muted-foreground font-mono truncate">
+                            {step.mappings.map((m) => `${m.param} ← ${m.fromStep}.${m.field}`).join(", ")}
+                          </p>
+                        )}
+                      </div>
+                    </div>
+                    <div className="flex items-center gap-3 shrink-0">
+                      {step.creditsActual != null && (
+                        <span className="text-sm font-medium">{formatNumber(step.creditsActual)} 크레딧</span>
+                      )}
+                      {step.agentRunId && (
+                        <Link href={`/dashboard/runs/${step.agentRunId}`}>
+                          <Button variant="ghost" size="icon">
+                            <ExternalLink className="h-4 w-4" />
+                          </Button>
+                        </Link>
+                      )}
+                    </div>
+                  </div>
+                  {step.summary && <p className="text-sm text-muted-foreground">{step.summary}</p>}
+                  {step.status === "failed" && step.errorMessage && (
+                    <p className="text-sm text-destructive">{step.errorMessage}</p>
+                  )}
+                </CardContent>
+              </Card>
+            );
+          })}
+        </div>
+
+        {/* Sidebar */}
+        <div className="space-y-4">
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base">크레딧</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {isActive && (
+                <div className="flex items-center justify-between text-sm">
+                  <span className="flex items-center gap-1.5 text-muted-foreground">
+                    <Coins className="h-4 w-4" />
+                    예약 크레딧
+                  </span>
+                  <span className="font-semibold">{formatNumber(run.creditsReserved)}</span>
+                </div>
+              )}
+              <div className="flex items-center justify-between text-sm">
+                <span className="flex items-center gap-1.5 text-muted-foreground">
+                  <Coins className="h-4 w-4" />
+                  사용 크레딧
+                </span>
+                <span className="font-semibold">{formatNumber(run.creditsActual)}</span>
+              </div>
+            </CardContent>
+          </Card>
+
+          {run.status === "failed" && run.errorMessage && (
+            <Card className="border-destructive">
+              <CardHeader>
+                <CardTitle className="text-base text-destructive">오류 정보</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <p className="text-sm text-muted-foreground">{run.errorMessage}</p>
+              </CardContent>
+            </Card>
+          )}
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base">실행 정보</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-2 text-sm">
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">실행 ID</span>
+                <span className="font-mono text-xs">{run.id.slice(0, 12)}...</span>
+              </div>
+              {run.startedAt && (
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">시작 시간</span>
+                  <span>{formatDateKST(run.startedAt)}</span>
+                </div>
+              )}
+              {run.completedAt && (
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">완료 시간</span>
+                  <span>{formatDateKST(run.completedAt)}</span>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,11 +1,18 @@
 "use client";
 
 import { useEffect, useState, useCallback } from "react";
+import Link from "next/link";
 import { useRouter } from "next/navigation";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Progress } from "@/components/ui/progress";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
 import {
   ArrowLeft,
   CheckCircle2,
@@ -17,12 +24,39 @@ import {
   FileText,
   Zap,
   Ban,
+  GitBranch,
+  GitCompare,
+  Hourglass,
+  Download,
 } from "lucide-react";
+import { RunTimeline, latestProgress } from "@/components/run-timeline";
+import { SchemaForm, fieldErrorsFromDetails, hasSchemaFields } from "@/components/schema-form";
+import { APPROVAL_STATUS_LABEL, RunApprovalCard } from "@/components/run-approval";
+import { useRunEvents } from "@/hooks/use-run-events";
 import { cn } from "@/lib/utils";
-import { api } from "@/lib/api";
+import { api, ApiError } from "@/lib/api";
 import { formatNumber, formatDateKST, formatRelativeTimeKo } from "@/lib/format";
 import { toast } from "@/hooks/use-toast";
-import type { AgentRun, UsageLog } from "@/types";
+import type { AgentConfig, AgentRun, JsonSchema, UsageLog } from "@/types";
+
+const EXPORT_FORMAT_LABEL: Record<string, string> = {
+  srt: "자막 (SRT)",
+  vtt: "자막 (WebVTT)",
+  md: "리포트 (Markdown)",
+  csv: "지표 (CSV)",
+  json: "원본 데이터 (JSON)",
+};
+
+// Why an LLM call was served by a fallback model
+const FALLBACK_REASON_LABEL: Record<string, string> = {
+  rate_limited: "요청 한도 초과",
+  server_error: "제공자 서버 오류",
+  provider_error: "제공자 오류",
+  network_error: "네트워크 오류",
+  no_api_key: "API 키 미설정",
+};
+
+type ChildRun = Pick<AgentRun, "id" | "status" | "createdAt"> & { creditsActual: number | null };
 
 const STATUS_CONFIG: Record<string, {
   label: string;
@@ -32,6 +66,7 @@ const STATUS_CONFIG: Record<string, {
   progress: number;
 }> = {
   pending: { label: "대기 중", icon: Clock, className: "text-muted-foreground", badgeVariant: "secondary", progress: 10 },
+  awaiting_approval: { label: "승인 대기", icon: Hourglass, className: "text-amber-600", badgeVariant: "outline", progress: 50 },
   running: { label: "실행 중", icon: Loader2, className: "text-blue-600", badgeVariant: "default", progress: 55 },
   completed: { label: "완료", icon: CheckCircle2, className: "text-green-600", badgeVariant: "outline", progress: 100 },
   failed: { label: "실패", icon: XCircle, className: "text-destructive", badgeVariant: "destructive", progress: 100 },
@@ -44,12 +79,22 @@ export default function RunDetailPage({ params }: { params: { id: string } }) {
   const [usageLogs, setUsageLogs] = useState<UsageLog[]>([]);
   const [loading, setLoading] = useState(true);
   const [cancelling, setCancelling] = useState(false);
+  const [children, setChildren] = useState<ChildRun[]>([]);
+  const [forkOpen, setForkOpen] = useState(false);
+  const [forkSchema, setForkSchema] = useState<JsonSchema | null>(null);
+  const [forkInput, setForkInput] = useState<Record<string, unknown>>({});
+  const [forkErrors, setForkErrors] = useState<Record<string, string>>({});
+  const [forking, setForking] = useState(false);
+  const [exporting, setExporting] = useState(false);
 
   const fetchRun = useCallback(async () => {
     try {
-      const res = await api.get<{ run: AgentRun; usageLogs: UsageLog[] }>(`/agents/runs/${params.id}`);
+      const res = await api.get<{ run: AgentRun; children: ChildRun[]; usageLogs: UsageLog[] }>(
+        `/agents/runs/${params.id}`
+      );
       if (res.success && res.data) {
         setRun(res.data.run);
+        setChildren(res.data.children);
         setUsageLogs(res.data.usageLogs);
       }
     } catch {
@@ -63,13 +108,11 @@ export default function RunDetailPage({ params }: { params: { id: string } }) {
     fetchRun();
   }, [fetchRun]);
 
-  // Poll while running
-  const runStatus = run?.status;
+  // Follow live progress while the run is in flight, then reload the final state
+  const { events, ended } = useRunEvents(params.id, run?.status);
   useEffect(() => {
-    if (!runStatus || (runStatus !== "pending" && runStatus !== "running")) return;
-    const interval = setInterval(fetchRun, 3000);
-    return () => clearInterval(interval);
-  }, [runStatus, fetchRun]);
+    if (ended) fetchRun();
+  }, [ended, fetchRun]);
 
   async function handleCancel() {
     if (!run) return;
@@ -77,7 +120,7 @@ export default function RunDetailPage({ params }: { params: { id: string } }) {
     try {
       const res = await api.post<{ message: string }>(`/agents/runs/${run.id}/cancel`);
       if (res.success) {
-        toast({ title: "취소됨", description: "에이전트 실행이 취소되었습니다." });
+        toast({ title: "취소 요청됨", description: "진행 중인 단계가 끝나면 실행이 중단됩니다." });
         fetchRun();
       } else {
         toast({ title: "취소 실패", description: res.error?.message || "취소에 실패했습니다.", variant: "destructive" });
@@ -92,19 +135,77 @@ export default function RunDetailPage({ params }: { params: { id: string } }) {
   async function handleRerun() {
     if (!run) return;
     try {
-      const res = await api.post<{ runId: string; creditsReserved: number }>("/agents/runs", {
-        agentConfigId: run.agentConfigId,
-        input: run.inputJson ?? {},
-      });
+      const res = await api.post<{ runId: string; creditsReserved: number }>(`/agents/runs/${run.id}/fork`);
       if (res.success && res.data) {
         toast({ title: "재실행 시작", description: "같은 설정으로 에이전트를 다시 실행합니다." });
         router.push(`/dashboard/runs/${res.data.runId}`);
+      } else {
+        toast({ title: "재실행 실패", description: res.error?.message || "재실행에 실패했습니다.", variant: "destructive" });
       }
     } catch {
       toast({ title: "오류", description: "재실행에 실패했습니다.", variant: "destructive" });
     }
   }
 
+  async function openFork() {
+    if (!run) return;
+    setForkInput(run.inputJson ?? {});
+    setForkErrors({});
+    setForkOpen(true);
+    try {
+      const res = await api.get<{ config: AgentConfig }>(`/agents/configs/${run.agentConfigId}`);
+      if (res.success && res.data) setForkSchema(res.data.config.paramsSchema ?? null);
+    } catch {
+      // Fall back to the raw input below
+    }
+  }
+
+  async function handleFork() {
+    if (!run) return;
+    setForking(true);
+    setForkErrors({});
+    try {
+      const res = await api.post<{ runId: string; creditsReserved: number }>(`/agents/runs/${run.id}/fork`, {
+        input: forkInput,
+      });
+      if (res.success && res.data) {
+        toast({ title: "포크 실행 시작", description: "수정한 입력으로 새 버전을 생성합니다." });
+        router.push(`/dashboard/runs/${res.data.runId}`);
+      } else if (res.error?.code === "VALIDATION_FAILED") {
+        setForkErrors(fieldErrorsFromDetails(res.error.details));
+        toast({ title: "입력 오류", description: "입력 항목을 확인해주세요.", variant: "destructive" });
+      } else {
+        toast({ title: "실행 실패", description: res.error?.message || "포크 실행에 실패했습니다.", variant: "destructive" });
+      }
+    } catch {
+      toast({ title: "오류", description: "포크 실행 중 오류가 발생했습니다.", variant: "destructive" });
+    } finally {
+      setForking(false);
+    }
+  }
+
+  async function handleExport(format: string) {
+    if (!run) return;
+    setExporting(true);
+    try {
+      const { blob, filename } = await api.download(`/agents/runs/${run.id}/export?format=${format}`);
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = filename ?? `${run.id}.${format}`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      toast({
+        title: "내보내기 실패",
+        description: err instanceof ApiError ? err.message : "결과를 내보내지 못했습니다.",
+        variant: "destructive",
+      });
+    } finally {
+      setExporting(false);
+    }
+  }
+
   if (loading) {
     return (
       <div className="flex items-center justify-center py-20">
@@ -132,7 +233,10 @@ export default function RunDetailPage({ params }: { params: { id: string } }) {
   const statusConfig = STATUS_CONFIG[run.status] || STATUS_CONFIG.pending;
   const StatusIcon = statusConfig.icon;
   const isActive = run.status === "pending" || run.status === "running";
+  const cancelRequested = isActive && !!run.cancelRequestedAt;
   const credits = run.creditsActual ?? run.creditsReserved;
+  const live = latestProgress(events);
+  const stoppedAt = events.find((e) => e.type === "error");
 
   const durationStr = run.durationMs
     ? `${(run.durationMs / 1000).toFixed(1)}초`
@@ -152,7 +256,10 @@ export default function RunDetailPage({ params }: { params: { id: string } }) {
         <div className="flex items-center gap-3">
           <div className={cn(
             "flex h-10 w-10 items-center justify-center rounded-full",
-            isActive ? "bg-blue-100" : run.status === "completed" ? "bg-green-100" : "bg-muted"
+            isActive ? "bg-blue-100"
+              : run.status === "completed" ? "bg-green-100"
+              : run.status === "awaiting_approval" ? "bg-amber-100"
+              : "bg-muted"
           )}>
             <StatusIcon className={cn("h-5 w-5", statusConfig.className, isActive && "animate-spin")} />
           </div>
@@ -160,6 +267,8 @@ export default function RunDetailPage({ params }: { params: { id: string } }) {
             <div className="flex items-center gap-2">
               <h1 className="text-xl font-bold">실행 결과</h1>
               <Badge variant={statusConfig.badgeVariant}>{statusConfig.label}</Badge>
+              {run.deadLetteredAt && <Badge variant="destructive">재시도 소진</Badge>}
+              {(run.attempts ?? 0) > 1 && <Badge variant="outline">{run.attempts}회 시도</Badge>}
             </div>
             <p className="text-sm text-muted-foreground">
               {formatDateKST(run.createdAt)} ({formatRelativeTimeKo(run.createdAt)})
@@ -169,16 +278,30 @@ export default function RunDetailPage({ params }: { params: { id: string } }) {
 
         <div className="flex gap-2">
           {isActive && (
-            <Button variant="outline" className="gap-1" disabled={cancelling} onClick={handleCancel}>
-              {cancelling ? <Loader2 className="h-4 w-4 animate-spin" /> : <Ban className="h-4 w-4" />}
-              취소
+            <Button variant="outline" className="gap-1" disabled={cancelling || cancelRequested} onClick={handleCancel}>
+              {cancelling || cancelRequested ? <Loader2 className="h-4 w-4 animate-spin" /> : <Ban className="h-4 w-4" />}
+              {cancelRequested ? "취소 중" : "취소"}
             </Button>
           )}
+          {run.parentRunId && (
+            <Link href={`/dashboard/runs/compare?ids=${run.parentRunId},${run.id}`}>
+              <Button variant="outline" className="gap-1">
+                <GitCompare className="h-4 w-4" />
+                원본과 비교
+              </Button>
+            </Link>
+          )}
           {(run.status === "completed" || run.status === "failed") && (
-            <Button variant="outline" className="gap-1" onClick={handleRerun}>
-              <RefreshCw className="h-4 w-4" />
-              재실행
-            </Button>
+            <>
+              <Button variant="outline" className="gap-1" onClick={handleRerun}>
+                <RefreshCw className="h-4 w-4" />
+                재실행
+              </Button>
+              <Button variant="outline" className="gap-1" disabled={forkOpen} onClick={openFork}>
+                <GitBranch className="h-4 w-4" />
+                수정 후 실행
+              </Button>
+            </>
           )}
         </div>
       </div>
@@ -190,11 +313,12 @@ export default function RunDetailPage({ params }: { params: { id: string } }) {
             <div className="space-y-2">
               <div className="flex justify-between text-sm">
                 <span className="text-muted-foreground">진행 상황</span>
-                <span className="font-medium">{statusConfig.label}</span>
+                <span className="font-medium">{live ? `${live.progress}%` : statusConfig.label}</span>
               </div>
-              <Progress value={statusConfig.progress} className="h-2" />
+              <Progress value={live?.progress ?? statusConfig.progress} className="h-2" />
               <p className="text-xs text-muted-foreground">
-                {run.status === "pending" ? "에이전트 실행을 준비하고 있습니다..." : "에이전트가 작업을 처리하고 있습니다..."}
+                {live?.message ||
+                  (run.status === "pending" ? "에이전트 실행을 준비하고 있습니다..." : "에이전트가 작업을 처리하고 있습니다...")}
               </p>
             </div>
           </CardContent>
@@ -203,6 +327,57 @@ export default function RunDetailPage({ params }: { params: { id: string } }) {
 
       <div className="grid gap-6 lg:grid-cols-3">
         <div className="lg:col-span-2 space-y-6">
+          {/* Approval before publishing */}
+          {run.status === "awaiting_approval" && <RunApprovalCard run={run} onDecided={fetchRun} />}
+
+          {/* Fork with edited input */}
+          {forkOpen && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-base">입력 수정 후 실행</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {hasSchemaFields(forkSchema) ? (
+                  <SchemaForm
+                    schema={forkSchema}
+                    value={forkInput}
+                    onChange={(value) => {
+                      setForkInput(value);
+                      setForkErrors({});
+                    }}
+                    errors={forkErrors}
+                    idPrefix="fork-input"
+                  />
+                ) : (
+                  <pre className="text-xs bg-muted rounded-lg p-3 overflow-x-auto">
+                    {JSON.stringify(forkInput, null, 2)}
+                  </pre>
+                )}
+                <div className="flex justify-end gap-2">
+                  <Button variant="outline" onClick={() => setForkOpen(false)}>
+                    취소
+                  </Button>
+                  <Button className="gap-1" disabled={forking} onClick={handleFork}>
+                    {forking ? <Loader2 className="h-4 w-4 animate-spin" /> : <GitBranch className="h-4 w-4" />}
+                    새 버전 실행
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+          )}
+
+          {/* Stage timeline */}
+          {(isActive || events.length > 0) && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-base">실행 단계</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <RunTimeline events={events} active={isActive} />
+              </CardContent>
+            </Card>
+          )}
+
           {/* Input */}
           {run.inputJson && Object.keys(run.inputJson).length > 0 && (
             <Card>
@@ -221,9 +396,28 @@ export default function RunDetailPage({ params }: { params: { id: string } }) {
           {run.outputJson && (
             <Card>
               <CardHeader>
-                <div className="flex items-center gap-2">
-                  <FileText className="h-4 w-4 text-muted-foreground" />
-                  <CardTitle className="text-base">결과 데이터</CardTitle>
+                <div className="flex items-center justify-between gap-2">
+                  <div className="flex items-center gap-2">
+                    <FileText className="h-4 w-4 text-muted-foreground" />
+                    <CardTitle className="text-base">결과 데이터</CardTitle>
+                  </div>
+                  {run.exportFormats && run.exportFormats.length > 0 && (
+                    <DropdownMenu>
+                      <DropdownMenuTrigger asChild>
+                        <Button variant="outline" size="sm" className="gap-1" disabled={exporting}>
+                          {exporting ? <Loader2 className="h-4 w-4 animate-spin" /> : <Download className="h-4 w-4" />}
+                          내보내기
+                        </Button>
+                      </DropdownMenuTrigger>
+                      <DropdownMenuContent align="end">
+                        {run.exportFormats.map((format) => (
+                          <DropdownMenuItem key={format} onSelect={() => handleExport(format)}>
+                            {EXPORT_FORMAT_LABEL[format] ?? format.toUpperCase()}
+                          </DropdownMenuItem>
+                        ))}
+                      </DropdownMenuContent>
+                    </DropdownMenu>
+                  )}
                 </div>
               </CardHeader>
               <CardContent>
@@ -242,6 +436,11 @@ export default function RunDetailPage({ params }: { params: { id: string } }) {
               </CardHeader>
               <CardContent>
                 <p className="text-sm text-muted-foreground">{run.errorMessage}</p>
+                {stoppedAt?.stage && (
+                  <p className="text-xs text-muted-foreground mt-2">
+                    중단 단계: <span className="font-mono">{stoppedAt.stage}</span> ({stoppedAt.progress}%)
+                  </p>
+                )}
               </CardContent>
             </Card>
           )}
@@ -257,8 +456,17 @@ export default function RunDetailPage({ params }: { params: { id: string } }) {
                   {usageLogs.map((log) => (
                     <div key={log.id} className="flex items-center justify-between rounded-lg border p-3 text-sm">
                       <div>
-                        <p className="font-medium">{log.resourceType}</p>
+                        <div className="flex items-center gap-2">
+                          <p className="font-medium">{log.resourceType}</p>
+                          {log.cached && <Badge variant="secondary">캐시</Badge>}
+                        </div>
                         <p className="text-xs text-muted-foreground">{log.resourceDetail}</p>
+                        {log.fallbackFrom && (
+                          <p className="text-xs text-muted-foreground">
+                            {log.fallbackFrom} 대신 사용 ·{" "}
+                            {FALLBACK_REASON_LABEL[log.fallbackReason ?? ""] ?? log.fallbackReason}
+                          </p>
+                        )}
                       </div>
                       <div className="text-right">
                         <p className="font-medium">{formatNumber(log.creditCost)} 크레딧</p>
@@ -320,6 +528,23 @@ export default function RunDetailPage({ params }: { params: { id: string } }) {
                 <span className="text-muted-foreground">설정 ID</span>
                 <span className="font-mono text-xs">{run.agentConfigId.slice(0, 12)}...</span>
               </div>
+              {run.parentRunId && (
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">원본 실행</span>
+                  <Link href={`/dashboard/runs/${run.parentRunId}`} className="font-mono text-xs underline">
+                    {run.parentRunId.slice(0, 12)}...
+                  </Link>
+                </div>
+              )}
+              {run.approval && run.approval.status !== "pending" && (
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">게시 승인</span>
+                  <span>
+                    {APPROVAL_STATUS_LABEL[run.approval.status]}
+                    {run.approval.decidedAt && ` (${formatDateKST(run.approval.decidedAt)})`}
+                  </span>
+                </div>
+              )}
               {run.startedAt && (
                 <div className="flex justify-between">
                   <span className="text-muted-foreground">시작 시간</span>
@@ -334,6 +559,31 @@ export default function RunDetailPage({ params }: { params: { id: string } }) {
               )}
             </CardContent>
           </Card>
+
+          {children.length > 0 && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-base">파생 버전</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-2">
+                {children.map((child) => (
+                  <div key={child.id} className="flex items-center justify-between gap-2 text-sm">
+                    <Link href={`/dashboard/runs/${child.id}`} className="min-w-0">
+                      <p className="font-mono text-xs underline truncate">{child.id.slice(0, 12)}...</p>
+                      <p className="text-xs text-muted-foreground">
+                        {(STATUS_CONFIG[child.status] || STATUS_CONFIG.pending).label} · {formatRelativeTimeKo(child.createdAt)}
+                      </p>
+                    </Link>
+                    <Link href={`/dashboard/runs/compare?ids=${run.id},${child.id}`}>
+                      <Button variant="ghost" size="icon">
+                        <GitCompare className="h-4 w-4" />
+                      </Button>
+                    </Link>
+                  </div>
+                ))}
+              </CardContent>
+            </Card>
+          )}
         </div>
       </div>
     </div>
@@ -0,0 +1,320 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { useRouter, useSearchParams } from "next/navigation";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { ArrowLeft, ImageIcon, Loader2 } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { api } from "@/lib/api";
+import { formatNumber, formatDateKST } from "@/lib/format";
+import type { RunComparison } from "@/types";
+
+const STATUS_LABEL: Record<string, string> = {
+  pending: "대기 중",
+  running: "실행 중",
+  completed: "완료",
+  failed: "실패",
+  cancelled: "취소됨",
+};
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined) return "-";
+  return typeof value === "string" ? value : JSON.stringify(value);
+}
+
+/** Row of one cell per run, laid out in the same columns as the run headers */
+function RunColumns({ count, children }: { count: number; children: React.ReactNode }) {
+  return (
+    <div className="grid gap-4" style={{ gridTemplateColumns: `repeat(${count}, minmax(0, 1fr))` }}>
+      {children}
+    </div>
+  );
+}
+
+export default function CompareRunsPage() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const ids = searchParams.get("ids") ?? "";
+  const [comparison, setComparison] = useState<RunComparison | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    async function fetchComparison() {
+      setLoading(true);
+      setError(null);
+      try {
+        const res = await api.get<RunComparison>(`/agents/runs/compare?ids=${encodeURIComponent(ids)}`);
+        if (res.success && res.data) {
+          setComparison(res.data);
+        } else {
+          setError(res.error?.message || "비교할 실행을 불러오지 못했습니다.");
+        }
+      } catch {
+        setError("비교할 실행을 불러오지 못했습니다.");
+      } finally {
+        setLoading(false);
+      }
+    }
+    fetchComparison();
+  }, [ids]);
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-24">
+        <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  if (!comparison) {
+    return (
+      <div className="text-center py-24 space-y-4">
+        <p className="text-muted-foreground">{error}</p>
+        <Button variant="outline" onClick={() => router.back()}>
+          돌아가기
+        </Button>
+      </div>
+    );
+  }
+
+  const { runs, inputDiff, script, titles, hashtags, thumbnails } = comparison;
+  const count = runs.length;
+
+  return (
+    <div className="space-y-6">
+      <Button variant="ghost" className="gap-1" onClick={() => router.back()}>
+        <ArrowLeft className="h-4 w-4" />
+        돌아가기
+      </Button>
+
+      <div>
+        <h1 className="text-2xl font-bold">실행 비교</h1>
+        <p className="text-muted-foreground">{count}개 실행의 입력과 결과를 나란히 비교합니다</p>
+      </div>
+
+      {/* Run headers */}
+      <RunColumns count={count}>
+        {runs.map((run, i) => (
+          <Card key={run.id}>
+            <CardContent className="p-4 space-y-1 text-sm">
+              <div className="flex items-center justify-between gap-2">
+                <span className="font-medium">버전 {i + 1}</span>
+                <Badge variant={run.status === "failed" ? "destructive" : "outline"}>
+                  {STATUS_LABEL[run.status] ?? run.status}
+                </Badge>
+              </div>
+              <Link href={`/dashboard/runs/${run.id}`} className="block font-mono text-xs underline truncate">
+                {run.id.slice(0, 12)}...
+              </Link>
+              <p className="text-xs text-muted-foreground">{formatDateKST(run.createdAt)}</p>
+              {run.creditsActual !== null && (
+                <p className="text-xs text-muted-foreground">{formatNumber(run.creditsActual)} 크레딧</p>
+              )}
+              {run.parentRunId && runs.some((r) => r.id === run.parentRunId) && (
+                <p className="text-xs text-muted-foreground">
+                  버전 {runs.findIndex((r) => r.id === run.parentRunId) + 1}에서 파생
+                </p>
+              )}
+              {run.summary && <p className="pt-1">{run.summary}</p>}
+            </CardContent>
+          </Card>
+        ))}
+      </RunColumns>
+
+      {/* Inputs */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">입력 차이</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {inputDiff.length === 0 ? (
+            <p className="text-sm text-muted-foreground">모든 실행의 입력이 같습니다.</p>
+          ) : (
+            inputDiff.map((diff) => (
+              <div key={diff.field} className="space-y-1">
+                <p className="text-xs font-medium text-muted-foreground">{diff.field}</p>
+                <RunColumns count={count}>
+                  {diff.values.map((value, i) => (
+                    <p key={i} className="text-sm rounded bg-muted px-2 py-1 break-words">
+                      {formatValue(value)}
+                    </p>
+                  ))}
+                </RunColumns>
+              </div>
+            ))
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Script */}
+      {script && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">대본</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {script.hooks.some((h) => h.length > 0) && (
+              <div className="space-y-1">
+                <p className="text-xs font-medium text-muted-foreground">훅</p>
+                <RunColumns count={count}>
+                  {script.hooks.map((hooks, i) => (
+                    <ul key={i} className="text-sm space-y-1 list-disc pl-4">
+                      {hooks.map((hook) => (
+                        <li key={hook}>{hook}</li>
+                      ))}
+                    </ul>
+                  ))}
+                </RunColumns>
+              </div>
+            )}
+            {script.sections.map((section) => (
+              <div key={section.index} className="space-y-1">
+                <div className="flex items-center gap-2">
+                  <p className="text-xs font-medium text-muted-foreground">섹션 {section.index + 1}</p>
+                  {section.changed && <Badge variant="secondary" className="text-xs">변경됨</Badge>}
+                </div>
+                <RunColumns count={count}>
+                  {section.versions.map((version, i) => (
+                    <div
+                      key={i}
+                      className={cn(
+                        "rounded-lg border p-3 text-sm space-y-1",
+                        section.changed && "border-amber-300 bg-amber-50"
+                      )}
+                    >
+                      {version ? (
+                        <>
+                          <p className="text-xs font-medium">
+                            {version.label}
+                            {version.startTime && version.endTime && (
+                              <span className="text-muted-foreground"> ({version.startTime}-{version.endTime})</span>
+                            )}
+                          </p>
+                          <p className="whitespace-pre-wrap">{version.content}</p>
+                          {version.visualDirection && (
+                            <p className="text-xs text-muted-foreground">{version.visualDirection}</p>
+                          )}
+                        </>
+                      ) : (
+                        <p className="text-muted-foreground">없음</p>
+                      )}
+                    </div>
+                  ))}
+                </RunColumns>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
+      {/* SEO titles */}
+      {titles && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">제목</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <RunColumns count={count}>
+              {titles.versions.map((versions, i) => (
+                <ul key={i} className="space-y-1 text-sm">
+                  {versions.map((t) => (
+                    <li
+                      key={t.title}
+                      className={cn(
+                        "rounded px-2 py-1",
+                        titles.unique[i].includes(t.title) ? "bg-amber-50 border border-amber-300" : "bg-muted"
+                      )}
+                    >
+                      {t.title}
+                      {t.score !== undefined && <span className="text-xs text-muted-foreground"> · {t.score}</span>}
+                    </li>
+                  ))}
+                </ul>
+              ))}
+            </RunColumns>
+            <p className="mt-3 text-xs text-muted-foreground">강조된 항목은 해당 버전에만 있는 제목입니다.</p>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Hashtags */}
+      {hashtags && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">해시태그</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {hashtags.common.length > 0 && (
+              <div className="space-y-1">
+                <p className="text-xs font-medium text-muted-foreground">공통</p>
+                <div className="flex flex-wrap gap-1">
+                  {hashtags.common.map((tag) => (
+                    <Badge key={tag} variant="secondary">{tag}</Badge>
+                  ))}
+                </div>
+              </div>
+            )}
+            <div className="space-y-1">
+              <p className="text-xs font-medium text-muted-foreground">버전별 고유</p>
+              <RunColumns count={count}>
+                {hashtags.unique.map((tags, i) => (
+                  <div key={i} className="flex flex-wrap gap-1">
+                    {tags.length === 0 ? (
+                      <span className="text-sm text-muted-foreground">없음</span>
+                    ) : (
+                      tags.map((tag) => (
+                        <Badge key={tag} variant="outline">{tag}</Badge>
+                      ))
+                    )}
+                  </div>
+                ))}
+              </RunColumns>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Thumbnails */}
+      {thumbnails && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">썸네일</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <RunColumns count={count}>
+              {thumbnails.versions.map((versions, i) => (
+                <div key={i} className="space-y-2">
+                  {versions.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">없음</p>
+                  ) : (
+                    versions.map((thumbnail) => (
+                      <div key={thumbnail.key} className="flex items-start gap-2 rounded-lg border p-2 text-sm">
+                        <ImageIcon className="h-4 w-4 text-muted-foreground shrink-0 mt-0.5" />
+                        <div className="min-w-0">
+                          {thumbnail.url ? (
+                            <a href={thumbnail.url} target="_blank" rel="noopener noreferrer" className="underline break-all">
+                              {thumbnail.style ?? thumbnail.key.split("/").pop()}
+                            </a>
+                          ) : (
+                            <p className="break-all">{thumbnail.style ?? thumbnail.key.split("/").pop()}</p>
+                          )}
+                          {thumbnail.overlayText && (
+                            <p className="text-xs text-muted-foreground">&ldquo;{thumbnail.overlayText}&rdquo;</p>
+                          )}
+                        </div>
+                      </div>
+                    ))
+                  )}
+                </div>
+              ))}
+            </RunColumns>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
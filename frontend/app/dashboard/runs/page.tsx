@@ -20,16 +20,18 @@ import {
   ChevronLeft,
   ChevronRight,
   PlayCircle,
+  Hourglass,
 } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { api } from "@/lib/api";
 import { formatNumber, formatDateKST, formatRelativeTimeKo } from "@/lib/format";
 import type { AgentRun } from "@/types";
 
-type RunStatus = "all" | "pending" | "running" | "completed" | "failed" | "cancelled";
+type RunStatus = "all" | "pending" | "awaiting_approval" | "running" | "completed" | "failed" | "cancelled";
 
 const STATUS_META: Record<string, { label: string; icon: React.ElementType; className: string }> = {
   pending: { label: "대기", icon: Clock, className: "text-muted-foreground" },
+  awaiting_approval: { label: "승인 대기", icon: Hourglass, className: "text-amber-600" },
   running: { label: "실행 중", icon: Loader2, className: "text-blue-600" },
   completed: { label: "완료", icon: CheckCircle2, className: "text-green-600" },
   failed: { label: "실패", icon: XCircle, className: "text-destructive" },
@@ -87,6 +89,7 @@ export default function RunsPage() {
             </SelectTrigger>
             <SelectContent>
               <SelectItem value="all">전체</SelectItem>
+              <SelectItem value="awaiting_approval">승인 대기</SelectItem>
               <SelectItem value="running">실행 중</SelectItem>
               <SelectItem value="completed">완료</SelectItem>
               <SelectItem value="failed">실패</SelectItem>
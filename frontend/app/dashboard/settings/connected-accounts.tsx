@@ -0,0 +1,191 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { useRouter, useSearchParams } from "next/navigation";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import { api } from "@/lib/api";
+import { Loader2, Link2, Youtube, Instagram } from "lucide-react";
+import type { ConnectedAccount, ConnectionProvider } from "@/types";
+
+const PROVIDERS: {
+  provider: ConnectionProvider;
+  name: string;
+  description: string;
+  icon: typeof Youtube;
+}[] = [
+  {
+    provider: "google",
+    name: "YouTube",
+    description: "쇼츠 업로드와 채널 통계 조회에 사용됩니다.",
+    icon: Youtube,
+  },
+  {
+    provider: "meta",
+    name: "Instagram",
+    description: "릴스 게시와 해시태그·인사이트 분석에 사용됩니다. 페이스북 페이지에 연결된 프로페셔널 계정이 필요합니다.",
+    icon: Instagram,
+  },
+];
+
+const PROVIDER_NAME: Record<ConnectionProvider, string> = { google: "YouTube", meta: "Instagram" };
+
+const ERROR_MESSAGE: Record<string, string> = {
+  ACCESS_DENIED: "계정 연결 권한을 허용하지 않았습니다.",
+  INVALID_STATE: "연결 요청이 만료되었습니다. 다시 시도해주세요.",
+  NO_YOUTUBE_CHANNEL: "이 구글 계정에는 유튜브 채널이 없습니다.",
+  NO_INSTAGRAM_ACCOUNT: "허용한 페이스북 페이지에 연결된 인스타그램 프로페셔널 계정이 없습니다.",
+};
+
+interface ConnectionsResponse {
+  connections: ConnectedAccount[];
+  providers: { provider: ConnectionProvider; configured: boolean }[];
+}
+
+export function ConnectedAccounts() {
+  const { toast } = useToast();
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const [loading, setLoading] = useState(true);
+  const [pending, setPending] = useState<ConnectionProvider | null>(null);
+  const [data, setData] = useState<ConnectionsResponse>({ connections: [], providers: [] });
+
+  useEffect(() => {
+    loadConnections();
+  }, []);
+
+  // Outcome of the OAuth redirect, reported once and then cleared from the URL
+  useEffect(() => {
+    const connected = searchParams.get("connected");
+    const error = searchParams.get("error");
+    if (!connected && !error) return;
+
+    if (connected) {
+      toast({
+        title: "계정 연결 완료",
+        description: `${PROVIDER_NAME[connected as ConnectionProvider] ?? connected} 계정이 연결되었습니다.`,
+      });
+    } else if (error) {
+      toast({
+        title: "계정 연결 실패",
+        description: ERROR_MESSAGE[error] ?? "계정을 연결하지 못했습니다. 잠시 후 다시 시도해주세요.",
+        variant: "destructive",
+      });
+    }
+    router.replace("/dashboard/settings?tab=connections");
+  }, [searchParams, router, toast]);
+
+  async function loadConnections() {
+    setLoading(true);
+    const res = await api.get<ConnectionsResponse>("/connections");
+    if (res.success && res.data) {
+      setData(res.data);
+    }
+    setLoading(false);
+  }
+
+  async function connect(provider: ConnectionProvider) {
+    setPending(provider);
+    const res = await api.post<{ url: string }>(`/connections/${provider}/authorize`);
+    if (res.success && res.data) {
+      window.location.href = res.data.url;
+      return;
+    }
+    toast({ title: "연결 실패", description: res.error?.message, variant: "destructive" });
+    setPending(null);
+  }
+
+  async function disconnect(provider: ConnectionProvider) {
+    if (!confirm(`${PROVIDER_NAME[provider]} 계정 연결을 해제하시겠습니까?`)) return;
+
+    setPending(provider);
+    const res = await api.delete(`/connections/${provider}`);
+    if (res.success) {
+      setData((prev) => ({
+        ...prev,
+        connections: prev.connections.filter((c) => c.provider !== provider),
+      }));
+      toast({ title: "연결 해제", description: `${PROVIDER_NAME[provider]} 계정 연결이 해제되었습니다.` });
+    } else {
+      toast({ title: "연결 해제 실패", description: res.error?.message, variant: "destructive" });
+    }
+    setPending(null);
+  }
+
+  if (loading) {
+    return (
+      <Card>
+        <CardContent className="flex items-center justify-center py-12">
+          <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Link2 className="h-5 w-5" />
+          연결된 계정
+        </CardTitle>
+        <CardDescription>
+          게시 및 분석 에이전트가 사용할 소셜 계정을 연결합니다. 토큰은 암호화되어 저장됩니다.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {PROVIDERS.map(({ provider, name, description, icon: Icon }) => {
+          const connection = data.connections.find((c) => c.provider === provider);
+          const configured = data.providers.find((p) => p.provider === provider)?.configured ?? false;
+          const expired = connection?.status === "expired";
+
+          return (
+            <div key={provider} className="flex items-center justify-between gap-4 rounded-lg border p-4">
+              <div className="flex items-start gap-3">
+                <Icon className="mt-0.5 h-5 w-5 shrink-0" />
+                <div className="space-y-1">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium">{name}</span>
+                    {connection && (
+                      <Badge variant={expired ? "destructive" : "secondary"}>
+                        {expired ? "만료됨" : "연결됨"}
+                      </Badge>
+                    )}
+                  </div>
+                  {connection ? (
+                    <p className="text-xs text-muted-foreground">
+                      {connection.accountName ?? connection.accountId}
+                      {expired && " · 다시 연결해야 에이전트가 이 계정을 사용할 수 있습니다."}
+                    </p>
+                  ) : (
+                    <p className="text-xs text-muted-foreground">{description}</p>
+                  )}
+                </div>
+              </div>
+              <div className="flex shrink-0 gap-2">
+                {connection && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => disconnect(provider)}
+                    disabled={pending === provider}
+                  >
+                    연결 해제
+                  </Button>
+                )}
+                {(!connection || expired) && (
+                  <Button size="sm" onClick={() => connect(provider)} disabled={!configured || pending === provider}>
+                    {pending === provider && <Loader2 className="mr-2 h-3 w-3 animate-spin" />}
+                    {expired ? "다시 연결" : configured ? "연결하기" : "준비 중"}
+                  </Button>
+                )}
+              </div>
+            </div>
+          );
+        })}
+      </CardContent>
+    </Card>
+  );
+}
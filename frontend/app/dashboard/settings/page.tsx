@@ -1,21 +1,30 @@
 "use client";
 
+import { useSearchParams } from "next/navigation";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { ProfileSettings } from "./profile-settings";
 import { NotificationSettings } from "./notification-settings";
 import { PaymentHistory } from "./payment-history";
 import { ConsentSettings } from "./consent-settings";
+import { ConnectedAccounts } from "./connected-accounts";
 import { AccountDeletion } from "./account-deletion";
 
+const TABS = ["profile", "notifications", "payments", "connections", "consent", "account"];
+
 export default function SettingsPage() {
+  // The OAuth callback links back to a tab (?tab=connections)
+  const searchParams = useSearchParams();
+  const tab = searchParams.get("tab");
+
   return (
     <div className="space-y-6">
       <h1 className="text-2xl font-bold">설정</h1>
-      <Tabs defaultValue="profile" className="w-full">
+      <Tabs defaultValue={tab && TABS.includes(tab) ? tab : "profile"} className="w-full">
         <TabsList className="w-full justify-start overflow-x-auto">
           <TabsTrigger value="profile">프로필</TabsTrigger>
           <TabsTrigger value="notifications">알림</TabsTrigger>
           <TabsTrigger value="payments">결제 내역</TabsTrigger>
+          <TabsTrigger value="connections">연결된 계정</TabsTrigger>
           <TabsTrigger value="consent">동의 관리</TabsTrigger>
           <TabsTrigger value="account">계정</TabsTrigger>
         </TabsList>
@@ -32,6 +41,10 @@ export default function SettingsPage() {
           <NotificationSettings />
         </TabsContent>
 
+        <TabsContent value="connections" className="mt-6">
+          <ConnectedAccounts />
+        </TabsContent>
+
         <TabsContent value="consent" className="mt-6">
           <ConsentSettings />
         </TabsContent>
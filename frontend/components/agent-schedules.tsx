@@ -0,0 +1,276 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import Link from "next/link";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { SchemaForm, fieldErrorsFromDetails, hasSchemaFields } from "@/components/schema-form";
+import { CalendarClock, Loader2, Pause, Play, Plus, Trash2 } from "lucide-react";
+import { api } from "@/lib/api";
+import { formatDateKST } from "@/lib/format";
+import { toast } from "@/hooks/use-toast";
+import type { AgentConfig, AgentSchedule } from "@/types";
+
+const PRESETS = [
+  { value: "0 9 * * 1", label: "매주 월요일 오전 9시" },
+  { value: "0 9 * * *", label: "매일 오전 9시" },
+  { value: "0 0 * * *", label: "매일 자정" },
+  { value: "0 * * * *", label: "매시 정각" },
+];
+const CUSTOM = "custom";
+
+const PAUSED_REASON_LABEL: Record<NonNullable<AgentSchedule["pausedReason"]>, string> = {
+  failures: "연속 실패로 일시정지",
+  insufficient_credits: "크레딧 부족으로 일시정지",
+  config_inactive: "에이전트 비활성으로 일시정지",
+};
+
+function describeCron(expression: string): string {
+  return PRESETS.find((p) => p.value === expression)?.label ?? expression;
+}
+
+/** Schedules of an agent config: list, pause/resume, delete and create */
+export function AgentSchedules({ config }: { config: AgentConfig }) {
+  const [schedules, setSchedules] = useState<AgentSchedule[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [formOpen, setFormOpen] = useState(false);
+  const [preset, setPreset] = useState(PRESETS[0].value);
+  const [cronExpression, setCronExpression] = useState(PRESETS[0].value);
+  const [params, setParams] = useState<Record<string, unknown>>({});
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({});
+  const [submitting, setSubmitting] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const fetchSchedules = useCallback(async () => {
+    try {
+      const res = await api.get<{ schedules: AgentSchedule[] }>(`/agents/configs/${config.id}/schedules`);
+      if (res.success && res.data) setSchedules(res.data.schedules);
+    } catch {
+      // API not available
+    } finally {
+      setLoading(false);
+    }
+  }, [config.id]);
+
+  useEffect(() => {
+    fetchSchedules();
+  }, [fetchSchedules]);
+
+  async function handleCreate() {
+    setSubmitting(true);
+    setFieldErrors({});
+    try {
+      const res = await api.post<{ schedule: AgentSchedule }>(`/agents/configs/${config.id}/schedules`, {
+        cronExpression: cronExpression.trim(),
+        params,
+      });
+      if (res.success && res.data) {
+        toast({ title: "예약 추가됨", description: `${describeCron(res.data.schedule.cronExpression)}에 실행됩니다.` });
+        setFormOpen(false);
+        setParams({});
+        fetchSchedules();
+      } else if (res.error?.code === "VALIDATION_FAILED") {
+        setFieldErrors(fieldErrorsFromDetails(res.error.details));
+        toast({ title: "입력 오류", description: "예약 설정을 확인해주세요.", variant: "destructive" });
+      } else {
+        toast({ title: "예약 실패", description: res.error?.message || "예약 추가에 실패했습니다.", variant: "destructive" });
+      }
+    } catch {
+      toast({ title: "오류", description: "예약 추가 중 오류가 발생했습니다.", variant: "destructive" });
+    } finally {
+      setSubmitting(false);
+    }
+  }
+
+  async function handleToggle(schedule: AgentSchedule) {
+    setBusyId(schedule.id);
+    try {
+      const res = await api.put<{ schedule: AgentSchedule }>(
+        `/agents/configs/${config.id}/schedules/${schedule.id}`,
+        { enabled: !schedule.enabled }
+      );
+      if (res.success) {
+        fetchSchedules();
+      } else {
+        toast({ title: "변경 실패", description: res.error?.message || "예약 상태를 바꾸지 못했습니다.", variant: "destructive" });
+      }
+    } finally {
+      setBusyId(null);
+    }
+  }
+
+  async function handleDelete(schedule: AgentSchedule) {
+    setBusyId(schedule.id);
+    try {
+      const res = await api.delete<{ message: string }>(`/agents/configs/${config.id}/schedules/${schedule.id}`);
+      if (res.success) {
+        setSchedules((prev) => prev.filter((s) => s.id !== schedule.id));
+      } else {
+        toast({ title: "삭제 실패", description: res.error?.message || "예약 삭제에 실패했습니다.", variant: "destructive" });
+      }
+    } finally {
+      setBusyId(null);
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div>
+          <CardTitle className="text-base">예약 실행</CardTitle>
+          <CardDescription>정해진 시간마다 에이전트를 자동으로 실행합니다</CardDescription>
+        </div>
+        {!formOpen && config.status === "active" && (
+          <Button variant="outline" size="sm" className="gap-1" onClick={() => setFormOpen(true)}>
+            <Plus className="h-4 w-4" />
+            예약 추가
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {loading ? (
+          <Loader2 className="h-5 w-5 animate-spin text-muted-foreground mx-auto" />
+        ) : schedules.length === 0 && !formOpen ? (
+          <p className="text-sm text-muted-foreground">예약된 실행이 없습니다.</p>
+        ) : (
+          <div className="space-y-2">
+            {schedules.map((schedule) => (
+              <div key={schedule.id} className="flex items-center justify-between gap-3 rounded-lg border p-3">
+                <div className="flex items-start gap-3 min-w-0">
+                  <CalendarClock className="h-5 w-5 text-muted-foreground shrink-0 mt-0.5" />
+                  <div className="min-w-0 space-y-0.5">
+                    <div className="flex flex-wrap items-center gap-2">
+                      <p className="text-sm font-medium">{describeCron(schedule.cronExpression)}</p>
+                      <Badge variant={schedule.enabled ? "default" : "secondary"} className="text-xs">
+                        {schedule.enabled ? "활성" : "일시정지"}
+                      </Badge>
+                      {schedule.pausedReason && (
+                        <Badge variant="destructive" className="text-xs">
+                          {PAUSED_REASON_LABEL[schedule.pausedReason]}
+                        </Badge>
+                      )}
+                    </div>
+                    <p className="text-xs text-muted-foreground font-mono">
+                      {schedule.cronExpression} ({schedule.timezone})
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      {schedule.nextRunAt ? `다음 실행: ${formatDateKST(schedule.nextRunAt)}` : "다음 실행 없음"}
+                      {schedule.lastRunId && (
+                        <>
+                          {" · "}
+                          <Link href={`/dashboard/runs/${schedule.lastRunId}`} className="underline">
+                            마지막 실행
+                          </Link>
+                        </>
+                      )}
+                    </p>
+                  </div>
+                </div>
+                <div className="flex shrink-0">
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    disabled={busyId === schedule.id}
+                    onClick={() => handleToggle(schedule)}
+                  >
+                    {schedule.enabled ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    disabled={busyId === schedule.id}
+                    onClick={() => handleDelete(schedule)}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {formOpen && (
+          <div className="space-y-4 rounded-lg border p-4">
+            <div className="space-y-2">
+              <Label>실행 주기</Label>
+              <Select
+                value={preset}
+                onValueChange={(v) => {
+                  setPreset(v);
+                  if (v !== CUSTOM) setCronExpression(v);
+                  setFieldErrors({});
+                }}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {PRESETS.map((p) => (
+                    <SelectItem key={p.value} value={p.value}>
+                      {p.label}
+                    </SelectItem>
+                  ))}
+                  <SelectItem value={CUSTOM}>직접 입력 (cron)</SelectItem>
+                </SelectContent>
+              </Select>
+              {preset === CUSTOM && (
+                <Input
+                  value={cronExpression}
+                  onChange={(e) => {
+                    setCronExpression(e.target.value);
+                    setFieldErrors({});
+                  }}
+                  placeholder="분 시 일 월 요일 (예: 30 21 * * 1-5)"
+                  className="font-mono"
+                />
+              )}
+              {fieldErrors.cronExpression && (
+                <p className="text-xs text-destructive">{fieldErrors.cronExpression}</p>
+              )}
+              <p className="text-xs text-muted-foreground">
+                계정의 시간대를 기준으로 실행되며, 실행마다 크레딧이 예약됩니다.
+              </p>
+            </div>
+            {hasSchemaFields(config.paramsSchema) && (
+              <SchemaForm
+                schema={config.paramsSchema}
+                value={params}
+                onChange={(value) => {
+                  setParams(value);
+                  setFieldErrors({});
+                }}
+                errors={fieldErrors}
+                idPrefix="schedule-params"
+              />
+            )}
+            <div className="flex justify-end gap-2">
+              <Button
+                variant="outline"
+                onClick={() => {
+                  setFormOpen(false);
+                  setFieldErrors({});
+                }}
+              >
+                취소
+              </Button>
+              <Button disabled={submitting || !cronExpression.trim()} onClick={handleCreate}>
+                {submitting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : null}
+                예약 저장
+              </Button>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -7,7 +7,7 @@ import { UserButton } from "@clerk/nextjs";
 import { cn } from "@/lib/utils";
 import { Button } from "@/components/ui/button";
 import { Sheet, SheetContent, SheetTrigger } from "@/components/ui/sheet";
-import { Bell, Bot, Coins, LayoutDashboard, Menu, PlayCircle, Settings } from "lucide-react";
+import { Bell, Bot, Coins, LayoutDashboard, Menu, PlayCircle, Settings, Workflow } from "lucide-react";
 import { api } from "@/lib/api";
 import { formatNumber } from "@/lib/format";
 import type { CreditBalance } from "@/types";
@@ -15,6 +15,7 @@ import type { CreditBalance } from "@/types";
 const navItems = [
   { href: "/dashboard", label: "대시보드", icon: LayoutDashboard },
   { href: "/dashboard/agents", label: "AI 에이전트", icon: Bot },
+  { href: "/dashboard/pipelines", label: "파이프라인", icon: Workflow },
   { href: "/dashboard/runs", label: "실행 내역", icon: PlayCircle },
   { href: "/dashboard/credits", label: "크레딧", icon: Coins },
   { href: "/dashboard/settings", label: "설정", icon: Settings },
@@ -0,0 +1,155 @@
+"use client";
+
+import { useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { Loader2, Upload, X } from "lucide-react";
+import { api } from "@/lib/api";
+import { toast } from "@/hooks/use-toast";
+import type { MediaItem } from "@/types";
+
+const ACCEPT = "video/mp4,video/quicktime,video/webm,image/jpeg,image/png,image/webp";
+
+interface MediaMetadata {
+  durationSeconds?: number;
+  width?: number;
+  height?: number;
+}
+
+/** Duration and resolution read by the browser; empty if it can't decode the file */
+async function readMetadata(file: File): Promise<MediaMetadata> {
+  const url = URL.createObjectURL(file);
+  try {
+    if (file.type.startsWith("video/")) {
+      const video = document.createElement("video");
+      video.preload = "metadata";
+      await new Promise<void>((resolve, reject) => {
+        video.onloadedmetadata = () => resolve();
+        video.onerror = () => reject(new Error("metadata"));
+        video.src = url;
+      });
+      return {
+        durationSeconds: Number.isFinite(video.duration) && video.duration > 0 ? video.duration : undefined,
+        width: video.videoWidth || undefined,
+        height: video.videoHeight || undefined,
+      };
+    }
+    const bitmap = await createImageBitmap(file);
+    const metadata = { width: bitmap.width, height: bitmap.height };
+    bitmap.close();
+    return metadata;
+  } catch {
+    return {};
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
+
+/**
+ * Upload a video or image to the user's storage in parts, then hand the
+ * stored media to onUploaded (e.g. to select it for a videoR2Key field).
+ */
+export function MediaUploader({ onUploaded }: { onUploaded: (media: MediaItem) => void }) {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const cancelledRef = useRef(false);
+  const [uploading, setUploading] = useState<{ filename: string; progress: number } | null>(null);
+
+  async function upload(file: File) {
+    cancelledRef.current = false;
+    setUploading({ filename: file.name, progress: 0 });
+    let mediaId: string | null = null;
+
+    try {
+      const metadata = await readMetadata(file);
+      const created = await api.post<{ media: MediaItem; partSizeBytes: number }>("/media/uploads", {
+        filename: file.name,
+        contentType: file.type,
+        sizeBytes: file.size,
+        ...metadata,
+      });
+      if (!created.success || !created.data) {
+        throw new Error(created.error?.message || "업로드를 시작하지 못했습니다.");
+      }
+      mediaId = created.data.media.id;
+      const { partSizeBytes } = created.data;
+
+      const parts: { partNumber: number; etag: string }[] = [];
+      const partCount = Math.ceil(file.size / partSizeBytes);
+      for (let i = 0; i < partCount; i++) {
+        if (cancelledRef.current) throw new Error("업로드를 취소했습니다.");
+        const res = await api.putBlob<{ partNumber: number; etag: string }>(
+          `/media/uploads/${mediaId}/parts/${i + 1}`,
+          file.slice(i * partSizeBytes, (i + 1) * partSizeBytes)
+        );
+        if (!res.success || !res.data) {
+          throw new Error(res.error?.message || "파일 조각을 업로드하지 못했습니다.");
+        }
+        parts.push(res.data);
+        setUploading({ filename: file.name, progress: Math.round(((i + 1) / partCount) * 95) });
+      }
+
+      const completed = await api.post<{ media: MediaItem }>(`/media/uploads/${mediaId}/complete`, { parts });
+      if (!completed.success || !completed.data) {
+        throw new Error(completed.error?.message || "업로드를 완료하지 못했습니다.");
+      }
+
+      toast({ title: "업로드 완료", description: file.name });
+      onUploaded(completed.data.media);
+    } catch (err) {
+      if (mediaId) {
+        // Release the unfinished upload; it was never completed
+        api.delete(`/media/uploads/${mediaId}`);
+      }
+      toast({
+        title: "업로드 실패",
+        description: err instanceof Error ? err.message : "업로드 중 오류가 발생했습니다.",
+        variant: "destructive",
+      });
+    } finally {
+      setUploading(null);
+      if (inputRef.current) inputRef.current.value = "";
+    }
+  }
+
+  return (
+    <div className="space-y-2">
+      <input
+        ref={inputRef}
+        type="file"
+        accept={ACCEPT}
+        className="hidden"
+        onChange={(e) => {
+          const file = e.target.files?.[0];
+          if (file) upload(file);
+        }}
+      />
+      {uploading ? (
+        <div className="space-y-1 rounded-lg border p-3">
+          <div className="flex items-center justify-between gap-2 text-sm">
+            <span className="flex items-center gap-2 truncate">
+              <Loader2 className="h-4 w-4 animate-spin shrink-0" />
+              <span className="truncate">{uploading.filename}</span>
+            </span>
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              aria-label="업로드 취소"
+              onClick={() => {
+                cancelledRef.current = true;
+              }}
+            >
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+          <Progress value={uploading.progress} />
+        </div>
+      ) : (
+        <Button type="button" variant="outline" size="sm" className="gap-1" onClick={() => inputRef.current?.click()}>
+          <Upload className="h-4 w-4" />
+          새 파일 업로드
+        </Button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,200 @@
+"use client";
+
+import { useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Check, Hourglass, Loader2, X } from "lucide-react";
+import { api } from "@/lib/api";
+import { formatDateKST } from "@/lib/format";
+import { toast } from "@/hooks/use-toast";
+import type { AgentRun } from "@/types";
+
+export const APPROVAL_STATUS_LABEL: Record<NonNullable<AgentRun["approval"]>["status"], string> = {
+  pending: "승인 대기",
+  approved: "승인됨",
+  rejected: "거절됨",
+  expired: "승인 기한 만료",
+};
+
+const PRIVACY_LABEL: Record<string, string> = {
+  private: "비공개",
+  unlisted: "일부 공개",
+  public: "공개",
+};
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function PreviewField({ label, children }: { label: string; children: React.ReactNode }) {
+  return (
+    <div className="space-y-1">
+      <p className="text-xs font-medium text-muted-foreground">{label}</p>
+      <div className="text-sm">{children}</div>
+    </div>
+  );
+}
+
+/** Per-platform metadata of a cross-platform post; anything else is shown as JSON */
+function PreviewData({ data }: { data: Record<string, unknown> }) {
+  const { youtube, instagram } = data;
+  if (!isRecord(youtube) && !isRecord(instagram)) {
+    return <pre className="text-xs bg-muted rounded-lg p-3 overflow-x-auto">{JSON.stringify(data, null, 2)}</pre>;
+  }
+
+  return (
+    <div className="space-y-4">
+      {isRecord(youtube) && (
+        <div className="space-y-3 rounded-lg border p-4">
+          <div className="flex items-center gap-2">
+            <p className="text-sm font-semibold">유튜브 숏츠</p>
+            {typeof youtube.privacyStatus === "string" && (
+              <Badge variant="outline" className="text-xs">
+                {PRIVACY_LABEL[youtube.privacyStatus] ?? youtube.privacyStatus}
+              </Badge>
+            )}
+          </div>
+          <PreviewField label="제목">{String(youtube.title ?? "")}</PreviewField>
+          <PreviewField label="설명">
+            <p className="whitespace-pre-wrap">{String(youtube.description ?? "")}</p>
+          </PreviewField>
+          {Array.isArray(youtube.tags) && youtube.tags.length > 0 && (
+            <PreviewField label="태그">
+              <div className="flex flex-wrap gap-1">
+                {youtube.tags.map((tag) => (
+                  <Badge key={String(tag)} variant="secondary">{String(tag)}</Badge>
+                ))}
+              </div>
+            </PreviewField>
+          )}
+        </div>
+      )}
+      {isRecord(instagram) && (
+        <div className="space-y-3 rounded-lg border p-4">
+          <div className="flex items-center gap-2">
+            <p className="text-sm font-semibold">인스타그램 릴스</p>
+            {instagram.shareToFeed === true && (
+              <Badge variant="outline" className="text-xs">피드에 공유</Badge>
+            )}
+          </div>
+          <PreviewField label="캡션">
+            <p className="whitespace-pre-wrap">{String(instagram.caption ?? "")}</p>
+          </PreviewField>
+        </div>
+      )}
+    </div>
+  );
+}
+
+/** Preview of what a run awaiting approval will publish, with approve and reject */
+export function RunApprovalCard({ run, onDecided }: { run: AgentRun; onDecided: () => void }) {
+  const [acting, setActing] = useState<"approve" | "reject" | null>(null);
+  const [rejecting, setRejecting] = useState(false);
+  const [reason, setReason] = useState("");
+  const approval = run.approval;
+
+  async function handleApprove() {
+    setActing("approve");
+    try {
+      const res = await api.post<{ runId: string }>(`/agents/runs/${run.id}/approve`);
+      if (res.success) {
+        toast({ title: "승인됨", description: "승인된 내용으로 게시를 시작합니다." });
+        onDecided();
+      } else {
+        toast({ title: "승인 실패", description: res.error?.message || "승인하지 못했습니다.", variant: "destructive" });
+        if (res.error?.code === "APPROVAL_EXPIRED") onDecided();
+      }
+    } catch {
+      toast({ title: "오류", description: "승인 처리 중 오류가 발생했습니다.", variant: "destructive" });
+    } finally {
+      setActing(null);
+    }
+  }
+
+  async function handleReject() {
+    setActing("reject");
+    try {
+      const res = await api.post<{ runId: string }>(`/agents/runs/${run.id}/reject`, {
+        reason: reason.trim() || undefined,
+      });
+      if (res.success) {
+        toast({ title: "거절됨", description: "게시하지 않고 실행을 취소했습니다." });
+        onDecided();
+      } else {
+        toast({ title: "거절 실패", description: res.error?.message || "거절하지 못했습니다.", variant: "destructive" });
+      }
+    } catch {
+      toast({ title: "오류", description: "거절 처리 중 오류가 발생했습니다.", variant: "destructive" });
+    } finally {
+      setActing(null);
+    }
+  }
+
+  return (
+    <Card className="border-amber-300">
+      <CardHeader>
+        <CardTitle className="text-base flex items-center gap-2">
+          <Hourglass className="h-4 w-4 text-amber-600" />
+          게시 승인 요청
+        </CardTitle>
+        <CardDescription>
+          승인하면 아래 내용 그대로 게시되며, 업로드 크레딧은 승인 후에 사용됩니다.
+          {approval?.expiresAt && (
+            <> {formatDateKST(approval.expiresAt)}까지 승인하지 않으면 취소됩니다.</>
+          )}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {approval?.preview ? (
+          <>
+            {approval.preview.summary && <p className="text-sm">{approval.preview.summary}</p>}
+            <PreviewData data={approval.preview.data} />
+          </>
+        ) : (
+          <p className="text-sm text-muted-foreground">미리보기가 없습니다.</p>
+        )}
+
+        {rejecting && (
+          <div className="space-y-2">
+            <Label htmlFor="reject-reason">거절 사유 (선택)</Label>
+            <Input
+              id="reject-reason"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              maxLength={500}
+              placeholder="예: 제목 수정 필요"
+            />
+          </div>
+        )}
+
+        <div className="flex justify-end gap-2">
+          {rejecting ? (
+            <>
+              <Button variant="outline" disabled={acting !== null} onClick={() => setRejecting(false)}>
+                돌아가기
+              </Button>
+              <Button variant="destructive" className="gap-1" disabled={acting !== null} onClick={handleReject}>
+                {acting === "reject" ? <Loader2 className="h-4 w-4 animate-spin" /> : <X className="h-4 w-4" />}
+                거절
+              </Button>
+            </>
+          ) : (
+            <>
+              <Button variant="outline" className="gap-1" disabled={acting !== null} onClick={() => setRejecting(true)}>
+                <X className="h-4 w-4" />
+                거절
+              </Button>
+              <Button className="gap-1" disabled={acting !== null} onClick={handleApprove}>
+                {acting === "approve" ? <Loader2 className="h-4 w-4 animate-spin" /> : <Check className="h-4 w-4" />}
+                승인 후 게시
+              </Button>
+            </>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,109 @@
+"use client";
+
+import { CheckCircle2, Circle, Loader2, XCircle } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { formatDateKST } from "@/lib/format";
+import type { RunEvent } from "@/types";
+
+interface StageEntry {
+  stage: string;
+  message: string;
+  progress: number;
+  createdAt: string;
+  detail: Record<string, unknown> | null;
+  /** LLM output streamed so far, rebuilt from each event's detail.partialTextDelta */
+  partialText: string | null;
+  failed: boolean;
+}
+
+// Collapse the event log into one row per stage, in the order stages started
+function toStages(events: RunEvent[]): StageEntry[] {
+  const stages: StageEntry[] = [];
+  for (const event of events) {
+    if (event.type === "complete") continue;
+    const stage = event.stage || "start";
+    const existing = stages.find((s) => s.stage === stage);
+    const entry = existing ?? {
+      stage,
+      message: "",
+      progress: 0,
+      createdAt: event.createdAt,
+      detail: null,
+      partialText: null,
+      failed: false,
+    };
+    entry.message = event.message;
+    entry.progress = event.progress;
+    entry.createdAt = event.createdAt;
+    if (event.type === "error") entry.failed = true;
+    else if (event.detail) {
+      const { partialTextDelta, partialTextOffset, ...detail } = event.detail;
+      // The offset restarts at 0 when a retried attempt streams the stage again
+      if (typeof partialTextDelta === "string" && typeof partialTextOffset === "number") {
+        entry.partialText = (entry.partialText ?? "").slice(0, partialTextOffset) + partialTextDelta;
+      }
+      entry.detail = Object.keys(detail).length > 0 ? detail : entry.detail;
+    }
+    if (!existing) stages.push(entry);
+  }
+  return stages;
+}
+
+/** Latest progress percentage and message reported by the run */
+export function latestProgress(events: RunEvent[]): { progress: number; message: string } | null {
+  const last = events[events.length - 1];
+  return last ? { progress: last.progress, message: last.message } : null;
+}
+
+export function RunTimeline({ events, active }: { events: RunEvent[]; active: boolean }) {
+  const stages = toStages(events);
+  const completed = events.some((e) => e.type === "complete");
+
+  if (stages.length === 0) {
+    return <p className="text-sm text-muted-foreground">아직 기록된 진행 단계가 없습니다.</p>;
+  }
+
+  return (
+    <ol className="space-y-3">
+      {stages.map((entry, i) => {
+        const current = active && !completed && i === stages.length - 1 && !entry.failed;
+        const Icon = entry.failed ? XCircle : current ? Loader2 : completed || i < stages.length - 1 ? CheckCircle2 : Circle;
+        return (
+          <li key={entry.stage} className="flex gap-3">
+            <Icon
+              className={cn(
+                "h-4 w-4 mt-0.5 shrink-0",
+                entry.failed ? "text-destructive" : current ? "text-blue-600 animate-spin" : "text-green-600"
+              )}
+            />
+            <div className="flex-1 min-w-0 space-y-1">
+              <div className="flex items-center justify-between gap-2 text-sm">
+                <span className="font-medium font-mono">{entry.stage}</span>
+                <span className="text-xs text-muted-foreground shrink-0">
+                  {entry.progress}% · {formatDateKST(entry.createdAt)}
+                </span>
+              </div>
+              <p className={cn("text-sm", entry.failed ? "text-destructive" : "text-muted-foreground")}>
+                {entry.message}
+              </p>
+              {entry.partialText && (
+                <pre className="max-h-64 overflow-y-auto rounded-lg bg-muted p-2 text-xs whitespace-pre-wrap">
+                  {entry.partialText}
+                  {current && <span className="animate-pulse">▍</span>}
+                </pre>
+              )}
+              {entry.detail && (
+                <details className="text-xs">
+                  <summary className="cursor-pointer text-muted-foreground">중간 결과</summary>
+                  <pre className="mt-1 bg-muted rounded-lg p-2 overflow-x-auto whitespace-pre-wrap">
+                    {JSON.stringify(entry.detail, null, 2)}
+                  </pre>
+                </details>
+              )}
+            </div>
+          </li>
+        );
+      })}
+    </ol>
+  );
+}
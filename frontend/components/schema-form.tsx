@@ -0,0 +1,417 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { X } from "lucide-react";
+import { api } from "@/lib/api";
+import { MediaUploader } from "@/components/media-uploader";
+import type { FieldError, JsonSchema, StorageFile } from "@/types";
+
+type FormValue = Record<string, unknown>;
+
+/**
+ * Turn the `details` of a VALIDATION_FAILED response into field -> message.
+ * Array item paths ("platforms[0]") are reported on the array field itself.
+ */
+export function fieldErrorsFromDetails(details: unknown): Record<string, string> {
+  const errors: Record<string, string> = {};
+  if (!Array.isArray(details)) return errors;
+  for (const item of details as FieldError[]) {
+    if (!item || typeof item.field !== "string") continue;
+    const field = item.field.replace(/\[\d+\].*$/, "");
+    if (!errors[field]) errors[field] = item.message;
+  }
+  return errors;
+}
+
+/** True when the schema has at least one field to render */
+export function hasSchemaFields(schema: JsonSchema | null | undefined): schema is JsonSchema {
+  return !!schema && Object.keys(schema.properties ?? {}).length > 0;
+}
+
+interface SchemaFormProps {
+  schema: JsonSchema;
+  value: FormValue;
+  onChange: (value: FormValue) => void;
+  errors?: Record<string, string>;
+  idPrefix?: string;
+}
+
+/**
+ * Renders an agent's params/config schema as a typed form.
+ * Omitted optional fields are left out of `value`; the backend fills defaults.
+ */
+export function SchemaForm({ schema, value, onChange, errors = {}, idPrefix = "field" }: SchemaFormProps) {
+  return (
+    <ObjectFields
+      schema={schema}
+      value={value}
+      onChange={onChange}
+      errors={errors}
+      path=""
+      idPrefix={idPrefix}
+    />
+  );
+}
+
+function isEmpty(value: unknown): boolean {
+  return (
+    value === undefined ||
+    value === "" ||
+    (Array.isArray(value) && value.length === 0) ||
+    (typeof value === "object" && value !== null && !Array.isArray(value) && Object.keys(value).length === 0)
+  );
+}
+
+function ObjectFields({
+  schema,
+  value,
+  onChange,
+  errors,
+  path,
+  idPrefix,
+}: {
+  schema: JsonSchema;
+  value: FormValue;
+  onChange: (value: FormValue) => void;
+  errors: Record<string, string>;
+  path: string;
+  idPrefix: string;
+}) {
+  const required = schema.required ?? [];
+
+  function setField(key: string, fieldValue: unknown) {
+    const next = { ...value };
+    if (isEmpty(fieldValue)) {
+      delete next[key];
+    } else {
+      next[key] = fieldValue;
+    }
+    onChange(next);
+  }
+
+  return (
+    <div className="space-y-4">
+      {Object.entries(schema.properties ?? {}).map(([key, fieldSchema]) => {
+        const fieldPath = path ? `${path}.${key}` : key;
+        return (
+          <SchemaField
+            key={fieldPath}
+            id={`${idPrefix}-${fieldPath.replace(/\./g, "-")}`}
+            name={key}
+            path={fieldPath}
+            schema={fieldSchema}
+            required={required.includes(key)}
+            value={value[key]}
+            onChange={(v) => setField(key, v)}
+            errors={errors}
+            idPrefix={idPrefix}
+          />
+        );
+      })}
+    </div>
+  );
+}
+
+function SchemaField({
+  id,
+  name,
+  path,
+  schema,
+  required,
+  value,
+  onChange,
+  errors,
+  idPrefix,
+}: {
+  id: string;
+  name: string;
+  path: string;
+  schema: JsonSchema;
+  required: boolean;
+  value: unknown;
+  onChange: (value: unknown) => void;
+  errors: Record<string, string>;
+  idPrefix: string;
+}) {
+  const label = schema.title ?? name;
+  const error = errors[path];
+
+  if (schema.type === "object") {
+    return (
+      <fieldset className="space-y-3 rounded-lg border p-3">
+        <legend className="px-1 text-sm font-medium">
+          {label} {required && <span className="text-destructive">*</span>}
+        </legend>
+        {schema.description && <p className="text-xs text-muted-foreground">{schema.description}</p>}
+        <ObjectFields
+          schema={schema}
+          value={(value as FormValue | undefined) ?? {}}
+          onChange={onChange}
+          errors={errors}
+          path={path}
+          idPrefix={idPrefix}
+        />
+        {error && <p className="text-xs text-destructive">{error}</p>}
+      </fieldset>
+    );
+  }
+
+  if (schema.type === "boolean") {
+    const checked = (value ?? schema.default ?? false) as boolean;
+    return (
+      <div className="space-y-1">
+        <div className="flex items-center gap-2">
+          <Checkbox id={id} checked={checked} onCheckedChange={(c) => onChange(c === true)} />
+          <Label htmlFor={id}>{label}</Label>
+        </div>
+        {schema.description && <p className="text-xs text-muted-foreground">{schema.description}</p>}
+        {error && <p className="text-xs text-destructive">{error}</p>}
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      <Label htmlFor={id}>
+        {label} {required && <span className="text-destructive">*</span>}
+      </Label>
+      <FieldInput id={id} schema={schema} value={value} onChange={onChange} invalid={!!error} />
+      {schema.description && <p className="text-xs text-muted-foreground">{schema.description}</p>}
+      {error && <p className="text-xs text-destructive">{error}</p>}
+    </div>
+  );
+}
+
+function FieldInput({
+  id,
+  schema,
+  value,
+  onChange,
+  invalid,
+}: {
+  id: string;
+  schema: JsonSchema;
+  value: unknown;
+  onChange: (value: unknown) => void;
+  invalid: boolean;
+}) {
+  const invalidClass = invalid ? "border-destructive" : undefined;
+
+  if (schema.enum) {
+    const current = value ?? schema.default;
+    return (
+      <Select
+        value={current === undefined ? undefined : String(current)}
+        onValueChange={(v) => onChange(schema.enum!.find((option) => String(option) === v))}
+      >
+        <SelectTrigger id={id} className={invalidClass}>
+          <SelectValue placeholder="선택" />
+        </SelectTrigger>
+        <SelectContent>
+          {schema.enum.map((option) => (
+            <SelectItem key={String(option)} value={String(option)}>
+              {String(option)}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    );
+  }
+
+  if (schema.type === "array" && schema.items?.enum) {
+    const selected = (value as unknown[] | undefined) ?? [];
+    return (
+      <div id={id} className="flex flex-wrap gap-4">
+        {schema.items.enum.map((option) => {
+          const optionId = `${id}-${option}`;
+          return (
+            <div key={String(option)} className="flex items-center gap-2">
+              <Checkbox
+                id={optionId}
+                checked={selected.includes(option)}
+                onCheckedChange={(c) =>
+                  onChange(c === true ? [...selected, option] : selected.filter((s) => s !== option))
+                }
+              />
+              <Label htmlFor={optionId} className="font-normal">
+                {String(option)}
+              </Label>
+            </div>
+          );
+        })}
+      </div>
+    );
+  }
+
+  if (schema.type === "array") {
+    return (
+      <TagInput
+        id={id}
+        value={(value as string[] | undefined) ?? []}
+        onChange={onChange}
+        maxItems={schema.maxItems}
+        className={invalidClass}
+      />
+    );
+  }
+
+  if (schema.type === "number" || schema.type === "integer") {
+    return (
+      <Input
+        id={id}
+        type="number"
+        min={schema.minimum}
+        max={schema.maximum}
+        step={schema.type === "integer" ? 1 : "any"}
+        value={value === undefined ? "" : String(value)}
+        placeholder={schema.default !== undefined ? String(schema.default) : undefined}
+        onChange={(e) => {
+          if (e.target.value === "") return onChange(undefined);
+          onChange(schema.type === "integer" ? parseInt(e.target.value, 10) : Number(e.target.value));
+        }}
+        className={invalidClass}
+      />
+    );
+  }
+
+  if (schema.format === "r2-key") {
+    return <R2FilePicker id={id} value={value as string | undefined} onChange={onChange} className={invalidClass} />;
+  }
+
+  return (
+    <Input
+      id={id}
+      type={schema.format === "date" ? "date" : "text"}
+      maxLength={schema.maxLength}
+      value={(value as string | undefined) ?? ""}
+      placeholder={schema.default !== undefined ? String(schema.default) : undefined}
+      onChange={(e) => onChange(e.target.value)}
+      className={invalidClass}
+    />
+  );
+}
+
+function TagInput({
+  id,
+  value,
+  onChange,
+  maxItems,
+  className,
+}: {
+  id: string;
+  value: string[];
+  onChange: (value: string[]) => void;
+  maxItems?: number;
+  className?: string;
+}) {
+  const [draft, setDraft] = useState("");
+
+  function addTag() {
+    const tag = draft.trim();
+    setDraft("");
+    if (!tag || value.includes(tag)) return;
+    if (maxItems !== undefined && value.length >= maxItems) return;
+    onChange([...value, tag]);
+  }
+
+  return (
+    <div className="space-y-2">
+      <Input
+        id={id}
+        value={draft}
+        placeholder="입력 후 Enter"
+        onChange={(e) => setDraft(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === "Enter" || e.key === ",") {
+            e.preventDefault();
+            addTag();
+          } else if (e.key === "Backspace" && draft === "" && value.length > 0) {
+            onChange(value.slice(0, -1));
+          }
+        }}
+        onBlur={addTag}
+        className={className}
+      />
+      {value.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {value.map((tag) => (
+            <Badge key={tag} variant="secondary" className="gap-1">
+              {tag}
+              <button
+                type="button"
+                aria-label={`${tag} 삭제`}
+                onClick={() => onChange(value.filter((t) => t !== tag))}
+              >
+                <X className="h-3 w-3" />
+              </button>
+            </Badge>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function R2FilePicker({
+  id,
+  value,
+  onChange,
+  className,
+}: {
+  id: string;
+  value?: string;
+  onChange: (value: string) => void;
+  className?: string;
+}) {
+  const [files, setFiles] = useState<StorageFile[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    api
+      .get<{ files: StorageFile[] }>("/agents/files")
+      .then((res) => {
+        if (res.success && res.data) setFiles(res.data.files);
+      })
+      .finally(() => setLoading(false));
+  }, []);
+
+  // Keys are "users/{userId}/..."; show the part the user recognises
+  const displayName = (key: string) => key.split("/").slice(2).join("/") || key;
+
+  return (
+    <div className="space-y-2">
+      <Select value={value} onValueChange={onChange} disabled={loading}>
+        <SelectTrigger id={id} className={className}>
+          <SelectValue placeholder={loading ? "불러오는 중..." : files.length ? "파일 선택" : "업로드된 파일이 없습니다"} />
+        </SelectTrigger>
+        <SelectContent>
+          {files.map((file) => (
+            <SelectItem key={file.key} value={file.key}>
+              {displayName(file.key)}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <MediaUploader
+        onUploaded={(media) => {
+          setFiles((prev) => [
+            { key: media.key, size: media.sizeBytes, uploadedAt: media.completedAt ?? media.createdAt },
+            ...prev.filter((file) => file.key !== media.key),
+          ]);
+          onChange(media.key);
+        }}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,80 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { api, ApiError } from "@/lib/api";
+import type { AgentRun, RunEvent } from "@/types";
+
+const MAX_RETRY_DELAY_MS = 15_000;
+
+function sleep(ms: number, signal: AbortSignal) {
+  return new Promise<void>((resolve) => {
+    const timer = setTimeout(resolve, ms);
+    signal.addEventListener("abort", () => {
+      clearTimeout(timer);
+      resolve();
+    });
+  });
+}
+
+/**
+ * A run's progress log. While the run is active it is followed over SSE,
+ * reconnecting with backoff and resuming after the last received event id
+ * until a terminal event; `ended` flips once that stream is done. Finished
+ * runs, and runs awaiting approval, load the stored log instead.
+ */
+export function useRunEvents(runId: string, status: AgentRun["status"] | undefined) {
+  const [events, setEvents] = useState<RunEvent[]>([]);
+  const [ended, setEnded] = useState(false);
+  const active = status === "pending" || status === "running";
+  const finished = !!status && !active;
+
+  useEffect(() => {
+    if (!finished) return;
+    api.get<{ events: RunEvent[] }>(`/agents/runs/${runId}/events?format=json`).then((res) => {
+      if (res.success && res.data) setEvents(res.data.events);
+    });
+  }, [runId, finished]);
+
+  useEffect(() => {
+    if (!active) return;
+    setEnded(false);
+    const controller = new AbortController();
+    let lastEventId: string | undefined;
+    let done = false;
+    let attempt = 0;
+
+    async function follow() {
+      while (!done && !controller.signal.aborted) {
+        try {
+          await api.stream(
+            `/agents/runs/${runId}/events`,
+            (message) => {
+              attempt = 0;
+              if (message.id) lastEventId = message.id;
+              if (message.event === "end") {
+                done = true;
+                return;
+              }
+              const event = JSON.parse(message.data) as RunEvent;
+              setEvents((prev) => (prev.some((e) => e.seq === event.seq) ? prev : [...prev, event]));
+              if (event.type !== "progress") done = true;
+            },
+            { lastEventId, signal: controller.signal }
+          );
+        } catch (err) {
+          if (controller.signal.aborted) return;
+          // Not found / forbidden won't get better by retrying
+          if (err instanceof ApiError && err.status >= 400 && err.status < 500) break;
+          attempt++;
+        }
+        if (!done) await sleep(Math.min(1000 * 2 ** attempt, MAX_RETRY_DELAY_MS), controller.signal);
+      }
+      if (!controller.signal.aborted) setEnded(true);
+    }
+
+    follow();
+    return () => controller.abort();
+  }, [runId, active]);
+
+  return { events, ended };
+}
@@ -12,6 +12,29 @@ export class ApiError extends Error {
   }
 }
 
+export interface ServerSentEvent {
+  id?: string;
+  event: string;
+  data: string;
+}
+
+function parseSSEBlock(block: string): ServerSentEvent | null {
+  const event: ServerSentEvent = { event: "message", data: "" };
+  const data: string[] = [];
+  for (const line of block.split("\n")) {
+    if (line.startsWith(":")) continue;
+    const sep = line.indexOf(":");
+    const field = sep === -1 ? line : line.slice(0, sep);
+    const value = sep === -1 ? "" : line.slice(sep + 1).replace(/^ /, "");
+    if (field === "id") event.id = value;
+    else if (field === "event") event.event = value;
+    else if (field === "data") data.push(value);
+  }
+  if (data.length === 0) return null;
+  event.data = data.join("\n");
+  return event;
+}
+
 class ApiClient {
   private baseUrl: string;
 
@@ -101,6 +124,77 @@ class ApiClient {
   delete<T>(path: string, options?: RequestInit) {
     return this.request<T>(path, { ...options, method: "DELETE" });
   }
+
+  /** PUT raw bytes, e.g. one part of a media upload */
+  putBlob<T>(path: string, body: Blob, options?: RequestInit) {
+    return this.request<T>(path, {
+      ...options,
+      method: "PUT",
+      body,
+      headers: { "Content-Type": "application/octet-stream", ...options?.headers },
+    });
+  }
+
+  /**
+   * Fetch a file response with auth headers, e.g. a run export.
+   * Returns the body and the filename from Content-Disposition; throws ApiError on an error response.
+   */
+  async download(path: string): Promise<{ blob: Blob; filename: string | null }> {
+    const token = await this.getAuthToken();
+    const res = await fetch(`${this.baseUrl}${path}`, {
+      headers: token ? { Authorization: `Bearer ${token}` } : {},
+    });
+
+    if (!res.ok) {
+      const json = (await res.json().catch(() => null)) as ApiResponse<unknown> | null;
+      throw new ApiError(res.status, json?.error?.code ?? "UNKNOWN_ERROR", json?.error?.message ?? `HTTP ${res.status}`);
+    }
+
+    const disposition = res.headers.get("Content-Disposition") ?? "";
+    const filename = /filename="([^"]+)"/.exec(disposition)?.[1] ?? null;
+    return { blob: await res.blob(), filename };
+  }
+
+  /**
+   * Read a server-sent event stream with auth headers (which EventSource can't send).
+   * Resolves when the server closes the stream; throws ApiError on an error response.
+   */
+  async stream(
+    path: string,
+    onEvent: (event: ServerSentEvent) => void,
+    options: { lastEventId?: string; signal?: AbortSignal } = {}
+  ): Promise<void> {
+    const token = await this.getAuthToken();
+    const res = await fetch(`${this.baseUrl}${path}`, {
+      headers: {
+        Accept: "text/event-stream",
+        ...(token ? { Authorization: `Bearer ${token}` } : {}),
+        ...(options.lastEventId ? { "Last-Event-ID": options.lastEventId } : {}),
+      },
+      signal: options.signal,
+    });
+
+    if (!res.ok || !res.body) {
+      const json = (await res.json().catch(() => null)) as ApiResponse<unknown> | null;
+      throw new ApiError(res.status, json?.error?.code ?? "UNKNOWN_ERROR", json?.error?.message ?? `HTTP ${res.status}`);
+    }
+
+    const reader = res.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = "";
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true }).replace(/\r\n/g, "\n");
+      let boundary = buffer.indexOf("\n\n");
+      while (boundary !== -1) {
+        const event = parseSSEBlock(buffer.slice(0, boundary));
+        buffer = buffer.slice(boundary + 2);
+        if (event) onEvent(event);
+        boundary = buffer.indexOf("\n\n");
+      }
+    }
+  }
 }
 
 export const api = new ApiClient(API_BASE_URL);
@@ -60,7 +60,77 @@ export interface PaymentRecord {
 }
 
 // ========== Agents ==========
-export type AgentCategory = "content" | "visual" | "seo" | "localization";
+export type AgentCategory =
+  | "trend-research"
+  | "script-generator"
+  | "thumbnail-generator"
+  | "seo-optimizer"
+  | "cross-platform-poster"
+  | "analytics";
+
+export type JsonSchemaType = "object" | "array" | "string" | "number" | "integer" | "boolean";
+
+// Subset of JSON Schema declared by each agent for its params and config
+export interface JsonSchema {
+  type: JsonSchemaType;
+  title?: string;
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  items?: JsonSchema;
+  enum?: (string | number)[];
+  default?: unknown;
+  minimum?: number;
+  maximum?: number;
+  minLength?: number;
+  maxLength?: number;
+  minItems?: number;
+  maxItems?: number;
+  format?: string;
+}
+
+// Mirrors the backend ValidationError; `field` is a dotted path such as "youtube.accessToken"
+export interface FieldError {
+  field: string;
+  message: string;
+  code: string;
+}
+
+// An object in the user's R2 prefix, selectable for r2-key params
+export interface StorageFile {
+  key: string;
+  size: number;
+  uploadedAt: string;
+}
+
+// A video or image uploaded through /media/uploads
+export interface MediaItem {
+  id: string;
+  key: string;
+  filename: string;
+  contentType: string;
+  sizeBytes: number;
+  durationSeconds: number | null;
+  width: number | null;
+  height: number | null;
+  status: "uploading" | "ready" | "aborted";
+  createdAt: string;
+  completedAt: string | null;
+}
+
+export type ConnectionProvider = "google" | "meta";
+
+export interface ConnectedAccount {
+  provider: ConnectionProvider;
+  accountId: string;
+  accountName: string | null;
+  scopes: string[];
+  status: "active" | "expired";
+  lastError: string | null;
+  tokenExpiresAt: string | null;
+  connectedAt: string;
+  updatedAt: string;
+}
 
 export interface AgentTemplate {
   id: string;
@@ -68,15 +138,19 @@ export interface AgentTemplate {
   nameKo: string;
   description: string;
   descriptionKo: string;
-  category: string;
+  category: AgentCategory;
+  estimatedCredits: { min: number; max: number };
   estimatedCreditsPerRun: number;
-  configSchema: Record<string, unknown>;
+  paramsSchema: JsonSchema;
+  configSchema: JsonSchema;
 }
 
 export interface AgentConfig {
   id: string;
   agentTemplateId: string;
   templateName?: string;
+  paramsSchema?: JsonSchema | null;
+  configSchema?: JsonSchema | null;
   name: string;
   description?: string;
   configJson: Record<string, unknown>;
@@ -86,11 +160,23 @@ export interface AgentConfig {
   updatedAt?: string;
 }
 
+// One entry of a run's progress log, as sent by GET /agents/runs/:id/events
+export interface RunEvent {
+  seq: number;
+  type: "progress" | "complete" | "error";
+  stage: string;
+  message: string;
+  progress: number;
+  detail: Record<string, unknown> | null;
+  createdAt: string;
+}
+
 export interface AgentRun {
   id: string;
   agentConfigId: string;
   config?: AgentConfig;
-  status: "pending" | "running" | "completed" | "failed" | "cancelled";
+  /** awaiting_approval: held before publishing until approved or rejected */
+  status: "pending" | "awaiting_approval" | "running" | "completed" | "failed" | "cancelled";
   creditsReserved: number;
   creditsActual?: number;
   inputJson?: Record<string, unknown>;
@@ -99,15 +185,159 @@ export interface AgentRun {
   durationMs?: number;
   startedAt?: string;
   completedAt?: string;
+  cancelRequestedAt?: string | null;
+  attempts?: number;
+  /** Set when the run failed after exhausting its queue retries */
+  deadLetteredAt?: string | null;
+  pipelineRunId?: string | null;
+  scheduleId?: string | null;
+  /** The run this one re-ran or forked */
+  parentRunId?: string | null;
+  /** Set for runs held for approval before publishing */
+  approval?: RunApproval | null;
+  /** Formats the output can be downloaded as from /agents/runs/:id/export */
+  exportFormats?: string[];
   createdAt: string;
 }
 
+export interface RunApproval {
+  status: "pending" | "approved" | "rejected" | "expired";
+  /** What the run will publish; `data` is agent-specific */
+  preview: { data: Record<string, unknown>; summary: string } | null;
+  expiresAt: string | null;
+  decidedAt: string | null;
+}
+
+export interface ScriptSectionVersion {
+  label: string;
+  startTime?: string;
+  endTime?: string;
+  content: string;
+  visualDirection?: string;
+}
+
+export interface ThumbnailVersion {
+  key: string;
+  url?: string;
+  style?: string;
+  overlayText?: string;
+}
+
+// GET /agents/runs/compare: every per-run array is in the order the ids were given
+export interface RunComparison {
+  runs: {
+    id: string;
+    agentConfigId: string;
+    parentRunId: string | null;
+    status: AgentRun["status"];
+    summary: string | null;
+    creditsActual: number | null;
+    createdAt: string;
+  }[];
+  inputDiff: { field: string; values: unknown[] }[];
+  script: {
+    sections: { index: number; changed: boolean; versions: (ScriptSectionVersion | null)[] }[];
+    hooks: string[][];
+  } | null;
+  titles: {
+    versions: { title: string; score?: number }[][];
+    common: string[];
+    unique: string[][];
+  } | null;
+  hashtags: {
+    versions: string[][];
+    common: string[];
+    unique: string[][];
+  } | null;
+  thumbnails: { versions: ThumbnailVersion[][] } | null;
+}
+
+export interface AgentSchedule {
+  id: string;
+  agentConfigId: string;
+  /** 5-field cron expression, evaluated in `timezone` */
+  cronExpression: string;
+  timezone: string;
+  params: Record<string, unknown>;
+  enabled: boolean;
+  nextRunAt: string | null;
+  lastRunAt: string | null;
+  lastRunId: string | null;
+  consecutiveFailures: number;
+  /** Set when the scheduler paused the schedule itself */
+  pausedReason: "failures" | "insufficient_credits" | "config_inactive" | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface PipelineStepMapping {
+  /** Param on this step; dotted for nested params */
+  param: string;
+  fromStep: string;
+  /** Path into the source step's output data, e.g. "youtube.trendingTopics[0].topic" */
+  field: string;
+}
+
+export interface PipelineStep {
+  id: string;
+  agentConfigId: string;
+  params?: Record<string, unknown>;
+  mappings?: PipelineStepMapping[];
+}
+
+export interface Pipeline {
+  id: string;
+  name: string;
+  description: string;
+  steps: PipelineStep[];
+  status: "active" | "archived";
+  /** Credits a run reserves up front; null when a step's config is no longer runnable */
+  estimatedCredits?: number | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface PipelineRun {
+  id: string;
+  pipelineId: string;
+  status: AgentRun["status"];
+  currentStep: number;
+  creditsReserved: number;
+  creditsActual: number;
+  errorMessage: string | null;
+  params?: Record<string, Record<string, unknown>>;
+  startedAt: string | null;
+  completedAt: string | null;
+  createdAt: string;
+}
+
+export interface PipelineRunStep {
+  index: number;
+  id: string;
+  agentConfigId: string;
+  mappings: PipelineStepMapping[];
+  status: AgentRun["status"];
+  /** The step's agent run is waiting for approval */
+  awaitingApproval: boolean;
+  agentRunId: string | null;
+  creditsActual: number | null;
+  errorMessage: string | null;
+  summary: string | null;
+  startedAt: string | null;
+  completedAt: string | null;
+}
+
 export interface UsageLog {
   id: string;
   resourceType: string;
   resourceDetail: string;
   quantity: number;
   creditCost: number;
+  /** LLM call answered from the prompt cache, at no charge */
+  cached?: boolean;
+  /** Model the LLM call was routed to first, when a fallback model served it */
+  fallbackFrom?: string | null;
+  fallbackReason?: string | null;
   createdAt: string;
 }
 
@@ -118,6 +348,7 @@ export interface ApiResponse<T> {
   error?: {
     code: string;
     message: string;
+    details?: unknown;
   };
   meta?: {
     page: number;